@@ -0,0 +1,193 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Landmark } from '@magiclane/maps-sdk';
+import { debounce } from '../../shared';
+
+export interface AddressFieldOptions {
+  label: string;
+  placeholder: string;
+  search: (text: string) => Promise<Landmark[]>;
+  onSelect: (landmark: Landmark | null) => void;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+/**
+ * Text field that suggests landmarks while typing. Only a suggestion picked from the
+ * list counts as a value, so the field always holds a validated address part.
+ * Arrow keys move through the suggestions, Enter picks one and Escape closes the list.
+ */
+export class AddressField {
+  readonly element: HTMLDivElement;
+  private readonly input: HTMLInputElement;
+  private readonly list: HTMLDivElement;
+  private readonly label: HTMLLabelElement;
+  private suggestions: Landmark[] = [];
+  private activeIndex = -1;
+  private selectedLandmark: Landmark | null = null;
+  // Results of an older search are dropped when they arrive after a newer one
+  private searchId = 0;
+
+  constructor(private readonly options: AddressFieldOptions) {
+    this.element = document.createElement('div');
+    this.element.style.cssText = `position: relative; display: flex; flex-direction: column; gap: 4px;`;
+
+    this.label = document.createElement('label');
+    this.label.style.cssText = `font-size: 12px; font-weight: 600; color: #555;`;
+    this.label.textContent = options.label;
+    this.element.appendChild(this.label);
+
+    this.input = document.createElement('input');
+    this.input.type = 'text';
+    this.input.placeholder = options.placeholder;
+    this.input.autocomplete = 'off';
+    this.input.style.cssText = `
+      padding: 10px 12px; border-radius: 10px; border: 1px solid #ddd;
+      font-size: 14px; outline: none; background: #fff;
+    `;
+    this.element.appendChild(this.input);
+
+    this.list = document.createElement('div');
+    this.list.setAttribute('role', 'listbox');
+    this.list.style.cssText = `
+      position: absolute; top: 100%; left: 0; right: 0; z-index: 10;
+      background: #fff; border-radius: 10px; box-shadow: 0 6px 20px rgba(0,0,0,0.15);
+      max-height: 220px; overflow-y: auto; display: none; margin-top: 4px;
+    `;
+    this.element.appendChild(this.list);
+
+    const runSearch = debounce(() => this.search(), SEARCH_DELAY_MS);
+    this.input.addEventListener('input', () => {
+      this.setSelected(null);
+      runSearch();
+    });
+    this.input.addEventListener('keydown', (event) => this.onKeyDown(event));
+    // Let a click on a suggestion land before the list closes
+    this.input.addEventListener('blur', () => setTimeout(() => this.closeList(), 150));
+  }
+
+  get value(): Landmark | null {
+    return this.selectedLandmark;
+  }
+
+  setLabel(label: string, placeholder: string) {
+    this.label.textContent = label;
+    this.input.placeholder = placeholder;
+  }
+
+  setEnabled(enabled: boolean) {
+    this.input.disabled = !enabled;
+    this.input.style.background = enabled ? '#fff' : '#f2f2f2';
+    if (!enabled) this.clear();
+  }
+
+  clear() {
+    this.searchId++;
+    this.input.value = '';
+    this.selectedLandmark = null;
+    this.input.style.borderColor = '#ddd';
+    this.closeList();
+  }
+
+  focus() {
+    this.input.focus();
+  }
+
+  private setSelected(landmark: Landmark | null) {
+    if (landmark === this.selectedLandmark) return;
+    this.selectedLandmark = landmark;
+    this.input.style.borderColor = landmark ? '#4caf50' : '#ddd';
+    this.options.onSelect(landmark);
+  }
+
+  private async search() {
+    const text = this.input.value.trim();
+    const id = ++this.searchId;
+    if (!text) {
+      this.closeList();
+      return;
+    }
+    const results = await this.options.search(text);
+    if (id !== this.searchId) return;
+    this.suggestions = results;
+    this.activeIndex = results.length > 0 ? 0 : -1;
+    this.renderList();
+  }
+
+  private pick(index: number) {
+    const landmark = this.suggestions[index];
+    if (!landmark) return;
+    this.searchId++;
+    this.input.value = landmark.name;
+    this.closeList();
+    this.setSelected(landmark);
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    const open = this.list.style.display !== 'none';
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (!open || this.suggestions.length === 0) return;
+        event.preventDefault();
+        this.activeIndex =
+          (this.activeIndex + (event.key === 'ArrowDown' ? 1 : -1) + this.suggestions.length) %
+          this.suggestions.length;
+        this.updateActiveItem();
+        break;
+      case 'Enter':
+        if (!open || this.activeIndex === -1) return;
+        event.preventDefault();
+        this.pick(this.activeIndex);
+        break;
+      case 'Escape':
+        this.closeList();
+        break;
+    }
+  }
+
+  private closeList() {
+    this.list.style.display = 'none';
+    this.suggestions = [];
+    this.activeIndex = -1;
+  }
+
+  private renderList() {
+    this.list.innerHTML = '';
+    if (this.suggestions.length === 0) {
+      this.list.innerHTML = `<div style="padding: 10px 12px; font-size: 13px; color: #888;">No matches</div>`;
+      this.list.style.display = 'block';
+      return;
+    }
+
+    this.suggestions.forEach((landmark, index) => {
+      const item = document.createElement('div');
+      item.setAttribute('role', 'option');
+      item.textContent = landmark.name;
+      item.style.cssText = `padding: 10px 12px; font-size: 14px; cursor: pointer; color: #222;`;
+      item.onmouseenter = () => {
+        this.activeIndex = index;
+        this.updateActiveItem();
+      };
+      // mousedown fires before the input loses focus
+      item.onmousedown = (event) => {
+        event.preventDefault();
+        this.pick(index);
+      };
+      this.list.appendChild(item);
+    });
+    this.list.style.display = 'block';
+    this.updateActiveItem();
+  }
+
+  private updateActiveItem() {
+    Array.from(this.list.children).forEach((item, index) => {
+      (item as HTMLElement).style.background =
+        index === this.activeIndex ? '#e3f2fd' : 'transparent';
+    });
+    this.list.children[this.activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }
+}
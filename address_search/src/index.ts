@@ -15,9 +15,30 @@ import {
   GuidedAddressSearchService,
   GemAnimation,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage } from '../../shared';
+import { GEMKIT_TOKEN, ICONS, showMessage, formatCoordinates } from '../../shared';
+import { AddressField } from './addressField';
+
+// ISO 3166-1 alpha-3 codes offered by the country picker
+const COUNTRY_CODES = (
+  'AUT BEL BGR CAN CHE CZE DEU DNK ESP FIN FRA GBR GRC HRV ' +
+  'HUN IRL ITA LUX NLD NOR POL PRT ROU SVK SVN SWE USA'
+).split(' ');
+const DEFAULT_COUNTRY = 'ESP';
+
+// Suggestions shown per field
+const MAX_SUGGESTIONS = 8;
+
+type AreaLevel = 'city' | 'postalCode';
 
 let map: GemMap | null = null;
+let country: Landmark | null = null;
+let areaLevel: AreaLevel = 'city';
+
+let areaField: AddressField;
+let streetField: AddressField;
+let houseNumberField: AddressField;
+let areaLevelSelect: HTMLSelectElement;
+let summaryDiv: HTMLDivElement;
 
 // Address search helper
 function searchAddress({
@@ -28,21 +49,17 @@ function searchAddress({
   landmark: Landmark;
   detailLevel: AddressDetailLevel;
   text: string;
-}): Promise<Landmark | null> {
+}): Promise<Landmark[]> {
   return new Promise((resolve) => {
     GuidedAddressSearchService.search(
       text,
       landmark,
       detailLevel,
       (err: GemError, results: Landmark[]) => {
-        if (
-          (err !== GemError.success && err !== GemError.reducedResult) ||
-          !results ||
-          results.length === 0
-        ) {
-          resolve(null);
+        if ((err !== GemError.success && err !== GemError.reducedResult) || !results) {
+          resolve([]);
         } else {
-          resolve(results[0]);
+          resolve(results.slice(0, MAX_SUGGESTIONS));
         }
       }
     );
@@ -57,44 +74,164 @@ function presentLandmark(landmark: Landmark) {
   map.centerOnCoordinates(landmark.coordinates, { zoomLevel: 50, animation: animation });
 }
 
-// Main search logic
-async function onSearchButtonPressed() {
-  showMessage('Search is in progress...');
+// Postal codes can only be searched where the country has them as an address level
+function supportsPostalCodes(countryLandmark: Landmark): boolean {
+  const levels: AddressDetailLevel[] =
+    GuidedAddressSearchService.getNextAddressDetailLevel(countryLandmark) ?? [];
+  return levels.includes(AddressDetailLevel.postalCode);
+}
+
+function setAreaLevel(level: AreaLevel) {
+  areaLevel = level;
+  areaLevelSelect.value = level;
+  if (level === 'city') areaField.setLabel('City', 'e.g. Barcelona');
+  else areaField.setLabel('Postal code', 'e.g. 08013');
+  areaField.clear();
+  onAddressChanged();
+}
+
+function onCountryChanged(code: string) {
+  country = GuidedAddressSearchService.getCountryLevelItem(code);
+  if (!country) showMessage('Country not found.');
+  const postalCodes = !!country && supportsPostalCodes(country);
+  areaLevelSelect.style.display = postalCodes ? 'block' : 'none';
+  setAreaLevel('city');
+}
+
+// Each field is searched within the part chosen above it, so a change clears the parts below
+function onAddressChanged() {
+  areaField.setEnabled(!!country);
+  if (!areaField.value) streetField.setEnabled(false);
+  else streetField.setEnabled(true);
+  if (!streetField.value) houseNumberField.setEnabled(false);
+  else houseNumberField.setEnabled(true);
+  updateSummary();
+}
+
+function updateSummary() {
+  map?.deactivateAllHighlights();
+  const houseNumber = houseNumberField.value;
+  if (!country || !areaField.value || !streetField.value || !houseNumber) {
+    summaryDiv.style.display = 'none';
+    return;
+  }
+
+  presentLandmark(houseNumber);
+  const { latitude, longitude } = houseNumber.coordinates;
+  summaryDiv.style.display = 'block';
+  summaryDiv.innerHTML = `
+    <div style="display: flex; align-items: center; gap: 6px; font-weight: 700; color: #2e7d32; margin-bottom: 6px;">${ICONS.check} Validated address</div>
+    <div>${streetField.value.name} ${houseNumber.name}</div>
+    <div>${areaField.value.name}</div>
+    <div>${country.name}</div>
+    <div style="color: #888; font-size: 12px; margin-top: 4px;">${formatCoordinates(latitude, longitude)}</div>
+  `;
+}
+
+function createAddressForm() {
+  const panel = document.createElement('div');
+  panel.style.cssText = `
+    position: fixed;
+    top: 20px;
+    left: 20px;
+    width: 320px;
+    background: rgba(255, 255, 255, 0.97);
+    border-radius: 16px;
+    box-shadow: 0 8px 30px rgba(0,0,0,0.15);
+    padding: 16px;
+    z-index: 1000;
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+    font-size: 14px;
+    color: #333;
+  `;
 
-  // 1. Country: Spain
-  const countryLandmark = GuidedAddressSearchService.getCountryLevelItem('ESP');
-  if (!countryLandmark) return showMessage('Country not found.');
-  console.log('Country:', countryLandmark.name);
+  const title = document.createElement('div');
+  title.style.cssText = `display: flex; align-items: center; gap: 6px; font-size: 16px; font-weight: 700; color: #111;`;
+  title.innerHTML = `${ICONS.location} Address`;
+  panel.appendChild(title);
 
-  // 2. City: Barcelona
-  const cityLandmark = await searchAddress({
-    landmark: countryLandmark,
-    detailLevel: AddressDetailLevel.city,
-    text: 'Barcelona',
+  // Country picker
+  const countryWrapper = document.createElement('div');
+  countryWrapper.style.cssText = `display: flex; flex-direction: column; gap: 4px;`;
+  countryWrapper.innerHTML = `<label style="font-size: 12px; font-weight: 600; color: #555;">Country</label>`;
+  const countrySelect = document.createElement('select');
+  countrySelect.style.cssText = `padding: 10px 12px; border-radius: 10px; border: 1px solid #ddd; font-size: 14px; background: #fff;`;
+  COUNTRY_CODES.map((code) => ({
+    code,
+    name: GuidedAddressSearchService.getCountryLevelItem(code)?.name,
+  }))
+    .filter((item): item is { code: string; name: string } => !!item.name)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(({ code, name }) => {
+      const option = document.createElement('option');
+      option.value = code;
+      option.textContent = name;
+      countrySelect.appendChild(option);
+    });
+  countrySelect.value = DEFAULT_COUNTRY;
+  countrySelect.onchange = () => onCountryChanged(countrySelect.value);
+  countryWrapper.appendChild(countrySelect);
+  panel.appendChild(countryWrapper);
+
+  // City or postal code
+  areaLevelSelect = document.createElement('select');
+  areaLevelSelect.style.cssText = `padding: 6px 8px; border-radius: 8px; border: 1px solid #ddd; font-size: 12px; align-self: flex-start;`;
+  areaLevelSelect.innerHTML = `<option value="city">Search by city</option><option value="postalCode">Search by postal code</option>`;
+  areaLevelSelect.onchange = () => setAreaLevel(areaLevelSelect.value as AreaLevel);
+  panel.appendChild(areaLevelSelect);
+
+  areaField = new AddressField({
+    label: 'City',
+    placeholder: 'e.g. Barcelona',
+    search: (text) =>
+      searchAddress({
+        landmark: country!,
+        detailLevel: areaLevel === 'city' ? AddressDetailLevel.city : AddressDetailLevel.postalCode,
+        text,
+      }),
+    onSelect: () => {
+      streetField.clear();
+      onAddressChanged();
+      if (areaField.value) streetField.focus();
+    },
   });
-  if (!cityLandmark) return showMessage('City not found.');
-  console.log('City:', cityLandmark.name);
-
-  // 3. Street: Carrer de Mallorca
-  const streetLandmark = await searchAddress({
-    landmark: cityLandmark,
-    detailLevel: AddressDetailLevel.street,
-    text: 'Carrer de Mallorca',
+  panel.appendChild(areaField.element);
+
+  streetField = new AddressField({
+    label: 'Street',
+    placeholder: 'e.g. Carrer de Mallorca',
+    search: (text) =>
+      searchAddress({ landmark: areaField.value!, detailLevel: AddressDetailLevel.street, text }),
+    onSelect: () => {
+      houseNumberField.clear();
+      onAddressChanged();
+      if (streetField.value) houseNumberField.focus();
+    },
   });
-  if (!streetLandmark) return showMessage('Street not found.');
-  console.log('Street:', streetLandmark.name);
-
-  // 4. House number: 401
-  const houseNumberLandmark = await searchAddress({
-    landmark: streetLandmark,
-    detailLevel: AddressDetailLevel.houseNumber,
-    text: '401',
+  panel.appendChild(streetField.element);
+
+  houseNumberField = new AddressField({
+    label: 'House number',
+    placeholder: 'e.g. 401',
+    search: (text) =>
+      searchAddress({
+        landmark: streetField.value!,
+        detailLevel: AddressDetailLevel.houseNumber,
+        text,
+      }),
+    onSelect: () => updateSummary(),
   });
-  if (!houseNumberLandmark) return showMessage('House number not found.');
-  console.log('House number:', houseNumberLandmark.name);
+  panel.appendChild(houseNumberField.element);
+
+  summaryDiv = document.createElement('div');
+  summaryDiv.style.cssText = `display: none; padding: 12px; border-radius: 12px; background: #f1f8e9; line-height: 1.5;`;
+  panel.appendChild(summaryDiv);
 
-  presentLandmark(houseNumberLandmark);
-  showMessage('Search complete!');
+  document.body.appendChild(panel);
+  onCountryChanged(DEFAULT_COUNTRY);
 }
 
 // Map setup
@@ -119,10 +256,5 @@ window.addEventListener('DOMContentLoaded', async () => {
   });
   if (wrapper) container.appendChild(wrapper);
 
-  // Add search button
-  const searchBtn = document.createElement('button');
-  searchBtn.textContent = 'Search Address';
-  searchBtn.className = 'gem-button gem-button-primary gem-button-center';
-  searchBtn.onclick = onSearchButtonPressed;
-  document.body.appendChild(searchBtn);
+  createAddressForm();
 });
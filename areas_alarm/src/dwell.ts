@@ -0,0 +1,181 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { escapeCsv } from '../../shared';
+import { BoundaryEvent } from './geofences';
+
+// One stay inside an area, from an enter event to the matching exit event
+export interface DwellVisit {
+  area: string;
+  enteredAt: number;
+  exitedAt: number | null; // null while still inside
+  // False when the trip started inside the area or ended before leaving it
+  complete: boolean;
+}
+
+export interface AreaDwellSummary {
+  area: string;
+  visits: number;
+  totalDwell: number; // ms
+  longestDwell: number; // ms
+  overThreshold: boolean;
+}
+
+export interface TripDwellReport {
+  startTime: number;
+  finishTime: number;
+  threshold: number; // ms
+  areas: AreaDwellSummary[];
+  visits: DwellVisit[];
+}
+
+// Columns exported to CSV, in order
+const CSV_COLUMNS: Array<keyof AreaDwellSummary> = [
+  'area',
+  'visits',
+  'totalDwell',
+  'longestDwell',
+  'overThreshold',
+];
+
+export function getVisitDuration(visit: DwellVisit, now: number): number {
+  return (visit.exitedAt ?? now) - visit.enteredAt;
+}
+
+// Duration as m:ss, or h:mm:ss past an hour
+export function formatDwell(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = `${totalSeconds % 60}`.padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${`${minutes}`.padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Pairs the enter and exit events of each area into visits
+ * and sums up how long the vehicle stayed inside, for one trip.
+ */
+export class DwellTracker {
+  private visits: DwellVisit[] = [];
+  private finishTime: number | null = null;
+
+  constructor(
+    private startTime: number,
+    public threshold: number // ms
+  ) {}
+
+  get isFinished(): boolean {
+    return this.finishTime !== null;
+  }
+
+  record(event: BoundaryEvent) {
+    if (this.finishTime !== null) return;
+
+    const open = this.getOpenVisit(event.area);
+    if (event.type === 'enter') {
+      if (!open) {
+        this.visits.push({
+          area: event.area,
+          enteredAt: event.timestamp,
+          exitedAt: null,
+          complete: true,
+        });
+      }
+    } else if (open) {
+      open.exitedAt = event.timestamp;
+    } else {
+      // Leaving an area without entering it: the trip started inside
+      this.visits.push({
+        area: event.area,
+        enteredAt: this.startTime,
+        exitedAt: event.timestamp,
+        complete: false,
+      });
+    }
+  }
+
+  // Close the visits still in progress at the end of the trip
+  finish(timestamp: number) {
+    if (this.finishTime !== null) return;
+    this.visits.forEach((visit) => {
+      if (visit.exitedAt === null) {
+        visit.exitedAt = timestamp;
+        visit.complete = false;
+      }
+    });
+    this.finishTime = timestamp;
+  }
+
+  getOpenVisit(area: string): DwellVisit | undefined {
+    return this.visits.find((v) => v.area === area && v.exitedAt === null);
+  }
+
+  // Visits in progress that have lasted longer than the threshold
+  getOverstays(now: number): DwellVisit[] {
+    return this.visits.filter(
+      (v) => v.exitedAt === null && getVisitDuration(v, now) > this.threshold
+    );
+  }
+
+  getReport(now = Date.now()): TripDwellReport {
+    const finishTime = this.finishTime ?? now;
+    const summaries = new Map<string, AreaDwellSummary>();
+
+    this.visits.forEach((visit) => {
+      const duration = getVisitDuration(visit, finishTime);
+      const summary = summaries.get(visit.area) ?? {
+        area: visit.area,
+        visits: 0,
+        totalDwell: 0,
+        longestDwell: 0,
+        overThreshold: false,
+      };
+      summary.visits++;
+      summary.totalDwell += duration;
+      summary.longestDwell = Math.max(summary.longestDwell, duration);
+      summary.overThreshold = summary.longestDwell > this.threshold;
+      summaries.set(visit.area, summary);
+    });
+
+    return {
+      startTime: this.startTime,
+      finishTime,
+      threshold: this.threshold,
+      areas: [...summaries.values()].sort((a, b) => b.totalDwell - a.totalDwell),
+      visits: this.visits.map((v) => ({ ...v })),
+    };
+  }
+}
+
+// Durations are exported in seconds
+export function dwellReportToCsv(report: TripDwellReport): string {
+  const header = CSV_COLUMNS.map((column) =>
+    column === 'totalDwell' || column === 'longestDwell' ? `${column}Seconds` : column
+  );
+  const rows = report.areas.map((summary) =>
+    CSV_COLUMNS.map((column) => {
+      const value = summary[column];
+      if (column === 'totalDwell' || column === 'longestDwell') {
+        return `${Math.round((value as number) / 1000)}`;
+      }
+      return escapeCsv(`${value}`);
+    }).join(',')
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function dwellReportToJson(report: TripDwellReport): string {
+  return JSON.stringify(
+    {
+      ...report,
+      startTime: new Date(report.startTime).toISOString(),
+      finishTime: new Date(report.finishTime).toISOString(),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,266 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  Coordinates,
+  GeographicArea,
+  CircleGeographicArea,
+  RectangleGeographicArea,
+  PolygonGeographicArea,
+} from '@magiclane/maps-sdk';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export type GeofenceShape =
+  | { type: 'circle'; center: LatLng; radius: number }
+  | { type: 'rectangle'; topLeft: LatLng; bottomRight: LatLng }
+  | { type: 'polygon'; coordinates: LatLng[] };
+
+// A named area; the name is the id reported by the alarm service
+export interface Geofence {
+  name: string;
+  shape: GeofenceShape;
+}
+
+export interface BoundaryEvent {
+  timestamp: number;
+  area: string;
+  type: 'enter' | 'exit';
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+// Great-circle distance in meters
+export function getDistance(from: LatLng, to: LatLng): number {
+  const lat1 = (from.latitude * Math.PI) / 180;
+  const lat2 = (to.latitude * Math.PI) / 180;
+  const dLat = lat2 - lat1;
+  const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+// Method for generating coordinates in a circle shape
+function generateCircleCoordinates(
+  center: LatLng,
+  radiusMeters: number,
+  numberOfPoints = 36
+): LatLng[] {
+  const centerLatRad = (center.latitude * Math.PI) / 180;
+  const centerLonRad = (center.longitude * Math.PI) / 180;
+
+  const coordinates: LatLng[] = [];
+
+  for (let i = 0; i < numberOfPoints; i++) {
+    const angle = (2 * Math.PI * i) / numberOfPoints;
+    const deltaLat = (radiusMeters / EARTH_RADIUS_M) * Math.cos(angle);
+    const deltaLon = (radiusMeters / (EARTH_RADIUS_M * Math.cos(centerLatRad))) * Math.sin(angle);
+
+    coordinates.push({
+      latitude: ((centerLatRad + deltaLat) * 180) / Math.PI,
+      longitude: ((centerLonRad + deltaLon) * 180) / Math.PI,
+    });
+  }
+
+  return coordinates;
+}
+
+// Build a rectangle from any two opposite corners
+export function createRectangle(a: LatLng, b: LatLng): GeofenceShape {
+  return {
+    type: 'rectangle',
+    topLeft: {
+      latitude: Math.max(a.latitude, b.latitude),
+      longitude: Math.min(a.longitude, b.longitude),
+    },
+    bottomRight: {
+      latitude: Math.min(a.latitude, b.latitude),
+      longitude: Math.max(a.longitude, b.longitude),
+    },
+  };
+}
+
+// Outline of the shape, used to draw it as a polygon marker
+export function getOutline(shape: GeofenceShape): LatLng[] {
+  switch (shape.type) {
+    case 'circle':
+      return generateCircleCoordinates(shape.center, shape.radius);
+    case 'rectangle':
+      return [
+        shape.topLeft,
+        { latitude: shape.topLeft.latitude, longitude: shape.bottomRight.longitude },
+        shape.bottomRight,
+        { latitude: shape.bottomRight.latitude, longitude: shape.topLeft.longitude },
+      ];
+    case 'polygon':
+      return shape.coordinates;
+  }
+}
+
+function toCoordinates(point: LatLng): Coordinates {
+  return new Coordinates({ latitude: point.latitude, longitude: point.longitude });
+}
+
+// Area passed to AlarmService.monitorArea
+export function toGeographicArea(shape: GeofenceShape): GeographicArea {
+  switch (shape.type) {
+    case 'circle':
+      return new CircleGeographicArea({
+        radius: shape.radius,
+        centerCoordinates: toCoordinates(shape.center),
+      });
+    case 'rectangle':
+      return new RectangleGeographicArea({
+        topLeft: toCoordinates(shape.topLeft),
+        bottomRight: toCoordinates(shape.bottomRight),
+      });
+    case 'polygon':
+      return new PolygonGeographicArea({ coordinates: shape.coordinates.map(toCoordinates) });
+  }
+}
+
+export function describeShape(shape: GeofenceShape): string {
+  switch (shape.type) {
+    case 'circle':
+      return `Circle, ${Math.round(shape.radius)} m radius`;
+    case 'rectangle':
+      return 'Rectangle';
+    case 'polygon':
+      return `Polygon, ${shape.coordinates.length} points`;
+  }
+}
+
+// --- GeoJSON ---
+
+type Position = [number, number];
+
+interface Feature {
+  type: 'Feature';
+  properties: Record<string, unknown> | null;
+  geometry: { type: string; coordinates: unknown } | null;
+}
+
+function toPosition(point: LatLng): Position {
+  return [point.longitude, point.latitude];
+}
+
+function fromPosition(position: unknown): LatLng {
+  if (
+    !Array.isArray(position) ||
+    typeof position[0] !== 'number' ||
+    typeof position[1] !== 'number'
+  ) {
+    throw new Error('Invalid coordinate.');
+  }
+  return { latitude: position[1], longitude: position[0] };
+}
+
+// GeoJSON has no circles: they are exported as points with a radius property
+export function geofencesToGeoJson(geofences: Geofence[]): string {
+  const features: Feature[] = geofences.map(({ name, shape }) => {
+    if (shape.type === 'circle') {
+      return {
+        type: 'Feature',
+        properties: { name, shape: 'circle', radius: shape.radius },
+        geometry: { type: 'Point', coordinates: toPosition(shape.center) },
+      };
+    }
+    // Polygon rings are closed, the first position is repeated at the end
+    const ring = getOutline(shape).map(toPosition);
+    ring.push(ring[0]);
+    return {
+      type: 'Feature',
+      properties: { name, shape: shape.type },
+      geometry: { type: 'Polygon', coordinates: [ring] },
+    };
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+function parseRing(ring: unknown): LatLng[] {
+  if (!Array.isArray(ring)) throw new Error('Invalid polygon.');
+  const points = ring.map(fromPosition);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.latitude === last.latitude && first.longitude === last.longitude) {
+    points.pop();
+  }
+  if (points.length < 3) throw new Error('A polygon needs at least 3 points.');
+  return points;
+}
+
+function polygonToShape(ring: LatLng[], isRectangle: boolean): GeofenceShape {
+  if (isRectangle) {
+    const latitudes = ring.map((p) => p.latitude);
+    const longitudes = ring.map((p) => p.longitude);
+    return createRectangle(
+      { latitude: Math.max(...latitudes), longitude: Math.min(...longitudes) },
+      { latitude: Math.min(...latitudes), longitude: Math.max(...longitudes) }
+    );
+  }
+  return { type: 'polygon', coordinates: ring };
+}
+
+function isFeature(value: unknown): value is Feature {
+  return typeof value === 'object' && value !== null && (value as Feature).type === 'Feature';
+}
+
+/**
+ * Parse areas from a GeoJSON FeatureCollection, Feature or geometry.
+ * Supports Polygon and MultiPolygon (outer rings only) and Point features with a radius.
+ */
+export function parseGeofencesGeoJson(json: string): Geofence[] {
+  const data: unknown = JSON.parse(json);
+  if (typeof data !== 'object' || data === null) throw new Error('Invalid GeoJSON.');
+
+  let features: Feature[];
+  const collection = data as { type?: string; features?: unknown[] };
+  if (collection.type === 'FeatureCollection' && Array.isArray(collection.features)) {
+    features = collection.features.filter(isFeature);
+  } else if (isFeature(data)) {
+    features = [data];
+  } else {
+    features = [{ type: 'Feature', properties: null, geometry: data as Feature['geometry'] }];
+  }
+
+  const geofences: Geofence[] = [];
+  features.forEach((feature, index) => {
+    const properties = feature.properties ?? {};
+    const baseName =
+      typeof properties.name === 'string' && properties.name.trim()
+        ? properties.name.trim()
+        : `Area ${index + 1}`;
+    const geometry = feature.geometry;
+    if (!geometry) return;
+
+    if (geometry.type === 'Point') {
+      const radius = Number(properties.radius);
+      if (!(radius > 0)) throw new Error(`${baseName}: points need a radius property.`);
+      geofences.push({
+        name: baseName,
+        shape: { type: 'circle', center: fromPosition(geometry.coordinates), radius },
+      });
+    } else if (geometry.type === 'Polygon') {
+      const rings = geometry.coordinates as unknown[];
+      geofences.push({
+        name: baseName,
+        shape: polygonToShape(parseRing(rings[0]), properties.shape === 'rectangle'),
+      });
+    } else if (geometry.type === 'MultiPolygon') {
+      const polygons = geometry.coordinates as unknown[][];
+      polygons.forEach((rings, i) => {
+        geofences.push({
+          name: polygons.length > 1 ? `${baseName} ${i + 1}` : baseName,
+          shape: polygonToShape(parseRing(rings[0]), false),
+        });
+      });
+    }
+  });
+  return geofences;
+}
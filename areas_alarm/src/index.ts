@@ -19,64 +19,106 @@ import {
   MarkerCollectionRenderSettings,
   AlarmService,
   AlarmListener,
-  CircleGeographicArea,
-  TaskHandler,
-  Route,
+  RectangleGeographicArea,
+  ScreenPosition,
   ColorExtension,
   Color,
   GemAnimation,
   AnimationType,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  ICONS,
+  showMessage,
+  calculateRouteAsync,
+  RoutingError,
+  downloadFile,
+  pickTextFile,
+  NavigationSession,
+} from '../../shared';
+import {
+  LatLng,
+  Geofence,
+  GeofenceShape,
+  BoundaryEvent,
+  getDistance,
+  createRectangle,
+  getOutline,
+  toGeographicArea,
+  describeShape,
+  geofencesToGeoJson,
+  parseGeofencesGeoJson,
+} from './geofences';
+import {
+  DwellTracker,
+  DwellVisit,
+  formatDwell,
+  dwellReportToCsv,
+  dwellReportToJson,
+} from './dwell';
+
+type DrawTool = 'circle' | 'rectangle' | 'polygon';
+
+const DRAW_TOOL_LABELS: Record<DrawTool, string> = {
+  circle: 'Circle',
+  rectangle: 'Rectangle',
+  polygon: `${ICONS.polygon} Polygon`,
+};
+
+const DRAW_HINTS: Record<DrawTool, string> = {
+  circle: 'Tap the center, then a point on the edge',
+  rectangle: 'Tap two opposite corners',
+  polygon: 'Tap the corners, then press Finish',
+};
 
 let map: GemMap | null = null;
 
 // Application state
 let areRoutesBuilt = false;
-let isSimulationActive = false;
-let routingHandler: TaskHandler | null = null;
-let navigationHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
+const navigation = new NavigationSession({ NavigationService });
+navigation.on('instruction', () => updateUI());
+navigation.on('destinationReached', () => stopSimulation());
+navigation.on('error', () => stopSimulation());
 let alarmService: AlarmService | null = null;
 let alarmListener: AlarmListener | null = null;
 let areaNotification: string | null = null;
 
+// Geofence editor state
+let geofences: Geofence[] = [
+  {
+    name: 'Test area',
+    shape: { type: 'circle', center: { latitude: 50.92396, longitude: 9.54976 }, radius: 200 },
+  },
+];
+let drawTool: DrawTool | null = null;
+let draftPoints: LatLng[] = [];
+let boundaryEvents: BoundaryEvent[] = [];
+
+// Dwell time state
+let dwellThreshold = 60; // seconds
+let dwellTracker: DwellTracker | null = null; // kept after the trip for its summary
+let dwellTimer: number | undefined;
+let notifiedOverstays = new Set<DwellVisit>();
+
 // UI Elements
 let buildRouteBtn: HTMLButtonElement;
 let startSimBtn: HTMLButtonElement;
 let stopSimBtn: HTMLButtonElement;
 let alarmPanel: HTMLDivElement;
-
-// Method for generating coordinates in a circle shape
-function generateCircleCoordinates(
-  center: Coordinates,
-  radiusMeters: number,
-  numberOfPoints = 36
-): Coordinates[] {
-  const earthRadius = 6371000; // in meters
-  const centerLatRad = (center.latitude * Math.PI) / 180;
-  const centerLonRad = (center.longitude * Math.PI) / 180;
-
-  const coordinates: Coordinates[] = [];
-
-  for (let i = 0; i < numberOfPoints; i++) {
-    const angle = (2 * Math.PI * i) / numberOfPoints;
-    const deltaLat = (radiusMeters / earthRadius) * Math.cos(angle);
-    const deltaLon = (radiusMeters / (earthRadius * Math.cos(centerLatRad))) * Math.sin(angle);
-
-    const pointLat = ((centerLatRad + deltaLat) * 180) / Math.PI;
-    const pointLon = ((centerLonRad + deltaLon) * 180) / Math.PI;
-
-    coordinates.push(new Coordinates({ latitude: pointLat, longitude: pointLon }));
-  }
-
-  return coordinates;
-}
+let areaList: HTMLDivElement;
+let eventLog: HTMLDivElement;
+let drawActions: HTMLDivElement;
+let finishPolygonBtn: HTMLButtonElement;
+let dwellTable: HTMLDivElement;
+let dwellExportActions: HTMLDivElement;
+const drawToolButtons = new Map<DrawTool, HTMLButtonElement>();
 
 // Update UI state
 function updateUI() {
   buildRouteBtn.style.display = areRoutesBuilt ? 'none' : 'block';
-  startSimBtn.style.display = areRoutesBuilt && !isSimulationActive ? 'block' : 'none';
-  stopSimBtn.style.display = isSimulationActive ? 'block' : 'none';
+  startSimBtn.style.display = areRoutesBuilt && !navigation.isActive ? 'block' : 'none';
+  stopSimBtn.style.display = navigation.isActive ? 'block' : 'none';
 
   if (areaNotification) {
     alarmPanel.textContent = areaNotification;
@@ -121,27 +163,534 @@ function createAlarmPanel(): HTMLDivElement {
 function onMapCreated(gemMap: GemMap) {
   map = gemMap;
 
-  // Draw area on map
-  const marker = new Marker();
-  const circleAreaCoords = generateCircleCoordinates(
-    new Coordinates({ latitude: 50.92396, longitude: 9.54976 }),
-    200
+  // Draw areas on map and let taps add points while drawing
+  renderAreas();
+  map.registerTouchCallback((pos: ScreenPosition) => {
+    if (!map || !drawTool) return;
+    const coords = map.transformScreenToWgs(pos);
+    onDraftPointAdded({ latitude: coords.latitude, longitude: coords.longitude });
+  });
+}
+
+function toCoordinates(point: LatLng): Coordinates {
+  return new Coordinates({ latitude: point.latitude, longitude: point.longitude });
+}
+
+// Redraw every area, plus the shape being drawn
+async function renderAreas() {
+  if (!map) return;
+  await map.preferences.markers.clear();
+
+  if (geofences.length > 0) {
+    const areasCollection = MarkerCollection.create(MarkerType.Polygon, 'Areas');
+    geofences.forEach((geofence) => {
+      const marker = new Marker();
+      marker.setCoordinates(getOutline(geofence.shape).map(toCoordinates));
+      areasCollection.add(marker);
+    });
+    map.preferences.markers.add(areasCollection, {
+      settings: new MarkerCollectionRenderSettings({
+        polygonFillColor: new Color(210, 104, 102, 111),
+      }),
+    });
+  }
+
+  if (draftPoints.length > 0) {
+    const pointsCollection = MarkerCollection.create(MarkerType.Point, 'Draft points');
+    const pointsMarker = new Marker();
+    pointsMarker.setCoordinates(draftPoints.map(toCoordinates));
+    pointsCollection.add(pointsMarker);
+    map.preferences.markers.add(pointsCollection, {
+      settings: new MarkerCollectionRenderSettings(),
+    });
+
+    if (draftPoints.length > 1) {
+      const lineCollection = MarkerCollection.create(MarkerType.Polyline, 'Draft outline');
+      const lineMarker = new Marker();
+      lineMarker.setCoordinates(draftPoints.map(toCoordinates));
+      lineCollection.add(lineMarker);
+      map.preferences.markers.add(lineCollection, {
+        settings: new MarkerCollectionRenderSettings(),
+      });
+    }
+  }
+}
+
+// --- Drawing ---
+
+function startDrawing(tool: DrawTool) {
+  drawTool = tool;
+  draftPoints = [];
+  renderAreas();
+  updateEditor();
+  showMessage(DRAW_HINTS[tool], 4000);
+}
+
+function cancelDrawing() {
+  drawTool = null;
+  draftPoints = [];
+  renderAreas();
+  updateEditor();
+}
+
+function onDraftPointAdded(point: LatLng) {
+  draftPoints.push(point);
+
+  if (drawTool === 'circle' && draftPoints.length === 2) {
+    const [center, edge] = draftPoints;
+    finishDrawing({ type: 'circle', center, radius: getDistance(center, edge) });
+  } else if (drawTool === 'rectangle' && draftPoints.length === 2) {
+    finishDrawing(createRectangle(draftPoints[0], draftPoints[1]));
+  } else {
+    renderAreas();
+    updateEditor();
+  }
+}
+
+function onFinishPolygonButtonPressed() {
+  if (draftPoints.length < 3) {
+    showMessage('A polygon needs at least 3 points');
+    return;
+  }
+  finishDrawing({ type: 'polygon', coordinates: draftPoints });
+}
+
+function finishDrawing(shape: GeofenceShape) {
+  drawTool = null;
+  draftPoints = [];
+
+  const name = promptAreaName(getDefaultAreaName());
+  if (name) {
+    addGeofence({ name, shape });
+  } else {
+    renderAreas();
+    updateEditor();
+  }
+}
+
+function getDefaultAreaName(): string {
+  let index = geofences.length + 1;
+  while (findGeofence(`Area ${index}`)) index++;
+  return `Area ${index}`;
+}
+
+// Ask for a name until it is unique; null when cancelled
+function promptAreaName(initial: string, current?: string): string | null {
+  let name = prompt('Area name', initial)?.trim();
+  while (name && name !== current && findGeofence(name)) {
+    name = prompt(`An area named "${name}" already exists. Choose another name`, name)?.trim();
+  }
+  return name || null;
+}
+
+// --- Areas ---
+
+function findGeofence(name: string): Geofence | undefined {
+  return geofences.find((g) => g.name === name);
+}
+
+function addGeofence(geofence: Geofence) {
+  geofences.push(geofence);
+  // Areas drawn during the simulation are monitored right away
+  if (alarmService) monitorGeofence(geofence);
+  renderAreas();
+  updateEditor();
+}
+
+function monitorGeofence(geofence: Geofence) {
+  alarmService?.monitorArea(toGeographicArea(geofence.shape), geofence.name);
+}
+
+function renameGeofence(geofence: Geofence) {
+  const name = promptAreaName(geofence.name, geofence.name);
+  if (!name || name === geofence.name) return;
+  geofence.name = name;
+  updateEditor();
+}
+
+function deleteGeofence(geofence: Geofence) {
+  if (!confirm(`Delete area "${geofence.name}"?`)) return;
+  geofences = geofences.filter((g) => g !== geofence);
+  renderAreas();
+  updateEditor();
+}
+
+function centerOnGeofence(geofence: Geofence) {
+  const outline = getOutline(geofence.shape);
+  const latitudes = outline.map((p) => p.latitude);
+  const longitudes = outline.map((p) => p.longitude);
+  map?.centerOnArea(
+    new RectangleGeographicArea({
+      topLeft: toCoordinates({
+        latitude: Math.max(...latitudes),
+        longitude: Math.min(...longitudes),
+      }),
+      bottomRight: toCoordinates({
+        latitude: Math.min(...latitudes),
+        longitude: Math.max(...longitudes),
+      }),
+    })
   );
+}
 
-  circleAreaCoords.forEach((coord) => marker.add(coord));
+function onExportAreasButtonPressed() {
+  if (geofences.length === 0) {
+    showMessage('There are no areas to export');
+    return;
+  }
+  downloadFile(geofencesToGeoJson(geofences), 'areas.geojson', 'application/geo+json');
+}
 
-  const markerCollection = MarkerCollection.create(MarkerType.Polygon, 'Circle');
-  markerCollection.add(marker);
+async function onImportAreasButtonPressed() {
+  const file = await pickTextFile('.geojson,.json,application/geo+json,application/json');
+  if (!file) return;
 
-  map.preferences.markers.add(markerCollection, {
-    settings: new MarkerCollectionRenderSettings({
-      polygonFillColor: new Color(210, 104, 102, 111),
-    }),
+  let imported: Geofence[];
+  try {
+    imported = parseGeofencesGeoJson(file.content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    showMessage(`Could not import ${file.name}: ${message}`, 5000);
+    return;
+  }
+  if (imported.length === 0) {
+    showMessage(`${file.name} contains no areas`);
+    return;
+  }
+
+  // Keep names unique, they identify the areas in the alarm service
+  imported.forEach((geofence) => {
+    let name = geofence.name;
+    for (let i = 2; findGeofence(name); i++) name = `${geofence.name} (${i})`;
+    addGeofence({ ...geofence, name });
+  });
+  centerOnGeofence(imported[0]);
+  showMessage(`Imported ${imported.length} area(s)`);
+}
+
+// --- Boundary events ---
+
+function onBoundaryCrossed(enteredAreas: string[], exitedAreas: string[]) {
+  const timestamp = Date.now();
+  const events: BoundaryEvent[] = [
+    ...exitedAreas.map((area) => ({ timestamp, area, type: 'exit' as const })),
+    ...enteredAreas.map((area) => ({ timestamp, area, type: 'enter' as const })),
+  ];
+  events.forEach((event) => {
+    boundaryEvents.push(event);
+    dwellTracker?.record(event);
+  });
+
+  if (enteredAreas.length > 0) {
+    areaNotification = `Entered area: ${enteredAreas.join(', ')}`;
+  } else {
+    areaNotification = `Exited area: ${exitedAreas.join(', ')}`;
+  }
+  updateUI();
+  renderEventLog();
+  renderDwellReport();
+}
+
+function renderEventLog() {
+  eventLog.innerHTML = '';
+  if (boundaryEvents.length === 0) {
+    eventLog.innerHTML =
+      '<div style="color: #999; font-size: 13px;">Boundary crossings appear here during the simulation.</div>';
+    return;
+  }
+
+  // Newest first
+  [...boundaryEvents].reverse().forEach((event) => {
+    const row = document.createElement('div');
+    row.style.cssText =
+      'display: flex; gap: 8px; align-items: baseline; font-size: 13px; padding: 4px 0; border-bottom: 1px solid #f0f0f0;';
+    const color = event.type === 'enter' ? '#2e7d32' : '#c62828';
+    row.innerHTML = `
+      <span style="color: #999; font-variant-numeric: tabular-nums;">${new Date(event.timestamp).toLocaleTimeString()}</span>
+      <span style="color: ${color}; font-weight: 600; width: 40px;">${event.type === 'enter' ? 'Enter' : 'Exit'}</span>
+      <span style="color: #333; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;"></span>
+    `;
+    (row.lastElementChild as HTMLSpanElement).textContent = event.area;
+    eventLog.appendChild(row);
+  });
+}
+
+// --- Dwell time ---
+
+function startDwellTracking() {
+  dwellTracker = new DwellTracker(Date.now(), dwellThreshold * 1000);
+  notifiedOverstays = new Set();
+  dwellTimer = window.setInterval(onDwellTimerTick, 1000);
+  renderDwellReport();
+}
+
+function stopDwellTracking() {
+  window.clearInterval(dwellTimer);
+  dwellTimer = undefined;
+  dwellTracker?.finish(Date.now());
+  renderDwellReport();
+}
+
+// Refresh the running totals and warn once per visit that exceeds the threshold
+function onDwellTimerTick() {
+  if (!dwellTracker || dwellTracker.isFinished) return;
+  const overstays = dwellTracker
+    .getOverstays(Date.now())
+    .filter((visit) => !notifiedOverstays.has(visit));
+  overstays.forEach((visit) => notifiedOverstays.add(visit));
+  if (overstays.length > 0) {
+    areaNotification = `Over ${formatDwell(dwellThreshold * 1000)} in area: ${overstays
+      .map((v) => v.area)
+      .join(', ')}`;
+    updateUI();
+  }
+  renderDwellReport();
+}
+
+function onDwellThresholdChanged(value: number) {
+  if (!Number.isFinite(value) || value <= 0) return;
+  dwellThreshold = value;
+  if (dwellTracker) dwellTracker.threshold = value * 1000;
+  renderDwellReport();
+}
+
+function renderDwellReport() {
+  const report = dwellTracker?.getReport();
+  dwellTable.innerHTML = '';
+  dwellExportActions.style.display = dwellTracker?.isFinished ? 'flex' : 'none';
+
+  if (!report || report.areas.length === 0) {
+    dwellTable.innerHTML = `<div style="color: #999; font-size: 13px;">${
+      report ? 'No areas visited on this trip.' : 'Dwell times appear here during the simulation.'
+    }</div>`;
+    return;
+  }
+
+  const table = document.createElement('table');
+  table.style.cssText = 'width: 100%; border-collapse: collapse; font-size: 13px;';
+  table.innerHTML = `
+    <tr style="color: #888; text-align: left;">
+      <th style="padding: 4px 0; font-weight: 600;">Area</th>
+      <th style="padding: 4px 0; font-weight: 600; text-align: right;">Visits</th>
+      <th style="padding: 4px 0; font-weight: 600; text-align: right;">Total</th>
+      <th style="padding: 4px 0; font-weight: 600; text-align: right;">Longest</th>
+    </tr>
+  `;
+  report.areas.forEach((summary) => {
+    const row = document.createElement('tr');
+    row.style.cssText = `border-top: 1px solid #f0f0f0; color: ${
+      summary.overThreshold ? '#c62828' : '#333'
+    };`;
+    row.title = summary.overThreshold ? 'Stayed longer than the threshold' : '';
+    row.innerHTML = `
+      <td style="padding: 4px 0; max-width: 110px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;"></td>
+      <td style="padding: 4px 0; text-align: right;">${summary.visits}</td>
+      <td style="padding: 4px 0; text-align: right;">${formatDwell(summary.totalDwell)}</td>
+      <td style="padding: 4px 0; text-align: right; font-weight: ${summary.overThreshold ? 700 : 400};">${formatDwell(summary.longestDwell)}</td>
+    `;
+    (row.firstElementChild as HTMLTableCellElement).textContent = summary.overThreshold
+      ? `⚠ ${summary.area}`
+      : summary.area;
+    table.appendChild(row);
+  });
+  dwellTable.appendChild(table);
+}
+
+function onExportDwellReportButtonPressed(format: 'csv' | 'json') {
+  if (!dwellTracker?.isFinished) return;
+  const report = dwellTracker.getReport();
+  const fileName = `dwell-${new Date(report.startTime).toISOString().replace(/[:.]/g, '-')}`;
+  if (format === 'csv') {
+    downloadFile(dwellReportToCsv(report), `${fileName}.csv`, 'text/csv');
+  } else {
+    downloadFile(dwellReportToJson(report), `${fileName}.json`, 'application/json');
+  }
+}
+
+// --- Editor panel ---
+
+function createSectionTitle(text: string): HTMLDivElement {
+  const title = document.createElement('div');
+  title.textContent = text;
+  title.style.cssText =
+    'font-size: 12px; font-weight: 700; color: #888; text-transform: uppercase; letter-spacing: 0.5px;';
+  return title;
+}
+
+function createSmallButton(html: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement('button');
+  btn.innerHTML = html;
+  btn.style.cssText = `
+    display: flex; align-items: center; justify-content: center; gap: 4px; flex: 1;
+    padding: 8px; background: #fff; color: #d26866; border: 1px solid #f1c9c8;
+    border-radius: 8px; font-size: 13px; font-weight: 600; cursor: pointer;
+  `;
+  btn.onclick = onClick;
+  return btn;
+}
+
+function createEditorPanel(): HTMLDivElement {
+  const panel = document.createElement('div');
+  panel.style.cssText = `
+    position: fixed; top: 20px; left: 20px; bottom: 20px; width: 300px;
+    background: #fff; z-index: 2000; border-radius: 12px;
+    box-shadow: 0 4px 20px rgba(0,0,0,0.15);
+    display: flex; flex-direction: column; overflow: hidden;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = 'padding: 16px 20px; border-bottom: 1px solid #eee;';
+  header.innerHTML = `<h2 style="margin:0; font-size: 18px; color:#333; display:flex; gap:10px; align-items:center;">${ICONS.alarm} Areas</h2>`;
+  panel.appendChild(header);
+
+  const content = document.createElement('div');
+  content.style.cssText =
+    'flex: 1; overflow-y: auto; padding: 16px 20px; display: flex; flex-direction: column; gap: 20px;';
+
+  // Drawing tools
+  const drawSection = document.createElement('div');
+  drawSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  drawSection.appendChild(createSectionTitle('Draw'));
+  const tools = document.createElement('div');
+  tools.style.cssText = 'display: flex; gap: 8px;';
+  (Object.keys(DRAW_TOOL_LABELS) as DrawTool[]).forEach((tool) => {
+    const btn = createSmallButton(DRAW_TOOL_LABELS[tool], () => startDrawing(tool));
+    drawToolButtons.set(tool, btn);
+    tools.appendChild(btn);
+  });
+  drawSection.appendChild(tools);
+
+  drawActions = document.createElement('div');
+  drawActions.style.cssText = 'display: none; gap: 8px;';
+  finishPolygonBtn = createSmallButton(`${ICONS.check} Finish`, onFinishPolygonButtonPressed);
+  drawActions.appendChild(finishPolygonBtn);
+  drawActions.appendChild(createSmallButton(`${ICONS.close} Cancel`, cancelDrawing));
+  drawSection.appendChild(drawActions);
+  content.appendChild(drawSection);
+
+  // Area list
+  const areasSection = document.createElement('div');
+  areasSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  areasSection.appendChild(createSectionTitle('Monitored areas'));
+  areaList = document.createElement('div');
+  areaList.style.cssText = 'display: flex; flex-direction: column; gap: 6px;';
+  areasSection.appendChild(areaList);
+  const fileActions = document.createElement('div');
+  fileActions.style.cssText = 'display: flex; gap: 8px;';
+  fileActions.appendChild(createSmallButton(`${ICONS.upload} GeoJSON`, onImportAreasButtonPressed));
+  fileActions.appendChild(
+    createSmallButton(`${ICONS.download} GeoJSON`, onExportAreasButtonPressed)
+  );
+  areasSection.appendChild(fileActions);
+  content.appendChild(areasSection);
+
+  // Event log
+  const logSection = document.createElement('div');
+  logSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  const logHeader = document.createElement('div');
+  logHeader.style.cssText = 'display: flex; justify-content: space-between; align-items: center;';
+  logHeader.appendChild(createSectionTitle('Event log'));
+  const clearLogBtn = createSmallButton(`${ICONS.trash} Clear`, () => {
+    boundaryEvents = [];
+    renderEventLog();
+  });
+  clearLogBtn.style.flex = '0 0 auto';
+  logHeader.appendChild(clearLogBtn);
+  logSection.appendChild(logHeader);
+  eventLog = document.createElement('div');
+  logSection.appendChild(eventLog);
+  content.appendChild(logSection);
+
+  // Dwell time
+  const dwellSection = document.createElement('div');
+  dwellSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  dwellSection.appendChild(createSectionTitle('Dwell time'));
+  const thresholdRow = document.createElement('label');
+  thresholdRow.style.cssText =
+    'display: flex; align-items: center; gap: 8px; font-size: 13px; color: #555;';
+  thresholdRow.textContent = 'Flag stays longer than';
+  const thresholdInput = document.createElement('input');
+  thresholdInput.type = 'number';
+  thresholdInput.min = '1';
+  thresholdInput.value = `${dwellThreshold}`;
+  thresholdInput.style.cssText =
+    'width: 64px; padding: 4px 6px; border: 1px solid #ddd; border-radius: 6px; font-size: 13px;';
+  thresholdInput.onchange = () => onDwellThresholdChanged(thresholdInput.valueAsNumber);
+  thresholdRow.appendChild(thresholdInput);
+  thresholdRow.appendChild(document.createTextNode('s'));
+  dwellSection.appendChild(thresholdRow);
+  dwellTable = document.createElement('div');
+  dwellSection.appendChild(dwellTable);
+  dwellExportActions = document.createElement('div');
+  dwellExportActions.style.cssText = 'display: none; gap: 8px;';
+  dwellExportActions.appendChild(
+    createSmallButton(`${ICONS.download} CSV`, () => onExportDwellReportButtonPressed('csv'))
+  );
+  dwellExportActions.appendChild(
+    createSmallButton(`${ICONS.download} JSON`, () => onExportDwellReportButtonPressed('json'))
+  );
+  dwellSection.appendChild(dwellExportActions);
+  content.appendChild(dwellSection);
+
+  panel.appendChild(content);
+  return panel;
+}
+
+function updateEditor() {
+  drawToolButtons.forEach((btn, tool) => {
+    const isActive = drawTool === tool;
+    btn.style.background = isActive ? '#d26866' : '#fff';
+    btn.style.color = isActive ? '#fff' : '#d26866';
+  });
+  drawActions.style.display = drawTool ? 'flex' : 'none';
+  finishPolygonBtn.style.display = drawTool === 'polygon' ? 'flex' : 'none';
+  finishPolygonBtn.disabled = draftPoints.length < 3;
+  finishPolygonBtn.style.opacity = finishPolygonBtn.disabled ? '0.5' : '1';
+
+  areaList.innerHTML = '';
+  if (geofences.length === 0) {
+    areaList.innerHTML =
+      '<div style="color: #999; font-size: 13px;">No areas yet. Draw one or import GeoJSON.</div>';
+  }
+  geofences.forEach((geofence) => {
+    const row = document.createElement('div');
+    row.style.cssText =
+      'display: flex; align-items: center; gap: 6px; padding: 8px 10px; border: 1px solid #eee; border-radius: 8px;';
+
+    const info = document.createElement('div');
+    info.style.cssText = 'flex: 1; min-width: 0; cursor: pointer;';
+    info.title = 'Center on map';
+    info.onclick = () => centerOnGeofence(geofence);
+    const name = document.createElement('div');
+    name.style.cssText =
+      'font-weight: 600; color: #333; font-size: 14px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+    name.textContent = geofence.name;
+    const details = document.createElement('div');
+    details.style.cssText = 'font-size: 12px; color: #888;';
+    details.textContent = describeShape(geofence.shape);
+    info.appendChild(name);
+    info.appendChild(details);
+    row.appendChild(info);
+
+    // Monitored areas are identified by name, so they stay fixed during the simulation
+    const renameBtn = createSmallButton(ICONS.draw, () => renameGeofence(geofence));
+    const deleteBtn = createSmallButton(ICONS.trash, () => deleteGeofence(geofence));
+    [renameBtn, deleteBtn].forEach((btn) => {
+      btn.style.flex = '0 0 34px';
+      btn.disabled = !!alarmService;
+      btn.style.opacity = btn.disabled ? '0.4' : '1';
+      row.appendChild(btn);
+    });
+    renameBtn.title = 'Rename';
+    deleteBtn.title = 'Delete';
+
+    areaList.appendChild(row);
   });
 }
 
 // Build route functionality
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   // Define the departure
   const departureLandmark = Landmark.withLatLng({
     latitude: 50.92899490001731,
@@ -159,31 +708,33 @@ function onBuildRouteButtonPressed() {
   showMessage('The route is calculating.');
 
   // Calculate route
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-
-      if (err === GemError.success) {
-        const routesMap = map?.preferences.routes;
-
-        // Display the routes on map
-        routes.forEach((route, index) => {
-          routesMap?.add(route, index === 0); // First route is main
-        });
-
-        // Center the camera on routes
-        map?.centerOnRoutes({ routes });
-        showMessage('Route calculated successfully!');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-
-      areRoutesBuilt = true;
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map?.preferences.routes;
+
+    // Display the routes on map
+    routes.forEach((route, index) => {
+      routesMap?.add(route, index === 0); // First route is main
+    });
+
+    // Center the camera on routes
+    map?.centerOnRoutes({ routes });
+    showMessage('Route calculated successfully!');
+    areRoutesBuilt = true;
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 // Start simulation
@@ -197,48 +748,16 @@ function startSimulation() {
   }
 
   // Register callback for area crossing
-  alarmListener = AlarmListener.create({
-    onBoundaryCrossed: (enteredAreas: string[], exitedAreas: string[]) => {
-      if (enteredAreas.length > 0) {
-        areaNotification = `Entered area: ${enteredAreas[0]}`;
-      } else {
-        areaNotification = `Exited area: ${exitedAreas[0]}`;
-      }
-      updateUI();
-    },
-  });
+  alarmListener = AlarmListener.create({ onBoundaryCrossed });
 
-  // Set the alarms service with the listener
+  // Set the alarms service with the listener and monitor every area
   alarmService = AlarmService.create(alarmListener);
+  geofences.forEach(monitorGeofence);
+  updateEditor();
+  startDwellTracking();
 
-  alarmService.monitorArea(
-    new CircleGeographicArea({
-      radius: 200,
-      centerCoordinates: new Coordinates({ latitude: 50.92396, longitude: 9.54976 }),
-    }),
-    'Test area'
-  );
-
-  navigationHandler = NavigationService.startSimulation(routes.mainRoute, undefined, {
-    onNavigationInstruction: (instruction, events) => {
-      isSimulationActive = true;
-      updateUI();
-    },
-    onDestinationReached: (landmark) => {
-      stopSimulation();
-      cancelRoute();
-    },
-    onError: (error) => {
-      isSimulationActive = false;
-      areaNotification = null;
-      updateUI();
-      cancelRoute();
-
-      if (error !== GemError.cancel) {
-        stopSimulation();
-      }
-    },
-  });
+  navigation.startSimulation(routes.mainRoute);
+  updateUI();
 
   // Set the camera to follow position
   map?.startFollowingPosition({ zoomLevel: 70, viewAngle: 0 });
@@ -248,10 +767,7 @@ function startSimulation() {
 function cancelRoute() {
   map?.preferences.routes.clear();
 
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  routingController?.abort();
 
   areRoutesBuilt = false;
   updateUI();
@@ -259,13 +775,13 @@ function cancelRoute() {
 
 // Stop simulation
 function stopSimulation() {
-  if (navigationHandler) {
-    NavigationService.cancelNavigation(navigationHandler);
-    navigationHandler = null;
-  }
+  navigation.stop();
+  alarmService = null;
+  alarmListener = null;
   areaNotification = null;
+  updateEditor();
+  stopDwellTracking();
   cancelRoute();
-  isSimulationActive = false;
   updateUI();
 }
 
@@ -292,6 +808,10 @@ window.addEventListener('DOMContentLoaded', async () => {
   // Create UI elements
   alarmPanel = createAlarmPanel();
   document.body.appendChild(alarmPanel);
+  document.body.appendChild(createEditorPanel());
+  updateEditor();
+  renderEventLog();
+  renderDwellReport();
 
   // Build Route button
   buildRouteBtn = document.createElement('button');
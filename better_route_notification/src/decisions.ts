@@ -0,0 +1,86 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+// How a better route prompt ended
+export type BetterRouteOutcome =
+  | 'accepted' // the driver switched to the better route
+  | 'dismissed' // the driver kept the current route
+  | 'expired' // nobody answered before the timer ran out
+  | 'invalidated' // the SDK withdrew the better route
+  | 'replaced' // a newer better route was found
+  | 'cancelled'; // the navigation ended while the prompt was open
+
+export interface BetterRouteDecision {
+  timestamp: number;
+  outcome: BetterRouteOutcome;
+  travelTime: number; // s, of the better route
+  delay: number; // s, traffic delay on the better route
+  timeGain: number; // s, compared to the current route
+  promptDuration: number; // ms the prompt was shown
+}
+
+// Columns exported to CSV, in order
+const CSV_COLUMNS: Array<keyof BetterRouteDecision> = [
+  'timestamp',
+  'outcome',
+  'travelTime',
+  'delay',
+  'timeGain',
+  'promptDuration',
+];
+
+const STORAGE_KEY = 'better_route_notification.decisions';
+
+export function decisionsToCsv(decisions: BetterRouteDecision[]): string {
+  const rows = decisions.map((decision) =>
+    CSV_COLUMNS.map((column) =>
+      column === 'timestamp' ? new Date(decision.timestamp).toISOString() : `${decision[column]}`
+    ).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Better route decisions persisted in localStorage, oldest first.
+ */
+export class DecisionLog {
+  private decisions: BetterRouteDecision[] = [];
+
+  constructor() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.decisions = stored ? (JSON.parse(stored) as BetterRouteDecision[]) : [];
+    } catch (error) {
+      console.error('Failed to read the better route decisions:', error);
+      this.decisions = [];
+    }
+  }
+
+  list(): BetterRouteDecision[] {
+    return this.decisions;
+  }
+
+  get size(): number {
+    return this.decisions.length;
+  }
+
+  add(decision: BetterRouteDecision) {
+    this.decisions.push(decision);
+    this.save();
+  }
+
+  clear() {
+    this.decisions = [];
+    this.save();
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.decisions));
+    } catch (error) {
+      console.error('Failed to save the better route decisions:', error);
+    }
+  }
+}
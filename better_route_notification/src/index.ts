@@ -12,25 +12,71 @@ import {
   RoutePreferences,
   RoutingService,
   NavigationService,
-  NavigationInstruction,
   GemError,
   Route,
-  TaskHandler,
-  NavigationEventType,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+  downloadFile,
+  createModalOverlay,
+  createModalContent,
+  createModalHeader,
+  NavigationSession,
+  formatClockTime,
+} from '../../shared';
+import { DecisionLog, BetterRouteOutcome, decisionsToCsv } from './decisions';
+
+// Seconds before an unanswered better route prompt is dismissed
+const AUTO_DISMISS_S = 15;
+
+interface BetterRoutePrompt {
+  route: Route;
+  travelTime: number;
+  delay: number;
+  timeGain: number;
+  shownAt: number;
+  element: HTMLDivElement;
+  timerId: number;
+}
 
 let map: GemMap | null = null;
-let currentInstruction: NavigationInstruction | null = null;
 
 let areRoutesBuilt = false;
-let isSimulationActive = false;
 
 // We use the progress listener to cancel the route calculation.
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
+
+// The running simulation; callbacks from a navigation that was replaced are ignored
+const navigation = new NavigationSession({ NavigationService });
+navigation.on('instruction', () => {
+  updateNavigationUI();
+  updateUI();
+});
+navigation.on('betterRoute', (route, travelTime, delay, timeGain) => {
+  // Offer the better route to the driver
+  showBetterRoutePrompt(route, travelTime, delay, timeGain);
+});
+navigation.on('betterRouteInvalidated', () => {
+  console.log('The previously found better route is no longer valid');
+  if (betterRoutePrompt) {
+    closeBetterRoutePrompt('invalidated');
+    showMessage('The better route is no longer available');
+  }
+});
+navigation.on('betterRouteRejected', (reason) => {
+  console.log('The check for better route failed with reason:', GemError[reason]);
+});
+// If the navigation has ended or if an error occurred while navigating, remove routes
+navigation.on('error', () => stopSimulation());
 
-// We use the progress listener to cancel the navigation.
-let navigationHandler: TaskHandler | null = null;
+// The better route offered to the driver, if any
+let betterRoutePrompt: BetterRoutePrompt | null = null;
+const decisionLog = new DecisionLog();
 
 // UI Elements
 let buildRouteBtn: HTMLButtonElement;
@@ -40,6 +86,8 @@ let recenterBtn: HTMLButtonElement;
 let navigationPanel: HTMLDivElement;
 let instructionPanel: HTMLDivElement;
 let bottomPanel: HTMLDivElement;
+let decisionsBtn: HTMLButtonElement;
+let decisionsModal: HTMLDivElement;
 
 function updateUI() {
   // Logic to toggle main buttons in the same spot
@@ -49,18 +97,18 @@ function updateUI() {
 
   if (!areRoutesBuilt) {
     buildRouteBtn.style.display = 'block';
-  } else if (areRoutesBuilt && !isSimulationActive) {
+  } else if (areRoutesBuilt && !navigation.isActive) {
     startSimulationBtn.style.display = 'block';
-  } else if (isSimulationActive) {
+  } else if (navigation.isActive) {
     stopSimulationBtn.style.display = 'block';
   }
 
-  navigationPanel.style.display = isSimulationActive ? 'block' : 'none';
-  bottomPanel.style.display = isSimulationActive ? 'block' : 'none';
+  navigationPanel.style.display = navigation.isActive ? 'block' : 'none';
+  bottomPanel.style.display = navigation.isActive ? 'block' : 'none';
 }
 
 // Custom method for calling calculate route and displaying the results.
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   // Define the departure
   const departureLandmark = Landmark.withLatLng({
     latitude: 48.79743778098061,
@@ -79,34 +127,36 @@ function onBuildRouteButtonPressed() {
   showMessage('The route is calculating.');
 
   // Calculate route
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      // If the route calculation is finished, we don't have a progress listener anymore.
-      routingHandler = null;
-
-      if (err === GemError.success) {
-        const routesMap = map?.preferences.routes;
-
-        // Display the routes on map
-        calculatedRoutes.forEach((route, index) => {
-          // Add route with label
-          const label = getRouteLabel(route);
-          routesMap?.add(route, index === 0, { label });
-        });
-
-        // Center the camera on routes
-        map?.centerOnRoutes({ routes: calculatedRoutes });
-        showMessage('Route calculated successfully!');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-
-      areRoutesBuilt = true;
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
+
+  try {
+    const calculatedRoutes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map?.preferences.routes;
+
+    // Display the routes on map
+    calculatedRoutes.forEach((route, index) => {
+      // Add route with label
+      const label = getRouteLabel(route);
+      routesMap?.add(route, index === 0, { label });
+    });
+
+    // Center the camera on routes
+    map?.centerOnRoutes({ routes: calculatedRoutes });
+    showMessage('Route calculated successfully!');
+    areRoutesBuilt = true;
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    // If the route calculation is finished, we don't have a progress listener anymore.
+    routingController = null;
+    updateUI();
+  }
 
   updateUI();
 }
@@ -128,37 +178,7 @@ function startSimulation() {
     return;
   }
 
-  navigationHandler = NavigationService.startSimulation(routes.mainRoute, undefined, {
-    onNavigationInstruction: (
-      instruction: NavigationInstruction,
-      events: NavigationEventType[]
-    ) => {
-      isSimulationActive = true;
-      currentInstruction = instruction;
-      updateNavigationUI();
-      updateUI();
-    },
-    onBetterRouteDetected: (route: Route, travelTime: number, delay: number, timeGain: number) => {
-      // Display notification when a better route is detected
-      showBetterRouteNotification(travelTime, delay, timeGain);
-    },
-    onBetterRouteInvalidated: () => {
-      console.log('The previously found better route is no longer valid');
-    },
-    onBetterRouteRejected: (reason: GemError) => {
-      console.log('The check for better route failed with reason:', reason);
-    },
-    onError: (error: GemError) => {
-      // If the navigation has ended or if an error occurred while navigating, remove routes
-      isSimulationActive = false;
-      cancelRoute();
-
-      if (error !== GemError.cancel) {
-        stopSimulation();
-      }
-      updateUI();
-    },
-  });
+  navigation.startSimulation(routes.mainRoute);
 
   // Clear route alternatives from map
   map.preferences.routes.clearAllButMainRoute();
@@ -174,11 +194,8 @@ function cancelRoute() {
   // Remove the routes from map
   map.preferences.routes.clear();
 
-  if (routingHandler !== null) {
-    // Cancel the navigation
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  // Cancel the route calculation
+  routingController?.abort();
 
   areRoutesBuilt = false;
   updateUI();
@@ -186,20 +203,20 @@ function cancelRoute() {
 
 // Method to stop the simulation and remove the displayed routes
 function stopSimulation() {
-  if (navigationHandler !== null) {
-    // Cancel the navigation
-    NavigationService.cancelNavigation(navigationHandler);
-    navigationHandler = null;
-  }
+  closeBetterRoutePrompt('cancelled');
+
+  // Cancel the navigation
+  navigation.stop();
 
   cancelRoute();
-  isSimulationActive = false;
   updateUI();
 }
 
 // Update navigation UI with current instruction
 function updateNavigationUI() {
-  if (!currentInstruction) return;
+  const currentInstruction = navigation.instruction;
+  const progress = navigation.progress;
+  if (!currentInstruction || !progress) return;
 
   // Update instruction panel
   const instructionText = instructionPanel.querySelector('.instruction-text');
@@ -209,88 +226,228 @@ function updateNavigationUI() {
 
   const instructionDistance = instructionPanel.querySelector('.instruction-distance');
   if (instructionDistance) {
-    const timeDistance = currentInstruction.timeDistanceToNextTurn;
-    const distance = timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
-    instructionDistance.textContent = convertDistance(distance);
+    instructionDistance.textContent = convertDistance(progress.distanceToNextTurn);
   }
 
   // Update bottom panel
   const remainingDistance = bottomPanel.querySelector('.remaining-distance');
   if (remainingDistance) {
-    const timeDistance = currentInstruction.remainingTravelTimeDistance;
-    const distance = timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
-    remainingDistance.textContent = convertDistance(distance);
+    remainingDistance.textContent = convertDistance(progress.remainingDistance);
   }
 
   const eta = bottomPanel.querySelector('.eta');
   if (eta) {
-    // Calculate ETA based on remaining time
-    const timeDistance = currentInstruction.remainingTravelTimeDistance;
-    const remainingTimeS = timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
-    const now = new Date();
-    const etaTime = new Date(now.getTime() + remainingTimeS * 1000);
-    eta.textContent = etaTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    eta.textContent = formatClockTime(progress.eta);
   }
 
   const remainingDuration = bottomPanel.querySelector('.remaining-duration');
   if (remainingDuration) {
-    const timeDistance = currentInstruction.remainingTravelTimeDistance;
-    const duration = timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
-    remainingDuration.textContent = convertDuration(duration);
+    remainingDuration.textContent = convertDuration(progress.remainingDuration);
   }
 }
 
-// Show better route notification modal
-function showBetterRouteNotification(travelTime: number, delay: number, timeGain: number) {
-  // Create modal overlay
-  const modal = document.createElement('div');
-  modal.style.cssText = `
-    position: fixed; top: 0; left: 0; width: 100%; height: 100%;
-    background: rgba(0, 0, 0, 0.5); z-index: 3000;
-    display: flex; justify-content: center; align-items: center; /* Centered */
-    backdrop-filter: blur(2px);
-  `;
+// Show the better route next to the current one and ask the driver to switch
+function showBetterRoutePrompt(route: Route, travelTime: number, delay: number, timeGain: number) {
+  if (!map) return;
+  closeBetterRoutePrompt('replaced');
+
+  // Preview the better route without making it the main one
+  const routesMap = map.preferences.routes;
+  routesMap.add(route, false, { label: `Better route\n-${formatDuration(timeGain)}` });
+  if (routesMap.mainRoute) {
+    map.centerOnRoutes({ routes: [routesMap.mainRoute, route] });
+  }
 
-  // Create better route panel
-  const panel = document.createElement('div');
-  panel.style.cssText = `
-    background: white; border-radius: 20px; padding: 30px;
-    width: 90%; max-width: 350px; 
+  const element = document.createElement('div');
+  element.style.cssText = `
+    position: fixed; top: 90px; right: 20px; z-index: 3000;
+    width: 300px; background: white; border-radius: 20px; overflow: hidden;
     box-shadow: 0 10px 40px rgba(0, 0, 0, 0.3);
     font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
   `;
-
-  panel.innerHTML = `
-    <div style="text-align: center; margin-bottom: 25px;">
-      <h3 style="margin: 0 0 15px 0; color: #333; font-size: 1.2rem;">Better Route Found!</h3>
-      <div style="color: #666; font-size: 15px; line-height: 1.6;">
+  element.innerHTML = `
+    <div style="padding: 20px 24px;">
+      <h3 style="margin: 0 0 12px 0; color: #333; font-size: 1.1rem;">Better Route Found!</h3>
+      <div style="color: #666; font-size: 14px; line-height: 1.6;">
         <div>Travel Time: <span style="font-weight:600; color:#333;">${formatDuration(travelTime)}</span></div>
         <div>Delay: <span style="font-weight:600; color:#333;">${formatDuration(delay)}</span></div>
-        <div style="color: #4CAF50; font-weight: bold; margin-top: 10px;">Time Saved: ${formatDuration(timeGain)}</div>
+        <div style="color: #4CAF50; font-weight: bold; margin-top: 8px; font-size: 16px;">Time Saved: ${formatDuration(timeGain)}</div>
+      </div>
+      <div style="display: flex; gap: 10px; margin-top: 18px;">
+        <button class="dismiss-better-route" style="
+          flex: 1; padding: 10px; background: #f5f5f5; color: #555;
+          border: none; border-radius: 50px; font-size: 15px; cursor: pointer; font-weight: 600;
+        "></button>
+        <button class="accept-better-route" style="
+          flex: 1; padding: 10px; background: #673ab7; color: white;
+          border: none; border-radius: 50px; font-size: 15px; cursor: pointer;
+          font-weight: 600; box-shadow: 0 4px 10px rgba(103, 58, 183, 0.3);
+        ">Switch</button>
       </div>
     </div>
-    <button id="dismiss-better-route" style="
-      width: 100%; padding: 12px; background: #673ab7; color: white;
-      border: none; border-radius: 50px; font-size: 16px; cursor: pointer;
-      font-weight: 600; box-shadow: 0 4px 10px rgba(103, 58, 183, 0.3);
-    ">Dismiss</button>
+    <div class="better-route-timer" style="height: 4px; background: #673ab7; width: 100%; transition: width 1s linear;"></div>
   `;
+  document.body.appendChild(element);
+
+  const dismissBtn = element.querySelector('.dismiss-better-route') as HTMLButtonElement;
+  const acceptBtn = element.querySelector('.accept-better-route') as HTMLButtonElement;
+  const timerBar = element.querySelector('.better-route-timer') as HTMLDivElement;
+  dismissBtn.onclick = () => closeBetterRoutePrompt('dismissed');
+  acceptBtn.onclick = () => acceptBetterRoute();
+
+  // Count down to the automatic dismissal
+  let remaining = AUTO_DISMISS_S;
+  const updateCountdown = () => {
+    dismissBtn.textContent = `Keep (${remaining}s)`;
+    timerBar.style.width = `${(remaining / AUTO_DISMISS_S) * 100}%`;
+  };
+  updateCountdown();
+  const timerId = window.setInterval(() => {
+    remaining--;
+    if (remaining <= 0) {
+      closeBetterRoutePrompt('expired');
+    } else {
+      updateCountdown();
+    }
+  }, 1000);
+
+  betterRoutePrompt = {
+    route,
+    travelTime,
+    delay,
+    timeGain,
+    shownAt: Date.now(),
+    element,
+    timerId,
+  };
+}
 
-  modal.appendChild(panel);
-  document.body.appendChild(modal);
+// Remove the prompt, and the preview unless the route was accepted, and log the outcome
+function closeBetterRoutePrompt(outcome: BetterRouteOutcome) {
+  if (!betterRoutePrompt) return;
+  const prompt = betterRoutePrompt;
+  betterRoutePrompt = null;
+
+  window.clearInterval(prompt.timerId);
+  prompt.element.remove();
+
+  decisionLog.add({
+    timestamp: Date.now(),
+    outcome,
+    travelTime: prompt.travelTime,
+    delay: prompt.delay,
+    timeGain: prompt.timeGain,
+    promptDuration: Date.now() - prompt.shownAt,
+  });
+  updateDecisionsButton();
 
-  // Add dismiss functionality
-  const dismissBtn = panel.querySelector('#dismiss-better-route') as HTMLButtonElement;
-  dismissBtn.onclick = () => {
-    document.body.removeChild(modal);
-  };
+  if (outcome === 'accepted') return;
+  try {
+    map?.preferences.routes.remove(prompt.route);
+  } catch (error) {
+    console.warn('Could not remove the better route preview:', error);
+  }
+  // Go back to following the position after the preview moved the camera
+  if (outcome !== 'cancelled' && outcome !== 'replaced') {
+    map?.startFollowingPosition();
+  }
+}
 
-  // Allow dismissing by clicking overlay
-  modal.onclick = (e) => {
-    if (e.target === modal) {
-      document.body.removeChild(modal);
-    }
+// Restart the navigation on the better route
+function acceptBetterRoute() {
+  if (!map || !betterRoutePrompt) return;
+  const { route, timeGain } = betterRoutePrompt;
+  closeBetterRoutePrompt('accepted');
+
+  navigation.stop();
+
+  const routesMap = map.preferences.routes;
+  routesMap.clear();
+  routesMap.add(route, true, { label: getRouteLabel(route) });
+  navigation.startSimulation(route);
+  map.startFollowingPosition();
+
+  showMessage(`Switched to the better route, saving ${formatDuration(timeGain)}`);
+}
+
+function updateDecisionsButton() {
+  decisionsBtn.textContent = `Decision Log (${decisionLog.size})`;
+}
+
+// Show the logged better route decisions, newest first
+function showDecisionsModal() {
+  decisionsModal.innerHTML = '';
+  decisionsModal.style.display = 'flex';
+
+  const content = createModalContent();
+  content.appendChild(
+    createModalHeader('Better Route Decisions', () => (decisionsModal.style.display = 'none'))
+  );
+
+  const list = document.createElement('div');
+  list.style.cssText = `
+    overflow-y: auto; flex: 1;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+  const decisions = [...decisionLog.list()].reverse();
+  if (decisions.length === 0) {
+    list.innerHTML =
+      '<div style="padding: 40px; text-align: center; color: #666;">No decisions yet.</div>';
+  }
+  const outcomeColors: Record<BetterRouteOutcome, string> = {
+    accepted: '#4CAF50',
+    dismissed: '#f44336',
+    expired: '#ff9800',
+    invalidated: '#9e9e9e',
+    replaced: '#9e9e9e',
+    cancelled: '#9e9e9e',
   };
+  decisions.forEach((decision) => {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex; justify-content: space-between; align-items: center; gap: 12px;
+      padding: 12px 24px; border-bottom: 1px solid rgba(0,0,0,0.05); font-size: 14px;
+    `;
+    row.innerHTML = `
+      <div>
+        <div style="font-weight: 600; color: ${outcomeColors[decision.outcome]}; text-transform: capitalize;">${decision.outcome}</div>
+        <div style="color: #888; font-size: 12px;">${new Date(decision.timestamp).toLocaleString()} &middot; after ${Math.round(decision.promptDuration / 1000)}s</div>
+      </div>
+      <div style="text-align: right; color: #333;">
+        <div style="color: #4CAF50; font-weight: 600;">-${formatDuration(decision.timeGain)}</div>
+        <div style="color: #888; font-size: 12px;">${formatDuration(decision.travelTime)} travel</div>
+      </div>
+    `;
+    list.appendChild(row);
+  });
+  content.appendChild(list);
+
+  if (decisions.length > 0) {
+    const footer = document.createElement('div');
+    footer.style.cssText = 'display: flex; gap: 10px; padding: 16px 24px;';
+    const exportBtn = document.createElement('button');
+    exportBtn.textContent = 'Export CSV';
+    const clearBtn = document.createElement('button');
+    clearBtn.textContent = 'Clear';
+    [exportBtn, clearBtn].forEach((btn) => {
+      btn.style.cssText = `
+        flex: 1; padding: 10px; background: #f5f5f5; color: #555; border: none;
+        border-radius: 50px; font-size: 14px; cursor: pointer; font-weight: 600;
+      `;
+      footer.appendChild(btn);
+    });
+    exportBtn.onclick = () =>
+      downloadFile(decisionsToCsv(decisionLog.list()), 'better-route-decisions.csv', 'text/csv');
+    clearBtn.onclick = () => {
+      if (!confirm('Delete all logged decisions?')) return;
+      decisionLog.clear();
+      updateDecisionsButton();
+      showDecisionsModal();
+    };
+    content.appendChild(footer);
+  }
+
+  decisionsModal.appendChild(content);
 }
 
 // Format duration from seconds to readable format
@@ -453,5 +610,21 @@ window.addEventListener('DOMContentLoaded', async () => {
   `;
   document.body.appendChild(bottomPanel);
 
+  // Decision log
+  decisionsBtn = document.createElement('button');
+  decisionsBtn.style.cssText = `
+    position: fixed; top: 20px; right: 20px; z-index: 1000;
+    background: rgba(255, 255, 255, 0.95); border: none; border-radius: 50px;
+    padding: 10px 20px; box-shadow: 0 2px 10px rgba(0, 0, 0, 0.15); cursor: pointer;
+    font-weight: 600; backdrop-filter: blur(5px);
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+  decisionsBtn.onclick = () => showDecisionsModal();
+  document.body.appendChild(decisionsBtn);
+  updateDecisionsButton();
+
+  decisionsModal = createModalOverlay(() => (decisionsModal.style.display = 'none'));
+  document.body.appendChild(decisionsModal);
+
   updateUI();
 });
@@ -15,9 +15,16 @@ import {
   Route,
   BikeProfile,
   BikeProfileElectricBikeProfile,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+} from '../../shared';
 
 // Type for screen position coordinates
 interface ScreenPosition {
@@ -34,7 +41,7 @@ enum EBikeType {
 }
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let routes: Route[] | null = null;
 let selectedBikeType: BikeProfile = BikeProfile.city;
 
@@ -51,17 +58,17 @@ function updateUI() {
   cancelRouteBtn.style.display = 'none';
   clearRoutesBtn.style.display = 'none';
 
-  if (!routingHandler && !routes) {
+  if (!routingController && !routes) {
     buildRouteBtn.style.display = 'flex';
-  } else if (routingHandler && !routes) {
+  } else if (routingController && !routes) {
     cancelRouteBtn.style.display = 'flex';
-  } else if (routes && !routingHandler) {
+  } else if (routes && !routingController) {
     clearRoutesBtn.style.display = 'flex';
   }
 }
 
 // Route calculation functionality with bike profile
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   // Define the departure (Amsterdam area)
   const departureLandmark = Landmark.withLatLng({
     latitude: 52.36239785,
@@ -84,36 +91,37 @@ function onBuildRouteButtonPressed() {
   showMessage('The bike route is calculating.');
 
   // Calculate route
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      routingHandler = null;
-
-      if (err === GemError.success) {
-        const routesMap = map?.preferences.routes;
-
-        // Display the routes on map
-        calculatedRoutes.forEach((route, index) => {
-          // Add route with label
-          const label = getRouteLabel(route);
-          routesMap?.add(route, index === 0, { label });
-        });
-
-        // Center the camera on routes
-        map?.centerOnRoutes({ routes: calculatedRoutes });
-        showMessage('Bike route calculated successfully!');
-
-        routes = calculatedRoutes;
-      } else {
-        showMessage('Bike route calculation failed.');
-      }
-
-      updateUI();
-    }
-  );
-
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const calculatedRoutes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map?.preferences.routes;
+
+    // Display the routes on map
+    calculatedRoutes.forEach((route, index) => {
+      // Add route with label
+      const label = getRouteLabel(route);
+      routesMap?.add(route, index === 0, { label });
+    });
+
+    // Center the camera on routes
+    map?.centerOnRoutes({ routes: calculatedRoutes });
+    showMessage('Bike route calculated successfully!');
+
+    routes = calculatedRoutes;
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Bike route calculation failed.');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 // Clear routes functionality
@@ -126,12 +134,7 @@ function onClearRoutesButtonPressed() {
 
 // Cancel route calculation
 function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    showMessage('Bike route calculation cancelled.');
-  }
-  updateUI();
+  routingController?.abort();
 }
 
 // Register route tap callback for selecting alternative routes
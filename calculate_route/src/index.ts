@@ -10,10 +10,14 @@ import {
   PositionService,
   Landmark,
   RoutePreferences,
-  RoutingService,
   GemError,
   Route,
-  TaskHandler,
+  SearchService,
+  SearchPreferences,
+  Marker,
+  MarkerCollection,
+  MarkerType,
+  MarkerCollectionRenderSettings,
 } from '@magiclane/maps-sdk';
 import {
   GEMKIT_TOKEN,
@@ -26,12 +30,60 @@ import {
   initializeSDK,
   createMapView,
   EventListenerManager,
+  RoutingError,
+  formatCoordinates,
+  formatClockTime,
 } from '../../shared';
+import {
+  TripStop,
+  TripLeg,
+  MAX_OPTIMISED_STOPS,
+  getTripLegs,
+  getTravelTimeMatrix,
+  getOrderTime,
+  solveStopOrder,
+} from './trip';
+import {
+  TimingMode,
+  TravelTimeSlot,
+  getRouteDuration,
+  calculateRoutesAt,
+  calculateRoutesArrivingBy,
+  forecastTravelTimes,
+  getFastestSlot,
+  toDateTimeInputValue,
+} from './timing';
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let routes: Route[] | null = null;
 
+// Trip stops, in the order they are visited; starts as Paris to Brussels
+let stops: TripStop[] = [
+  {
+    id: 1,
+    name: 'Paris',
+    landmark: Landmark.withLatLng({ latitude: 48.85682, longitude: 2.34375 }),
+  },
+  {
+    id: 2,
+    name: 'Brussels',
+    landmark: Landmark.withLatLng({ latitude: 50.84644, longitude: 4.34587 }),
+  },
+];
+let nextStopId = 3;
+let routedStops: TripStop[] = []; // stops the displayed routes were calculated with
+let isAddingOnMap = false;
+let optimiseProgress: string | null = null;
+let draggedStopIndex: number | null = null;
+
+// When the trip leaves or has to arrive
+let timingMode: TimingMode = 'now';
+let selectedTime = getNextQuarterHour();
+let routeDeparture: Date | null = null; // departure of the displayed routes, if not now
+let travelTimeSlots: TravelTimeSlot[] = [];
+let forecastProgress: string | null = null;
+
 // Event listener manager for proper cleanup
 const events = new EventListenerManager();
 
@@ -39,6 +91,16 @@ const events = new EventListenerManager();
 let buildRouteBtn: HTMLButtonElement;
 let cancelRouteBtn: HTMLButtonElement;
 let clearRoutesBtn: HTMLButtonElement;
+let stopList: HTMLDivElement;
+let addOnMapBtn: HTMLButtonElement;
+let searchInput: HTMLInputElement;
+let searchResultsList: HTMLDivElement;
+let optimiseBtn: HTMLButtonElement;
+let legsTable: HTMLDivElement;
+let timingSelect: HTMLSelectElement;
+let timeInput: HTMLInputElement;
+let forecastBtn: HTMLButtonElement;
+let forecastChart: HTMLDivElement;
 
 function updateUI() {
   // Logic to ensure buttons occupy the same center spot
@@ -46,64 +108,71 @@ function updateUI() {
   cancelRouteBtn.style.display = 'none';
   clearRoutesBtn.style.display = 'none';
 
-  if (!routingHandler && !routes) {
-    buildRouteBtn.style.display = 'flex';
-  } else if (routingHandler && !routes) {
+  if (routingController) {
     cancelRouteBtn.style.display = 'flex';
-  } else if (routes && !routingHandler) {
+  } else if (routes) {
     clearRoutesBtn.style.display = 'flex';
+  } else {
+    buildRouteBtn.style.display = 'flex';
   }
+
+  updateTripPanel();
 }
 
 // Route calculation functionality
-function onBuildRouteButtonPressed() {
-  // Define the departure (Paris)
-  const departureLandmark = Landmark.withLatLng({
-    latitude: 48.85682,
-    longitude: 2.34375,
-  });
-
-  // Define the destination (Brussels)
-  const destinationLandmark = Landmark.withLatLng({
-    latitude: 50.84644,
-    longitude: 4.34587,
-  });
-
-  // Define the route preferences
-  const routePreferences = new RoutePreferences({});
+async function onBuildRouteButtonPressed() {
+  if (stops.length < 2) {
+    showMessage('Add at least two stops to build a route.');
+    return;
+  }
+  const tripStops = [...stops];
+  const landmarks = tripStops.map((stop) => stop.landmark);
   showMessage('The route is calculating.');
 
   // Calculate route
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      routingHandler = null;
-
-      if (err === GemError.success) {
-        const routesMap = map?.preferences.routes;
-
-        // Display the routes on map
-        calculatedRoutes.forEach((route, index) => {
-          // Add route with label
-          const label = getRouteLabel(route);
-          routesMap?.add(route, index === 0, { label });
-        });
-
-        // Center the camera on routes
-        map?.centerOnRoutes({ routes: calculatedRoutes });
-        showMessage('Route calculated successfully!');
-
-        routes = calculatedRoutes;
-      } else {
-        showMessage('Route calculation failed.');
-      }
+  routingController = new AbortController();
+  updateUI();
 
-      updateUI();
+  try {
+    let calculatedRoutes: Route[];
+    let departure: Date | null = null;
+    if (timingMode === 'arriveBy') {
+      ({ routes: calculatedRoutes, departure } = await calculateRoutesArrivingBy(
+        landmarks,
+        selectedTime,
+        routingController.signal
+      ));
+    } else {
+      if (timingMode === 'departAt') departure = selectedTime;
+      calculatedRoutes = await calculateRoutesAt(landmarks, departure, routingController.signal);
     }
-  );
 
-  updateUI();
+    const routesMap = map?.preferences.routes;
+
+    // Display the routes on map
+    calculatedRoutes.forEach((route, index) => {
+      // Add route with label
+      const label = getRouteLabel(route, departure);
+      routesMap?.add(route, index === 0, { label });
+    });
+
+    // Center the camera on routes
+    map?.centerOnRoutes({ routes: calculatedRoutes });
+    showMessage(
+      timingMode === 'arriveBy' && departure
+        ? `Leave at ${formatClockTime(departure)} to arrive by ${formatClockTime(selectedTime)}`
+        : 'Route calculated successfully!'
+    );
+
+    routes = calculatedRoutes;
+    routedStops = tripStops;
+    routeDeparture = departure;
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 // Clear routes functionality
@@ -111,17 +180,14 @@ function onClearRoutesButtonPressed() {
   // Remove the routes from map
   map?.preferences.routes.clear();
   routes = null;
+  routedStops = [];
+  routeDeparture = null;
   updateUI();
 }
 
 // Cancel route calculation
 function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    showMessage('Route calculation cancelled.');
-  }
-  updateUI();
+  routingController?.abort();
 }
 
 // Register route tap callback for selecting alternative routes
@@ -129,6 +195,16 @@ function registerRouteTapCallback() {
   if (!map) return;
 
   map.registerTouchCallback(async (pos: ScreenPosition) => {
+    // While adding stops, a tap drops a stop instead of selecting a route
+    if (isAddingOnMap) {
+      const coords = map!.transformScreenToWgs(pos);
+      addStop(
+        `Point ${formatCoordinates(coords.latitude, coords.longitude, 4)}`,
+        Landmark.withCoordinates(coords)
+      );
+      return;
+    }
+
     // Select the map objects at given position
     await map!.setCursorScreenPosition(pos);
 
@@ -140,6 +216,7 @@ function registerRouteTapCallback() {
       const routesMap = map!.preferences.routes;
       if (routesMap) {
         routesMap.mainRoute = selectedRoutes[0];
+        renderLegs();
       }
     }
   });
@@ -148,13 +225,545 @@ function registerRouteTapCallback() {
   events.addSDKCallback('touch', () => map?.unregisterTouchCallback());
 }
 
-// Utility function to get route label (distance and duration)
-function getRouteLabel(route: Route): string {
+// --- Trip stops ---
+
+// Any change to the stops makes the displayed routes outdated
+function onStopsChanged() {
+  if (routes) onClearRoutesButtonPressed();
+  travelTimeSlots = [];
+  renderStopMarkers();
+  updateUI();
+}
+
+// Returns false when the stop could not be added
+function addStop(name: string, landmark: Landmark): boolean {
+  // Routing works on a copy of the stops, a stop added meanwhile would be lost
+  if (routingController) {
+    showMessage('Wait for the routing to finish before adding stops.');
+    return false;
+  }
+  stops.push({ id: nextStopId++, name, landmark });
+  showMessage(`Added ${name}`);
+  onStopsChanged();
+  return true;
+}
+
+function removeStop(id: number) {
+  stops = stops.filter((stop) => stop.id !== id);
+  onStopsChanged();
+}
+
+function moveStop(from: number, to: number) {
+  if (from === to) return;
+  const [stop] = stops.splice(from, 1);
+  stops.splice(to, 0, stop);
+  onStopsChanged();
+}
+
+function onAddOnMapButtonPressed() {
+  isAddingOnMap = !isAddingOnMap;
+  if (isAddingOnMap) showMessage('Tap the map to add stops.');
+  updateUI();
+}
+
+// Draw the stops, so the ones added on the map show before a route is built
+async function renderStopMarkers() {
+  if (!map) return;
+  await map.preferences.markers.clear();
+  if (stops.length === 0) return;
+
+  const collection = MarkerCollection.create(MarkerType.Point, 'Stops');
+  const marker = new Marker();
+  marker.setCoordinates(stops.map((stop) => stop.landmark.coordinates));
+  collection.add(marker);
+  map.preferences.markers.add(collection, { settings: new MarkerCollectionRenderSettings() });
+}
+
+// Search addresses and places around the center of the map
+function onSearchSubmitted() {
+  const text = searchInput.value.trim();
+  if (!map || !text) return;
+
+  const coordinates = map.transformScreenToWgs({
+    x: Math.floor(window.innerWidth / 2),
+    y: Math.floor(window.innerHeight / 2),
+  });
+  searchResultsList.innerHTML = '<div style="font-size: 13px; color: #888;">Searching...</div>';
+
+  SearchService.search({
+    textFilter: text,
+    referenceCoordinates: coordinates,
+    preferences: SearchPreferences.create({
+      maxMatches: 5,
+      searchAddresses: true,
+      searchMapPOIs: true,
+    }),
+    onCompleteCallback: (err: GemError, results: Landmark[]) => {
+      renderSearchResults(err === GemError.success ? results : []);
+    },
+  });
+}
+
+function renderSearchResults(results: Landmark[]) {
+  searchResultsList.innerHTML = '';
+  if (results.length === 0) {
+    searchResultsList.innerHTML =
+      '<div style="font-size: 13px; color: #888;">No results found</div>';
+    return;
+  }
+
+  results.forEach((landmark) => {
+    const name = landmark.name || 'Unnamed place';
+    const item = document.createElement('div');
+    item.style.cssText = `
+      display: flex; align-items: center; gap: 8px; padding: 8px; border-radius: 8px;
+      font-size: 13px; color: #333; cursor: pointer;
+    `;
+    item.innerHTML = `<span style="color:#673ab7; display:flex;">${ICONS.add}</span>`;
+    const label = document.createElement('span');
+    label.textContent = name;
+    item.appendChild(label);
+    item.onmouseenter = () => (item.style.background = '#f3eefb');
+    item.onmouseleave = () => (item.style.background = 'transparent');
+    item.onclick = () => {
+      if (!addStop(name, landmark)) return;
+      searchInput.value = '';
+      searchResultsList.innerHTML = '';
+    };
+    searchResultsList.appendChild(item);
+  });
+}
+
+// Reorder the stops between the first and the last one for the shortest travel time
+async function onOptimiseButtonPressed() {
+  if (stops.length > MAX_OPTIMISED_STOPS) {
+    showMessage(`Optimising is limited to ${MAX_OPTIMISED_STOPS} stops.`);
+    return;
+  }
+  if (routes) onClearRoutesButtonPressed();
+  const tripStops = [...stops];
+
+  routingController = new AbortController();
+  updateUI();
+
+  try {
+    const costs = await getTravelTimeMatrix(
+      tripStops,
+      new RoutePreferences({}),
+      routingController.signal,
+      (done, total) => {
+        optimiseProgress = `Routing ${done}/${total}`;
+        updateTripPanel();
+      }
+    );
+    const order = solveStopOrder(costs);
+    if (!order) {
+      showMessage('No order connects all stops.');
+      return;
+    }
+
+    const before = getOrderTime(
+      costs,
+      tripStops.map((_, index) => index)
+    );
+    const after = getOrderTime(costs, order);
+    stops = order.map((index) => tripStops[index]);
+    onStopsChanged();
+
+    if (after >= before) {
+      showMessage('The current order is already the fastest.');
+    } else {
+      showMessage(
+        Number.isFinite(before)
+          ? `Order optimised, saving ${convertDuration(before - after)}`
+          : 'Order optimised.'
+      );
+    }
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Optimisation failed.');
+  } finally {
+    routingController = null;
+    optimiseProgress = null;
+    updateUI();
+  }
+}
+
+// --- Departure and arrival time ---
+
+function getNextQuarterHour(): Date {
+  const date = new Date();
+  date.setMinutes(Math.ceil((date.getMinutes() + 1) / 15) * 15, 0, 0);
+  return date;
+}
+
+function onTimingChanged() {
+  timingMode = timingSelect.value as TimingMode;
+  if (timeInput.value) selectedTime = new Date(timeInput.value);
+  // The displayed routes were calculated for another time
+  if (routes) onClearRoutesButtonPressed();
+  updateUI();
+}
+
+// Travel times for every hour of the selected day, to find the best departure
+async function onForecastButtonPressed() {
+  if (stops.length < 2) {
+    showMessage('Add at least two stops to forecast travel times.');
+    return;
+  }
+  const day = timingMode === 'now' ? new Date() : selectedTime;
+
+  routingController = new AbortController();
+  updateUI();
+
+  try {
+    travelTimeSlots = await forecastTravelTimes(
+      stops.map((stop) => stop.landmark),
+      day,
+      routingController.signal,
+      (done, total) => {
+        forecastProgress = `Routing ${done}/${total}`;
+        updateTripPanel();
+      }
+    );
+    if (!getFastestSlot(travelTimeSlots)) showMessage('No route found at any hour.');
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Forecast failed.');
+  } finally {
+    routingController = null;
+    forecastProgress = null;
+    updateUI();
+  }
+}
+
+// Depart at the start of the picked hour
+function onTravelTimeSlotSelected(slot: TravelTimeSlot) {
+  timingMode = 'departAt';
+  selectedTime = new Date(slot.departure);
+  if (routes) onClearRoutesButtonPressed();
+  updateUI();
+  showMessage(`Departure set to ${formatClockTime(slot.departure)}`);
+}
+
+function renderForecastChart() {
+  const fastest = getFastestSlot(travelTimeSlots);
+  if (!fastest || fastest.duration === null) {
+    forecastChart.innerHTML =
+      '<div style="font-size: 13px; color: #888;">Compare the travel time of each departure hour.</div>';
+    return;
+  }
+
+  const durations = travelTimeSlots
+    .map((slot) => slot.duration)
+    .filter((duration): duration is number => duration !== null);
+  // Bars start below the fastest time, so the differences between hours stand out
+  const floor = fastest.duration * 0.8;
+  const range = Math.max(...durations) - floor || 1;
+  const width = 260;
+  const height = 100;
+  const barWidth = width / travelTimeSlots.length;
+
+  const bars = travelTimeSlots
+    .map((slot, hour) => {
+      if (slot.duration === null) return '';
+      const barHeight = Math.max(2, ((slot.duration - floor) / range) * height);
+      const isSelected =
+        timingMode === 'departAt' && selectedTime.getTime() === slot.departure.getTime();
+      const color = slot === fastest ? '#4caf50' : isSelected ? '#673ab7' : '#d1c4e9';
+      return `<rect data-hour="${hour}" x="${hour * barWidth + 1}" y="${height - barHeight}" width="${barWidth - 2}" height="${barHeight}" fill="${color}" style="cursor: pointer;">
+        <title>${formatClockTime(slot.departure)} · ${convertDuration(slot.duration)}</title>
+      </rect>`;
+    })
+    .join('');
+  const hourLabels = [0, 6, 12, 18]
+    .map(
+      (hour) =>
+        `<text x="${hour * barWidth + barWidth / 2}" y="${height + 14}" font-size="10" fill="#888" text-anchor="middle">${`${hour}`.padStart(2, '0')}h</text>`
+    )
+    .join('');
+
+  forecastChart.innerHTML = `
+    <svg width="100%" viewBox="0 0 ${width} ${height + 18}">${bars}${hourLabels}</svg>
+    <div style="font-size: 13px; color: #555; margin-top: 6px;">
+      Fastest: leave at <b>${formatClockTime(fastest.departure)}</b> (${convertDuration(fastest.duration)})
+    </div>
+  `;
+  forecastChart.querySelectorAll('rect').forEach((rect) => {
+    const slot = travelTimeSlots[Number(rect.getAttribute('data-hour'))];
+    rect.addEventListener('click', () => onTravelTimeSlotSelected(slot));
+  });
+}
+
+// --- Trip panel ---
+
+function createSectionTitle(text: string): HTMLDivElement {
+  const title = document.createElement('div');
+  title.textContent = text;
+  title.style.cssText =
+    'font-size: 12px; font-weight: 700; color: #888; text-transform: uppercase; letter-spacing: 0.5px;';
+  return title;
+}
+
+function createSmallButton(html: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement('button');
+  btn.innerHTML = html;
+  btn.style.cssText = `
+    display: flex; align-items: center; justify-content: center; gap: 4px; flex: 1;
+    padding: 8px; background: #fff; color: #673ab7; border: 1px solid #d1c4e9;
+    border-radius: 8px; font-size: 13px; font-weight: 600; cursor: pointer;
+  `;
+  btn.onclick = onClick;
+  return btn;
+}
+
+function createTripPanel(): HTMLDivElement {
+  const panel = document.createElement('div');
+  panel.style.cssText = `
+    position: fixed; top: 20px; left: 20px; bottom: 20px; width: 300px;
+    background: #fff; z-index: 2000; border-radius: 12px;
+    box-shadow: 0 4px 20px rgba(0,0,0,0.15);
+    display: flex; flex-direction: column; overflow: hidden;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = 'padding: 16px 20px; border-bottom: 1px solid #eee;';
+  header.innerHTML = `<h2 style="margin:0; font-size: 18px; color:#333; display:flex; gap:10px; align-items:center;">${ICONS.route} Trip planner</h2>`;
+  panel.appendChild(header);
+
+  const content = document.createElement('div');
+  content.style.cssText =
+    'flex: 1; overflow-y: auto; padding: 16px 20px; display: flex; flex-direction: column; gap: 20px;';
+
+  // Stops, in visiting order
+  const stopsSection = document.createElement('div');
+  stopsSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  stopsSection.appendChild(createSectionTitle('Stops'));
+  stopList = document.createElement('div');
+  stopList.style.cssText = 'display: flex; flex-direction: column; gap: 6px;';
+  stopsSection.appendChild(stopList);
+  const stopActions = document.createElement('div');
+  stopActions.style.cssText = 'display: flex; gap: 8px;';
+  addOnMapBtn = createSmallButton(`${ICONS.pin} Add on map`, onAddOnMapButtonPressed);
+  stopActions.appendChild(addOnMapBtn);
+  optimiseBtn = createSmallButton(`${ICONS.directions} Optimise order`, onOptimiseButtonPressed);
+  stopActions.appendChild(optimiseBtn);
+  stopsSection.appendChild(stopActions);
+  content.appendChild(stopsSection);
+
+  // Search to add a stop
+  const searchSection = document.createElement('div');
+  searchSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  searchSection.appendChild(createSectionTitle('Add a stop'));
+  const searchRow = document.createElement('div');
+  searchRow.style.cssText = 'display: flex; gap: 8px;';
+  searchInput = document.createElement('input');
+  searchInput.type = 'text';
+  searchInput.placeholder = 'Search an address or place';
+  searchInput.style.cssText =
+    'flex: 1; min-width: 0; padding: 8px 10px; border: 1px solid #ddd; border-radius: 8px; font-size: 13px;';
+  searchInput.onkeydown = (e) => {
+    if (e.key === 'Enter') onSearchSubmitted();
+  };
+  searchRow.appendChild(searchInput);
+  const searchBtn = createSmallButton(ICONS.search, onSearchSubmitted);
+  searchBtn.style.flex = '0 0 auto';
+  searchRow.appendChild(searchBtn);
+  searchSection.appendChild(searchRow);
+  searchResultsList = document.createElement('div');
+  searchSection.appendChild(searchResultsList);
+  content.appendChild(searchSection);
+
+  // Departure or arrival time
+  const timingSection = document.createElement('div');
+  timingSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  timingSection.appendChild(createSectionTitle('When'));
+  const timingRow = document.createElement('div');
+  timingRow.style.cssText = 'display: flex; gap: 8px;';
+  timingSelect = document.createElement('select');
+  (
+    [
+      ['now', 'Leave now'],
+      ['departAt', 'Depart at'],
+      ['arriveBy', 'Arrive by'],
+    ] as Array<[TimingMode, string]>
+  ).forEach(([value, text]) => timingSelect.add(new Option(text, value)));
+  timingSelect.style.cssText =
+    'padding: 8px; border: 1px solid #ddd; border-radius: 8px; font-size: 13px; background: #fff;';
+  timingSelect.onchange = onTimingChanged;
+  timingRow.appendChild(timingSelect);
+  timeInput = document.createElement('input');
+  timeInput.type = 'datetime-local';
+  timeInput.style.cssText =
+    'flex: 1; min-width: 0; padding: 8px; border: 1px solid #ddd; border-radius: 8px; font-size: 13px;';
+  timeInput.onchange = onTimingChanged;
+  timingRow.appendChild(timeInput);
+  timingSection.appendChild(timingRow);
+  content.appendChild(timingSection);
+
+  // Travel time forecast over the day
+  const forecastSection = document.createElement('div');
+  forecastSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  forecastSection.appendChild(createSectionTitle('Travel time by hour'));
+  forecastChart = document.createElement('div');
+  forecastSection.appendChild(forecastChart);
+  forecastBtn = createSmallButton(`${ICONS.speed} Forecast the day`, onForecastButtonPressed);
+  forecastSection.appendChild(forecastBtn);
+  content.appendChild(forecastSection);
+
+  // Legs of the main route
+  const legsSection = document.createElement('div');
+  legsSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  legsSection.appendChild(createSectionTitle('Legs'));
+  legsTable = document.createElement('div');
+  legsSection.appendChild(legsTable);
+  content.appendChild(legsSection);
+
+  panel.appendChild(content);
+  return panel;
+}
+
+function updateTripPanel() {
+  if (!stopList) return;
+  const isBusy = routingController !== null;
+
+  renderStopList(isBusy);
+  addOnMapBtn.style.background = isAddingOnMap ? '#673ab7' : '#fff';
+  addOnMapBtn.style.color = isAddingOnMap ? '#fff' : '#673ab7';
+  addOnMapBtn.disabled = isBusy;
+  searchInput.disabled = isBusy;
+  // With three stops or less, the stops between the first and last can't be reordered
+  optimiseBtn.disabled = isBusy || stops.length < 4;
+  optimiseBtn.style.opacity = optimiseBtn.disabled && !optimiseProgress ? '0.5' : '1';
+  optimiseBtn.innerHTML = optimiseProgress ?? `${ICONS.directions} Optimise order`;
+
+  timingSelect.value = timingMode;
+  timingSelect.disabled = isBusy;
+  timeInput.value = toDateTimeInputValue(selectedTime);
+  timeInput.style.display = timingMode === 'now' ? 'none' : 'block';
+  timeInput.disabled = isBusy;
+  forecastBtn.disabled = isBusy || stops.length < 2;
+  forecastBtn.style.opacity = forecastBtn.disabled && !forecastProgress ? '0.5' : '1';
+  forecastBtn.innerHTML = forecastProgress ?? `${ICONS.speed} Forecast the day`;
+  renderForecastChart();
+
+  renderLegs();
+}
+
+function renderStopList(isBusy: boolean) {
+  stopList.innerHTML = '';
+  if (stops.length === 0) {
+    stopList.innerHTML =
+      '<div style="font-size: 13px; color: #888;">Add stops on the map or by searching.</div>';
+    return;
+  }
+
+  stops.forEach((stop, index) => {
+    const item = document.createElement('div');
+    item.style.cssText = `
+      display: flex; align-items: center; gap: 8px; padding: 8px 10px;
+      border: 1px solid #eee; border-radius: 8px; background: #fafafa;
+      cursor: ${isBusy ? 'default' : 'grab'};
+    `;
+
+    // Drag a stop onto another one to take its place
+    item.draggable = !isBusy;
+    item.ondragstart = (e) => {
+      draggedStopIndex = index;
+      e.dataTransfer?.setData('text/plain', `${stop.id}`);
+      item.style.opacity = '0.5';
+    };
+    item.ondragend = () => {
+      draggedStopIndex = null;
+      item.style.opacity = '1';
+    };
+    item.ondragover = (e) => {
+      e.preventDefault();
+      item.style.borderColor = '#673ab7';
+    };
+    item.ondragleave = () => (item.style.borderColor = '#eee');
+    item.ondrop = (e) => {
+      e.preventDefault();
+      if (draggedStopIndex !== null) moveStop(draggedStopIndex, index);
+    };
+
+    const badge = document.createElement('span');
+    badge.textContent = `${index + 1}`;
+    badge.style.cssText = `
+      flex-shrink: 0; width: 22px; height: 22px; border-radius: 50%;
+      background: #673ab7; color: #fff; font-size: 12px; font-weight: 700;
+      display: flex; align-items: center; justify-content: center;
+    `;
+    item.appendChild(badge);
+
+    const name = document.createElement('span');
+    name.textContent = stop.name;
+    name.style.cssText =
+      'flex: 1; min-width: 0; font-size: 13px; color: #333; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+    item.appendChild(name);
+
+    const removeBtn = document.createElement('button');
+    removeBtn.innerHTML = ICONS.close;
+    removeBtn.title = 'Remove stop';
+    removeBtn.disabled = isBusy;
+    removeBtn.style.cssText =
+      'display: flex; padding: 2px; background: none; border: none; color: #999; cursor: pointer;';
+    removeBtn.onclick = () => removeStop(stop.id);
+    item.appendChild(removeBtn);
+
+    stopList.appendChild(item);
+  });
+}
+
+// Distance and time of each leg of the main route
+function renderLegs() {
+  const mainRoute = map?.preferences.routes.mainRoute;
+  if (!routes || !mainRoute) {
+    legsTable.innerHTML =
+      '<div style="font-size: 13px; color: #888;">Build the route to see each leg.</div>';
+    return;
+  }
+
+  const legs: TripLeg[] = getTripLegs(mainRoute, routedStops);
+  const totalDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const totalTime = legs.reduce((sum, leg) => sum + leg.time, 0);
+  const row = (label: string, distance: number, time: number, bold = false) => `
+    <tr style="${bold ? 'font-weight: 700;' : ''}">
+      <td style="padding: 6px 0; color: #333;">${label}</td>
+      <td style="padding: 6px 0; text-align: right; white-space: nowrap;">${convertDistance(distance)}</td>
+      <td style="padding: 6px 0 6px 8px; text-align: right; white-space: nowrap;">${convertDuration(time)}</td>
+    </tr>`;
+
+  // Times are only shown for routes calculated for a chosen departure or arrival
+  const schedule = routeDeparture
+    ? `<div style="font-size: 13px; color: #555; margin-bottom: 8px;">
+        Depart <b>${formatClockTime(routeDeparture)}</b> &middot; Arrive
+        <b>${formatClockTime(new Date(routeDeparture.getTime() + getRouteDuration(mainRoute) * 1000))}</b>
+      </div>`
+    : '';
+  legsTable.innerHTML = `${schedule}
+    <table style="width: 100%; border-collapse: collapse; font-size: 13px; color: #555;">
+      ${legs.map((leg, index) => row(`${index + 1} → ${index + 2}`, leg.distance, leg.time)).join('')}
+      <tr><td colspan="3" style="border-top: 1px solid #eee;"></td></tr>
+      ${row('Total', totalDistance, totalTime, true)}
+    </table>
+  `;
+  // Leg rows show stop numbers, the full names are in the tooltips
+  legsTable.querySelectorAll('tr').forEach((tr, index) => {
+    const leg = legs[index];
+    if (leg) tr.title = `${leg.from} → ${leg.to}`;
+  });
+}
+
+// Utility function to get route label (distance and duration, and arrival for a set departure)
+function getRouteLabel(route: Route, departure: Date | null = null): string {
   const timeDistance = route.getTimeDistance();
   const totalDistance = timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
   const totalDuration = timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
+  const label = `${convertDistance(totalDistance)}\n${convertDuration(totalDuration)}`;
+  if (!departure) return label;
 
-  return `${convertDistance(totalDistance)}\n${convertDuration(totalDuration)}`;
+  const arrival = new Date(departure.getTime() + totalDuration * 1000);
+  return `${label}\nArrives ${formatClockTime(arrival)}`;
 }
 
 window.addEventListener('DOMContentLoaded', async () => {
@@ -179,6 +788,7 @@ window.addEventListener('DOMContentLoaded', async () => {
     map = gemMap;
     // Register route tap callback for alternative route selection
     registerRouteTapCallback();
+    renderStopMarkers();
   });
 
   if (!wrapper) {
@@ -207,6 +817,8 @@ window.addEventListener('DOMContentLoaded', async () => {
   clearRoutesBtn.onclick = () => onClearRoutesButtonPressed();
   document.body.appendChild(clearRoutesBtn);
 
+  document.body.appendChild(createTripPanel());
+
   updateUI();
 
   // Register cleanup on page unload
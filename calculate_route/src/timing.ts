@@ -0,0 +1,97 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Landmark, Route, RoutePreferences, RoutingService, GemError } from '@magiclane/maps-sdk';
+import { calculateRouteAsync, RoutingError } from '../../shared';
+
+export type TimingMode = 'now' | 'departAt' | 'arriveBy';
+
+// Travel time when departing at the start of an hour
+export interface TravelTimeSlot {
+  departure: Date;
+  duration: number | null; // s, null when no route was found
+}
+
+// Arrive-by routes are refined until the arrival is within this margin
+const ARRIVAL_TOLERANCE_S = 60;
+const MAX_ARRIVAL_ITERATIONS = 4;
+
+export function getRouteDuration(route: Route): number {
+  const timeDistance = route.getTimeDistance();
+  return timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
+}
+
+// Routes for a departure time; the durations include the traffic expected at that time
+// where traffic data is available. Without a departure the current time is used.
+export function calculateRoutesAt(
+  landmarks: Landmark[],
+  departure: Date | null,
+  signal: AbortSignal
+): Promise<Route[]> {
+  const preferences = departure
+    ? new RoutePreferences({ timestamp: departure })
+    : new RoutePreferences({});
+  return calculateRouteAsync({ RoutingService, GemError }, landmarks, preferences, { signal });
+}
+
+// The routing engine only plans forward in time, so the departure is moved back by the
+// travel time until the main route arrives on time. Traffic, and so the travel time,
+// depends on the departure, which is why a single step is not enough.
+export async function calculateRoutesArrivingBy(
+  landmarks: Landmark[],
+  arrival: Date,
+  signal: AbortSignal
+): Promise<{ routes: Route[]; departure: Date }> {
+  let departure = arrival;
+  let routes = await calculateRoutesAt(landmarks, departure, signal);
+
+  for (let i = 0; i < MAX_ARRIVAL_ITERATIONS; i++) {
+    const next = new Date(arrival.getTime() - getRouteDuration(routes[0]) * 1000);
+    if (Math.abs(next.getTime() - departure.getTime()) < ARRIVAL_TOLERANCE_S * 1000) break;
+    departure = next;
+    routes = await calculateRoutesAt(landmarks, departure, signal);
+  }
+  return { routes, departure };
+}
+
+// Travel time of the main route for each hour of the given day
+export async function forecastTravelTimes(
+  landmarks: Landmark[],
+  day: Date,
+  signal: AbortSignal,
+  onProgress: (done: number, total: number) => void
+): Promise<TravelTimeSlot[]> {
+  const slots: TravelTimeSlot[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    onProgress(hour, 24);
+    const departure = new Date(day);
+    departure.setHours(hour, 0, 0, 0);
+    try {
+      const [route] = await calculateRoutesAt(landmarks, departure, signal);
+      slots.push({ departure, duration: getRouteDuration(route) });
+    } catch (error) {
+      if (error instanceof RoutingError && error.isCancelled) throw error;
+      slots.push({ departure, duration: null });
+    }
+  }
+  onProgress(24, 24);
+  return slots;
+}
+
+export function getFastestSlot(slots: TravelTimeSlot[]): TravelTimeSlot | null {
+  return slots.reduce<TravelTimeSlot | null>(
+    (fastest, slot) =>
+      slot.duration !== null && (fastest === null || slot.duration < fastest.duration!)
+        ? slot
+        : fastest,
+    null
+  );
+}
+
+// Value for a datetime-local input, in local time
+export function toDateTimeInputValue(date: Date): string {
+  const pad = (value: number) => `${value}`.padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,135 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Landmark, Route, RoutePreferences, RoutingService, GemError } from '@magiclane/maps-sdk';
+import { calculateRouteAsync, RoutingError } from '../../shared';
+
+export interface TripStop {
+  id: number;
+  name: string;
+  landmark: Landmark;
+}
+
+// Part of the route between two consecutive stops
+export interface TripLeg {
+  from: string;
+  to: string;
+  distance: number; // m
+  time: number; // s
+}
+
+// Optimising needs a route between almost every pair of stops, so keep the trip small
+export const MAX_OPTIMISED_STOPS = 8;
+
+// The route has one segment per leg, in the order of the stops it was calculated with
+export function getTripLegs(route: Route, stops: TripStop[]): TripLeg[] {
+  return route.segments.map((segment, index) => {
+    const timeDistance = segment.timeDistance;
+    return {
+      from: stops[index]?.name ?? `Stop ${index + 1}`,
+      to: stops[index + 1]?.name ?? `Stop ${index + 2}`,
+      distance: timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM,
+      time: timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS,
+    };
+  });
+}
+
+// Travel time in seconds from stop i to stop j, Infinity when there is no route.
+// The first and last stops stay in place, so routes into the first one or out of the
+// last one are never calculated.
+export async function getTravelTimeMatrix(
+  stops: TripStop[],
+  preferences: RoutePreferences,
+  signal: AbortSignal,
+  onProgress: (done: number, total: number) => void
+): Promise<number[][]> {
+  const n = stops.length;
+  const costs = stops.map(() => new Array<number>(n).fill(Infinity));
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = 1; j < n; j++) {
+      if (i !== j && !(i === 0 && j === n - 1)) pairs.push([i, j]);
+    }
+  }
+
+  for (let p = 0; p < pairs.length; p++) {
+    onProgress(p, pairs.length);
+    const [i, j] = pairs[p];
+    try {
+      const [route]: Route[] = await calculateRouteAsync(
+        { RoutingService, GemError },
+        [stops[i].landmark, stops[j].landmark],
+        preferences,
+        { signal }
+      );
+      const timeDistance = route.getTimeDistance();
+      costs[i][j] = timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
+    } catch (error) {
+      // An unreachable pair only rules out the orders that use it
+      if (error instanceof RoutingError && error.isCancelled) throw error;
+    }
+  }
+  onProgress(pairs.length, pairs.length);
+  return costs;
+}
+
+export function getOrderTime(costs: number[][], order: number[]): number {
+  let total = 0;
+  for (let k = 1; k < order.length; k++) total += costs[order[k - 1]][order[k]];
+  return total;
+}
+
+// Fastest order visiting every stop, starting at the first and ending at the last one.
+// Solved exactly with Held-Karp, which is quick for the few stops of a trip.
+// Returns stop indexes, or null if no order avoids the unreachable pairs.
+export function solveStopOrder(costs: number[][]): number[] | null {
+  const n = costs.length;
+  if (n <= 3) return costs.map((_, index) => index);
+
+  // Intermediate stop k is stop k + 1
+  const m = n - 2;
+  const full = (1 << m) - 1;
+  // best[mask][k]: time from the first stop through the stops in mask, ending at k
+  const best = Array.from({ length: full + 1 }, () => new Array<number>(m).fill(Infinity));
+  const previous = Array.from({ length: full + 1 }, () => new Array<number>(m).fill(-1));
+
+  for (let k = 0; k < m; k++) best[1 << k][k] = costs[0][k + 1];
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let k = 0; k < m; k++) {
+      if (!(mask & (1 << k)) || best[mask][k] === Infinity) continue;
+      for (let j = 0; j < m; j++) {
+        if (mask & (1 << j)) continue;
+        const next = mask | (1 << j);
+        const time = best[mask][k] + costs[k + 1][j + 1];
+        if (time < best[next][j]) {
+          best[next][j] = time;
+          previous[next][j] = k;
+        }
+      }
+    }
+  }
+
+  let last = -1;
+  let bestTime = Infinity;
+  for (let k = 0; k < m; k++) {
+    const time = best[full][k] + costs[k + 1][n - 1];
+    if (time < bestTime) {
+      bestTime = time;
+      last = k;
+    }
+  }
+  if (last === -1) return null;
+
+  const order: number[] = [];
+  let mask = full;
+  for (let k = last; k !== -1;) {
+    order.unshift(k + 1);
+    const before = previous[mask][k];
+    mask &= ~(1 << k);
+    k = before;
+  }
+  return [0, ...order, n - 1];
+}
@@ -12,12 +12,11 @@ import {
   RoutingService,
   GemError,
   Route,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS } from '../../shared';
+import { GEMKIT_TOKEN, showMessage, ICONS, calculateRouteAsync, RoutingError } from '../../shared';
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let currentRoute: Route | null = null;
 
 // UI Elements
@@ -32,13 +31,13 @@ function updateUI() {
   centerTrafficBtn.style.display = 'none';
   clearRoutesBtn.style.display = 'none';
 
-  if (!routingHandler && !currentRoute) {
+  if (!routingController && !currentRoute) {
     // Initial state
     buildRouteBtn.style.display = 'flex';
-  } else if (routingHandler && !currentRoute) {
+  } else if (routingController && !currentRoute) {
     // Calculating state
     cancelRouteBtn.style.display = 'flex';
-  } else if (currentRoute && !routingHandler) {
+  } else if (currentRoute && !routingController) {
     // Route built state - show both buttons offset
     centerTrafficBtn.style.display = 'flex';
     centerTrafficBtn.style.left = '40%';
@@ -48,7 +47,7 @@ function updateUI() {
   }
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   if (!map) return;
 
   // Define the departure (Paris)
@@ -69,35 +68,34 @@ function onBuildRouteButtonPressed() {
   showMessage('The route is being calculated.');
 
   // Calculate route
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map!.preferences.routes;
-        routesMap.add(routes[0], true);
-        map!.centerOnRoute(routes[0]);
-        currentRoute = routes[0];
-        showMessage('Route calculated successfully!');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
-}
 
-function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    showMessage('Route calculation cancelled.');
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map!.preferences.routes;
+    routesMap.add(routes[0], true);
+    map!.centerOnRoute(routes[0]);
+    currentRoute = routes[0];
+    showMessage('Route calculated successfully!');
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
     updateUI();
   }
 }
 
+function onCancelRouteButtonPressed() {
+  routingController?.abort();
+}
+
 function onClearRoutesButtonPressed() {
   if (!map) return;
   map.preferences.routes.clear();
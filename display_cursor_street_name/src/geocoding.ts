@@ -0,0 +1,159 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  AddressField,
+  Coordinates,
+  GemError,
+  Landmark,
+  SearchPreferences,
+  SearchService,
+} from '@magiclane/maps-sdk';
+import { getDistanceBetween } from '../../shared';
+
+export type AddressPart =
+  'street' | 'houseNumber' | 'postalCode' | 'city' | 'county' | 'region' | 'country';
+
+// Address fields in postal order
+export const ADDRESS_PARTS: Array<{ part: AddressPart; label: string; field: AddressField }> = [
+  { part: 'street', label: 'Street', field: AddressField.streetName },
+  { part: 'houseNumber', label: 'House number', field: AddressField.streetNumber },
+  { part: 'postalCode', label: 'Postal code', field: AddressField.postalCode },
+  { part: 'city', label: 'City', field: AddressField.city },
+  { part: 'county', label: 'County', field: AddressField.county },
+  { part: 'region', label: 'Region', field: AddressField.state },
+  { part: 'country', label: 'Country', field: AddressField.country },
+];
+
+export type Address = Record<AddressPart, string>;
+
+export interface NearbyPlace {
+  landmark: Landmark;
+  name: string;
+  detail: string; // category of a POI, address of an address
+  distance: number; // m from the tapped point
+}
+
+export interface ReverseGeocodeResult {
+  latitude: number;
+  longitude: number;
+  address: Address;
+  nearbyAddresses: NearbyPlace[];
+  nearbyPlaces: NearbyPlace[];
+}
+
+const MAX_NEARBY_RESULTS = 5;
+
+function getField(landmark: Landmark | null | undefined, field: AddressField): string {
+  try {
+    return landmark?.address?.getField(field) || '';
+  } catch {
+    return '';
+  }
+}
+
+// Each part comes from the first landmark that has it
+function getAddress(landmarks: Array<Landmark | null | undefined>): Address {
+  const address = {} as Address;
+  ADDRESS_PARTS.forEach(({ part, field }) => {
+    address[part] =
+      landmarks.map((landmark) => getField(landmark, field)).find((value) => !!value) ?? '';
+  });
+  return address;
+}
+
+function searchAround(
+  position: Coordinates,
+  options: { searchAddresses: boolean; searchMapPOIs: boolean }
+): Promise<Landmark[]> {
+  return new Promise((resolve) => {
+    SearchService.searchAroundPosition({
+      position,
+      preferences: SearchPreferences.create({ maxMatches: MAX_NEARBY_RESULTS * 2, ...options }),
+      onCompleteCallback: (err: GemError, results: Landmark[]) => {
+        resolve(err === GemError.success ? results : []);
+      },
+    });
+  });
+}
+
+function toNearbyPlaces(
+  position: Coordinates,
+  landmarks: Landmark[],
+  getDetail: (landmark: Landmark) => string
+): NearbyPlace[] {
+  return landmarks
+    .map((landmark) => ({
+      landmark,
+      name: landmark.name || 'Unnamed',
+      detail: getDetail(landmark),
+      distance: getDistanceBetween(position, landmark.coordinates),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_NEARBY_RESULTS);
+}
+
+/**
+ * Address of a point and what lies around it. The address is read from the closest
+ * address result, with parts it lacks taken from the street under the cursor.
+ */
+export async function reverseGeocode(
+  position: Coordinates,
+  street: Landmark | null
+): Promise<ReverseGeocodeResult> {
+  const addresses = await searchAround(position, { searchAddresses: true, searchMapPOIs: false });
+  const places = await searchAround(position, { searchAddresses: false, searchMapPOIs: true });
+  const nearbyAddresses = toNearbyPlaces(position, addresses, (landmark) => {
+    const address = getAddress([landmark]);
+    return [address.postalCode, address.city].filter(Boolean).join(' ');
+  });
+
+  return {
+    latitude: position.latitude,
+    longitude: position.longitude,
+    address: getAddress([nearbyAddresses[0]?.landmark, street]),
+    nearbyAddresses,
+    nearbyPlaces: toNearbyPlaces(
+      position,
+      places,
+      (landmark) => landmark.categories?.[0]?.name || ''
+    ),
+  };
+}
+
+// Address lines as written on an envelope, empty lines are left out
+export function formatPostalAddress(address: Address): string {
+  return [
+    [address.street, address.houseNumber],
+    [address.postalCode, address.city],
+    [address.county],
+    [address.region],
+    [address.country],
+  ]
+    .map((parts) => parts.filter(Boolean).join(' '))
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function toJson(result: ReverseGeocodeResult): string {
+  const toPlace = (place: NearbyPlace) => ({
+    name: place.name,
+    detail: place.detail,
+    distance: Math.round(place.distance),
+    latitude: place.landmark.coordinates.latitude,
+    longitude: place.landmark.coordinates.longitude,
+  });
+  return JSON.stringify(
+    {
+      latitude: result.latitude,
+      longitude: result.longitude,
+      address: result.address,
+      nearbyAddresses: result.nearbyAddresses.map(toPlace),
+      nearbyPlaces: result.nearbyPlaces.map(toPlace),
+    },
+    null,
+    2
+  );
+}
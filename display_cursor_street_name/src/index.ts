@@ -3,8 +3,16 @@
 //
 // Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
 
-import { GemKit, GemMap, Coordinates, PositionService } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS } from '../../shared';
+import { GemKit, GemMap, Coordinates, PositionService, Landmark } from '@magiclane/maps-sdk';
+import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, formatCoordinates } from '../../shared';
+import {
+  ADDRESS_PARTS,
+  NearbyPlace,
+  ReverseGeocodeResult,
+  reverseGeocode,
+  formatPostalAddress,
+  toJson,
+} from './geocoding';
 
 // Type for screen position coordinates
 interface ScreenPosition {
@@ -14,9 +22,13 @@ interface ScreenPosition {
 
 let map: GemMap | null = null;
 let currentStreetName = '';
+// Results of an older tap are dropped when they arrive after a newer one
+let tapId = 0;
 
 // UI Elements
 let streetNameDiv: HTMLDivElement;
+let inspectorPanel: HTMLDivElement;
+let inspectorContent: HTMLDivElement;
 
 function updateStreetNameUI(name: string) {
   if (!streetNameDiv) return;
@@ -54,16 +66,168 @@ async function onMapCreated(gemMap: GemMap) {
   map.preferences.enableCursor = true;
   map.preferences.enableCursorRender = true;
 
-  // Register touch callback to set cursor and display street name
+  // Register touch callback to set cursor, display street name and inspect the address
   map.registerTouchCallback(async (point: ScreenPosition) => {
     await map!.setCursorScreenPosition(point);
     const streets = map!.cursorSelectionStreets();
-    currentStreetName =
-      streets && streets.length > 0 ? streets[0].name || 'Unnamed street' : 'Unnamed street';
+    const street: Landmark | null = streets && streets.length > 0 ? streets[0] : null;
+    currentStreetName = street?.name || 'Unnamed street';
     updateStreetNameUI(currentStreetName);
+
+    const position = map!.transformScreenToWgs(point);
+    if (position) inspectLocation(position, street);
   });
 }
 
+async function inspectLocation(position: Coordinates, street: Landmark | null) {
+  const id = ++tapId;
+  inspectorPanel.style.display = 'flex';
+  inspectorContent.innerHTML = `
+    <div style="color:#666; font-size:13px;">${formatCoordinates(position.latitude, position.longitude)}</div>
+    <div style="padding: 20px 0; text-align: center; color: #888;">Looking up the address...</div>
+  `;
+
+  const result = await reverseGeocode(position, street);
+  if (id !== tapId) return;
+  renderInspector(result);
+}
+
+function renderInspector(result: ReverseGeocodeResult) {
+  inspectorContent.innerHTML = '';
+
+  const coordinates = document.createElement('div');
+  coordinates.style.cssText = `color:#666; font-size:13px;`;
+  coordinates.textContent = formatCoordinates(result.latitude, result.longitude);
+  inspectorContent.appendChild(coordinates);
+
+  // Every address field, missing ones are shown as such
+  inspectorContent.appendChild(createSectionTitle('Address'));
+  const table = document.createElement('div');
+  table.style.cssText = `display: grid; grid-template-columns: auto 1fr; gap: 4px 12px; font-size: 13px;`;
+  ADDRESS_PARTS.forEach(({ part, label }) => {
+    const labelEl = document.createElement('div');
+    labelEl.style.cssText = `color:#888;`;
+    labelEl.textContent = label;
+    const valueEl = document.createElement('div');
+    valueEl.style.cssText = `color:${result.address[part] ? '#333' : '#bbb'}; font-weight:500;`;
+    valueEl.textContent = result.address[part] || 'Not available';
+    table.appendChild(labelEl);
+    table.appendChild(valueEl);
+  });
+  inspectorContent.appendChild(table);
+
+  const actions = document.createElement('div');
+  actions.style.cssText = `display: flex; gap: 8px; margin-top: 12px;`;
+  actions.appendChild(
+    createActionButton('Copy address', () =>
+      copyText(formatPostalAddress(result.address), 'Address copied.')
+    )
+  );
+  actions.appendChild(
+    createActionButton('Copy JSON', () => copyText(toJson(result), 'JSON copied.'))
+  );
+  inspectorContent.appendChild(actions);
+
+  inspectorContent.appendChild(createSectionTitle('Nearest addresses'));
+  inspectorContent.appendChild(createPlaceList(result.nearbyAddresses, 'No addresses nearby.'));
+
+  inspectorContent.appendChild(createSectionTitle('Nearby places'));
+  inspectorContent.appendChild(createPlaceList(result.nearbyPlaces, 'No places nearby.'));
+}
+
+function createSectionTitle(text: string): HTMLDivElement {
+  const title = document.createElement('div');
+  title.style.cssText = `
+    margin: 16px 0 8px 0; font-weight: 600; font-size: 12px;
+    text-transform: uppercase; color: #888;
+  `;
+  title.textContent = text;
+  return title;
+}
+
+function createActionButton(text: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.textContent = text;
+  button.style.cssText = `
+    flex: 1; padding: 8px; border: 1px solid #673ab7; border-radius: 8px;
+    background: #fff; color: #673ab7; font-weight: 600; font-size: 13px; cursor: pointer;
+  `;
+  button.onclick = onClick;
+  return button;
+}
+
+function createPlaceList(places: NearbyPlace[], emptyText: string): HTMLDivElement {
+  const list = document.createElement('div');
+  if (places.length === 0) {
+    list.style.cssText = `color:#999; font-size:13px;`;
+    list.textContent = emptyText;
+    return list;
+  }
+
+  places.forEach((place) => {
+    const item = document.createElement('div');
+    item.style.cssText = `
+      display: flex; justify-content: space-between; gap: 12px; padding: 8px 0;
+      border-bottom: 1px solid #f0f0f0; cursor: pointer; font-size: 13px;
+    `;
+    item.innerHTML = `
+      <div style="min-width:0;">
+        <div class="place-name" style="font-weight:500; color:#333; overflow:hidden; text-overflow:ellipsis; white-space:nowrap;"></div>
+        <div class="place-detail" style="color:#888; font-size:12px;"></div>
+      </div>
+      <div style="color:#673ab7; font-weight:500; white-space:nowrap;">${convertDistance(place.distance)}</div>
+    `;
+    item.querySelector('.place-name')!.textContent = place.name;
+    item.querySelector('.place-detail')!.textContent = place.detail;
+    item.onclick = () => map?.centerOnCoordinates(place.landmark.coordinates, { zoomLevel: 80 });
+    list.appendChild(item);
+  });
+  return list;
+}
+
+async function copyText(text: string, successMessage: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+    showMessage(successMessage);
+  } catch (error) {
+    console.error('Failed to copy to the clipboard:', error);
+    showMessage('Could not copy to the clipboard.');
+  }
+}
+
+function createInspectorPanel() {
+  inspectorPanel = document.createElement('div');
+  inspectorPanel.style.cssText = `
+    position: fixed; top: 20px; right: 20px; bottom: 120px; width: 320px;
+    background: #fff; border-radius: 12px; box-shadow: 0 6px 25px rgba(0,0,0,0.15);
+    z-index: 2000; display: none; flex-direction: column; overflow: hidden;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = `
+    padding: 16px 20px; border-bottom: 1px solid #eee;
+    display: flex; justify-content: space-between; align-items: center;
+  `;
+  header.innerHTML = `<h3 style="margin:0; font-size:16px; color:#333;">Location inspector</h3>`;
+
+  const closeBtn = document.createElement('button');
+  closeBtn.innerHTML = ICONS.close;
+  closeBtn.style.cssText = `background:none; border:none; cursor:pointer; color:#666; padding:5px;`;
+  closeBtn.onclick = () => {
+    tapId++;
+    inspectorPanel.style.display = 'none';
+  };
+  header.appendChild(closeBtn);
+  inspectorPanel.appendChild(header);
+
+  inspectorContent = document.createElement('div');
+  inspectorContent.style.cssText = `flex: 1; overflow-y: auto; padding: 16px 20px;`;
+  inspectorPanel.appendChild(inspectorContent);
+
+  document.body.appendChild(inspectorPanel);
+}
+
 window.addEventListener('DOMContentLoaded', async () => {
   let gemKit: GemKit;
   try {
@@ -115,6 +279,8 @@ window.addEventListener('DOMContentLoaded', async () => {
   // Initial call (hidden)
   updateStreetNameUI('');
 
+  createInspectorPanel();
+
   // Prompt user
-  showMessage('Tap anywhere on the map to see the street name.');
+  showMessage('Tap anywhere on the map to see the street name and address.');
 });
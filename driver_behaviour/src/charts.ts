@@ -0,0 +1,208 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { TripRecord } from './history';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 1000;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 40 };
+
+interface Series {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+function createSvgElement(tag: string, attributes: Record<string, string | number>): SVGElement {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, `${value}`));
+  return element;
+}
+
+function createChartContainer(title: string, series: Series[]): [HTMLDivElement, SVGSVGElement] {
+  const container = document.createElement('div');
+  container.style.cssText = 'margin-bottom: 20px;';
+
+  const header = document.createElement('div');
+  header.style.cssText =
+    'display:flex; justify-content:space-between; align-items:center; flex-wrap:wrap; gap:8px; margin-bottom:8px;';
+  header.innerHTML = `<div style="font-weight:600; color:#333;">${title}</div>`;
+
+  const legend = document.createElement('div');
+  legend.style.cssText = 'display:flex; gap:12px; flex-wrap:wrap; font-size:12px; color:#666;';
+  series.forEach((s) => {
+    legend.innerHTML += `<span style="display:flex; align-items:center; gap:4px;">
+      <span style="width:10px; height:10px; border-radius:2px; background:${s.color};"></span>${s.label}
+    </span>`;
+  });
+  header.appendChild(legend);
+  container.appendChild(header);
+
+  const svg = createSvgElement('svg', {
+    width: '100%',
+    viewBox: `0 0 ${WIDTH} ${HEIGHT}`,
+  }) as SVGSVGElement;
+  svg.style.cssText =
+    'display:block; background:#fafafa; border:1px solid #eee; border-radius:8px;';
+  container.appendChild(svg);
+
+  return [container, svg];
+}
+
+// Horizontal grid lines with value labels, and one date label per trip
+function drawAxes(
+  svg: SVGSVGElement,
+  trips: TripRecord[],
+  maxValue: number,
+  format: (v: number) => string
+) {
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  for (let i = 0; i <= 4; i++) {
+    const y = PADDING.top + plotHeight - (plotHeight * i) / 4;
+    svg.appendChild(
+      createSvgElement('line', {
+        x1: PADDING.left,
+        x2: WIDTH - PADDING.right,
+        y1: y,
+        y2: y,
+        stroke: '#e0e0e0',
+        'stroke-width': 1,
+      })
+    );
+    const label = createSvgElement('text', {
+      x: PADDING.left - 6,
+      y: y + 4,
+      'text-anchor': 'end',
+      'font-size': 12,
+      fill: '#999',
+    });
+    label.textContent = format((maxValue * i) / 4);
+    svg.appendChild(label);
+  }
+
+  // Skip labels when there are too many trips to fit
+  const labelEvery = Math.max(1, Math.ceil(trips.length / 8));
+  trips.forEach((trip, i) => {
+    if (i % labelEvery !== 0) return;
+    const label = createSvgElement('text', {
+      x: getX(i, trips.length),
+      y: HEIGHT - 6,
+      'text-anchor': 'middle',
+      'font-size': 12,
+      fill: '#999',
+    });
+    label.textContent = new Date(trip.startTime).toLocaleDateString();
+    svg.appendChild(label);
+  });
+}
+
+function getX(index: number, count: number): number {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  return PADDING.left + (plotWidth * (index + 0.5)) / count;
+}
+
+function getY(value: number, maxValue: number): number {
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  return PADDING.top + plotHeight - (plotHeight * value) / (maxValue || 1);
+}
+
+// Line chart of the risk scores of each trip, in trip order
+export function createRiskChart(trips: TripRecord[]): HTMLDivElement {
+  const series: Series[] = [
+    {
+      label: 'Mean speed risk',
+      color: '#e53935',
+      values: trips.map((t) => t.riskRelatedToMeanSpeed * 100),
+    },
+    {
+      label: 'Speed variation risk',
+      color: '#fb8c00',
+      values: trips.map((t) => t.riskRelatedToSpeedVariation * 100),
+    },
+  ];
+  const [container, svg] = createChartContainer('Risk scores', series);
+  drawAxes(svg, trips, 100, (v) => `${Math.round(v)}%`);
+
+  series.forEach((s) => {
+    const points = s.values.map((v, i) => `${getX(i, trips.length)},${getY(v, 100)}`);
+    svg.appendChild(
+      createSvgElement('polyline', {
+        points: points.join(' '),
+        fill: 'none',
+        stroke: s.color,
+        'stroke-width': 2,
+      })
+    );
+    s.values.forEach((v, i) => {
+      const dot = createSvgElement('circle', {
+        cx: getX(i, trips.length),
+        cy: getY(v, 100),
+        r: 4,
+        fill: s.color,
+      });
+      const tooltip = createSvgElement('title', {});
+      tooltip.textContent = `${s.label}: ${Math.round(v)}%`;
+      dot.appendChild(tooltip);
+      svg.appendChild(dot);
+    });
+  });
+
+  return container;
+}
+
+// Grouped bar chart of the harsh event counts of each trip
+export function createEventsChart(trips: TripRecord[]): HTMLDivElement {
+  const series: Series[] = [
+    {
+      label: 'Harsh acceleration',
+      color: '#673ab7',
+      values: trips.map((t) => t.numberOfHarshAccelerationEvents),
+    },
+    {
+      label: 'Harsh braking',
+      color: '#e53935',
+      values: trips.map((t) => t.numberOfHarshBrakingEvents),
+    },
+    {
+      label: 'Cornering',
+      color: '#2196f3',
+      values: trips.map((t) => t.numberOfCorneringEvents),
+    },
+    {
+      label: 'Swerving',
+      color: '#43a047',
+      values: trips.map((t) => t.numberOfSwervingEvents),
+    },
+  ];
+  const [container, svg] = createChartContainer('Harsh events', series);
+
+  const maxCount = Math.max(4, ...series.flatMap((s) => s.values));
+  // Round up so the grid lines fall on whole numbers
+  const maxValue = Math.ceil(maxCount / 4) * 4;
+  drawAxes(svg, trips, maxValue, (v) => `${Math.round(v)}`);
+
+  const slotWidth = (WIDTH - PADDING.left - PADDING.right) / trips.length;
+  const barWidth = Math.min(24, (slotWidth * 0.8) / series.length);
+  series.forEach((s, seriesIndex) => {
+    s.values.forEach((v, i) => {
+      const x = getX(i, trips.length) - (barWidth * series.length) / 2 + seriesIndex * barWidth;
+      const y = getY(v, maxValue);
+      const bar = createSvgElement('rect', {
+        x,
+        y,
+        width: barWidth - 1,
+        height: Math.max(0, HEIGHT - PADDING.bottom - y),
+        fill: s.color,
+      });
+      const tooltip = createSvgElement('title', {});
+      tooltip.textContent = `${s.label}: ${v}`;
+      bar.appendChild(tooltip);
+      svg.appendChild(bar);
+    });
+  });
+
+  return container;
+}
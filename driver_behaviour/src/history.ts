@@ -0,0 +1,139 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { DriverBehaviourAnalysis } from '@magiclane/maps-sdk';
+import { escapeCsv } from '../../shared';
+
+// Plain copy of a DriverBehaviourAnalysis that can be stored and exported
+export interface TripRecord {
+  id: string;
+  source: string; // 'live' or the name of the analysed track file
+  startTime: number;
+  finishTime: number;
+  kilometersDriven: number;
+  minutesDriven: number;
+  minutesTotalElapsed: number;
+  minutesSpeeding: number;
+  riskRelatedToMeanSpeed: number; // 0..1
+  riskRelatedToSpeedVariation: number; // 0..1
+  numberOfHarshAccelerationEvents: number;
+  numberOfHarshBrakingEvents: number;
+  numberOfCorneringEvents: number;
+  numberOfSwervingEvents: number;
+  numberOfIgnoredStopSigns: number;
+  numberOfEncounteredStopSigns: number;
+}
+
+// Columns exported to CSV, in order
+const CSV_COLUMNS: Array<keyof TripRecord> = [
+  'id',
+  'source',
+  'startTime',
+  'finishTime',
+  'kilometersDriven',
+  'minutesDriven',
+  'minutesTotalElapsed',
+  'minutesSpeeding',
+  'riskRelatedToMeanSpeed',
+  'riskRelatedToSpeedVariation',
+  'numberOfHarshAccelerationEvents',
+  'numberOfHarshBrakingEvents',
+  'numberOfCorneringEvents',
+  'numberOfSwervingEvents',
+  'numberOfIgnoredStopSigns',
+  'numberOfEncounteredStopSigns',
+];
+
+const STORAGE_KEY = 'driver_behaviour.trips';
+
+export function toTripRecord(analysis: DriverBehaviourAnalysis, source = 'live'): TripRecord {
+  return {
+    id: `${analysis.startTime}-${analysis.finishTime}`,
+    source,
+    startTime: analysis.startTime,
+    finishTime: analysis.finishTime,
+    kilometersDriven: analysis.kilometersDriven ?? 0,
+    minutesDriven: analysis.minutesDriven ?? 0,
+    minutesTotalElapsed: analysis.minutesTotalElapsed ?? 0,
+    minutesSpeeding: analysis.minutesSpeeding ?? 0,
+    riskRelatedToMeanSpeed: analysis.riskRelatedToMeanSpeed ?? 0,
+    riskRelatedToSpeedVariation: analysis.riskRelatedToSpeedVariation ?? 0,
+    numberOfHarshAccelerationEvents: analysis.numberOfHarshAccelerationEvents ?? 0,
+    numberOfHarshBrakingEvents: analysis.numberOfHarshBrakingEvents ?? 0,
+    numberOfCorneringEvents: analysis.numberOfCorneringEvents ?? 0,
+    numberOfSwervingEvents: analysis.numberOfSwervingEvents ?? 0,
+    numberOfIgnoredStopSigns: analysis.numberOfIgnoredStopSigns ?? 0,
+    numberOfEncounteredStopSigns: analysis.numberOfEncounteredStopSigns ?? 0,
+  };
+}
+
+export function tripsToCsv(trips: TripRecord[]): string {
+  const rows = trips.map((trip) =>
+    CSV_COLUMNS.map((column) =>
+      column === 'startTime' || column === 'finishTime'
+        ? new Date(trip[column]).toISOString()
+        : escapeCsv(`${trip[column] ?? ''}`)
+    ).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+export function tripsToJson(trips: TripRecord[]): string {
+  return JSON.stringify(trips, null, 2);
+}
+
+/**
+ * Trip analyses persisted in localStorage, oldest first.
+ */
+export class TripHistory {
+  private trips: TripRecord[] = [];
+
+  constructor() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.trips = stored ? (JSON.parse(stored) as TripRecord[]) : [];
+    } catch (error) {
+      console.error('Failed to read the trip history:', error);
+      this.trips = [];
+    }
+  }
+
+  list(): TripRecord[] {
+    return this.trips;
+  }
+
+  get size(): number {
+    return this.trips.length;
+  }
+
+  get(id: string): TripRecord | undefined {
+    return this.trips.find((trip) => trip.id === id);
+  }
+
+  add(trip: TripRecord) {
+    this.trips = this.trips.filter((t) => t.id !== trip.id);
+    this.trips.push(trip);
+    this.trips.sort((a, b) => a.startTime - b.startTime);
+    this.save();
+  }
+
+  remove(id: string) {
+    this.trips = this.trips.filter((trip) => trip.id !== id);
+    this.save();
+  }
+
+  clear() {
+    this.trips = [];
+    this.save();
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.trips));
+    } catch (error) {
+      console.error('Failed to save the trip history:', error);
+    }
+  }
+}
@@ -13,24 +13,43 @@ import {
   GemAnimation,
   AnimationType,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  downloadFile,
+  pickTextFile,
+  parseTrack,
+  RecordedPosition,
+  escapeXml,
+  ICONS,
+} from '../../shared';
+import { TripHistory, TripRecord, toTripRecord, tripsToCsv, tripsToJson } from './history';
+import { createRiskChart, createEventsChart } from './charts';
+import { analyseTrack } from './offline';
 
 let map: GemMap | null = null;
 let driverBehaviour: DriverBehaviour | null = null;
 let recordedAnalysis: DriverBehaviourAnalysis | null = null;
 let hasLiveDataSource = false;
 let isAnalysing = false;
+let isAnalysingTrack = false;
+const tripHistory = new TripHistory();
 
 // UI Elements
 let recordBtn: HTMLButtonElement;
 let stopBtn: HTMLButtonElement;
 let followBtn: HTMLButtonElement;
 let viewAnalysisBtn: HTMLButtonElement;
+let analyseTrackBtn: HTMLButtonElement;
 
 function updateUI() {
-  recordBtn.style.display = hasLiveDataSource && !isAnalysing ? 'block' : 'none';
+  recordBtn.style.display =
+    hasLiveDataSource && !isAnalysing && !isAnalysingTrack ? 'block' : 'none';
   stopBtn.style.display = isAnalysing ? 'block' : 'none';
-  viewAnalysisBtn.style.display = recordedAnalysis ? 'block' : 'none';
+  viewAnalysisBtn.style.display = recordedAnalysis || tripHistory.size > 0 ? 'block' : 'none';
+  analyseTrackBtn.style.display = isAnalysing ? 'none' : 'block';
+  analyseTrackBtn.disabled = isAnalysingTrack;
+  if (!isAnalysingTrack) analyseTrackBtn.textContent = 'Analyse Track';
 }
 
 async function onMapCreated(gemMap: GemMap) {
@@ -81,15 +100,138 @@ function onRecordButtonPressed() {
 }
 
 function onStopRecordingButtonPressed() {
+  if (!driverBehaviour) return;
   // Stop recording analysis of driver behaviour
   recordedAnalysis = driverBehaviour.stopAnalysis();
   isAnalysing = false;
+
+  // Keep the trip in the local history
+  if (recordedAnalysis?.isValid) {
+    tripHistory.add(toTripRecord(recordedAnalysis));
+  } else {
+    showMessage('The recorded trip could not be analysed.', 5000);
+  }
+  updateUI();
+}
+
+// Analyse a recorded GPX or NDJSON track instead of live GPS
+async function onAnalyseTrackButtonPressed() {
+  let file: { name: string; content: string } | null;
+  let positions: RecordedPosition[];
+  try {
+    file = await pickTextFile('.gpx,.ndjson,.jsonl,.json');
+    if (!file) return;
+    positions = parseTrack(file.name, file.content);
+  } catch (error) {
+    showMessage('Could not read the track file.', 5000);
+    console.error('Failed to load track:', error);
+    return;
+  }
+  if (positions.length < 2) {
+    showMessage('The track contains too few positions.', 5000);
+    return;
+  }
+
+  isAnalysingTrack = true;
   updateUI();
+  try {
+    const analysis = await analyseTrack(positions, {
+      onProgress: (fraction) => {
+        analyseTrackBtn.textContent = `Analysing... ${Math.round(fraction * 100)}%`;
+      },
+    });
+    if (analysis?.isValid) {
+      recordedAnalysis = analysis;
+      tripHistory.add(toTripRecord(analysis, file.name));
+      showAnalysisModal();
+    } else {
+      showMessage('The track could not be analysed.', 5000);
+    }
+  } catch (error) {
+    showMessage(error instanceof Error ? error.message : 'Track analysis failed.', 5000);
+  } finally {
+    isAnalysingTrack = false;
+    updateUI();
+  }
+}
+
+function exportTrips(trips: TripRecord[], format: 'csv' | 'json') {
+  if (trips.length === 0) return;
+  const fileName =
+    trips.length === 1
+      ? `trip_${new Date(trips[0].startTime).toISOString().replace(/[:.]/g, '-')}`
+      : 'trips';
+  if (format === 'csv') {
+    downloadFile(tripsToCsv(trips), `${fileName}.csv`, 'text/csv');
+  } else {
+    downloadFile(tripsToJson(trips), `${fileName}.json`, 'application/json');
+  }
+}
+
+function createExportButton(label: string, color: string, onClick: () => void) {
+  const btn = document.createElement('button');
+  btn.innerHTML = label;
+  btn.style.cssText = `
+    display: inline-flex; align-items: center; gap: 4px; padding: 6px 12px;
+    background: #fff; color: ${color}; border: 1px solid ${color}; border-radius: 8px;
+    font-size: 0.85em; font-weight: 500; cursor: pointer;
+  `;
+  btn.onclick = (e) => {
+    e.preventDefault();
+    onClick();
+  };
+  return btn;
+}
+
+function createTripDetails(trip: TripRecord, index: number, onRemoved: () => void) {
+  const start = new Date(trip.startTime).toLocaleString();
+  const end = new Date(trip.finishTime).toLocaleString();
+  const dur = ((trip.finishTime - trip.startTime) / 1000 / 60).toFixed(1) + ' min';
+
+  const details = document.createElement('details');
+  details.style.cssText = 'margin-bottom:12px;';
+  details.innerHTML = `
+    <summary><b>Trip ${index + 1}</b> <span style="font-size:0.9em;color:#666;">${start}</span></summary>
+    <div style="margin-top:8px;">
+      <div><b>Source:</b> ${trip.source === 'live' ? 'Live GPS' : escapeXml(trip.source)}</div>
+      <div><b>Start:</b> ${start}</div>
+      <div><b>End:</b> ${end}</div>
+      <div><b>Duration:</b> ${dur}</div>
+      <div><b>Distance (km):</b> ${trip.kilometersDriven.toFixed(2)}</div>
+      <div><b>Driving Time (min):</b> ${trip.minutesDriven.toFixed(1)}</div>
+      <div><b>Total Elapsed (min):</b> ${trip.minutesTotalElapsed.toFixed(1)}</div>
+      <div><b>Speeding (min):</b> ${trip.minutesSpeeding.toFixed(1)}</div>
+      <div><b>Risk Mean Speed (%):</b> ${Math.round(trip.riskRelatedToMeanSpeed * 100)}%</div>
+      <div><b>Risk Speed Var (%):</b> ${Math.round(trip.riskRelatedToSpeedVariation * 100)}%</div>
+      <div style="margin-top:8px;font-weight:bold;">Events:</div>
+      <div><b>Harsh Accel:</b> ${trip.numberOfHarshAccelerationEvents}</div>
+      <div><b>Harsh Braking:</b> ${trip.numberOfHarshBrakingEvents}</div>
+      <div><b>Cornering:</b> ${trip.numberOfCorneringEvents}</div>
+      <div><b>Swerving:</b> ${trip.numberOfSwervingEvents}</div>
+      <div><b>Ignored Stops:</b> ${trip.numberOfIgnoredStopSigns}</div>
+      <div><b>Stop Signs:</b> ${trip.numberOfEncounteredStopSigns}</div>
+    </div>
+  `;
+
+  const actions = document.createElement('div');
+  actions.style.cssText = 'display:flex; gap:8px; margin-top:8px;';
+  actions.appendChild(
+    createExportButton(`${ICONS.download} CSV`, '#673ab7', () => exportTrips([trip], 'csv'))
+  );
+  actions.appendChild(
+    createExportButton(`${ICONS.download} JSON`, '#673ab7', () => exportTrips([trip], 'json'))
+  );
+  actions.appendChild(
+    createExportButton(`${ICONS.trash} Delete`, '#e53935', () => {
+      tripHistory.remove(trip.id);
+      onRemoved();
+    })
+  );
+  details.appendChild(actions);
+  return details;
 }
 
 function showAnalysisModal() {
-  if (!driverBehaviour) return;
-  const analyses = driverBehaviour.getAllDriverBehaviourAnalyses();
   const modal = document.createElement('div');
   modal.style.cssText = `
     position: fixed; top: 0; left: 0; width: 100vw; height: 100vh;
@@ -97,56 +239,64 @@ function showAnalysisModal() {
   `;
   const panel = document.createElement('div');
   panel.style.cssText = `
-    background: #fff; border-radius: 12px; padding: 24px; max-width: 600px; width: 90vw; max-height: 80vh; overflow-y: auto;
+    background: #fff; border-radius: 12px; padding: 24px; max-width: 720px; width: 90vw; max-height: 80vh; overflow-y: auto;
     box-shadow: 0 2px 20px rgba(0,0,0,0.3);
   `;
-  panel.innerHTML = `<h2 style="margin-top:0;">Analyses</h2>`;
-  if (!analyses || analyses.length === 0) {
-    panel.innerHTML += `<div>No analyses recorded</div>`;
-  } else {
-    analyses.forEach((a: DriverBehaviourAnalysis, i: number) => {
-      if (!a.isValid) {
-        panel.innerHTML += `<div style="margin-bottom:12px;"><b>Trip ${i + 1}:</b> Invalid analysis</div>`;
-        return;
+  const closeModal = () => {
+    if (modal.parentNode) document.body.removeChild(modal);
+    updateUI();
+  };
+
+  const render = () => {
+    const trips = tripHistory.list();
+    panel.innerHTML = `<h2 style="margin-top:0;">Trip History</h2>`;
+
+    if (trips.length === 0) {
+      panel.innerHTML += `<div>No analyses recorded</div>`;
+    } else {
+      panel.appendChild(createRiskChart(trips));
+      panel.appendChild(createEventsChart(trips));
+
+      const exportAll = document.createElement('div');
+      exportAll.style.cssText = 'display:flex; gap:8px; flex-wrap:wrap; margin-bottom:16px;';
+      exportAll.appendChild(
+        createExportButton(`${ICONS.download} Export all (CSV)`, '#2196f3', () =>
+          exportTrips(trips, 'csv')
+        )
+      );
+      exportAll.appendChild(
+        createExportButton(`${ICONS.download} Export all (JSON)`, '#2196f3', () =>
+          exportTrips(trips, 'json')
+        )
+      );
+      exportAll.appendChild(
+        createExportButton(`${ICONS.trash} Clear history`, '#e53935', () => {
+          if (!confirm('Delete all recorded trips?')) return;
+          tripHistory.clear();
+          render();
+        })
+      );
+      panel.appendChild(exportAll);
+
+      // Most recent trip first
+      for (let i = trips.length - 1; i >= 0; i--) {
+        panel.appendChild(createTripDetails(trips[i], i, render));
       }
-      const start = new Date(a.startTime).toLocaleString();
-      const end = new Date(a.finishTime).toLocaleString();
-      const dur = ((a.finishTime - a.startTime) / 1000 / 60).toFixed(1) + ' min';
-      panel.innerHTML += `
-        <details style="margin-bottom:12px;">
-          <summary><b>Trip ${i + 1}</b> <span style="font-size:0.9em;color:#666;">${start}</span></summary>
-          <div style="margin-top:8px;">
-            <div><b>Start:</b> ${start}</div>
-            <div><b>End:</b> ${end}</div>
-            <div><b>Duration:</b> ${dur}</div>
-            <div><b>Distance (km):</b> ${a.kilometersDriven?.toFixed(2)}</div>
-            <div><b>Driving Time (min):</b> ${a.minutesDriven?.toFixed(1)}</div>
-            <div><b>Total Elapsed (min):</b> ${a.minutesTotalElapsed?.toFixed(1)}</div>
-            <div><b>Speeding (min):</b> ${a.minutesSpeeding?.toFixed(1)}</div>
-            <div><b>Risk Mean Speed (%):</b> ${Math.round(a.riskRelatedToMeanSpeed * 100)}%</div>
-            <div><b>Risk Speed Var (%):</b> ${Math.round(a.riskRelatedToSpeedVariation * 100)}%</div>
-            <div style="margin-top:8px;font-weight:bold;">Events:</div>
-            <div><b>Harsh Accel:</b> ${a.numberOfHarshAccelerationEvents}</div>
-            <div><b>Harsh Braking:</b> ${a.numberOfHarshBrakingEvents}</div>
-            <div><b>Cornering:</b> ${a.numberOfCorneringEvents}</div>
-            <div><b>Swerving:</b> ${a.numberOfSwervingEvents}</div>
-            <div><b>Ignored Stops:</b> ${a.numberOfIgnoredStopSigns}</div>
-            <div><b>Stop Signs:</b> ${a.numberOfEncounteredStopSigns}</div>
-          </div>
-        </details>
-      `;
-    });
-  }
-  const closeBtn = document.createElement('button');
-  closeBtn.textContent = 'Close';
-  closeBtn.style.cssText = `
-    margin-top: 12px; padding: 8px 20px; background: #673ab7; color: #fff; border: none; border-radius: 8px; font-size: 1em; cursor: pointer;
-  `;
-  closeBtn.onclick = () => document.body.removeChild(modal);
-  panel.appendChild(closeBtn);
+    }
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = 'Close';
+    closeBtn.style.cssText = `
+      margin-top: 12px; padding: 8px 20px; background: #673ab7; color: #fff; border: none; border-radius: 8px; font-size: 1em; cursor: pointer;
+    `;
+    closeBtn.onclick = closeModal;
+    panel.appendChild(closeBtn);
+  };
+
+  render();
   modal.appendChild(panel);
   modal.onclick = (e) => {
-    if (e.target === modal) document.body.removeChild(modal);
+    if (e.target === modal) closeModal();
   };
   document.body.appendChild(modal);
 }
@@ -204,7 +354,7 @@ window.addEventListener('DOMContentLoaded', async () => {
 
   // View Analysis button
   viewAnalysisBtn = document.createElement('button');
-  viewAnalysisBtn.textContent = 'View Analysis';
+  viewAnalysisBtn.textContent = 'Trip History';
   viewAnalysisBtn.style.cssText = `
     position: fixed; bottom: 20px; left: 50%; transform: translateX(-50%);
     background: #2196f3; color: #fff; border: none; border-radius: 8px;
@@ -213,5 +363,16 @@ window.addEventListener('DOMContentLoaded', async () => {
   viewAnalysisBtn.onclick = showAnalysisModal;
   document.body.appendChild(viewAnalysisBtn);
 
+  // Analyse Track button
+  analyseTrackBtn = document.createElement('button');
+  analyseTrackBtn.textContent = 'Analyse Track';
+  analyseTrackBtn.style.cssText = `
+    position: fixed; top: 76px; right: 20px; padding: 12px 20px;
+    background: #fff; color: #673ab7; border: 2px solid #673ab7; border-radius: 8px;
+    font-size: 1em; font-weight: 500; cursor: pointer; z-index: 2000;
+  `;
+  analyseTrackBtn.onclick = onAnalyseTrackButtonPressed;
+  document.body.appendChild(analyseTrackBtn);
+
   updateUI();
 });
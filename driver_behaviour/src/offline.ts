@@ -0,0 +1,74 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  DataSource,
+  DataType,
+  DriverBehaviour,
+  DriverBehaviourAnalysis,
+  SenseDataFactory,
+  Provider,
+  PositionQuality,
+} from '@magiclane/maps-sdk';
+import { RecordedPosition, ReplayClock } from '../../shared';
+
+export interface TrackAnalysisOptions {
+  speedup?: number; // how much faster than real time the track is fed (default: 50)
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Run a driver behaviour analysis over a recorded track by pushing its positions
+ * into an external data source. The positions keep their recorded spacing in time,
+ * so the scoring matches a live drive even though it runs faster than real time.
+ */
+export async function analyseTrack(
+  positions: RecordedPosition[],
+  options: TrackAnalysisOptions = {}
+): Promise<DriverBehaviourAnalysis | null> {
+  const { speedup = 50, onProgress } = options;
+
+  const dataSource = DataSource.createExternalDataSource([DataType.position]);
+  if (!dataSource) throw new Error('Creating a data source failed.');
+
+  const driverBehaviour = new DriverBehaviour(dataSource, true);
+  dataSource.start();
+  if (!driverBehaviour.startAnalysis()) {
+    dataSource.stop();
+    throw new Error('Starting analysis failed.');
+  }
+
+  const clock = new ReplayClock();
+  try {
+    for (let i = 0; i < positions.length; i++) {
+      const position = positions[i];
+      if (i > 0) {
+        const delay = (position.timestamp - positions[i - 1].timestamp) / speedup;
+        await new Promise((res) => setTimeout(res, delay));
+      }
+
+      const time = clock.timeOf(position);
+      dataSource.pushData(
+        SenseDataFactory.producePosition({
+          acquisitionTime: time,
+          satelliteTime: time,
+          latitude: position.latitude,
+          longitude: position.longitude,
+          altitude: position.altitude,
+          course: position.course,
+          speed: position.speed,
+          accuracyH: position.accuracy,
+          provider: Provider.gps,
+          fixQuality: PositionQuality.high,
+        })
+      );
+      onProgress?.((i + 1) / positions.length);
+    }
+
+    return driverBehaviour.stopAnalysis();
+  } finally {
+    dataSource.stop();
+  }
+}
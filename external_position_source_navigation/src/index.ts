@@ -6,7 +6,6 @@
 import {
   GemKit,
   GemMap,
-  Coordinates,
   PositionService,
   DataSource,
   DataType,
@@ -32,7 +31,20 @@ import {
   styleButton,
   convertDistance,
   convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+  RoutingErrorType,
+  downloadFile,
+  pickTextFile,
+  RecordedPosition,
+  TrackFormat,
+  parseTrack,
+  toGpx,
+  toNdjson,
 } from '../../shared';
+import { PositionRecorder } from './recording';
+import { PositionPlayer } from './player';
+import { synthesizeTrip } from './synthesizer';
 
 // Turn icon (not in shared ICONS - specific to navigation)
 const TURN_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="30" viewBox="0 0 24 24" width="30" fill="currentColor"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 14H9V8h2v3.17l2.59-2.58L15 10l-4 4z"/></svg>`;
@@ -43,9 +55,16 @@ let currentInstruction: NavigationInstruction | null = null;
 let areRoutesBuilt = false;
 let isNavigationActive = false;
 let hasDataSource = false;
-let routingHandler: TaskHandler | null = null;
+let isRecordingLive = false; // the live data source was set only for recording
+let routingController: AbortController | null = null;
 let navigationHandler: TaskHandler | null = null;
 
+// Record & replay
+const recorder = new PositionRecorder();
+let player: PositionPlayer | null = null;
+let replayName = '';
+let isSynthesizedTrip = false;
+
 // UI Elements
 let buildRouteBtn: HTMLButtonElement;
 let startNavBtn: HTMLButtonElement;
@@ -56,6 +75,20 @@ let followBtn: HTMLButtonElement;
 let instructionPanel: HTMLDivElement;
 let bottomPanel: HTMLDivElement;
 
+// Record & replay panel
+let recordBtn: HTMLButtonElement;
+let recordInfo: HTMLDivElement;
+let saveGpxBtn: HTMLButtonElement;
+let saveNdjsonBtn: HTMLButtonElement;
+let replayInfo: HTMLDivElement;
+let playPauseBtn: HTMLButtonElement;
+let seekSlider: HTMLInputElement;
+let replayTime: HTMLSpanElement;
+let speedSelect: HTMLSelectElement;
+let loopCheckbox: HTMLInputElement;
+let jitterSelect: HTMLSelectElement;
+let dropoutsCheckbox: HTMLInputElement;
+
 function updateNavigationPanels() {
   if (!currentInstruction) return;
 
@@ -186,7 +219,7 @@ function getRouteMapLabel(route: Route): string {
   return `${convertDistance(totalDistance)} \n${convertDuration(totalDuration)}`;
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   if (!map) return;
 
   // Define the departure and destination
@@ -202,32 +235,34 @@ function onBuildRouteButtonPressed() {
   const routePreferences = new RoutePreferences({});
   showMessage('The route is calculating.');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.routeTooLong) {
-        showMessage('Destination is too far.');
-        return;
-      }
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map!.preferences.routes;
-        routes.forEach((route, idx) => {
-          routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
-        });
-        map!.centerOnRoutes({ routes });
-        areRoutesBuilt = true;
-        updateUI();
-      } else {
-        showMessage('Route calculation failed.');
-      }
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+    const routesMap = map.preferences.routes;
+    routes.forEach((route, idx) => {
+      routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
+    });
+    map.centerOnRoutes({ routes });
+    areRoutesBuilt = true;
+  } catch (error) {
+    if (error instanceof RoutingError && error.type === RoutingErrorType.RouteTooLong) {
+      showMessage('Destination is too far.');
+    } else if (!(error instanceof RoutingError && error.isCancelled)) {
+      showMessage('Route calculation failed.');
+    }
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
-async function startNavigation() {
+function startNavigation() {
   if (!map) return;
   const routes = map.preferences.routes;
   if (!routes.mainRoute) {
@@ -260,48 +295,24 @@ async function startNavigation() {
     },
   });
   map.startFollowingPosition();
-  await pushExternalPosition();
-}
-
-async function pushExternalPosition() {
-  const route = map!.preferences.routes.mainRoute;
-  if (!route) return;
-  const timeDistance = route.getTimeDistance();
-  const distance = timeDistance.totalDistanceM;
-  let prevCoordinates = route.getCoordinateOnRoute(0);
 
-  for (let currentDistance = 1; currentDistance <= distance; currentDistance += 1) {
-    if (!hasDataSource) return;
-    if (currentDistance === distance) {
-      stopNavigation();
-      return;
-    }
-    const currentCoordinates = route.getCoordinateOnRoute(currentDistance);
-    await new Promise((res) => setTimeout(res, 25));
-    dataSource!.pushData(
-      SenseDataFactory.producePosition({
-        acquisitionTime: new Date(),
-        satelliteTime: new Date(),
-        latitude: currentCoordinates.latitude,
-        longitude: currentCoordinates.longitude,
-        altitude: 0,
-        course: getHeading(prevCoordinates, currentCoordinates),
-        speed: 0,
-        provider: Provider.gps,
-        fixQuality: PositionQuality.high,
-      })
-    );
-    prevCoordinates = currentCoordinates;
+  // A loaded recording drives the navigation, otherwise a trip is synthesized from the route
+  if (!player || isSynthesizedTrip) {
+    const positions = synthesizeTrip(routes.mainRoute, {
+      jitterM: parseFloat(jitterSelect.value),
+      dropoutProbability: dropoutsCheckbox.checked ? 0.01 : 0,
+    });
+    loadTrip(positions, 'Synthesized trip', true);
   }
+  useExternalDataSource();
+  player!.play();
+  updateReplayControls();
 }
 
 function cancelRoute() {
   if (!map) return;
   map.preferences.routes.clear();
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  routingController?.abort();
   areRoutesBuilt = false;
   updateUI();
 }
@@ -311,6 +322,12 @@ function stopNavigation() {
     NavigationService.cancelNavigation(navigationHandler);
     navigationHandler = null;
   }
+  player?.pause();
+  if (isSynthesizedTrip) {
+    player = null;
+    isSynthesizedTrip = false;
+  }
+  updateReplayControls();
   PositionService.instance.removeDataSource();
   dataSource!.stop();
   cancelRoute();
@@ -320,10 +337,16 @@ function stopNavigation() {
   updateNavigationPanels();
 }
 
+function useExternalDataSource() {
+  if (hasDataSource) return;
+  PositionService.instance.setExternalDataSource(dataSource!);
+  dataSource!.start();
+  hasDataSource = true;
+}
+
 function onFollowPositionButtonPressed() {
   if (!hasDataSource) {
-    PositionService.instance.setExternalDataSource(dataSource!);
-    dataSource!.start();
+    useExternalDataSource();
     dataSource!.pushData(
       SenseDataFactory.producePosition({
         acquisitionTime: new Date(),
@@ -337,7 +360,6 @@ function onFollowPositionButtonPressed() {
         fixQuality: PositionQuality.high,
       })
     );
-    hasDataSource = true;
     showMessage('Simulating GPS Position...');
   }
   const animation = new GemAnimation({ type: AnimationType.linear });
@@ -345,11 +367,268 @@ function onFollowPositionButtonPressed() {
   updateUI();
 }
 
-function getHeading(from: Coordinates, to: Coordinates): number {
-  const dx = to.longitude - from.longitude;
-  const dy = to.latitude - from.latitude;
-  const val = Math.atan2(dx, dy) * 57.2957795;
-  return val < 0 ? val + 360 : val;
+// Record & replay
+function onRecordButtonPressed() {
+  if (recorder.isRecording) {
+    const positions = recorder.stop();
+    // Drop the live data source, unless a simulated source has replaced it meanwhile
+    if (isRecordingLive && !hasDataSource) PositionService.instance.removeDataSource();
+    isRecordingLive = false;
+    showMessage(`Recorded ${positions.length} positions.`);
+    updateReplayControls();
+    return;
+  }
+
+  // Without a simulated source, record the device GPS until the recording stops
+  if (!hasDataSource) {
+    PositionService.instance.setLiveDataSource();
+    isRecordingLive = true;
+  }
+  recorder.start(() => updateReplayControls());
+  showMessage('Recording positions...');
+  updateReplayControls();
+}
+
+function saveRecording(format: TrackFormat) {
+  const positions = recorder.samples;
+  if (positions.length === 0) return;
+
+  const fileName = `positions_${new Date(positions[0].timestamp).toISOString().replace(/[:.]/g, '-')}`;
+  if (format === 'gpx') {
+    downloadFile(toGpx(positions), `${fileName}.gpx`, 'application/gpx+xml');
+  } else {
+    downloadFile(toNdjson(positions), `${fileName}.ndjson`, 'application/x-ndjson');
+  }
+}
+
+function loadTrip(positions: RecordedPosition[], name: string, synthesized: boolean) {
+  player?.pause();
+  player = new PositionPlayer(dataSource!, positions, {
+    onProgress: () => updateReplayControls(),
+    onFinished: () => updateReplayControls(),
+  });
+  player.speed = parseFloat(speedSelect.value);
+  player.loop = loopCheckbox.checked;
+  replayName = name;
+  isSynthesizedTrip = synthesized;
+}
+
+async function onLoadRecordingButtonPressed() {
+  let positions: RecordedPosition[];
+  let fileName: string;
+  try {
+    const file = await pickTextFile('.gpx,.ndjson,.jsonl,.json');
+    if (!file) return;
+    positions = parseTrack(file.name, file.content);
+    fileName = file.name;
+  } catch (error) {
+    showMessage('Could not read the recording.');
+    console.error('Failed to load recording:', error);
+    return;
+  }
+  if (positions.length === 0) {
+    showMessage('The recording contains no positions.');
+    return;
+  }
+
+  loadTrip(positions, fileName, false);
+
+  // Show the first recorded position
+  useExternalDataSource();
+  player!.seek(0);
+  map?.startFollowingPosition({ animation: new GemAnimation({ type: AnimationType.linear }) });
+  showMessage(`Loaded ${positions.length} positions.`);
+  updateReplayControls();
+}
+
+function onPlayPauseButtonPressed() {
+  if (!player) return;
+  if (player.isPlaying) {
+    player.pause();
+  } else {
+    useExternalDataSource();
+    player.play();
+    map?.startFollowingPosition();
+  }
+  updateReplayControls();
+}
+
+function formatElapsed(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function updateReplayControls() {
+  if (!recordBtn) return;
+
+  const sampleCount = recorder.samples.length;
+  recordBtn.innerHTML = recorder.isRecording
+    ? `${ICONS.stop} Stop Recording`
+    : `${ICONS.record} Record`;
+  recordBtn.style.background = recorder.isRecording ? '#f44336' : '#fff';
+  recordBtn.style.color = recorder.isRecording ? '#fff' : '#f44336';
+  recordInfo.textContent = recorder.isRecording
+    ? `Recording... ${sampleCount} positions`
+    : sampleCount > 0
+      ? `${sampleCount} positions recorded`
+      : 'No recording yet';
+  saveGpxBtn.disabled = recorder.isRecording || sampleCount === 0;
+  saveNdjsonBtn.disabled = saveGpxBtn.disabled;
+  saveGpxBtn.style.opacity = saveGpxBtn.disabled ? '0.5' : '1';
+  saveNdjsonBtn.style.opacity = saveGpxBtn.style.opacity;
+
+  replayInfo.textContent = player ? `${replayName} (${player.length} positions)` : 'No file loaded';
+  playPauseBtn.disabled = !player;
+  playPauseBtn.style.opacity = player ? '1' : '0.5';
+  playPauseBtn.innerHTML = player?.isPlaying ? ICONS.pause : ICONS.play;
+  seekSlider.disabled = !player;
+  seekSlider.max = `${player ? player.length - 1 : 0}`;
+  seekSlider.value = `${player ? player.currentIndex : 0}`;
+  replayTime.textContent = player
+    ? `${formatElapsed(player.elapsed)} / ${formatElapsed(player.duration)}`
+    : '0:00 / 0:00';
+}
+
+function createReplayButton(html: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement('button');
+  btn.innerHTML = html;
+  btn.style.cssText = `
+    display: flex; align-items: center; justify-content: center; gap: 6px;
+    padding: 8px 12px; border: 1px solid #ddd; border-radius: 8px;
+    background: #fff; color: #333; font-size: 13px; font-weight: 600; cursor: pointer;
+  `;
+  btn.onclick = onClick;
+  return btn;
+}
+
+function createReplayPanel() {
+  const panel = document.createElement('div');
+  panel.style.cssText = `
+    position: fixed;
+    top: 90px;
+    right: 20px;
+    z-index: 2000;
+    width: 280px;
+    background: rgba(255, 255, 255, 0.95);
+    color: #333;
+    border-radius: 16px;
+    padding: 16px;
+    box-shadow: 0 6px 25px rgba(0,0,0,0.2);
+    display: flex;
+    flex-direction: column;
+    gap: 10px;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+    font-size: 13px;
+  `;
+
+  const sectionTitle = (text: string) => {
+    const title = document.createElement('div');
+    title.textContent = text;
+    title.style.cssText =
+      'font-size: 11px; text-transform: uppercase; color: #666; font-weight: 700;';
+    return title;
+  };
+  const row = () => {
+    const div = document.createElement('div');
+    div.style.cssText = 'display: flex; align-items: center; gap: 8px;';
+    return div;
+  };
+
+  // Recorder
+  panel.appendChild(sectionTitle('Record'));
+  recordBtn = createReplayButton('', onRecordButtonPressed);
+  recordBtn.style.flex = '1';
+  saveGpxBtn = createReplayButton(`${ICONS.download} GPX`, () => saveRecording('gpx'));
+  saveNdjsonBtn = createReplayButton(`${ICONS.download} NDJSON`, () => saveRecording('ndjson'));
+  const recordRow = row();
+  recordRow.append(recordBtn);
+  const saveRow = row();
+  saveRow.append(saveGpxBtn, saveNdjsonBtn);
+  recordInfo = document.createElement('div');
+  recordInfo.style.color = '#666';
+  panel.append(recordRow, recordInfo, saveRow);
+
+  // Player
+  panel.appendChild(sectionTitle('Replay'));
+  const loadBtn = createReplayButton(
+    `${ICONS.upload} Load GPX / NDJSON`,
+    onLoadRecordingButtonPressed
+  );
+  replayInfo = document.createElement('div');
+  replayInfo.style.cssText =
+    'color: #666; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+
+  playPauseBtn = createReplayButton(ICONS.play, onPlayPauseButtonPressed);
+  seekSlider = document.createElement('input');
+  seekSlider.type = 'range';
+  seekSlider.min = '0';
+  seekSlider.step = '1';
+  seekSlider.style.flex = '1';
+  seekSlider.oninput = () => {
+    player?.seek(parseInt(seekSlider.value, 10));
+    updateReplayControls();
+  };
+  const playRow = row();
+  playRow.append(playPauseBtn, seekSlider);
+
+  replayTime = document.createElement('span');
+  replayTime.style.cssText = 'flex: 1; color: #666; font-variant-numeric: tabular-nums;';
+  speedSelect = document.createElement('select');
+  speedSelect.style.cssText = 'padding: 4px; border-radius: 6px; border: 1px solid #ddd;';
+  [0.5, 1, 2, 4, 8, 16].forEach((speed) => {
+    const option = document.createElement('option');
+    option.value = `${speed}`;
+    option.textContent = `${speed}x`;
+    option.selected = speed === 1;
+    speedSelect.appendChild(option);
+  });
+  speedSelect.onchange = () => {
+    if (player) player.speed = parseFloat(speedSelect.value);
+  };
+  const loopLabel = document.createElement('label');
+  loopLabel.style.cssText = 'display: flex; align-items: center; gap: 4px; cursor: pointer;';
+  loopCheckbox = document.createElement('input');
+  loopCheckbox.type = 'checkbox';
+  loopCheckbox.onchange = () => {
+    if (player) player.loop = loopCheckbox.checked;
+  };
+  loopLabel.append(loopCheckbox, 'Loop');
+  const optionsRow = row();
+  optionsRow.append(replayTime, speedSelect, loopLabel);
+
+  panel.append(loadBtn, replayInfo, playRow, optionsRow);
+
+  // Trip synthesizer, used when navigating without a loaded recording
+  panel.appendChild(sectionTitle('Synthesized trip'));
+  const jitterLabel = document.createElement('span');
+  jitterLabel.textContent = 'GPS noise';
+  jitterLabel.style.flex = '1';
+  jitterSelect = document.createElement('select');
+  jitterSelect.style.cssText = speedSelect.style.cssText;
+  [
+    ['0', 'Off'],
+    ['3', '3 m'],
+    ['10', '10 m'],
+    ['25', '25 m'],
+  ].forEach(([value, text]) => {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = text;
+    jitterSelect.appendChild(option);
+  });
+  const dropoutsLabel = document.createElement('label');
+  dropoutsLabel.style.cssText = loopLabel.style.cssText;
+  dropoutsCheckbox = document.createElement('input');
+  dropoutsCheckbox.type = 'checkbox';
+  dropoutsLabel.append(dropoutsCheckbox, 'Dropouts');
+  const synthRow = row();
+  synthRow.append(jitterLabel, jitterSelect, dropoutsLabel);
+  panel.appendChild(synthRow);
+
+  document.body.appendChild(panel);
+  updateReplayControls();
 }
 
 window.addEventListener('DOMContentLoaded', async () => {
@@ -407,5 +686,6 @@ window.addEventListener('DOMContentLoaded', async () => {
   followBtn.onclick = onFollowPositionButtonPressed;
   document.body.appendChild(followBtn);
 
+  createReplayPanel();
   updateUI();
 });
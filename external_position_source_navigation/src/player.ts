@@ -0,0 +1,137 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { DataSource, SenseDataFactory, Provider, PositionQuality } from '@magiclane/maps-sdk';
+import { RecordedPosition, ReplayClock } from '../../shared';
+
+export interface PositionPlayerCallbacks {
+  // Called after each pushed sample with the index of the sample
+  onProgress?: (index: number) => void;
+  // Called when the last sample was pushed and looping is off
+  onFinished?: () => void;
+}
+
+/**
+ * Replays recorded positions into an external DataSource,
+ * waiting between samples as long as the original recording did.
+ */
+export class PositionPlayer {
+  private index = 0;
+  private playing = false;
+  private timeoutId: number | undefined;
+  private clock = new ReplayClock();
+
+  speed = 1; // playback speed multiplier
+  loop = false;
+
+  constructor(
+    private dataSource: DataSource,
+    private positions: RecordedPosition[],
+    private callbacks: PositionPlayerCallbacks = {}
+  ) {}
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get currentIndex(): number {
+    return this.index;
+  }
+
+  get length(): number {
+    return this.positions.length;
+  }
+
+  // Recording duration in milliseconds
+  get duration(): number {
+    if (this.positions.length < 2) return 0;
+    return this.positions[this.positions.length - 1].timestamp - this.positions[0].timestamp;
+  }
+
+  // Elapsed recording time at the current sample, in milliseconds
+  get elapsed(): number {
+    if (this.positions.length === 0) return 0;
+    return this.positions[this.index].timestamp - this.positions[0].timestamp;
+  }
+
+  play() {
+    if (this.playing || this.positions.length === 0) return;
+    if (this.index >= this.positions.length - 1) this.index = 0;
+    this.clock.restart();
+    this.playing = true;
+    this.pushCurrent();
+  }
+
+  pause() {
+    this.playing = false;
+    window.clearTimeout(this.timeoutId);
+  }
+
+  // Jump to a sample; it is pushed right away so the position updates while paused
+  seek(index: number) {
+    if (this.positions.length === 0) return;
+    window.clearTimeout(this.timeoutId);
+    this.clock.restart();
+    this.index = Math.min(Math.max(0, Math.round(index)), this.positions.length - 1);
+    if (this.playing) {
+      this.pushCurrent();
+    } else {
+      this.push(this.positions[this.index]);
+      this.callbacks.onProgress?.(this.index);
+    }
+  }
+
+  stop() {
+    this.pause();
+    this.index = 0;
+  }
+
+  private pushCurrent() {
+    if (!this.playing) return;
+
+    this.push(this.positions[this.index]);
+    this.callbacks.onProgress?.(this.index);
+
+    const next = this.index + 1;
+    if (next >= this.positions.length) {
+      if (this.loop) {
+        this.index = 0;
+        this.clock.restart();
+        this.timeoutId = window.setTimeout(() => this.pushCurrent(), 1000 / this.speed);
+      } else {
+        this.playing = false;
+        this.callbacks.onFinished?.();
+      }
+      return;
+    }
+
+    const delay = Math.max(
+      0,
+      (this.positions[next].timestamp - this.positions[this.index].timestamp) / this.speed
+    );
+    this.timeoutId = window.setTimeout(() => {
+      this.index = next;
+      this.pushCurrent();
+    }, delay);
+  }
+
+  private push(position: RecordedPosition) {
+    const time = this.clock.timeOf(position);
+    this.dataSource.pushData(
+      SenseDataFactory.producePosition({
+        acquisitionTime: time,
+        satelliteTime: time,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        altitude: position.altitude,
+        course: position.course,
+        speed: position.speed,
+        accuracyH: position.accuracy,
+        provider: Provider.gps,
+        fixQuality: PositionQuality.high,
+      })
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { PositionService, GemImprovedPosition, GemPositionListener } from '@magiclane/maps-sdk';
+import { RecordedPosition } from '../../shared';
+
+/**
+ * Captures the improved positions reported by PositionService.
+ * The listener is only registered while recording.
+ */
+export class PositionRecorder {
+  private positions: RecordedPosition[] = [];
+  private recording = false;
+  private listener: GemPositionListener | null = null;
+  private onSample: ((count: number) => void) | null = null;
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get samples(): RecordedPosition[] {
+    return this.positions;
+  }
+
+  // Start a new recording, discarding the previous one
+  start(onSample?: (count: number) => void) {
+    this.positions = [];
+    this.onSample = onSample ?? null;
+    this.recording = true;
+
+    if (!this.listener) {
+      this.listener = PositionService.instance.addImprovedPositionListener(
+        (position: GemImprovedPosition) => this.capture(position)
+      );
+    }
+  }
+
+  stop(): RecordedPosition[] {
+    this.recording = false;
+    this.onSample = null;
+    if (this.listener) {
+      PositionService.instance.removeImprovedPositionListener(this.listener);
+      this.listener = null;
+    }
+    return this.positions;
+  }
+
+  private capture(position: GemImprovedPosition) {
+    if (!this.recording) return;
+
+    this.positions.push({
+      timestamp: position.satelliteTime.getTime(),
+      latitude: position.coordinates.latitude,
+      longitude: position.coordinates.longitude,
+      altitude: position.altitude,
+      speed: position.speed,
+      course: position.course,
+      accuracy: position.accuracyH,
+    });
+    this.onSample?.(this.positions.length);
+  }
+}
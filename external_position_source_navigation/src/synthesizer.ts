@@ -0,0 +1,241 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Coordinates, Route } from '@magiclane/maps-sdk';
+import { RecordedPosition } from '../../shared';
+
+export interface TripSynthesizerOptions {
+  sampleIntervalS?: number; // time between emitted positions (default: 1)
+  stepM?: number; // resolution of the speed profile along the route (default: 5)
+  acceleration?: number; // m/s² (default: 1.5)
+  deceleration?: number; // m/s² (default: 2.5)
+  lateralAcceleration?: number; // comfortable cornering acceleration in m/s² (default: 2)
+  maxSpeed?: number; // m/s, caps the road speeds (default: 36, ~130 km/h)
+  jitterM?: number; // standard deviation of the GPS noise in meters (default: 0)
+  dropoutProbability?: number; // chance per sample that the signal is lost (default: 0)
+  dropoutDurationS?: [number, number]; // min and max duration of a signal loss (default: [3, 10])
+  dwellS?: number; // time spent standing at the destination (default: 3)
+  seed?: number; // seed for jitter and dropouts, so a trip can be reproduced (default: 1)
+  startTime?: number; // timestamp of the first position (default: now)
+}
+
+const EARTH_RADIUS_M = 6371000;
+const MIN_ROAD_SPEED = 3; // m/s
+const CURVE_WINDOW_M = 20;
+
+// Small deterministic PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample using the Box-Muller transform
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Initial bearing from one coordinate to another, in degrees [0, 360)
+export function getBearing(from: Coordinates, to: Coordinates): number {
+  const lat1 = (from.latitude * Math.PI) / 180;
+  const lat2 = (to.latitude * Math.PI) / 180;
+  const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+function headingDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+// Travel speeds estimated by the routing engine between consecutive instructions,
+// which reflect the speed limits of the roads along the route
+function getRoadSpeeds(route: Route, totalDistance: number): Array<[number, number]> {
+  const timeDistance = route.getTimeDistance();
+  const totalTime = timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
+
+  const breakpoints: Array<[number, number]> = [[0, 0]];
+  for (const segment of route.segments) {
+    for (const instruction of segment.instructions) {
+      const traveled = instruction.traveledTimeDistance;
+      const distance = traveled.unrestrictedDistanceM + traveled.restrictedDistanceM;
+      const time = traveled.unrestrictedTimeS + traveled.restrictedTimeS;
+      const last = breakpoints[breakpoints.length - 1];
+      if (distance > last[0] && time > last[1]) breakpoints.push([distance, time]);
+    }
+  }
+  const last = breakpoints[breakpoints.length - 1];
+  if (totalDistance > last[0] && totalTime > last[1]) breakpoints.push([totalDistance, totalTime]);
+
+  // [start distance, speed] for each stretch
+  const speeds: Array<[number, number]> = [];
+  for (let i = 1; i < breakpoints.length; i++) {
+    const [d0, t0] = breakpoints[i - 1];
+    const [d1, t1] = breakpoints[i];
+    speeds.push([d0, (d1 - d0) / (t1 - t0)]);
+  }
+  return speeds;
+}
+
+function getElevations(route: Route, totalDistance: number, count: number): number[] | null {
+  try {
+    const profile = route.terrainProfile;
+    if (!profile) return null;
+    return profile.getElevationSamples(count, 0, totalDistance).first;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Turn a route into a timed position stream: the vehicle accelerates from standstill,
+ * keeps to the road speeds, brakes before turns and stops at the destination.
+ * The result can be replayed with PositionPlayer.
+ */
+export function synthesizeTrip(
+  route: Route,
+  options: TripSynthesizerOptions = {}
+): RecordedPosition[] {
+  const {
+    sampleIntervalS = 1,
+    stepM = 5,
+    acceleration = 1.5,
+    deceleration = 2.5,
+    lateralAcceleration = 2,
+    maxSpeed = 36,
+    jitterM = 0,
+    dropoutProbability = 0,
+    dropoutDurationS = [3, 10],
+    dwellS = 3,
+    seed = 1,
+    startTime = Date.now(),
+  } = options;
+
+  const totalDistance = route.getTimeDistance().totalDistanceM;
+  if (totalDistance <= 0) return [];
+
+  // Sample the route geometry
+  const count = Math.max(2, Math.ceil(totalDistance / stepM) + 1);
+  const step = totalDistance / (count - 1);
+  const distances: number[] = [];
+  const coordinates: Coordinates[] = [];
+  for (let i = 0; i < count; i++) {
+    const distance = Math.min(i * step, totalDistance);
+    distances.push(distance);
+    coordinates.push(route.getCoordinateOnRoute(Math.round(distance)));
+  }
+  const headings = coordinates.map((coordinate, i) =>
+    i < count - 1
+      ? getBearing(coordinate, coordinates[i + 1])
+      : getBearing(coordinates[i - 1], coordinate)
+  );
+
+  // Speed limit at each sample: road speed, capped in curves by the lateral acceleration
+  const roadSpeeds = getRoadSpeeds(route, totalDistance);
+  const curveWindow = Math.max(1, Math.round(CURVE_WINDOW_M / step));
+  let stretch = 0;
+  const limits = distances.map((distance, i) => {
+    while (stretch < roadSpeeds.length - 1 && roadSpeeds[stretch + 1][0] <= distance) stretch++;
+    const roadSpeed = roadSpeeds.length > 0 ? roadSpeeds[stretch][1] : maxSpeed;
+    let limit = Math.min(Math.max(roadSpeed, MIN_ROAD_SPEED), maxSpeed);
+
+    const before = headings[Math.max(0, i - curveWindow)];
+    const after = headings[Math.min(count - 1, i + curveWindow)];
+    const turnRad = (headingDifference(before, after) * Math.PI) / 180;
+    if (turnRad > 0.05) {
+      const radius = (2 * curveWindow * step) / turnRad;
+      limit = Math.min(limit, Math.sqrt(lateralAcceleration * radius));
+    }
+    return limit;
+  });
+  limits[0] = 0;
+  limits[count - 1] = 0;
+
+  // Forward pass limits acceleration, backward pass brakes ahead of slow sections
+  const speeds = [...limits];
+  for (let i = 1; i < count; i++) {
+    speeds[i] = Math.min(speeds[i], Math.sqrt(speeds[i - 1] ** 2 + 2 * acceleration * step));
+  }
+  for (let i = count - 2; i >= 0; i--) {
+    speeds[i] = Math.min(speeds[i], Math.sqrt(speeds[i + 1] ** 2 + 2 * deceleration * step));
+  }
+
+  // Time at which each sample is reached
+  const times = [0];
+  for (let i = 1; i < count; i++) {
+    const averageSpeed = (speeds[i - 1] + speeds[i]) / 2;
+    times.push(times[i - 1] + (averageSpeed > 0 ? step / averageSpeed : 0));
+  }
+  const tripDuration = times[count - 1];
+
+  const elevationCount = Math.min(count, 500);
+  const elevations = getElevations(route, totalDistance, elevationCount);
+  const getAltitude = (distance: number) => {
+    if (!elevations || elevations.length === 0) return 0;
+    const position = (distance / totalDistance) * (elevations.length - 1);
+    const index = Math.min(Math.floor(position), elevations.length - 2);
+    if (index < 0) return elevations[0];
+    const fraction = position - index;
+    return elevations[index] + (elevations[index + 1] - elevations[index]) * fraction;
+  };
+
+  // Emit positions at a fixed rate, interpolating along the profile
+  const random = createRandom(seed);
+  const positions: RecordedPosition[] = [];
+  let sample = 0;
+  let dropoutUntil = -1;
+
+  for (let t = 0; t <= tripDuration + dwellS; t += sampleIntervalS) {
+    while (sample < count - 2 && times[sample + 1] < t) sample++;
+
+    let distance = totalDistance;
+    let speed = 0;
+    let course = headings[count - 1];
+    if (t < tripDuration) {
+      const segmentTime = times[sample + 1] - times[sample];
+      const fraction = segmentTime > 0 ? Math.min(1, (t - times[sample]) / segmentTime) : 0;
+      distance = distances[sample] + step * fraction;
+      speed = speeds[sample] + (speeds[sample + 1] - speeds[sample]) * fraction;
+      course = headings[sample];
+    }
+
+    if (t < dropoutUntil) continue;
+    if (dropoutProbability > 0 && t > 0 && random() < dropoutProbability) {
+      const [minDuration, maxDuration] = dropoutDurationS;
+      dropoutUntil = t + minDuration + random() * (maxDuration - minDuration);
+      continue;
+    }
+
+    const coordinate = route.getCoordinateOnRoute(Math.round(distance));
+    let { latitude, longitude } = coordinate;
+    if (jitterM > 0) {
+      const northM = gaussian(random) * jitterM;
+      const eastM = gaussian(random) * jitterM;
+      latitude += (northM / EARTH_RADIUS_M) * (180 / Math.PI);
+      longitude +=
+        (eastM / (EARTH_RADIUS_M * Math.cos((latitude * Math.PI) / 180))) * (180 / Math.PI);
+    }
+
+    positions.push({
+      timestamp: startTime + Math.round(t * 1000),
+      latitude,
+      longitude,
+      altitude: getAltitude(distance),
+      speed,
+      course,
+      accuracy: jitterM > 0 ? jitterM * 2 : 3,
+    });
+  }
+
+  return positions;
+}
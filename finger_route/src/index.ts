@@ -13,7 +13,6 @@ import {
   Route,
   Coordinates,
   RouteTransportMode,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
 import {
   GEMKIT_TOKEN,
@@ -22,10 +21,12 @@ import {
   styleButton,
   convertDistance,
   convertDuration,
+  calculateRouteAsync,
+  RoutingError,
 } from '../../shared';
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let areRoutesBuilt = false;
 let isInDrawingMode = false;
 
@@ -50,13 +51,13 @@ function updateUI() {
   cancelBtn.style.display = 'none';
   clearBtn.style.display = 'none';
 
-  if (!routingHandler && !areRoutesBuilt && !isInDrawingMode) {
+  if (!routingController && !areRoutesBuilt && !isInDrawingMode) {
     // Initial state
     drawBtn.style.display = 'flex';
-  } else if (!routingHandler && !areRoutesBuilt && isInDrawingMode) {
+  } else if (!routingController && !areRoutesBuilt && isInDrawingMode) {
     // Drawing state
     buildBtn.style.display = 'flex';
-  } else if (routingHandler) {
+  } else if (routingController) {
     // Calculating state
     cancelBtn.style.display = 'flex';
   } else if (areRoutesBuilt) {
@@ -73,7 +74,7 @@ function onDrawPressed() {
   showMessage('Tap on the map to place waypoints.');
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   if (!map) return;
   const waypoints = map.disableDrawMarkersMode();
 
@@ -85,31 +86,33 @@ function onBuildRouteButtonPressed() {
 
   showMessage('The route is being calculated.');
 
-  routingHandler = RoutingService.calculateRoute(
-    waypoints,
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-      isInDrawingMode = false;
-      updateUI();
-
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map!.preferences.routes;
-
-        routes.forEach((route, idx) => {
-          routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
-        });
-
-        map!.centerOnRoutes({ routes });
-        areRoutesBuilt = true;
-        updateUI();
-        showMessage('Route built successfully!');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      waypoints,
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map!.preferences.routes;
+
+    routes.forEach((route, idx) => {
+      routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
+    });
+
+    map!.centerOnRoutes({ routes });
+    areRoutesBuilt = true;
+    showMessage('Route built successfully!');
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+    isInDrawingMode = false;
+    updateUI();
+  }
 }
 
 function onClearRoutesButtonPressed() {
@@ -120,13 +123,7 @@ function onClearRoutesButtonPressed() {
 }
 
 function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    isInDrawingMode = false;
-    updateUI();
-    showMessage('Route calculation cancelled.');
-  }
+  routingController?.abort();
 }
 
 async function onMapCreated(gemMap: GemMap) {
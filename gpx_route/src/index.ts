@@ -20,7 +20,15 @@ import {
   NavigationEventType,
   NavigationInstruction,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+} from '../../shared';
 
 let map: GemMap | null = null;
 let navigationHandler: TaskHandler | null = null;
@@ -82,25 +90,25 @@ async function importGPX() {
     transportMode: RouteTransportMode.bicycle,
   });
 
-  RoutingService.calculateRoute(
-    landmarkList,
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map!.preferences.routes;
-        routes.forEach((route, idx) => {
-          routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
-        });
-        map!.centerOnRoutes({ routes });
-        areRoutesBuilt = true;
-        isGpxDataLoaded = true;
-        updateUI();
-        showMessage('Route loaded successfully.');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-    }
-  );
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      landmarkList,
+      routePreferences
+    );
+
+    const routesMap = map!.preferences.routes;
+    routes.forEach((route, idx) => {
+      routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
+    });
+    map!.centerOnRoutes({ routes });
+    areRoutesBuilt = true;
+    isGpxDataLoaded = true;
+    updateUI();
+    showMessage('Route loaded successfully.');
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  }
 }
 
 function startSimulation() {
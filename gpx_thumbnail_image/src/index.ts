@@ -18,7 +18,7 @@ import {
   RouteRenderOptions,
   RouteTransportMode,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS } from '../../shared';
+import { GEMKIT_TOKEN, showMessage, ICONS, calculateRouteAsync, RoutingError } from '../../shared';
 
 let map: GemMap | null = null;
 let screenshotImage: Uint8Array | null = null;
@@ -72,7 +72,7 @@ async function importGPX() {
     }
   } catch (e) {
     console.error(e);
-    showMessage('Error processing GPX.');
+    showMessage(e instanceof RoutingError ? e.message : 'Error processing GPX.');
   }
 }
 
@@ -84,22 +84,14 @@ function presentRouteOnMap(route: Route) {
   });
 }
 
-function calculateRouteFromPath(path: Path): Promise<Route> {
-  return new Promise((resolve, reject) => {
-    const waypoints = path.toLandmarkList();
-    RoutingService.calculateRoute(
-      waypoints,
-      new RoutePreferences({ transportMode: RouteTransportMode.pedestrian }),
-      (err: GemError, routes: Route[]) => {
-        if (err !== GemError.success || !routes.length) {
-          showMessage('Error while computing route.');
-          reject(err);
-          return;
-        }
-        resolve(routes[0]);
-      }
-    );
-  });
+async function calculateRouteFromPath(path: Path): Promise<Route> {
+  const waypoints = path.toLandmarkList();
+  const routes = await calculateRouteAsync(
+    { RoutingService, GemError },
+    waypoints,
+    new RoutePreferences({ transportMode: RouteTransportMode.pedestrian })
+  );
+  return routes[0];
 }
 
 function updateUI() {
@@ -13,24 +13,32 @@ import {
   Route,
   Landmark,
   NavigationService,
-  NavigationInstruction,
-  TaskHandler,
-  NavigationEventType,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+  NavigationSession,
+} from '../../shared';
 
 let map: GemMap | null = null;
-let currentInstruction: NavigationInstruction | null = null;
 let areRoutesBuilt = false;
-let isSimulationActive = false;
-let routingHandler: TaskHandler | null = null;
-let navigationHandler: TaskHandler | null = null;
-
-function getCurrentTime(additionalSeconds = 0): string {
-  const now = new Date();
-  const updatedTime = new Date(now.getTime() + additionalSeconds * 1000);
-  return updatedTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
+let routingController: AbortController | null = null;
+
+// The running simulation and its latest instruction
+const navigation = new NavigationSession({ NavigationService });
+navigation.on('instruction', () => {
+  updateLaneImagePanel();
+  updateUI();
+});
+navigation.on('error', () => {
+  cancelRoute();
+  updateLaneImagePanel();
+});
 
 function getRouteMapLabel(route: Route): string {
   const timeDistance = route.getTimeDistance();
@@ -39,33 +47,12 @@ function getRouteMapLabel(route: Route): string {
   return `${convertDistance(totalDistance)} \n${convertDuration(totalDuration)}`;
 }
 
-// NavigationInstruction formatting helpers
-function getFormattedDistanceToNextTurn(instr: NavigationInstruction): string {
-  const td = instr.timeDistanceToNextTurn;
-  return convertDistance(td.unrestrictedDistanceM + td.restrictedDistanceM);
-}
-function getFormattedDurationToNextTurn(instr: NavigationInstruction): string {
-  const td = instr.timeDistanceToNextTurn;
-  return convertDuration(td.unrestrictedTimeS + td.restrictedTimeS);
-}
-function getFormattedRemainingDistance(instr: NavigationInstruction): string {
-  const td = instr.remainingTravelTimeDistance;
-  return convertDistance(td.unrestrictedDistanceM + td.restrictedDistanceM);
-}
-function getFormattedRemainingDuration(instr: NavigationInstruction): string {
-  const td = instr.remainingTravelTimeDistance;
-  return convertDuration(td.unrestrictedTimeS + td.restrictedTimeS);
-}
-function getFormattedETA(instr: NavigationInstruction): string {
-  const td = instr.remainingTravelTimeDistance;
-  return getCurrentTime(td.unrestrictedTimeS + td.restrictedTimeS);
-}
-
 // Lane image panel
 let laneImagePanel: HTMLDivElement;
 
 function updateLaneImagePanel() {
-  if (!isSimulationActive || !currentInstruction) {
+  const currentInstruction = navigation.instruction;
+  if (!currentInstruction) {
     if (laneImagePanel) laneImagePanel.style.display = 'none';
     return;
   }
@@ -90,9 +77,9 @@ function updateLaneImagePanel() {
 }
 
 function updateUI() {
-  buildRouteBtn.style.display = !isSimulationActive && !areRoutesBuilt ? 'flex' : 'none';
-  startSimBtn.style.display = !isSimulationActive && areRoutesBuilt ? 'flex' : 'none';
-  stopSimBtn.style.display = isSimulationActive ? 'flex' : 'none';
+  buildRouteBtn.style.display = !navigation.isActive && !areRoutesBuilt ? 'flex' : 'none';
+  startSimBtn.style.display = !navigation.isActive && areRoutesBuilt ? 'flex' : 'none';
+  stopSimBtn.style.display = navigation.isActive ? 'flex' : 'none';
 }
 
 function onMapCreated(gemMap: GemMap) {
@@ -100,7 +87,7 @@ function onMapCreated(gemMap: GemMap) {
   updateUI();
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   if (!map) return;
   const departureLandmark = Landmark.withLatLng({
     latitude: 48.15021176018896,
@@ -113,24 +100,28 @@ function onBuildRouteButtonPressed() {
   const routePreferences = new RoutePreferences({});
   showMessage('The route is calculating.');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map!.preferences.routes;
-        routes.forEach((route, idx) => {
-          routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
-        });
-        map!.centerOnRoutes({ routes });
-        areRoutesBuilt = true;
-        updateUI();
-      } else {
-        showMessage('Route calculation failed.');
-      }
-    }
-  );
+  routingController = new AbortController();
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map!.preferences.routes;
+    routes.forEach((route, idx) => {
+      routesMap.add(route, idx === 0, { label: getRouteMapLabel(route) });
+    });
+    map!.centerOnRoutes({ routes });
+    areRoutesBuilt = true;
+    updateUI();
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+  }
 }
 
 function startSimulation() {
@@ -141,46 +132,23 @@ function startSimulation() {
     showMessage('No main route available');
     return;
   }
-  navigationHandler = NavigationService.startSimulation(routes.mainRoute, undefined, {
-    onNavigationInstruction: (
-      instruction: NavigationInstruction,
-      events: NavigationEventType[]
-    ) => {
-      isSimulationActive = true;
-      currentInstruction = instruction;
-      updateLaneImagePanel();
-      updateUI();
-    },
-    onError: (error: GemError) => {
-      isSimulationActive = false;
-      cancelRoute();
-      if (error !== GemError.cancel) stopSimulation();
-      updateUI();
-    },
-  });
+  navigation.startSimulation(routes.mainRoute);
   map.startFollowingPosition();
+  updateUI();
 }
 
 function cancelRoute() {
   if (!map) return;
   map.preferences.routes.clear();
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  routingController?.abort();
   areRoutesBuilt = false;
   updateUI();
 }
 
 function stopSimulation() {
-  if (navigationHandler) {
-    NavigationService.cancelNavigation(navigationHandler);
-    navigationHandler = null;
-  }
+  navigation.stop();
   cancelRoute();
-  isSimulationActive = false;
   updateLaneImagePanel();
-  updateUI();
 }
 
 // UI Elements
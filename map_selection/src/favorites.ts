@@ -0,0 +1,222 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  GenericCategories,
+  ImageFileFormat,
+  Landmark,
+  LandmarkCategory,
+  LandmarkStore,
+  LandmarkStoreService,
+} from '@magiclane/maps-sdk';
+
+// Persisted representation of a favorite landmark
+export interface FavoriteRecord {
+  id: string;
+  name: string;
+  category: string;
+  categoryId?: number; // id of the landmark category, restored onto the landmark
+  latitude: number;
+  longitude: number;
+  image?: string; // PNG data URL captured when the landmark was saved
+  savedAt: number;
+}
+
+const DB_NAME = 'map_selection';
+const DB_VERSION = 1;
+const OBJECT_STORE_NAME = 'favorites';
+const LANDMARK_STORE_NAME = 'Favorites';
+
+// Wrap an IndexedDB request into a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(OBJECT_STORE_NAME)) {
+      db.createObjectStore(OBJECT_STORE_NAME, { keyPath: 'id' });
+    }
+  };
+  return requestToPromise(request);
+}
+
+// Landmarks are identified by their coordinates, which survive a reload unlike SDK ids
+export function getFavoriteId(landmark: Landmark): string {
+  const { latitude, longitude } = landmark.coordinates;
+  return `${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+}
+
+// Convert the landmark image to a data URL that can be stored and shown in an <img>
+export function getLandmarkImageSrc(landmark: Landmark, size = 64): string {
+  if (!landmark.getImage) return '';
+
+  const imgData = landmark.getImage({ width: size, height: size });
+  if (!imgData) return '';
+  if (typeof imgData === 'string') return imgData;
+
+  let bytes: Uint8Array | null = null;
+  if (imgData instanceof Uint8Array) {
+    bytes = imgData;
+  } else if (Object.prototype.toString.call(imgData) === '[object ArrayBuffer]') {
+    bytes = new Uint8Array(imgData as ArrayBuffer);
+  }
+  if (!bytes || bytes.byteLength === 0) return '';
+
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+}
+
+function imageSrcToBytes(src: string): Uint8Array {
+  const binary = atob(src.slice(src.indexOf(',') + 1));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// Rebuild a saved landmark with the category and image it had when it was saved
+function restoreLandmark(record: FavoriteRecord): Landmark {
+  const landmark = Landmark.withLatLng({
+    latitude: record.latitude,
+    longitude: record.longitude,
+  });
+  landmark.name = record.name;
+
+  const categories: LandmarkCategory[] = GenericCategories.categories ?? [];
+  const category = categories.find((c) => c.id === record.categoryId);
+  if (category) landmark.addCategory(category);
+  if (record.image) landmark.setImage(imageSrcToBytes(record.image), ImageFileFormat.png);
+  return landmark;
+}
+
+/**
+ * Favorite landmarks kept in a LandmarkStore (so they can be displayed on the map)
+ * and mirrored in IndexedDB (so they survive page reloads).
+ */
+export class FavoritesStore {
+  private records: Map<string, FavoriteRecord> = new Map();
+  private landmarks: Map<string, Landmark> = new Map();
+  private changeListeners: Array<() => void> = [];
+
+  private constructor(
+    private db: IDBDatabase,
+    readonly landmarkStore: LandmarkStore
+  ) {}
+
+  // Open the database and restore the saved favorites into the landmark store
+  static async open(): Promise<FavoritesStore> {
+    const db = await openDatabase();
+
+    const landmarkStore =
+      LandmarkStoreService.getLandmarkStoreByName(LANDMARK_STORE_NAME) ??
+      LandmarkStoreService.createLandmarkStore(LANDMARK_STORE_NAME);
+    landmarkStore.removeAllLandmarks();
+
+    const store = new FavoritesStore(db, landmarkStore);
+    await store.load();
+    return store;
+  }
+
+  private async load() {
+    const transaction = this.db.transaction(OBJECT_STORE_NAME, 'readonly');
+    const records = await requestToPromise<FavoriteRecord[]>(
+      transaction.objectStore(OBJECT_STORE_NAME).getAll()
+    );
+
+    for (const record of records) {
+      const landmark = restoreLandmark(record);
+      this.landmarkStore.addLandmark(landmark);
+      this.records.set(record.id, record);
+      this.landmarks.set(record.id, landmark);
+    }
+  }
+
+  // Saved favorites, most recently saved first
+  list(): FavoriteRecord[] {
+    return [...this.records.values()].sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  isFavorite(landmark: Landmark): boolean {
+    return this.records.has(getFavoriteId(landmark));
+  }
+
+  async add(landmark: Landmark): Promise<FavoriteRecord> {
+    const id = getFavoriteId(landmark);
+    const existing = this.records.get(id);
+    if (existing) return existing;
+
+    const record: FavoriteRecord = {
+      id,
+      name: landmark.name || 'Unnamed location',
+      category:
+        landmark.categories && landmark.categories.length > 0
+          ? landmark.categories[0].name
+          : 'Location',
+      categoryId: landmark.categories?.[0]?.id,
+      latitude: landmark.coordinates.latitude,
+      longitude: landmark.coordinates.longitude,
+      image: getLandmarkImageSrc(landmark) || undefined,
+      savedAt: Date.now(),
+    };
+
+    const transaction = this.db.transaction(OBJECT_STORE_NAME, 'readwrite');
+    await requestToPromise(transaction.objectStore(OBJECT_STORE_NAME).put(record));
+
+    this.landmarkStore.addLandmark(landmark);
+    this.records.set(id, record);
+    this.landmarks.set(id, landmark);
+    this.notifyChange();
+    return record;
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!this.records.has(id)) return;
+
+    const transaction = this.db.transaction(OBJECT_STORE_NAME, 'readwrite');
+    await requestToPromise(transaction.objectStore(OBJECT_STORE_NAME).delete(id));
+
+    const landmark = this.landmarks.get(id);
+    if (landmark) this.landmarkStore.removeLandmark(landmark);
+    this.records.delete(id);
+    this.landmarks.delete(id);
+    this.notifyChange();
+  }
+
+  // Save or remove the landmark; returns true if it is a favorite afterwards
+  async toggle(landmark: Landmark): Promise<boolean> {
+    if (this.isFavorite(landmark)) {
+      await this.remove(getFavoriteId(landmark));
+      return false;
+    }
+    await this.add(landmark);
+    return true;
+  }
+
+  getLandmark(id: string): Landmark | undefined {
+    return this.landmarks.get(id);
+  }
+
+  // Register a listener called whenever favorites are added or removed
+  onChange(listener: () => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyChange() {
+    this.changeListeners.forEach((listener) => listener());
+  }
+}
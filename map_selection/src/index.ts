@@ -4,7 +4,8 @@
 // Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
 
 import { GemKit, GemMap, PositionService, Landmark, Coordinates } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS } from '../../shared';
+import { GEMKIT_TOKEN, showMessage, ICONS, styleButton, formatCoordinates } from '../../shared';
+import { FavoritesStore, FavoriteRecord, getFavoriteId, getLandmarkImageSrc } from './favorites';
 
 // Type for screen position coordinates
 interface ScreenPosition {
@@ -15,6 +16,12 @@ interface ScreenPosition {
 let map: GemMap | null = null;
 let focusedLandmark: Landmark | null = null;
 let landmarkPanel: HTMLDivElement | null = null;
+let favorites: FavoritesStore | null = null;
+
+// UI Elements
+let favoritesBtn: HTMLButtonElement;
+let favoritesSidebar: HTMLDivElement;
+let favoritesList: HTMLDivElement;
 
 // Helper: show landmark panel
 function showLandmarkPanel(landmark: Landmark) {
@@ -55,31 +62,7 @@ function showLandmarkPanel(landmark: Landmark) {
     box-shadow: 0 4px 12px rgba(102, 126, 234, 0.4);
   `;
 
-  let imgSrc = '';
-  if (landmark.getImage) {
-    const imgData = landmark.getImage({ width: 64, height: 64 });
-    if (imgData) {
-      if (typeof imgData === 'string') {
-        imgSrc = imgData;
-      } else if (imgData instanceof Uint8Array) {
-        let binary = '';
-        for (let i = 0; i < imgData.byteLength; i++) {
-          binary += String.fromCharCode(imgData[i]);
-        }
-        const base64 = btoa(binary);
-        imgSrc = `data:image/png;base64,${base64}`;
-      } else if (Object.prototype.toString.call(imgData) === '[object ArrayBuffer]') {
-        const bytes = new Uint8Array(imgData as ArrayBuffer);
-        let binary = '';
-        for (let i = 0; i < bytes.byteLength; i++) {
-          binary += String.fromCharCode(bytes[i]);
-        }
-        const base64 = btoa(binary);
-        imgSrc = `data:image/png;base64,${base64}`;
-      }
-    }
-  }
-
+  const imgSrc = getLandmarkImageSrc(landmark);
   if (imgSrc) {
     const img = document.createElement('img');
     img.src = imgSrc;
@@ -110,6 +93,37 @@ function showLandmarkPanel(landmark: Landmark) {
   `;
   landmarkPanel.appendChild(infoDiv);
 
+  // Favorite toggle button
+  const favoriteBtn = document.createElement('button');
+  favoriteBtn.style.cssText = `
+    background: transparent;
+    border: none;
+    color: #673ab7;
+    cursor: pointer;
+    margin-left: 12px;
+    padding: 8px;
+    border-radius: 50%;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    transition: background 0.2s;
+    flex-shrink: 0;
+  `;
+  const updateFavoriteBtn = () => {
+    const isFavorite = favorites?.isFavorite(landmark) ?? false;
+    favoriteBtn.innerHTML = isFavorite ? ICONS.favorite : ICONS.favoriteBorder;
+    favoriteBtn.title = isFavorite ? 'Remove from favorites' : 'Save to favorites';
+  };
+  updateFavoriteBtn();
+  favoriteBtn.onmouseenter = () => (favoriteBtn.style.background = '#f3e5f5');
+  favoriteBtn.onmouseleave = () => (favoriteBtn.style.background = 'transparent');
+  favoriteBtn.onclick = async () => {
+    await onFavoriteButtonPressed(landmark);
+    updateFavoriteBtn();
+  };
+  favoriteBtn.disabled = !favorites;
+  landmarkPanel.appendChild(favoriteBtn);
+
   // Close button with modern icon
   const closeBtn = document.createElement('button');
   closeBtn.innerHTML = ICONS.closeLarge;
@@ -158,6 +172,188 @@ function removeLandmarkPanel() {
   }
 }
 
+// Save or remove the landmark from favorites
+async function onFavoriteButtonPressed(landmark: Landmark) {
+  if (!favorites) return;
+  try {
+    const isFavorite = await favorites.toggle(landmark);
+    showMessage(
+      isFavorite
+        ? `Saved to favorites: ${landmark.name}`
+        : `Removed from favorites: ${landmark.name}`
+    );
+  } catch (error) {
+    console.error('Failed to update favorites:', error);
+    showMessage('Failed to update favorites.');
+  }
+}
+
+// Helper: create the favorites sidebar
+function createFavoritesSidebar() {
+  favoritesSidebar = document.createElement('div');
+  favoritesSidebar.style.cssText = `
+    position: fixed; top: 0; right: 0; bottom: 0; width: 340px; max-width: 90vw;
+    background: #fff; z-index: 2500;
+    box-shadow: -4px 0 20px rgba(0,0,0,0.1);
+    transform: translateX(105%);
+    transition: transform 0.3s cubic-bezier(0.4, 0.0, 0.2, 1);
+    display: flex; flex-direction: column;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = `
+    padding: 20px; border-bottom: 1px solid #eee; display: flex; justify-content: space-between; align-items: center;
+  `;
+  header.innerHTML = `<h2 style="margin:0; font-size: 20px; color:#333;">Favorites</h2>`;
+
+  const closeBtn = document.createElement('button');
+  closeBtn.innerHTML = ICONS.close;
+  closeBtn.style.cssText = `background:none; border:none; cursor:pointer; color:#666; padding:5px;`;
+  closeBtn.onclick = () => toggleFavoritesSidebar(false);
+  header.appendChild(closeBtn);
+  favoritesSidebar.appendChild(header);
+
+  favoritesList = document.createElement('div');
+  favoritesList.style.cssText = `flex: 1; overflow-y: auto; padding: 10px 20px;`;
+  favoritesSidebar.appendChild(favoritesList);
+
+  document.body.appendChild(favoritesSidebar);
+}
+
+function toggleFavoritesSidebar(show: boolean) {
+  if (favoritesSidebar) {
+    favoritesSidebar.style.transform = show ? 'translateX(0)' : 'translateX(105%)';
+  }
+}
+
+// Re-render the favorites list and the favorites button counter
+function renderFavorites() {
+  if (!favorites) return;
+
+  favoritesBtn.innerHTML = `${ICONS.favorite} Favorites (${favorites.size})`;
+  favoritesList.innerHTML = '';
+
+  const records = favorites.list();
+  if (records.length === 0) {
+    favoritesList.innerHTML =
+      '<div style="padding: 20px; text-align: center; color: #888;">No favorites yet. Tap a landmark and save it.</div>';
+    return;
+  }
+
+  records.forEach((record) => favoritesList.appendChild(createFavoriteItem(record)));
+}
+
+function createFavoriteItem(record: FavoriteRecord): HTMLElement {
+  const item = document.createElement('div');
+  item.style.cssText = `
+    padding: 12px; border: 1px solid #eee; border-radius: 8px; cursor: pointer;
+    display: flex; align-items: center; gap: 12px; transition: background-color 0.2s;
+    margin-bottom: 8px;
+  `;
+  item.onmouseenter = () => (item.style.backgroundColor = '#f5f5f5');
+  item.onmouseleave = () => (item.style.backgroundColor = 'transparent');
+
+  const iconContainer = document.createElement('div');
+  iconContainer.style.cssText = `
+    width: 40px; height: 40px; flex-shrink: 0; display: flex;
+    align-items: center; justify-content: center; background: #f3e5f5; border-radius: 8px; color: #673ab7;
+  `;
+  if (record.image) {
+    const img = document.createElement('img');
+    img.src = record.image;
+    img.style.cssText = 'width: 100%; height: 100%; object-fit: contain; border-radius: 6px;';
+    iconContainer.style.background = 'transparent';
+    iconContainer.appendChild(img);
+  } else {
+    iconContainer.innerHTML = ICONS.location;
+  }
+
+  const textContainer = document.createElement('div');
+  textContainer.style.cssText = 'flex-grow: 1; overflow: hidden;';
+
+  const name = document.createElement('div');
+  name.textContent = record.name;
+  name.style.cssText = `
+    font-weight: 600; color: #333; white-space: nowrap; font-size: 14px;
+    overflow: hidden; text-overflow: ellipsis; margin-bottom: 2px;
+  `;
+
+  const details = document.createElement('div');
+  details.textContent = `${record.category} • ${formatCoordinates(record.latitude, record.longitude, 5)}`;
+  details.style.cssText = `
+    font-size: 12px; color: #666; white-space: nowrap;
+    overflow: hidden; text-overflow: ellipsis;
+  `;
+
+  textContainer.appendChild(name);
+  textContainer.appendChild(details);
+
+  const removeBtn = document.createElement('button');
+  removeBtn.innerHTML = ICONS.trash;
+  removeBtn.title = 'Remove from favorites';
+  removeBtn.style.cssText = `background:none; border:none; cursor:pointer; color:#f44336; padding:5px; flex-shrink: 0;`;
+  removeBtn.onclick = async (e) => {
+    e.stopPropagation();
+    await onRemoveFavoriteButtonPressed(record);
+  };
+
+  item.appendChild(iconContainer);
+  item.appendChild(textContainer);
+  item.appendChild(removeBtn);
+  item.onclick = () => onFavoriteSelected(record);
+
+  return item;
+}
+
+// Center the map on a favorite and show its panel
+function onFavoriteSelected(record: FavoriteRecord) {
+  if (!map || !favorites) return;
+
+  const landmark = favorites.getLandmark(record.id);
+  if (!landmark) return;
+
+  map.activateHighlight([landmark]);
+  focusedLandmark = landmark;
+  showLandmarkPanel(landmark);
+  map.centerOnCoordinates(landmark.coordinates, { zoomLevel: 70 });
+  toggleFavoritesSidebar(false);
+}
+
+async function onRemoveFavoriteButtonPressed(record: FavoriteRecord) {
+  if (!favorites) return;
+  try {
+    await favorites.remove(record.id);
+    showMessage(`Removed from favorites: ${record.name}`);
+
+    // Keep the open panel in sync with the list
+    if (focusedLandmark && getFavoriteId(focusedLandmark) === record.id) {
+      showLandmarkPanel(focusedLandmark);
+    }
+  } catch (error) {
+    console.error('Failed to remove favorite:', error);
+    showMessage('Failed to remove favorite.');
+  }
+}
+
+// Restore saved favorites and display them on the map
+async function loadFavorites() {
+  try {
+    favorites = await FavoritesStore.open();
+  } catch (error) {
+    console.error('Failed to open favorites store:', error);
+    showMessage('Favorites are unavailable in this browser.', 5000);
+    return;
+  }
+
+  map?.preferences.landmarkStores.addLandmarkStore(favorites.landmarkStore);
+  favorites.onChange(renderFavorites);
+  renderFavorites();
+  favoritesBtn.style.display = 'flex';
+
+  if (focusedLandmark) showLandmarkPanel(focusedLandmark);
+}
+
 // Cancel panel tap
 function onCancelLandmarkPanelTap() {
   if (map) map.deactivateAllHighlights();
@@ -191,6 +387,7 @@ function onMapCreated(gemMap: GemMap) {
     zoomLevel: 70,
   });
   registerLandmarkTapCallback();
+  loadFavorites();
 }
 
 // Main entry
@@ -214,4 +411,17 @@ window.addEventListener('DOMContentLoaded', async () => {
     onMapCreated(gemMap);
   });
   if (wrapper) container.appendChild(wrapper);
+
+  // Favorites button, shown once the favorites are loaded
+  favoritesBtn = document.createElement('button');
+  favoritesBtn.innerHTML = `${ICONS.favorite} Favorites`;
+  styleButton(favoritesBtn, '#673ab7', '#7e57c2', {
+    left: 'auto',
+    transform: 'none',
+    additionalStyles: { right: '30px' },
+  });
+  favoritesBtn.onclick = () => toggleFavoritesSidebar(true);
+  document.body.appendChild(favoritesBtn);
+
+  createFavoritesSidebar();
 });
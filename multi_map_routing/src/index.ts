@@ -12,14 +12,21 @@ import {
   Landmark,
   Route,
   GemError,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+} from '../../shared';
 
 let map1: GemMap | null = null;
 let map2: GemMap | null = null;
-let routingHandler1: TaskHandler | null = null;
-let routingHandler2: TaskHandler | null = null;
+let routingController1: AbortController | null = null;
+let routingController2: AbortController | null = null;
 
 // Route label helper (mimics Dart extension)
 function getRouteLabel(route: Route): string {
@@ -32,35 +39,14 @@ function getRouteLabel(route: Route): string {
 
 // Remove all routes from both maps
 function removeRoutes() {
-  if (routingHandler1) {
-    RoutingService.cancelRoute(routingHandler1);
-    routingHandler1 = null;
-  }
-  if (routingHandler2) {
-    RoutingService.cancelRoute(routingHandler2);
-    routingHandler2 = null;
-  }
+  routingController1?.abort();
+  routingController2?.abort();
   if (map1) map1.preferences.routes.clear();
   if (map2) map2.preferences.routes.clear();
 }
 
-// Route calculation callback
-function onRouteBuiltFinished(err: GemError, routes: Route[] | null, isFirstMap: boolean) {
-  if (isFirstMap) routingHandler1 = null;
-  else routingHandler2 = null;
-
-  if (err === GemError.success && routes && routes.length > 0) {
-    const controller = isFirstMap ? map1 : map2;
-    const routesMap = controller?.preferences.routes;
-    routes.forEach((route, idx) => {
-      routesMap?.add(route, idx === 0, { label: getRouteLabel(route) });
-    });
-    controller?.centerOnRoutes({ routes });
-  }
-}
-
 // Build route for a map
-function onBuildRouteButtonPressed(isFirstMap: boolean) {
+async function onBuildRouteButtonPressed(isFirstMap: boolean) {
   const waypoints: Landmark[] = [];
   if (isFirstMap) {
     waypoints.push(Landmark.withLatLng({ latitude: 37.77903, longitude: -122.41991 }));
@@ -76,18 +62,29 @@ function onBuildRouteButtonPressed(isFirstMap: boolean) {
     2000
   );
 
-  if (isFirstMap) {
-    routingHandler1 = RoutingService.calculateRoute(
-      waypoints,
-      routePreferences,
-      (err: GemError, routes: Route[] | null) => onRouteBuiltFinished(err, routes, true)
-    );
-  } else {
-    routingHandler2 = RoutingService.calculateRoute(
+  const routingController = new AbortController();
+  if (isFirstMap) routingController1 = routingController;
+  else routingController2 = routingController;
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
       waypoints,
       routePreferences,
-      (err: GemError, routes: Route[] | null) => onRouteBuiltFinished(err, routes, false)
+      { signal: routingController.signal }
     );
+
+    const controller = isFirstMap ? map1 : map2;
+    const routesMap = controller?.preferences.routes;
+    routes.forEach((route, idx) => {
+      routesMap?.add(route, idx === 0, { label: getRouteLabel(route) });
+    });
+    controller?.centerOnRoutes({ routes });
+  } catch (error) {
+    if (error instanceof RoutingError && !error.isCancelled) showMessage(error.message);
+  } finally {
+    if (isFirstMap && routingController1 === routingController) routingController1 = null;
+    if (!isFirstMap && routingController2 === routingController) routingController2 = null;
   }
 }
 
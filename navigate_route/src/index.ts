@@ -17,9 +17,7 @@ import {
   Coordinates,
   GemAnimation,
   AnimationType,
-  TaskHandler,
   Position,
-  NavigationEventType,
 } from '@magiclane/maps-sdk';
 import {
   GEMKIT_TOKEN,
@@ -30,37 +28,16 @@ import {
   initializeSDK,
   createMapView,
   EventListenerManager,
+  calculateRouteAsync,
+  RoutingError,
+  RoutingErrorType,
+  NavigationSession,
+  NavigationProgress,
+  formatClockTime,
 } from '../../shared';
 
 // Event listener manager for proper cleanup
 const events = new EventListenerManager();
-function getCurrentTime(additionalSeconds = 0): string {
-  const now = new Date();
-  const updated = new Date(now.getTime() + additionalSeconds * 1000);
-  return updated.toTimeString().slice(0, 5);
-}
-
-// --- NavigationInstruction helpers ---
-function getFormattedDistanceToNextTurn(instr: NavigationInstruction): string {
-  const td = instr.timeDistanceToNextTurn;
-  const total = td.unrestrictedDistanceM + td.restrictedDistanceM;
-  return convertDistance(total);
-}
-function getFormattedRemainingDistance(instr: NavigationInstruction): string {
-  const td = instr.remainingTravelTimeDistance;
-  const total = td.unrestrictedDistanceM + td.restrictedDistanceM;
-  return convertDistance(total);
-}
-function getFormattedRemainingDuration(instr: NavigationInstruction): string {
-  const td = instr.remainingTravelTimeDistance;
-  const total = td.unrestrictedTimeS + td.restrictedTimeS;
-  return convertDuration(total);
-}
-function getFormattedETA(instr: NavigationInstruction): string {
-  const td = instr.remainingTravelTimeDistance;
-  const total = td.unrestrictedTimeS + td.restrictedTimeS;
-  return getCurrentTime(total);
-}
 
 // --- Route label helper (from calculate_route.ts) ---
 function getRouteLabel(route: Route): string {
@@ -72,15 +49,17 @@ function getRouteLabel(route: Route): string {
 
 // --- UI State ---
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
-let navigationHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let routes: Route[] | null = null;
-let isNavigationActive = false;
 let areRoutesBuilt = false;
-let currentInstruction: NavigationInstruction | null = null;
 let currentLocation: Coordinates | null = null;
 let hasLiveDataSource = false;
 
+// --- Navigation session, with its latest instruction and progress ---
+const navigation = new NavigationSession({ NavigationService });
+navigation.on('instruction', () => updateUI());
+navigation.on('error', () => cancelRoute());
+
 // --- UI Elements ---
 let buildRouteBtn: HTMLButtonElement;
 let startNavBtn: HTMLButtonElement;
@@ -89,7 +68,7 @@ let followBtn: HTMLButtonElement;
 let clearRoutesBtn: HTMLButtonElement;
 
 // --- UI: Navigation Top Panel ---
-function showNavigationTopPanel(instr: NavigationInstruction) {
+function showNavigationTopPanel(instr: NavigationInstruction, progress: NavigationProgress) {
   let panel = document.getElementById('nav-top-panel') as HTMLDivElement;
   if (!panel) {
     panel = document.createElement('div');
@@ -116,14 +95,14 @@ function showNavigationTopPanel(instr: NavigationInstruction) {
   }
   panel.innerHTML = `
     <div style="flex:1;">
-      <div style="font-size:28px;font-weight:700;margin-bottom:4px;">${getFormattedDistanceToNextTurn(instr)}</div>
+      <div style="font-size:28px;font-weight:700;margin-bottom:4px;">${convertDistance(progress.distanceToNextTurn)}</div>
       <div style="font-size:18px;font-weight:500;opacity:0.9;">${instr.nextStreetName || 'Continue'}</div>
     </div>
   `;
 }
 
 // --- UI: Navigation Bottom Panel ---
-function showNavigationBottomPanel(instr: NavigationInstruction) {
+function showNavigationBottomPanel(progress: NavigationProgress) {
   let panel = document.getElementById('nav-bottom-panel') as HTMLDivElement;
   if (!panel) {
     panel = document.createElement('div');
@@ -153,9 +132,9 @@ function showNavigationBottomPanel(instr: NavigationInstruction) {
     document.body.appendChild(panel);
   }
   panel.innerHTML = `
-    <span style="color:#673ab7;">${getFormattedRemainingDuration(instr)}</span>
-    <span style="color:#4caf50;">${getFormattedETA(instr)}</span>
-    <span style="color:#2196f3;">${getFormattedRemainingDistance(instr)}</span>
+    <span style="color:#673ab7;">${convertDuration(progress.remainingDuration)}</span>
+    <span style="color:#4caf50;">${formatClockTime(progress.eta)}</span>
+    <span style="color:#2196f3;">${convertDistance(progress.remainingDistance)}</span>
   `;
 }
 
@@ -214,16 +193,16 @@ function hideNavigationPanels() {
 
 // --- UI: Update Buttons ---
 function updateUI() {
-  buildRouteBtn.style.display = !routingHandler && !routes && !areRoutesBuilt ? 'block' : 'none';
-  startNavBtn.style.display = !isNavigationActive && areRoutesBuilt ? 'block' : 'none';
-  stopNavBtn.style.display = isNavigationActive ? 'block' : 'none';
-  followBtn.style.display = !isNavigationActive ? 'block' : 'none';
+  buildRouteBtn.style.display = !routingController && !routes && !areRoutesBuilt ? 'block' : 'none';
+  startNavBtn.style.display = !navigation.isActive && areRoutesBuilt ? 'block' : 'none';
+  stopNavBtn.style.display = navigation.isActive ? 'block' : 'none';
+  followBtn.style.display = !navigation.isActive ? 'block' : 'none';
   clearRoutesBtn.style.display =
-    routes && !routingHandler && !isNavigationActive ? 'block' : 'none';
+    routes && !routingController && !navigation.isActive ? 'block' : 'none';
 
-  if (isNavigationActive && currentInstruction) {
-    showNavigationTopPanel(currentInstruction);
-    showNavigationBottomPanel(currentInstruction);
+  if (navigation.instruction && navigation.progress) {
+    showNavigationTopPanel(navigation.instruction, navigation.progress);
+    showNavigationBottomPanel(navigation.progress);
     showFollowPositionButton(() => map?.startFollowingPosition());
   } else {
     hideNavigationPanels();
@@ -231,7 +210,7 @@ function updateUI() {
 }
 
 // --- Route calculation functionality ---
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   if (!currentLocation) {
     showMessage('Current location is needed to compute the route.');
     return;
@@ -241,34 +220,38 @@ function onBuildRouteButtonPressed() {
   const routePreferences = new RoutePreferences({});
   showMessage('The route is calculating.');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.routeTooLong) {
-        showMessage(
-          'The destination is too far from your current location. Change the coordinates of the destination.'
-        );
-        return;
-      }
-      if (err === GemError.success) {
-        const routesMap = map?.preferences.routes;
-        calculatedRoutes.forEach((route, index) => {
-          const label = getRouteLabel(route);
-          routesMap?.add(route, index === 0, { label });
-        });
-        map?.centerOnRoutes({ routes: calculatedRoutes });
-        showMessage('Route calculated successfully!');
-        routes = calculatedRoutes;
-        areRoutesBuilt = true;
-      } else {
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const calculatedRoutes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map?.preferences.routes;
+    calculatedRoutes.forEach((route, index) => {
+      const label = getRouteLabel(route);
+      routesMap?.add(route, index === 0, { label });
+    });
+    map?.centerOnRoutes({ routes: calculatedRoutes });
+    showMessage('Route calculated successfully!');
+    routes = calculatedRoutes;
+    areRoutesBuilt = true;
+  } catch (error) {
+    if (error instanceof RoutingError && error.type === RoutingErrorType.RouteTooLong) {
+      showMessage(
+        'The destination is too far from your current location. Change the coordinates of the destination.'
+      );
+    } else {
+      showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+    }
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 // --- Start navigation ---
@@ -279,44 +262,21 @@ function onStartNavigation() {
     showMessage('No main route available');
     return;
   }
-  navigationHandler = NavigationService.startSimulation(routesMap.mainRoute, undefined, {
-    onNavigationInstruction: (
-      instruction: NavigationInstruction,
-      events: NavigationEventType[]
-    ) => {
-      isNavigationActive = true;
-      currentInstruction = instruction;
-      updateUI();
-    },
-    onError: (error: GemError) => {
-      isNavigationActive = false;
-      cancelRoute();
-      if (error !== GemError.cancel) stopNavigation();
-      updateUI();
-    },
-  });
+  navigation.startSimulation(routesMap.mainRoute);
   map.startFollowingPosition();
   updateUI();
 }
 
 // --- Stop navigation ---
 function stopNavigation() {
-  if (navigationHandler) {
-    NavigationService.cancelNavigation(navigationHandler);
-    navigationHandler = null;
-  }
+  navigation.stop();
   cancelRoute();
-  isNavigationActive = false;
-  updateUI();
 }
 
 // --- Cancel route and clear ---
 function cancelRoute() {
   if (map) map.preferences.routes.clear();
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  routingController?.abort();
   routes = null;
   areRoutesBuilt = false;
   updateUI();
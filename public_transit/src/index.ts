@@ -8,32 +8,57 @@ import {
   GemMap,
   PositionService,
   Landmark,
-  RoutePreferences,
   RoutingService,
   GemError,
   Route,
   PTRoute,
-  PTRouteSegment,
   TransitType,
-  RouteTransportMode,
-  TaskHandler,
+  Coordinates,
+  RectangleGeographicArea,
 } from '@magiclane/maps-sdk';
+import {
+  Itinerary,
+  ItineraryLeg,
+  ItinerarySort,
+  getItinerary,
+  getPTSegments,
+  getTransitName,
+  sortItineraries,
+} from './itinerary';
+import {
+  TransitPreferences,
+  TransitRanking,
+  DEFAULT_TRANSIT_PREFERENCES,
+  SELECTABLE_TRANSIT_TYPES,
+  getRankingSort,
+  meetsPreferences,
+  toRoutePreferences,
+} from './preferences';
 
 // Type for screen position coordinates
 interface ScreenPosition {
   x: number;
   y: number;
 }
-
-// Type for route segments
-interface RouteSegment {
-  toPTRouteSegment?: () => PTRouteSegment | null;
-}
-import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  convertDistance,
+  convertDuration,
+  formatClockTime,
+  calculateRouteAsync,
+  RoutingError,
+} from '../../shared';
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
-let ptSegments: PTRouteSegment[] | null = null;
+let routingController: AbortController | null = null;
+let itineraries: Itinerary[] = [];
+let selectedItinerary: Itinerary | null = null;
+let alternativesSort: ItinerarySort = 'arrival';
+let transitPreferences: TransitPreferences = { ...DEFAULT_TRANSIT_PREFERENCES };
+// Routes returned by the engine that do not meet the preferences
+let hiddenRouteCount = 0;
 
 // UI Elements
 let buildRouteBtn: HTMLButtonElement;
@@ -51,9 +76,9 @@ function getRouteLabel(route: Route): string {
   if (!publicTransitRoute) return '';
 
   // Get the first and last segments of the route.
-  const firstSegment = publicTransitRoute.segments[0]?.toPTRouteSegment?.();
-  const lastSegment =
-    publicTransitRoute.segments[publicTransitRoute.segments.length - 1]?.toPTRouteSegment?.();
+  const segments = getPTSegments(route);
+  const firstSegment = segments[0];
+  const lastSegment = segments[segments.length - 1];
 
   if (!firstSegment || !lastSegment) return '';
 
@@ -82,74 +107,248 @@ function getRouteLabel(route: Route): string {
   );
 }
 
-// UI: update segment panel
-function updateSegmentPanel() {
-  let panel = document.getElementById('pt-segments-panel') as HTMLDivElement;
+const SORT_OPTIONS: Array<{ value: ItinerarySort; label: string }> = [
+  { value: 'arrival', label: 'Arrival' },
+  { value: 'transfers', label: 'Transfers' },
+  { value: 'walking', label: 'Walking' },
+];
+
+function formatTime(date: Date | null): string {
+  return date ? formatClockTime(date) : '–';
+}
+
+function getLegIcon(leg: ItineraryLeg): string {
+  if (leg.isWalk) return ICONS.walk;
+  return leg.transitType === TransitType.bus ? ICONS.bus : ICONS.transit;
+}
+
+function createLineBadge(leg: ItineraryLeg): string {
+  return `
+    <span style="display: inline-flex; align-items: center; gap: 4px; background: ${leg.color}; color: ${leg.textColor}; padding: 2px 8px; border-radius: 10px; font-size: 11px; font-weight: bold; white-space: nowrap;">
+      <span style="display: inline-flex; transform: scale(0.75);">${getLegIcon(leg)}</span>${leg.isWalk ? convertDuration(leg.duration) : leg.lineName}
+    </span>
+  `;
+}
+
+// Select a route returned by the engine, both on the map and in the panels
+function selectItinerary(itinerary: Itinerary) {
+  selectedItinerary = itinerary;
+  if (map) map.preferences.routes.mainRoute = itinerary.route;
+  updateItineraryPanel();
+  updateAlternativesPanel();
+}
+
+// Center the map on the part of the route covered by the leg
+function centerOnLeg(itinerary: Itinerary, leg: ItineraryLeg) {
+  if (!map) return;
+  const samples = 10;
+  const coordinates: Coordinates[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const distance = leg.startDistance + (leg.distance * i) / samples;
+    coordinates.push(itinerary.route.getCoordinateOnRoute(Math.round(distance)));
+  }
+  const latitudes = coordinates.map((c) => c.latitude);
+  const longitudes = coordinates.map((c) => c.longitude);
+  map.centerOnArea(
+    new RectangleGeographicArea({
+      topLeft: new Coordinates({
+        latitude: Math.max(...latitudes),
+        longitude: Math.min(...longitudes),
+      }),
+      bottomRight: new Coordinates({
+        latitude: Math.min(...latitudes),
+        longitude: Math.max(...longitudes),
+      }),
+    })
+  );
+}
+
+function createTimelineRow(time: string, color: string, dashed: boolean): HTMLDivElement {
+  const row = document.createElement('div');
+  row.style.cssText = `display: grid; grid-template-columns: 48px 16px 1fr; gap: 8px;`;
+  row.innerHTML = `
+    <div style="font-size: 12px; font-weight: 600; color: #333; padding-top: 2px;">${time}</div>
+    <div style="display: flex; justify-content: center;">
+      <div style="width: 4px; border-radius: 2px; ${dashed ? `border-left: 4px dotted ${color}; width: 0;` : `background: ${color};`}"></div>
+    </div>
+  `;
+  return row;
+}
+
+// UI: vertical timeline of the selected route
+function updateItineraryPanel() {
+  let panel = document.getElementById('pt-itinerary-panel') as HTMLDivElement;
+  if (panel) panel.remove();
+
+  const itinerary = selectedItinerary;
+  if (!itinerary) return;
+
+  panel = document.createElement('div');
+  panel.id = 'pt-itinerary-panel';
+  panel.style.cssText = `
+    position: fixed;
+    top: 20px;
+    left: 20px;
+    width: 320px;
+    max-height: calc(100vh - 240px);
+    overflow-y: auto;
+    background: rgba(255, 255, 255, 0.95);
+    backdrop-filter: blur(10px);
+    border-radius: 20px;
+    box-shadow: 0 8px 32px rgba(0,0,0,0.15);
+    padding: 16px;
+    z-index: 1100;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = `margin-bottom: 12px;`;
+  header.innerHTML = `
+    <div style="font-size: 18px; font-weight: 700; color: #111;">${formatTime(itinerary.departure)} – ${formatTime(itinerary.arrival)}</div>
+    <div style="font-size: 12px; color: #666;">
+      ${convertDuration(itinerary.duration)} · ${itinerary.transfers} transfer${itinerary.transfers === 1 ? '' : 's'} · ${convertDistance(itinerary.walkingDistance)} walking${itinerary.fare ? ` · ${itinerary.fare}` : ''}
+    </div>
+  `;
+  panel.appendChild(header);
+
+  itinerary.legs.forEach((leg) => {
+    // Waiting for the next vehicle at a transfer
+    if (leg.wait >= 60) {
+      const waitRow = createTimelineRow('', '#bdbdbd', true);
+      const waitText = document.createElement('div');
+      waitText.style.cssText = `font-size: 12px; color: #888; padding: 4px 0; font-style: italic;`;
+      waitText.textContent = `Wait ${convertDuration(leg.wait)}`;
+      waitRow.appendChild(waitText);
+      panel.appendChild(waitRow);
+    }
+
+    const row = createTimelineRow(formatTime(leg.departure), leg.color, leg.isWalk);
+    row.style.cursor = 'pointer';
+    row.title = 'Center the map on this leg';
+    row.onclick = () => centerOnLeg(itinerary, leg);
+
+    const content = document.createElement('div');
+    content.style.cssText = `display: flex; flex-direction: column; gap: 4px; padding-bottom: 12px;`;
+    const wheelchair = leg.hasWheelchairSupport
+      ? `<span style="color: #1976d2; display: inline-flex;" title="Wheelchair accessible">${ICONS.wheelchair}</span>`
+      : '';
+    content.innerHTML = `
+      <div style="font-size: 13px; font-weight: 600; color: #222;">${leg.from}</div>
+      <div style="display: flex; align-items: center; gap: 6px; flex-wrap: wrap;">
+        ${createLineBadge(leg)}${wheelchair}
+        ${leg.headSign ? `<span style="font-size: 12px; color: #555;">towards ${leg.headSign}</span>` : ''}
+      </div>
+      <div style="font-size: 12px; color: #666;">
+        ${leg.isWalk ? `Walk ${convertDistance(leg.distance)}` : `${leg.intermediateStops.length + 1} stop${leg.intermediateStops.length === 0 ? '' : 's'} · ${convertDuration(leg.duration)}`}
+      </div>
+    `;
+
+    // Intermediate stops, collapsed by default
+    if (leg.intermediateStops.length > 0) {
+      const stops = document.createElement('details');
+      stops.style.cssText = `font-size: 12px; color: #555;`;
+      stops.onclick = (event) => event.stopPropagation();
+      stops.innerHTML = `
+        <summary style="cursor: pointer; color: #1976d2;">${leg.intermediateStops.length} intermediate stop${leg.intermediateStops.length === 1 ? '' : 's'}</summary>
+        ${leg.intermediateStops
+          .map(
+            (stop) =>
+              `<div style="display: flex; justify-content: space-between; padding: 2px 0 2px 8px;"><span>${stop.name}</span><span style="color: #888;">${formatTime(stop.arrival ?? stop.departure)}</span></div>`
+          )
+          .join('')}
+      `;
+      content.appendChild(stops);
+    }
+
+    row.appendChild(content);
+    panel.appendChild(row);
+  });
+
+  // Destination
+  const lastLeg = itinerary.legs[itinerary.legs.length - 1];
+  const end = createTimelineRow(formatTime(itinerary.arrival), 'transparent', false);
+  const endText = document.createElement('div');
+  endText.style.cssText = `font-size: 13px; font-weight: 600; color: #222;`;
+  endText.textContent = lastLeg.to;
+  end.appendChild(endText);
+  panel.appendChild(end);
+
+  document.body.appendChild(panel);
+}
+
+// UI: the returned routes side by side, in the chosen order
+function updateAlternativesPanel() {
+  let panel = document.getElementById('pt-alternatives-panel') as HTMLDivElement;
   if (panel) panel.remove();
 
-  if (!ptSegments || ptSegments.length === 0) return;
+  if (itineraries.length === 0) return;
 
   panel = document.createElement('div');
-  panel.id = 'pt-segments-panel';
+  panel.id = 'pt-alternatives-panel';
   panel.style.cssText = `
     position: fixed; 
     left: 50%; 
-    bottom: 30px; 
+    bottom: 90px; 
     transform: translateX(-50%);
     background: rgba(255, 255, 255, 0.95); 
     backdrop-filter: blur(10px);
     border-radius: 20px; 
     box-shadow: 0 8px 32px rgba(0,0,0,0.15);
-    padding: 12px 24px; 
+    padding: 12px 16px; 
     display: flex; 
-    flex-direction: row; 
-    gap: 16px; 
-    align-items: center; 
+    flex-direction: column; 
+    gap: 8px; 
     z-index: 1100;
     max-width: 90vw;
-    overflow-x: auto;
     font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
   `;
 
-  ptSegments.forEach((segment, index) => {
-    const segDiv = document.createElement('div');
-    segDiv.style.cssText = `
-      display: flex; 
-      flex-direction: column; 
-      align-items: center; 
-      gap: 4px;
-      min-width: 60px; 
-      justify-content: center;
-      position: relative;
+  const header = document.createElement('div');
+  header.style.cssText = `display: flex; align-items: center; justify-content: space-between; gap: 12px;`;
+  const hidden = hiddenRouteCount > 0 ? ` (${hiddenRouteCount} hidden by preferences)` : '';
+  header.innerHTML = `<span style="font-size: 14px; font-weight: 700; color: #111;">${itineraries.length} alternative${itineraries.length === 1 ? '' : 's'}<span style="font-weight: 400; color: #888;">${hidden}</span></span>`;
+  const sortSelect = document.createElement('select');
+  sortSelect.style.cssText = `padding: 4px 8px; border-radius: 8px; border: 1px solid #ddd; font-size: 12px;`;
+  SORT_OPTIONS.forEach((option) => {
+    const opt = document.createElement('option');
+    opt.value = option.value;
+    opt.textContent = `Sort by ${option.label.toLowerCase()}`;
+    opt.selected = option.value === alternativesSort;
+    sortSelect.appendChild(opt);
+  });
+  sortSelect.onchange = () => {
+    alternativesSort = sortSelect.value as ItinerarySort;
+    updateAlternativesPanel();
+  };
+  header.appendChild(sortSelect);
+  panel.appendChild(header);
+
+  const cards = document.createElement('div');
+  cards.style.cssText = `display: flex; gap: 12px; overflow-x: auto; padding-bottom: 4px;`;
+  sortItineraries(itineraries, alternativesSort).forEach((itinerary) => {
+    const selected = itinerary === selectedItinerary;
+    const card = document.createElement('div');
+    card.style.cssText = `
+      min-width: 180px;
+      padding: 10px 12px;
+      border-radius: 14px;
+      cursor: pointer;
+      border: 2px solid ${selected ? '#1976d2' : '#eee'};
+      background: ${selected ? '#e3f2fd' : '#fff'};
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
     `;
-
-    // Add arrow separator if not last
-    if (index < ptSegments!.length - 1) {
-      segDiv.style.paddingRight = '16px';
-      segDiv.style.borderRight = '1px solid rgba(0,0,0,0.1)';
-    }
-
-    if (segment.transitType === TransitType.walk) {
-      segDiv.innerHTML = `
-        <div style="color: #555;">${ICONS.walk}</div>
-        <span style="font-size: 12px; font-weight: 600; color: #666;">${convertDuration(segment.timeDistance.totalDistanceM)}</span>
-      `;
-    } else {
-      const wheelchairIcon = segment.hasWheelchairSupport
-        ? `<div style="position:absolute; top:-4px; right:-4px; background:#fff; border-radius:50%; padding:2px; box-shadow:0 2px 4px rgba(0,0,0,0.1);">${ICONS.wheelchair}</div>`
-        : '';
-      segDiv.innerHTML = `
-        <div style="color: #4caf50; position: relative;">
-            ${ICONS.bus}
-            ${wheelchairIcon}
-        </div>
-        <div style="background: #4caf50; color: #fff; padding: 2px 8px; border-radius: 10px; font-size: 11px; font-weight: bold; white-space: nowrap;">
-          ${segment.shortName || 'Bus'}
-        </div>
-      `;
-    }
-    panel.appendChild(segDiv);
+    card.innerHTML = `
+      <div style="font-size: 14px; font-weight: 700; color: #111;">${formatTime(itinerary.departure)} – ${formatTime(itinerary.arrival)}</div>
+      <div style="font-size: 12px; color: #555;">${convertDuration(itinerary.duration)} · ${itinerary.transfers} transfer${itinerary.transfers === 1 ? '' : 's'}</div>
+      <div style="font-size: 12px; color: #555;">${convertDistance(itinerary.walkingDistance)} walking</div>
+      <div style="display: flex; gap: 4px; flex-wrap: wrap;">${itinerary.legs.map(createLineBadge).join('')}</div>
+    `;
+    card.onclick = () => selectItinerary(itinerary);
+    cards.appendChild(card);
   });
+  panel.appendChild(cards);
 
   document.body.appendChild(panel);
 }
@@ -161,23 +360,24 @@ function updateUI() {
   clearRoutesBtn.style.display = 'none';
 
   // Routes are not built.
-  if (!routingHandler && !ptSegments) {
+  if (!routingController && itineraries.length === 0) {
     buildRouteBtn.style.display = 'flex';
   }
   // Routes calculating is in progress.
-  else if (routingHandler) {
+  else if (routingController) {
     cancelRouteBtn.style.display = 'flex';
   }
   // Routes calculating is finished.
-  else if (ptSegments) {
+  else if (itineraries.length > 0) {
     clearRoutesBtn.style.display = 'flex';
   }
 
-  updateSegmentPanel();
+  updateItineraryPanel();
+  updateAlternativesPanel();
 }
 
 // Route calculation functionality
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   // Define the departure.
   const departureLandmark = Landmark.withLatLng({
     latitude: 51.505929,
@@ -191,60 +391,202 @@ function onBuildRouteButtonPressed() {
   });
 
   // Define the route preferences with public transport mode.
-  const routePreferences = new RoutePreferences({
-    transportMode: RouteTransportMode.public,
-  });
+  const preferences = transitPreferences;
+  const routePreferences = toRoutePreferences(preferences);
 
   showMessage('The route is being calculated.');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map?.preferences.routes;
-        routes.forEach((route, idx) => {
-          routesMap?.add(route, idx === 0, { label: idx === 0 ? getRouteLabel(route) : undefined });
-        });
-        map?.centerOnRoutes({ routes });
-
-        // Convert normal route to PTRoute and then to PTRouteSegments
-        const ptRoute: PTRoute | null = routes[0].toPTRoute() ? routes[0].toPTRoute() : null;
-        if (ptRoute) {
-          const segments: PTRouteSegment[] = ptRoute.segments
-            .map((seg: RouteSegment) => seg.toPTRouteSegment && seg.toPTRouteSegment())
-            .filter((seg: PTRouteSegment | null | undefined): seg is PTRouteSegment => !!seg);
-          ptSegments = segments;
-        } else {
-          ptSegments = null;
-        }
-      } else {
-        ptSegments = null;
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    // Keep the routes that meet the preferences, best ranked first
+    const allItineraries = routes
+      .map((route: Route) => getItinerary(route))
+      .filter((itinerary: Itinerary | null): itinerary is Itinerary => !!itinerary);
+    const accepted = allItineraries.filter((itinerary) => meetsPreferences(itinerary, preferences));
+    hiddenRouteCount = allItineraries.length - accepted.length;
+    alternativesSort = getRankingSort(preferences.ranking);
+    itineraries = sortItineraries(accepted, alternativesSort);
+    selectedItinerary = itineraries[0] ?? null;
+
+    if (itineraries.length === 0) {
+      showMessage(
+        `None of the ${allItineraries.length} routes found meets the transit preferences.`
+      );
+      return;
+    }
+
+    // The best ranked route is the main route
+    const routesMap = map?.preferences.routes;
+    itineraries.forEach((itinerary, idx) => {
+      routesMap?.add(itinerary.route, idx === 0, {
+        label: idx === 0 ? getRouteLabel(itinerary.route) : undefined,
+      });
+    });
+    map?.centerOnRoutes({ routes: itineraries.map((itinerary) => itinerary.route) });
+  } catch (error) {
+    itineraries = [];
+    hiddenRouteCount = 0;
+    selectedItinerary = null;
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 // Clear routes functionality
 function onClearRoutesButtonPressed() {
   map?.preferences.routes.clear();
-  ptSegments = null;
+  itineraries = [];
+  selectedItinerary = null;
+  hiddenRouteCount = 0;
   updateUI();
 }
 
+// UI: transit preferences, used by the next route calculation
+function createPreferencesPanel() {
+  const panel = document.createElement('div');
+  panel.id = 'pt-preferences-panel';
+  panel.style.cssText = `
+    position: fixed;
+    top: 20px;
+    right: 20px;
+    width: 240px;
+    background: rgba(255, 255, 255, 0.95);
+    backdrop-filter: blur(10px);
+    border-radius: 20px;
+    box-shadow: 0 8px 32px rgba(0,0,0,0.15);
+    padding: 16px;
+    z-index: 1100;
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    font-size: 13px;
+    color: #333;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const title = document.createElement('div');
+  title.style.cssText = `display: flex; align-items: center; gap: 6px; font-size: 15px; font-weight: 700; color: #111;`;
+  title.innerHTML = `${ICONS.settings} Transit preferences`;
+  panel.appendChild(title);
+
+  const createLabel = (text: string) => {
+    const label = document.createElement('div');
+    label.style.cssText = `font-weight: 600; color: #555; font-size: 12px;`;
+    label.textContent = text;
+    return label;
+  };
+  const createCheckbox = (text: string, checked: boolean, onChange: (checked: boolean) => void) => {
+    const wrapper = document.createElement('label');
+    wrapper.style.cssText = `display: flex; align-items: center; gap: 6px; cursor: pointer;`;
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.checked = checked;
+    input.onchange = () => onChange(input.checked);
+    wrapper.appendChild(input);
+    wrapper.appendChild(document.createTextNode(text));
+    return wrapper;
+  };
+  const createSelect = <T>(
+    options: Array<{ value: T; label: string }>,
+    selected: T,
+    onChange: (value: T) => void
+  ) => {
+    const select = document.createElement('select');
+    select.style.cssText = `padding: 6px 8px; border-radius: 8px; border: 1px solid #ddd; font-size: 13px;`;
+    options.forEach((option, index) => {
+      const opt = document.createElement('option');
+      opt.value = String(index);
+      opt.textContent = option.label;
+      opt.selected = option.value === selected;
+      select.appendChild(opt);
+    });
+    select.onchange = () => onChange(options[Number(select.value)].value);
+    return select;
+  };
+
+  // Allowed vehicles
+  panel.appendChild(createLabel('Vehicles'));
+  const types = document.createElement('div');
+  types.style.cssText = `display: grid; grid-template-columns: 1fr 1fr; gap: 4px;`;
+  SELECTABLE_TRANSIT_TYPES.forEach((transitType) => {
+    types.appendChild(
+      createCheckbox(
+        getTransitName(transitType),
+        transitPreferences.transitTypes.includes(transitType),
+        (checked) => {
+          transitPreferences = {
+            ...transitPreferences,
+            transitTypes: checked
+              ? [...transitPreferences.transitTypes, transitType]
+              : transitPreferences.transitTypes.filter((other) => other !== transitType),
+          };
+        }
+      )
+    );
+  });
+  panel.appendChild(types);
+
+  panel.appendChild(createLabel('Maximum transfers'));
+  panel.appendChild(
+    createSelect<number | null>(
+      [
+        { value: null, label: 'Any' },
+        { value: 0, label: 'Direct only' },
+        { value: 1, label: '1' },
+        { value: 2, label: '2' },
+        { value: 3, label: '3' },
+      ],
+      transitPreferences.maxTransfers,
+      (maxTransfers) => (transitPreferences = { ...transitPreferences, maxTransfers })
+    )
+  );
+
+  panel.appendChild(createLabel('Maximum walking'));
+  panel.appendChild(
+    createSelect<number>(
+      [250, 500, 1000, 2000, 5000].map((value) => ({ value, label: convertDistance(value) })),
+      transitPreferences.maxWalkingDistance,
+      (maxWalkingDistance) => (transitPreferences = { ...transitPreferences, maxWalkingDistance })
+    )
+  );
+
+  panel.appendChild(
+    createCheckbox(
+      'Wheelchair accessible only',
+      transitPreferences.wheelchairOnly,
+      (wheelchairOnly) => (transitPreferences = { ...transitPreferences, wheelchairOnly })
+    )
+  );
+
+  panel.appendChild(createLabel('Ranking'));
+  panel.appendChild(
+    createSelect<TransitRanking>(
+      [
+        { value: 'fastest', label: 'Fastest' },
+        { value: 'fewestTransfers', label: 'Fewest transfers' },
+      ],
+      transitPreferences.ranking,
+      (ranking) => (transitPreferences = { ...transitPreferences, ranking })
+    )
+  );
+
+  document.body.appendChild(panel);
+}
+
 // Cancel route calculation
 function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    showMessage('Route calculation cancelled.');
-  }
-  updateUI();
+  routingController?.abort();
 }
 
 // Register route tap callback for selecting alternative routes
@@ -254,7 +596,10 @@ function registerRouteTapCallback() {
     await map!.setCursorScreenPosition(pos);
     const selectedRoutes = map!.cursorSelectionRoutes();
     if (selectedRoutes.length > 0) {
-      map!.preferences.routes.mainRoute = selectedRoutes[0];
+      const route = selectedRoutes[0];
+      const itinerary = itineraries.find((other) => other.route === route) ?? getItinerary(route);
+      if (itinerary) selectItinerary(itinerary);
+      else map!.preferences.routes.mainRoute = route;
     }
   });
 }
@@ -303,5 +648,6 @@ window.addEventListener('DOMContentLoaded', async () => {
   clearRoutesBtn.onclick = () => onClearRoutesButtonPressed();
   document.body.appendChild(clearRoutesBtn);
 
+  createPreferencesPanel();
   updateUI();
 });
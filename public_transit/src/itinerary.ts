@@ -0,0 +1,199 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  Route,
+  PTRoute,
+  PTRouteSegment,
+  PTRouteInstruction,
+  TransitType,
+} from '@magiclane/maps-sdk';
+
+// Type for route segments
+interface RouteSegment {
+  toPTRouteSegment?: () => PTRouteSegment | null;
+}
+
+// Channels of a line color
+interface ColorLike {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+export interface ItineraryStop {
+  name: string;
+  arrival: Date | null;
+  departure: Date | null;
+}
+
+// One walking or riding part of a public transit route
+export interface ItineraryLeg {
+  isWalk: boolean;
+  transitType: TransitType;
+  lineName: string;
+  headSign: string;
+  color: string; // CSS color of the line
+  textColor: string;
+  from: string;
+  to: string;
+  departure: Date | null;
+  arrival: Date | null;
+  startDistance: number; // m from the start of the route
+  distance: number; // m
+  duration: number; // s
+  intermediateStops: ItineraryStop[];
+  wait: number; // s spent at the stop before boarding, 0 for walking legs
+  hasWheelchairSupport: boolean;
+}
+
+export interface Itinerary {
+  route: Route;
+  legs: ItineraryLeg[];
+  departure: Date | null;
+  arrival: Date | null;
+  duration: number; // s
+  transfers: number;
+  walkingDistance: number; // m
+  fare: string;
+}
+
+export type ItinerarySort = 'arrival' | 'transfers' | 'walking';
+
+const WALK_COLOR = '#757575';
+const DEFAULT_LINE_COLOR = '#4caf50';
+
+function toCssColor(color: ColorLike | null | undefined, fallback: string): string {
+  if (!color || color.a === 0) return fallback;
+  return `rgb(${color.r}, ${color.g}, ${color.b})`;
+}
+
+function getStops(segment: PTRouteSegment): ItineraryStop[] {
+  return (segment.instructions ?? []).map((instruction: PTRouteInstruction) => ({
+    name: instruction.name ?? '',
+    arrival: instruction.arrivalTime ?? null,
+    departure: instruction.departureTime ?? null,
+  }));
+}
+
+export function getTransitName(transitType: TransitType): string {
+  switch (transitType) {
+    case TransitType.bus:
+      return 'Bus';
+    case TransitType.tram:
+      return 'Tram';
+    case TransitType.underground:
+      return 'Metro';
+    case TransitType.railway:
+      return 'Train';
+    case TransitType.waterTransport:
+      return 'Ferry';
+    default:
+      return 'Transit';
+  }
+}
+
+export function getPTSegments(route: Route): PTRouteSegment[] {
+  const ptRoute: PTRoute | null = route.toPTRoute ? route.toPTRoute() : null;
+  if (!ptRoute) return [];
+  return ptRoute.segments
+    .map((seg: RouteSegment) => seg.toPTRouteSegment && seg.toPTRouteSegment())
+    .filter((seg: PTRouteSegment | null | undefined): seg is PTRouteSegment => !!seg);
+}
+
+/**
+ * Build the timeline of a public transit route. Walking legs often come without
+ * times, so they are placed right after the previous leg.
+ */
+export function getItinerary(route: Route): Itinerary | null {
+  const segments = getPTSegments(route);
+  if (segments.length === 0) return null;
+
+  const legs: ItineraryLeg[] = [];
+  let startDistance = 0;
+  let clock: Date | null = null;
+
+  segments.forEach((segment) => {
+    const isWalk = segment.transitType === TransitType.walk;
+    const stops = isWalk ? [] : getStops(segment);
+    const distance = segment.timeDistance.totalDistanceM;
+    const duration = segment.timeDistance.unrestrictedTimeS + segment.timeDistance.restrictedTimeS;
+
+    const departure: Date | null =
+      segment.departureTime ?? (clock ? new Date(clock.getTime()) : null);
+    const arrival: Date | null =
+      segment.arrivalTime ?? (departure ? new Date(departure.getTime() + duration * 1000) : null);
+    const wait =
+      !isWalk && clock && departure
+        ? Math.max(0, (departure.getTime() - clock.getTime()) / 1000)
+        : 0;
+
+    legs.push({
+      isWalk,
+      transitType: segment.transitType,
+      lineName: isWalk ? 'Walk' : segment.shortName || getTransitName(segment.transitType),
+      headSign: segment.headSign ?? '',
+      color: isWalk ? WALK_COLOR : toCssColor(segment.lineColor, DEFAULT_LINE_COLOR),
+      textColor: isWalk ? '#fff' : toCssColor(segment.lineFontColor, '#fff'),
+      from: stops[0]?.name ?? '',
+      to: stops[stops.length - 1]?.name ?? '',
+      departure,
+      arrival,
+      startDistance,
+      distance,
+      duration,
+      intermediateStops: stops.slice(1, -1),
+      wait,
+      hasWheelchairSupport: !isWalk && segment.hasWheelchairSupport,
+    });
+
+    startDistance += distance;
+    clock = arrival;
+  });
+
+  // Walking legs go between the stops of the legs around them
+  legs.forEach((leg, index) => {
+    if (!leg.isWalk) return;
+    leg.from = legs[index - 1]?.to || 'Start';
+    leg.to = legs[index + 1]?.from || 'Destination';
+  });
+
+  const timeDistance = route.getTimeDistance();
+  const ridingLegs = legs.filter((leg) => !leg.isWalk).length;
+  const ptRoute: PTRoute | null = route.toPTRoute ? route.toPTRoute() : null;
+  return {
+    route,
+    legs,
+    departure: legs[0].departure,
+    arrival: legs[legs.length - 1].arrival,
+    duration: timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS,
+    transfers: Math.max(0, ridingLegs - 1),
+    walkingDistance: legs
+      .filter((leg) => leg.isWalk)
+      .reduce((total, leg) => total + leg.distance, 0),
+    fare: ptRoute?.publicTransportFare || '',
+  };
+}
+
+function getArrivalTime(itinerary: Itinerary): number {
+  return itinerary.arrival ? itinerary.arrival.getTime() : Infinity;
+}
+
+// A copy sorted by the criterion, ties broken by the arrival time
+export function sortItineraries(itineraries: Itinerary[], sort: ItinerarySort): Itinerary[] {
+  // Routes without times compare equal instead of giving NaN
+  const byArrival = (a: Itinerary, b: Itinerary) => getArrivalTime(a) - getArrivalTime(b) || 0;
+  return [...itineraries].sort((a, b) => {
+    switch (sort) {
+      case 'arrival':
+        return byArrival(a, b);
+      case 'transfers':
+        return a.transfers - b.transfers || byArrival(a, b);
+      case 'walking':
+        return a.walkingDistance - b.walkingDistance || byArrival(a, b);
+    }
+  });
+}
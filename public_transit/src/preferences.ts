@@ -0,0 +1,71 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  RoutePreferences,
+  RouteTransportMode,
+  TransitType,
+  PTSortingStrategy,
+} from '@magiclane/maps-sdk';
+import { Itinerary, ItinerarySort } from './itinerary';
+
+export type TransitRanking = 'fastest' | 'fewestTransfers';
+
+export interface TransitPreferences {
+  transitTypes: TransitType[]; // allowed vehicles
+  maxTransfers: number | null; // null for any number
+  maxWalkingDistance: number; // m
+  wheelchairOnly: boolean;
+  ranking: TransitRanking;
+}
+
+// Vehicles that can be turned off; other transit types are always allowed
+export const SELECTABLE_TRANSIT_TYPES: TransitType[] = [
+  TransitType.bus,
+  TransitType.tram,
+  TransitType.underground,
+  TransitType.railway,
+  TransitType.waterTransport,
+];
+
+export const DEFAULT_TRANSIT_PREFERENCES: TransitPreferences = {
+  transitTypes: [...SELECTABLE_TRANSIT_TYPES],
+  maxTransfers: null,
+  maxWalkingDistance: 1000,
+  wheelchairOnly: false,
+  ranking: 'fastest',
+};
+
+// The engine limits the walking distance, takes wheelchair users into account and orders
+// the routes; the allowed vehicles and the number of transfers are checked by meetsPreferences.
+export function toRoutePreferences(preferences: TransitPreferences): RoutePreferences {
+  return new RoutePreferences({
+    transportMode: RouteTransportMode.public,
+    maximumWalkDistance: preferences.maxWalkingDistance,
+    useWheelchair: preferences.wheelchairOnly,
+    sortingStrategy:
+      preferences.ranking === 'fewestTransfers'
+        ? PTSortingStrategy.leastTransfers
+        : PTSortingStrategy.bestTime,
+  });
+}
+
+export function meetsPreferences(itinerary: Itinerary, preferences: TransitPreferences): boolean {
+  if (preferences.maxTransfers !== null && itinerary.transfers > preferences.maxTransfers) {
+    return false;
+  }
+  return itinerary.legs.every((leg) => {
+    if (leg.isWalk) return leg.distance <= preferences.maxWalkingDistance;
+    if (preferences.wheelchairOnly && !leg.hasWheelchairSupport) return false;
+    return (
+      !SELECTABLE_TRANSIT_TYPES.includes(leg.transitType) ||
+      preferences.transitTypes.includes(leg.transitType)
+    );
+  });
+}
+
+export function getRankingSort(ranking: TransitRanking): ItinerarySort {
+  return ranking === 'fewestTransfers' ? 'transfers' : 'arrival';
+}
@@ -0,0 +1,249 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  GemError,
+  GenericCategories,
+  GenericCategory,
+  Landmark,
+  Route,
+  SearchPreferences,
+  SearchService,
+} from '@magiclane/maps-sdk';
+
+export type ConnectorType = 'type1' | 'type2' | 'ccs' | 'chademo' | 'tesla';
+
+// Connector names as they appear in charging station POIs
+export const CONNECTOR_TYPES: Record<ConnectorType, { label: string; pattern: RegExp }> = {
+  type1: { label: 'Type 1', pattern: /type\s*1|j1772/i },
+  type2: { label: 'Type 2', pattern: /type\s*2|mennekes/i },
+  ccs: { label: 'CCS', pattern: /\bccs|combo/i },
+  chademo: { label: 'CHAdeMO', pattern: /chademo/i },
+  tesla: { label: 'Tesla', pattern: /tesla|supercharger/i },
+};
+
+export interface VehicleProfile {
+  batteryCapacity: number; // Wh
+  stateOfCharge: number; // %, at departure
+  consumption: number; // Wh/km
+  connectors: ConnectorType[];
+  reserve: number; // %, never planned below
+  chargeTarget: number; // %, charged to at every stop
+}
+
+export const DEFAULT_VEHICLE_PROFILE: VehicleProfile = {
+  batteryCapacity: 60000,
+  stateOfCharge: 80,
+  consumption: 180,
+  connectors: ['type2', 'ccs'],
+  reserve: 10,
+  chargeTarget: 80,
+};
+
+export interface ChargingStation {
+  landmark: Landmark;
+  name: string;
+  distance: number; // m from the start, along the route
+  connectors: ConnectorType[] | null; // null when the POI does not name them
+}
+
+// A charging plan for a route; the stops are in driving order
+export interface ChargingPlan {
+  feasible: boolean;
+  stops: ChargingStation[];
+  strandedAt: number | null; // m along the route where the battery would reach the reserve
+}
+
+// Part of the trip between two stops, with the battery level at both ends
+export interface EvLeg {
+  from: string;
+  to: string;
+  distance: number; // m
+  energy: number; // Wh
+  departureCharge: number; // %
+  arrivalCharge: number; // %
+}
+
+const STORAGE_KEY = 'range_finder.vehicle';
+
+// Spacing of the points used to place the stations along the route
+const ROUTE_SAMPLE_STEP_M = 250;
+
+// Generic categories of car charging stations, matched by their names
+const CHARGING_CATEGORY_PATTERN = /^(?!.*bike).*charging/i;
+
+export function loadVehicleProfile(): VehicleProfile {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored
+      ? { ...DEFAULT_VEHICLE_PROFILE, ...(JSON.parse(stored) as Partial<VehicleProfile>) }
+      : { ...DEFAULT_VEHICLE_PROFILE };
+  } catch (error) {
+    console.error('Failed to read the vehicle profile:', error);
+    return { ...DEFAULT_VEHICLE_PROFILE };
+  }
+}
+
+export function saveVehicleProfile(profile: VehicleProfile) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error('Failed to save the vehicle profile:', error);
+  }
+}
+
+export function getEnergy(distance: number, profile: VehicleProfile): number {
+  return (distance / 1000) * profile.consumption;
+}
+
+// Battery level after driving the distance, in % of the capacity; negative when it runs out
+export function getChargeAfter(charge: number, distance: number, profile: VehicleProfile): number {
+  return charge - (getEnergy(distance, profile) / profile.batteryCapacity) * 100;
+}
+
+// Distance that can be driven from the charge without going below the reserve
+function getRangeFrom(charge: number, profile: VehicleProfile): number {
+  const usable = ((charge - profile.reserve) / 100) * profile.batteryCapacity;
+  return Math.max(0, (usable / profile.consumption) * 1000);
+}
+
+// Connectors named by the POI; stations rarely list them, so null means unknown
+export function getStationConnectors(landmark: Landmark): ConnectorType[] | null {
+  const text = [landmark.name, ...(landmark.categories ?? []).map((category) => category.name)]
+    .filter(Boolean)
+    .join(' ');
+  const connectors = (Object.keys(CONNECTOR_TYPES) as ConnectorType[]).filter((connector) =>
+    CONNECTOR_TYPES[connector].pattern.test(text)
+  );
+  return connectors.length > 0 ? connectors : null;
+}
+
+export function isStationCompatible(station: ChargingStation, profile: VehicleProfile): boolean {
+  return (
+    station.connectors === null ||
+    station.connectors.some((connector) => profile.connectors.includes(connector))
+  );
+}
+
+function searchAlongRoute(route: Route): Promise<Landmark[]> {
+  const preferences = SearchPreferences.create({
+    maxMatches: 100,
+    searchMapPOIs: true,
+    searchAddresses: false,
+  });
+  const genericCategories: GenericCategory[] = GenericCategories.categories ?? [];
+  const categories = genericCategories.filter((category) =>
+    CHARGING_CATEGORY_PATTERN.test(category.name)
+  );
+  // Charging stations are not available in the map data
+  if (categories.length === 0) return Promise.resolve([]);
+  categories.forEach((category) => {
+    preferences.landmarks?.addStoreCategoryId(category.landmarkStoreId, category.id);
+  });
+
+  return new Promise((resolve) => {
+    SearchService.searchAlongRoute({
+      route,
+      preferences,
+      onCompleteCallback: (err: GemError, results: Landmark[]) => {
+        resolve(err === GemError.success ? results : []);
+      },
+    });
+  });
+}
+
+/**
+ * Charging stations found along the route, ordered by their distance from the start.
+ * Each station is placed at the closest of the points sampled along the route.
+ */
+export async function findChargingStations(route: Route): Promise<ChargingStation[]> {
+  const timeDistance = route.getTimeDistance();
+  const totalDistance = timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
+  const landmarks = await searchAlongRoute(route);
+  if (landmarks.length === 0 || totalDistance <= 0) return [];
+
+  const samples: Array<{ distance: number; latitude: number; longitude: number }> = [];
+  for (let distance = 0; distance < totalDistance; distance += ROUTE_SAMPLE_STEP_M) {
+    const coordinates = route.getCoordinateOnRoute(Math.round(distance));
+    samples.push({ distance, latitude: coordinates.latitude, longitude: coordinates.longitude });
+  }
+
+  return landmarks
+    .map((landmark) => {
+      const { latitude, longitude } = landmark.coordinates;
+      // Squared degrees are enough to compare nearby points
+      const scale = Math.cos((latitude * Math.PI) / 180) ** 2;
+      const closest = samples.reduce((best, sample) =>
+        (sample.latitude - latitude) ** 2 + (sample.longitude - longitude) ** 2 * scale <
+        (best.latitude - latitude) ** 2 + (best.longitude - longitude) ** 2 * scale
+          ? sample
+          : best
+      );
+      return {
+        landmark,
+        name: landmark.name || 'Charging station',
+        distance: closest.distance,
+        connectors: getStationConnectors(landmark),
+      };
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Pick charging stops for a route of the given length. Each stop is the farthest compatible
+ * station reachable above the reserve, where the battery is charged to the charge target.
+ */
+export function planChargingStops(
+  routeDistance: number,
+  stations: ChargingStation[],
+  profile: VehicleProfile
+): ChargingPlan {
+  const stops: ChargingStation[] = [];
+  let position = 0;
+  let charge = profile.stateOfCharge;
+
+  while (position + getRangeFrom(charge, profile) < routeDistance) {
+    const limit = position + getRangeFrom(charge, profile);
+    const reachable = stations.filter(
+      (station) =>
+        station.distance > position &&
+        station.distance <= limit &&
+        isStationCompatible(station, profile)
+    );
+    if (reachable.length === 0) return { feasible: false, stops, strandedAt: limit };
+
+    const next = reachable[reachable.length - 1];
+    charge = Math.max(
+      getChargeAfter(charge, next.distance - position, profile),
+      profile.chargeTarget
+    );
+    position = next.distance;
+    stops.push(next);
+  }
+  return { feasible: true, stops, strandedAt: null };
+}
+
+/**
+ * Battery levels along a route with one segment per leg. The battery is charged to the
+ * charge target at every intermediate waypoint.
+ */
+export function getEvLegs(route: Route, names: string[], profile: VehicleProfile): EvLeg[] {
+  let charge = profile.stateOfCharge;
+  return route.segments.map((segment, index) => {
+    const timeDistance = segment.timeDistance;
+    const distance = timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
+    if (index > 0) charge = Math.max(charge, profile.chargeTarget);
+    const departureCharge = charge;
+    charge = getChargeAfter(charge, distance, profile);
+    return {
+      from: names[index] ?? `Stop ${index + 1}`,
+      to: names[index + 1] ?? `Stop ${index + 2}`,
+      distance,
+      energy: getEnergy(distance, profile),
+      departureCharge,
+      arrivalCharge: charge,
+    };
+  });
+}
@@ -7,32 +7,89 @@ import {
   GemKit,
   GemMap,
   Landmark,
+  Route,
   RoutePreferences,
   RoutingService,
   GemError,
-  Route,
-  RouteRenderSettings,
-  RouteRenderOptions,
   RouteTransportMode,
+  Coordinates,
+  Marker,
+  MarkerCollection,
+  MarkerCollectionRenderSettings,
+  MarkerType,
+  Color,
+  RectangleGeographicArea,
 } from '@magiclane/maps-sdk';
-import { Range } from './range';
+import {
+  LatLng,
+  Range,
+  RangeBudgetType,
+  RangeMode,
+  RANGE_MODES,
+  BUDGET_UNITS,
+  formatBudget,
+  parseBudgets,
+  rangesToGeoJson,
+} from './range';
+import { calculateReachableRings } from './isochrone';
+import {
+  ConnectorType,
+  CONNECTOR_TYPES,
+  EvLeg,
+  VehicleProfile,
+  findChargingStations,
+  getChargeAfter,
+  getEvLegs,
+  loadVehicleProfile,
+  planChargingStops,
+  saveVehicleProfile,
+} from './ev';
 import {
   GEMKIT_TOKEN,
   ICONS,
   showMessage,
-  convertDuration,
+  formatCoordinates,
   convertDistance,
-  convertWh,
+  convertEnergy,
   ScreenPosition,
   initializeSDK,
   createMapView,
   EventListenerManager,
+  calculateRouteAsync,
+  RoutingError,
+  downloadFile,
 } from '../../shared';
 
+// Each budget is a separate ring, so keep the number small
+const MAX_BUDGETS = 5;
+// Opacity of one ring; overlapping rings of a mode get darker towards the center
+const RING_ALPHA = 70;
+
+const DEFAULT_BUDGETS: Record<RangeBudgetType, string> = {
+  time: '10, 20, 30',
+  distance: '5, 10, 20',
+  energy: '2, 5, 10',
+};
+
 let map: GemMap | null = null;
 let focusedLandmark: Landmark | null = null;
 let rangePanelDiv: HTMLDivElement | null = null;
-let routeRanges: Range[] = [];
+let rangeListDiv: HTMLDivElement | null = null;
+let ranges: Range[] = [];
+let nextRangeId = 1;
+// Transport modes whose ranges are not drawn
+const hiddenModes = new Set<RouteTransportMode>();
+let calculationController: AbortController | null = null;
+
+// EV trip planner
+let evPanelDiv: HTMLDivElement | null = null;
+let vehicleProfile: VehicleProfile = loadVehicleProfile();
+let evStart: { name: string; landmark: Landmark } | null = null;
+let evDestination: { name: string; landmark: Landmark } | null = null;
+let evController: AbortController | null = null;
+let evStatus = '';
+let evSummary = '';
+let evLegs: EvLeg[] = [];
 
 // Event listener manager for proper cleanup
 const events = new EventListenerManager();
@@ -72,6 +129,16 @@ window.addEventListener('DOMContentLoaded', async () => {
   rangePanelDiv.style.display = 'none';
   document.body.appendChild(rangePanelDiv);
 
+  // List of the calculated ranges (hidden until there is one)
+  rangeListDiv = document.createElement('div');
+  rangeListDiv.style.display = 'none';
+  document.body.appendChild(rangeListDiv);
+
+  // EV trip planner panel
+  evPanelDiv = document.createElement('div');
+  document.body.appendChild(evPanelDiv);
+  updateEvPanel();
+
   // Register cleanup on page unload
   events.add(window, 'beforeunload', () => {
     events.cleanup();
@@ -164,40 +231,8 @@ function showRangePanel() {
   header.appendChild(closeBtn);
   rangePanelDiv.appendChild(header);
 
-  // Range Slider Section
-  const rangeSection = document.createElement('div');
-  rangeSection.innerHTML = `
-    <div style="display: flex; justify-content: space-between; margin-bottom: 12px;">
-        <label style="font-weight: 600; color: #444; font-size: 14px;">Time Limit</label>
-        <span id="range-val-display" style="font-weight: 700; color: #2196f3; font-size: 14px;">${convertDuration(3600)}</span>
-    </div>
-  `;
-  const rangeInput = document.createElement('input');
-  rangeInput.type = 'range';
-  rangeInput.min = '60';
-  rangeInput.max = '10800';
-  rangeInput.value = '3600';
-  rangeInput.step = '60';
-  rangeInput.style.cssText = `
-    width: 100%; 
-    accent-color: #2196f3; 
-    height: 6px; 
-    border-radius: 3px;
-    cursor: pointer;
-    margin-bottom: 8px;
-  `;
-  rangeInput.oninput = () => {
-    const display = rangeSection.querySelector('#range-val-display');
-    if (display) display.textContent = convertDuration(Number(rangeInput.value));
-  };
-  rangeSection.appendChild(rangeInput);
-  rangePanelDiv.appendChild(rangeSection);
-
-  // Transport Mode
-  const transportSection = document.createElement('div');
-  transportSection.innerHTML = `<label style="font-weight: 600; color: #444; font-size: 14px; display: block; margin-bottom: 8px;">Transport Mode</label>`;
-  const transportSelect = document.createElement('select');
-  transportSelect.style.cssText = `
+  // Budget Section
+  const selectStyle = `
     width: 100%; 
     padding: 12px; 
     border-radius: 12px; 
@@ -214,17 +249,59 @@ function showRangePanel() {
     background-position: right 12px top 50%;
     background-size: 10px auto;
   `;
-  const modes = [
-    { label: 'Car', value: RouteTransportMode.car },
-    { label: 'Lorry', value: RouteTransportMode.lorry },
-    { label: 'Pedestrian', value: RouteTransportMode.pedestrian },
-    { label: 'Bicycle', value: RouteTransportMode.bicycle },
-    { label: 'Public Transit', value: RouteTransportMode.public },
-  ];
-  modes.forEach((m) => {
+  const budgetSection = document.createElement('div');
+  budgetSection.innerHTML = `
+    <div style="display: flex; justify-content: space-between; margin-bottom: 8px;">
+        <label style="font-weight: 600; color: #444; font-size: 14px;">Budgets</label>
+        <span id="budget-unit-display" style="font-weight: 700; color: #2196f3; font-size: 14px;">${BUDGET_UNITS.time.unit}</span>
+    </div>
+  `;
+  const budgetRow = document.createElement('div');
+  budgetRow.style.cssText = `display: grid; grid-template-columns: 120px 1fr; gap: 8px;`;
+  const budgetTypeSelect = document.createElement('select');
+  budgetTypeSelect.style.cssText = selectStyle;
+  (Object.keys(BUDGET_UNITS) as RangeBudgetType[]).forEach((budgetType) => {
     const opt = document.createElement('option');
-    opt.value = String(m.value);
-    opt.textContent = m.label;
+    opt.value = budgetType;
+    opt.textContent = BUDGET_UNITS[budgetType].label;
+    budgetTypeSelect.appendChild(opt);
+  });
+  const budgetInput = document.createElement('input');
+  budgetInput.type = 'text';
+  budgetInput.value = DEFAULT_BUDGETS.time;
+  budgetInput.placeholder = 'e.g. 10, 20, 30';
+  budgetInput.style.cssText = `
+    width: 100%; 
+    box-sizing: border-box;
+    padding: 12px; 
+    border-radius: 12px; 
+    border: 1px solid #e0e0e0; 
+    background: #f5f5f5; 
+    font-size: 14px; 
+    color: #333; 
+    outline: none;
+  `;
+  budgetTypeSelect.onchange = () => {
+    const budgetType = budgetTypeSelect.value as RangeBudgetType;
+    budgetInput.value = DEFAULT_BUDGETS[budgetType];
+    const display = budgetSection.querySelector('#budget-unit-display');
+    if (display) display.textContent = BUDGET_UNITS[budgetType].unit;
+  };
+  budgetRow.appendChild(budgetTypeSelect);
+  budgetRow.appendChild(budgetInput);
+  budgetSection.appendChild(budgetRow);
+  rangePanelDiv.appendChild(budgetSection);
+
+  // Transport Mode
+  const transportSection = document.createElement('div');
+  transportSection.innerHTML = `<label style="font-weight: 600; color: #444; font-size: 14px; display: block; margin-bottom: 8px;">Transport Mode</label>`;
+  const transportSelect = document.createElement('select');
+  transportSelect.style.cssText = selectStyle;
+  // Public transport is left out, what it reaches depends on the timetables
+  RANGE_MODES.forEach((mode, index) => {
+    const opt = document.createElement('option');
+    opt.value = String(index);
+    opt.textContent = mode.label;
     transportSelect.appendChild(opt);
   });
   transportSection.appendChild(transportSelect);
@@ -261,7 +338,7 @@ function showRangePanel() {
 
   // Calculate Button
   const calcBtn = document.createElement('button');
-  calcBtn.innerHTML = `${ICONS.calculate} Calculate Range`;
+  calcBtn.innerHTML = `${ICONS.polygon} Calculate Reachable Area`;
   calcBtn.style.cssText = `
     width: 100%; 
     padding: 14px; 
@@ -287,61 +364,578 @@ function showRangePanel() {
 
   calcBtn.onclick = () => {
     if (!map || !focusedLandmark) return;
+    if (calculationController) {
+      showMessage('A range is already being calculated.');
+      return;
+    }
     // Gather preferences from UI
-    const rangeValue = Number(rangeInput.value);
-    const transportMode = Number(transportSelect.value); // RouteTransportMode enum value
-    const avoidMotorways = motorways.input.checked;
-    const avoidTollRoads = tolls.input.checked;
-    const avoidFerries = ferries.input.checked;
-    const avoidUnpavedRoads = unpaved.input.checked;
-
-    // Build RoutePreferences
+    const mode = RANGE_MODES[Number(transportSelect.value)];
+    const budgetType = budgetTypeSelect.value as RangeBudgetType;
+    if (budgetType === 'energy' && !mode.energyBudgets) {
+      showMessage(`Energy budgets are not available for ${mode.label.toLowerCase()}.`);
+      return;
+    }
+    let budgets: number[];
+    try {
+      budgets = parseBudgets(budgetInput.value, budgetType);
+    } catch (error) {
+      showMessage((error as Error).message);
+      return;
+    }
+    if (budgets.length === 0 || budgets.length > MAX_BUDGETS) {
+      showMessage(`Enter between 1 and ${MAX_BUDGETS} budgets.`);
+      return;
+    }
+
+    // Build RoutePreferences, with one range per budget
     const routePreferences = new RoutePreferences({
-      avoidMotorways,
-      avoidTollRoads,
-      avoidFerries,
-      avoidUnpavedRoads,
-      transportMode,
-      routeRanges: [rangeValue],
+      avoidMotorways: motorways.input.checked,
+      avoidTollRoads: tolls.input.checked,
+      avoidFerries: ferries.input.checked,
+      avoidUnpavedRoads: unpaved.input.checked,
+      transportMode: mode.transportMode,
+      routeType: BUDGET_UNITS[budgetType].routeType,
+      routeRanges: budgets,
     });
 
-    showMessage('Calculating range...');
+    const center = {
+      latitude: focusedLandmark.coordinates.latitude,
+      longitude: focusedLandmark.coordinates.longitude,
+    };
+    const name = focusedLandmark.name || formatCoordinates(center.latitude, center.longitude, 4);
+
     rangePanelDiv!.style.display = 'none'; // Hide panel while calculating
+    map.deactivateAllHighlights();
+    focusedLandmark = null;
+    calculateRange(name, center, mode, budgetType, budgets, routePreferences);
+  };
+  rangePanelDiv.appendChild(calcBtn);
 
-    RoutingService.calculateRoute(
-      [focusedLandmark],
+  // Use the selected point in the EV trip planner
+  const evRow = document.createElement('div');
+  evRow.style.cssText = `display: grid; grid-template-columns: 1fr 1fr; gap: 8px;`;
+  const setEvEndpoint = (endpoint: 'start' | 'destination') => {
+    if (!focusedLandmark) return;
+    const { latitude, longitude } = focusedLandmark.coordinates;
+    const selected = {
+      name: focusedLandmark.name || formatCoordinates(latitude, longitude, 4),
+      landmark: focusedLandmark,
+    };
+    if (endpoint === 'start') evStart = selected;
+    else evDestination = selected;
+    clearEvTrip();
+    map?.deactivateAllHighlights();
+    rangePanelDiv!.style.display = 'none';
+    focusedLandmark = null;
+  };
+  evRow.appendChild(
+    createListButton(`${ICONS.play} EV start`, 'Start the EV trip here', () =>
+      setEvEndpoint('start')
+    )
+  );
+  evRow.appendChild(
+    createListButton(`${ICONS.pin} EV destination`, 'End the EV trip here', () =>
+      setEvEndpoint('destination')
+    )
+  );
+  rangePanelDiv.appendChild(evRow);
+}
+
+async function calculateRange(
+  name: string,
+  center: LatLng,
+  mode: RangeMode,
+  budgetType: RangeBudgetType,
+  budgets: number[],
+  routePreferences: RoutePreferences
+) {
+  const controller = new AbortController();
+  calculationController = controller;
+  updateRangeList();
+
+  try {
+    const rings = await calculateReachableRings(
+      center,
+      budgets,
       routePreferences,
-      (err: GemError, routes: Route[]) => {
-        if (err === GemError.success && routes.length > 0) {
-          // Color the range in a random color
-          const randomColor = `rgba(${Math.floor(Math.random() * 200)},${Math.floor(Math.random() * 200)},${Math.floor(Math.random() * 200)},0.5)`;
-          // Display the range on map
-          if (map) {
-            // Use RouteRenderSettings with options only (color not supported directly)
-            const routeRenderSettings = new RouteRenderSettings({
-              options: new Set([RouteRenderOptions.main]),
-            });
-            map.preferences.routes.add(routes[0], true, { routeRenderSettings });
-            // Center the camera on range
-            map.centerOnRoute(routes[0]);
-          }
-          // Add to local state
-          routeRanges.push({
-            route: routes[0],
-            color: randomColor,
-            transportMode,
-            value: convertDuration(rangeValue),
-            isEnabled: true,
-          });
-          showMessage('Range calculated successfully!');
-          map?.deactivateAllHighlights();
-          focusedLandmark = null;
-        } else {
-          showMessage('Range calculation failed.');
-          rangePanelDiv!.style.display = 'flex'; // Show panel again on error
-        }
-      }
+      controller.signal
+    );
+    if (rings.length === 0) {
+      showMessage('No reachable area found around this point.');
+      return;
+    }
+
+    const range: Range = { id: nextRangeId++, name, center, mode, budgetType, rings };
+    ranges.push(range);
+    hiddenModes.delete(mode.transportMode);
+    await renderRanges();
+    centerOnRange(range);
+    showMessage('Reachable area calculated successfully!');
+  } catch (error) {
+    if (error instanceof RoutingError && error.isCancelled) {
+      showMessage('Range calculation cancelled.');
+    } else {
+      showMessage(error instanceof RoutingError ? error.message : 'Range calculation failed.');
+    }
+  } finally {
+    calculationController = null;
+    updateRangeList();
+  }
+}
+
+function toCoordinates(point: LatLng): Coordinates {
+  return new Coordinates({ latitude: point.latitude, longitude: point.longitude });
+}
+
+// One polygon collection per transport mode, with a marker for every ring
+async function renderRanges() {
+  if (!map) return;
+  await map.preferences.markers.clear();
+
+  RANGE_MODES.forEach((mode) => {
+    const modeRanges = ranges.filter((range) => range.mode === mode);
+    if (modeRanges.length === 0 || hiddenModes.has(mode.transportMode)) return;
+
+    const collection = MarkerCollection.create(MarkerType.Polygon, `${mode.label} ranges`);
+    modeRanges.forEach((range) =>
+      range.rings.forEach((ring) => {
+        const marker = new Marker();
+        marker.setCoordinates(ring.coordinates.map(toCoordinates));
+        collection.add(marker);
+      })
+    );
+    const [red, green, blue] = mode.color;
+    map!.preferences.markers.add(collection, {
+      settings: new MarkerCollectionRenderSettings({
+        polygonFillColor: new Color(red, green, blue, RING_ALPHA),
+      }),
+    });
+  });
+}
+
+// Center the camera on the largest ring
+function centerOnRange(range: Range) {
+  const outline = range.rings[0].coordinates;
+  const latitudes = outline.map((p) => p.latitude);
+  const longitudes = outline.map((p) => p.longitude);
+  map?.centerOnArea(
+    new RectangleGeographicArea({
+      topLeft: toCoordinates({
+        latitude: Math.max(...latitudes),
+        longitude: Math.min(...longitudes),
+      }),
+      bottomRight: toCoordinates({
+        latitude: Math.min(...latitudes),
+        longitude: Math.max(...longitudes),
+      }),
+    })
+  );
+}
+
+function getModeColor(mode: RangeMode, alpha = 1): string {
+  return `rgba(${mode.color.join(',')},${alpha})`;
+}
+
+function createListButton(
+  html: string,
+  title: string,
+  onClick: (event: MouseEvent) => void
+): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.innerHTML = html;
+  button.title = title;
+  button.style.cssText = `
+    display: flex; align-items: center; justify-content: center; gap: 6px;
+    padding: 8px 12px; border: none; border-radius: 10px; cursor: pointer;
+    background: rgba(0,0,0,0.05); color: #333; font-size: 13px; font-weight: 600;
+  `;
+  button.onclick = onClick;
+  return button;
+}
+
+function updateRangeList() {
+  if (!rangeListDiv) return;
+  if (ranges.length === 0 && !calculationController) {
+    rangeListDiv.style.display = 'none';
+    return;
+  }
+
+  rangeListDiv.innerHTML = '';
+  rangeListDiv.style.cssText = `
+    position: fixed;
+    top: 20px;
+    left: 20px;
+    width: 300px;
+    max-height: calc(100vh - 40px);
+    overflow-y: auto;
+    background: rgba(255, 255, 255, 0.98);
+    border-radius: 16px;
+    box-shadow: 0 8px 30px rgba(0,0,0,0.15);
+    padding: 16px;
+    z-index: 1500;
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const title = document.createElement('div');
+  title.style.cssText = `font-size: 16px; font-weight: 700; color: #111;`;
+  title.textContent = 'Reachable Areas';
+  rangeListDiv.appendChild(title);
+
+  if (calculationController) {
+    const progressRow = document.createElement('div');
+    progressRow.style.cssText = `display: flex; align-items: center; justify-content: space-between; gap: 8px; font-size: 13px; color: #555;`;
+    progressRow.appendChild(document.createTextNode('Calculating reachable area...'));
+    progressRow.appendChild(
+      createListButton('Cancel', 'Cancel the calculation', () => calculationController?.abort())
+    );
+    rangeListDiv.appendChild(progressRow);
+  }
+
+  // Transport mode toggles
+  const modes = RANGE_MODES.filter((mode) => ranges.some((range) => range.mode === mode));
+  if (modes.length > 0) {
+    const toggles = document.createElement('div');
+    toggles.style.cssText = `display: flex; flex-wrap: wrap; gap: 8px;`;
+    modes.forEach((mode) => {
+      const visible = !hiddenModes.has(mode.transportMode);
+      const toggle = document.createElement('button');
+      toggle.textContent = mode.label;
+      toggle.title = visible ? `Hide ${mode.label} ranges` : `Show ${mode.label} ranges`;
+      toggle.style.cssText = `
+        padding: 6px 12px; border-radius: 16px; cursor: pointer; font-size: 12px; font-weight: 600;
+        border: 2px solid ${getModeColor(mode)};
+        background: ${visible ? getModeColor(mode) : 'white'};
+        color: ${visible ? 'white' : getModeColor(mode)};
+      `;
+      toggle.onclick = async () => {
+        if (visible) hiddenModes.add(mode.transportMode);
+        else hiddenModes.delete(mode.transportMode);
+        updateRangeList();
+        await renderRanges();
+      };
+      toggles.appendChild(toggle);
+    });
+    rangeListDiv.appendChild(toggles);
+  }
+
+  ranges.forEach((range) => {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex; align-items: center; gap: 10px; padding: 10px;
+      border-radius: 12px; background: #f7f7f7; cursor: pointer;
+      opacity: ${hiddenModes.has(range.mode.transportMode) ? 0.5 : 1};
+    `;
+    row.title = 'Center on this range';
+    row.onclick = () => centerOnRange(range);
+
+    const swatch = document.createElement('div');
+    swatch.style.cssText = `width: 14px; height: 14px; border-radius: 4px; flex-shrink: 0; background: ${getModeColor(range.mode, 0.6)};`;
+    row.appendChild(swatch);
+
+    const details = document.createElement('div');
+    details.style.cssText = `flex: 1; min-width: 0;`;
+    const budgets = range.rings
+      .map((ring) => formatBudget(range.budgetType, ring.budget))
+      .reverse()
+      .join(', ');
+    details.innerHTML = `
+      <div style="font-size: 13px; font-weight: 600; color: #222; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">${range.name}</div>
+      <div style="font-size: 12px; color: #666;">${range.mode.label} · ${budgets}</div>
+    `;
+    row.appendChild(details);
+
+    const removeBtn = createListButton(ICONS.trash, 'Remove this range', async (event) => {
+      event.stopPropagation(); // the row centers on the range
+      ranges = ranges.filter((other) => other.id !== range.id);
+      updateRangeList();
+      await renderRanges();
+    });
+    removeBtn.style.padding = '6px';
+    row.appendChild(removeBtn);
+    rangeListDiv!.appendChild(row);
+  });
+
+  if (ranges.length > 0) {
+    const actions = document.createElement('div');
+    actions.style.cssText = `display: grid; grid-template-columns: 1fr 1fr; gap: 8px;`;
+    actions.appendChild(
+      createListButton(`${ICONS.download} GeoJSON`, 'Export the shown ranges', exportRanges)
+    );
+    actions.appendChild(
+      createListButton(`${ICONS.trash} Clear`, 'Remove every range', async () => {
+        ranges = [];
+        updateRangeList();
+        await renderRanges();
+      })
     );
+    rangeListDiv.appendChild(actions);
+  }
+}
+
+// Export the ranges of the shown transport modes
+function exportRanges() {
+  const shown = ranges.filter((range) => !hiddenModes.has(range.mode.transportMode));
+  if (shown.length === 0) {
+    showMessage('No ranges shown to export.');
+    return;
+  }
+  downloadFile(rangesToGeoJson(shown), 'ranges.geojson', 'application/geo+json');
+}
+
+function clearEvTrip() {
+  evController?.abort();
+  evSummary = '';
+  evLegs = [];
+  map?.preferences.routes.clear();
+  updateEvPanel();
+}
+
+function getRouteDistance(route: Route): number {
+  const timeDistance = route.getTimeDistance();
+  return timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
+}
+
+// Route the trip, and add charging stops when the current charge is not enough
+async function planEvTrip() {
+  if (!map || !evStart || !evDestination) return;
+  const start = evStart;
+  const destination = evDestination;
+  const profile = vehicleProfile;
+  const preferences = new RoutePreferences({ transportMode: RouteTransportMode.car });
+
+  evController?.abort();
+  const controller = new AbortController();
+  evController = controller;
+  evSummary = '';
+  evLegs = [];
+  evStatus = 'Calculating route...';
+  updateEvPanel();
+
+  try {
+    const [directRoute]: Route[] = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [start.landmark, destination.landmark],
+      preferences,
+      { signal: controller.signal }
+    );
+    const distance = getRouteDistance(directRoute);
+    let route = directRoute;
+    let names = [start.name, destination.name];
+
+    if (getChargeAfter(profile.stateOfCharge, distance, profile) >= profile.reserve) {
+      evSummary = 'Reachable on the current charge.';
+    } else {
+      evStatus = 'Searching charging stations...';
+      updateEvPanel();
+      const stations = await findChargingStations(directRoute);
+      if (controller.signal.aborted) return;
+
+      const plan = planChargingStops(distance, stations, profile);
+      if (plan.stops.length > 0) {
+        evStatus = 'Adding charging stops...';
+        updateEvPanel();
+        [route] = await calculateRouteAsync(
+          { RoutingService, GemError },
+          [start.landmark, ...plan.stops.map((stop) => stop.landmark), destination.landmark],
+          preferences,
+          { signal: controller.signal }
+        );
+        names = [start.name, ...plan.stops.map((stop) => stop.name), destination.name];
+      }
+      const stopCount = `${plan.stops.length} charging stop${plan.stops.length === 1 ? '' : 's'}`;
+      const unknownConnectors = plan.stops.filter((stop) => stop.connectors === null).length;
+      evSummary = plan.feasible
+        ? `Needs ${stopCount}.`
+        : `Not reachable: no compatible charging station found before ${convertDistance(plan.strandedAt!)}${plan.stops.length > 0 ? ` (after ${stopCount})` : ''}.`;
+      if (unknownConnectors > 0) {
+        evSummary += ` ${unknownConnectors} of ${plan.stops.length} stops do not list their connectors, check them before leaving.`;
+      }
+    }
+
+    evLegs = getEvLegs(route, names, profile);
+    map.preferences.routes.clear();
+    map.preferences.routes.add(route, true);
+    map.centerOnRoute(route);
+  } catch (error) {
+    if (!(error instanceof RoutingError && error.isCancelled)) {
+      showMessage(error instanceof RoutingError ? error.message : 'EV trip planning failed.');
+    }
+  } finally {
+    if (evController === controller) {
+      evController = null;
+      evStatus = '';
+      updateEvPanel();
+    }
+  }
+}
+
+function createProfileInput(
+  label: string,
+  value: number,
+  onChange: (value: number) => void
+): HTMLLabelElement {
+  const wrapper = document.createElement('label');
+  wrapper.style.cssText = `display: flex; flex-direction: column; gap: 4px; font-size: 12px; color: #555;`;
+  wrapper.textContent = label;
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.min = '0';
+  input.value = String(value);
+  input.style.cssText = `
+    padding: 8px; border-radius: 8px; border: 1px solid #e0e0e0;
+    background: #f5f5f5; font-size: 13px; color: #333; outline: none;
+  `;
+  input.onchange = () => {
+    const parsed = Number(input.value);
+    if (parsed > 0) onChange(parsed);
+    else input.value = String(value);
   };
-  rangePanelDiv.appendChild(calcBtn);
+  wrapper.appendChild(input);
+  return wrapper;
+}
+
+// A profile change makes the current plan outdated
+function updateVehicleProfile(changes: Partial<VehicleProfile>) {
+  vehicleProfile = { ...vehicleProfile, ...changes };
+  saveVehicleProfile(vehicleProfile);
+  clearEvTrip();
+}
+
+function getChargeColor(charge: number): string {
+  if (charge < 0) return '#d32f2f';
+  return charge < vehicleProfile.reserve ? '#f57c00' : '#388e3c';
+}
+
+function updateEvPanel() {
+  if (!evPanelDiv) return;
+  evPanelDiv.innerHTML = '';
+  evPanelDiv.style.cssText = `
+    position: fixed;
+    top: 20px;
+    right: 20px;
+    width: 300px;
+    max-height: calc(100vh - 40px);
+    overflow-y: auto;
+    background: rgba(255, 255, 255, 0.98);
+    border-radius: 16px;
+    box-shadow: 0 8px 30px rgba(0,0,0,0.15);
+    padding: 16px;
+    z-index: 1500;
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  `;
+
+  const title = document.createElement('div');
+  title.style.cssText = `font-size: 16px; font-weight: 700; color: #111;`;
+  title.textContent = 'EV Trip Planner';
+  evPanelDiv.appendChild(title);
+
+  // Vehicle profile
+  const profileGrid = document.createElement('div');
+  profileGrid.style.cssText = `display: grid; grid-template-columns: 1fr 1fr; gap: 8px;`;
+  profileGrid.appendChild(
+    createProfileInput('Battery (kWh)', vehicleProfile.batteryCapacity / 1000, (value) =>
+      updateVehicleProfile({ batteryCapacity: value * 1000 })
+    )
+  );
+  profileGrid.appendChild(
+    createProfileInput('Charge (%)', vehicleProfile.stateOfCharge, (value) =>
+      updateVehicleProfile({ stateOfCharge: Math.min(value, 100) })
+    )
+  );
+  profileGrid.appendChild(
+    createProfileInput('Consumption (Wh/km)', vehicleProfile.consumption, (value) =>
+      updateVehicleProfile({ consumption: value })
+    )
+  );
+  profileGrid.appendChild(
+    createProfileInput('Reserve (%)', vehicleProfile.reserve, (value) =>
+      updateVehicleProfile({ reserve: Math.min(value, 100) })
+    )
+  );
+  profileGrid.appendChild(
+    createProfileInput('Charge to (%)', vehicleProfile.chargeTarget, (value) =>
+      updateVehicleProfile({ chargeTarget: Math.min(value, 100) })
+    )
+  );
+  evPanelDiv.appendChild(profileGrid);
+
+  const connectors = document.createElement('div');
+  connectors.style.cssText = `display: flex; flex-wrap: wrap; gap: 8px 12px; font-size: 12px; color: #555;`;
+  (Object.keys(CONNECTOR_TYPES) as ConnectorType[]).forEach((connector) => {
+    const wrapper = document.createElement('label');
+    wrapper.style.cssText = `display: flex; align-items: center; gap: 4px; cursor: pointer;`;
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.checked = vehicleProfile.connectors.includes(connector);
+    input.style.accentColor = '#2196f3';
+    input.onchange = () =>
+      updateVehicleProfile({
+        connectors: input.checked
+          ? [...vehicleProfile.connectors, connector]
+          : vehicleProfile.connectors.filter((other) => other !== connector),
+      });
+    wrapper.appendChild(input);
+    wrapper.appendChild(document.createTextNode(CONNECTOR_TYPES[connector].label));
+    connectors.appendChild(wrapper);
+  });
+  evPanelDiv.appendChild(connectors);
+
+  const connectorsNote = document.createElement('div');
+  connectorsNote.style.cssText = `font-size: 11px; color: #888;`;
+  connectorsNote.textContent =
+    'Connectors are read from the station names. Most stations do not name them and are treated as compatible.';
+  evPanelDiv.appendChild(connectorsNote);
+
+  // Trip
+  const trip = document.createElement('div');
+  trip.style.cssText = `font-size: 13px; color: #333; display: flex; flex-direction: column; gap: 4px;`;
+  trip.innerHTML = `
+    <div><b>From:</b> ${evStart ? evStart.name : '<span style="color: #999;">tap a point and pick EV start</span>'}</div>
+    <div><b>To:</b> ${evDestination ? evDestination.name : '<span style="color: #999;">tap a point and pick EV destination</span>'}</div>
+  `;
+  evPanelDiv.appendChild(trip);
+
+  const planBtn = createListButton(
+    evController ? 'Cancel' : `${ICONS.route} Plan EV trip`,
+    evController ? 'Cancel the planning' : 'Plan the trip with charging stops',
+    () => (evController ? clearEvTrip() : planEvTrip())
+  );
+  if (!evController && (!evStart || !evDestination)) {
+    planBtn.disabled = true;
+    planBtn.style.opacity = '0.5';
+    planBtn.style.cursor = 'default';
+  }
+  evPanelDiv.appendChild(planBtn);
+
+  if (evStatus) {
+    const status = document.createElement('div');
+    status.style.cssText = `font-size: 13px; color: #555;`;
+    status.textContent = evStatus;
+    evPanelDiv.appendChild(status);
+  }
+
+  if (evSummary) {
+    const summary = document.createElement('div');
+    summary.style.cssText = `font-size: 13px; font-weight: 600; color: #222;`;
+    summary.textContent = evSummary;
+    evPanelDiv.appendChild(summary);
+  }
+
+  // Battery level per leg
+  evLegs.forEach((leg) => {
+    const row = document.createElement('div');
+    row.style.cssText = `padding: 10px; border-radius: 12px; background: #f7f7f7; font-size: 12px; color: #555;`;
+    row.innerHTML = `
+      <div style="font-size: 13px; font-weight: 600; color: #222;">${leg.from} → ${leg.to}</div>
+      <div>${convertDistance(leg.distance)} · ${convertEnergy(leg.energy)}</div>
+      <div>${Math.round(leg.departureCharge)} % → <span style="font-weight: 700; color: ${getChargeColor(leg.arrivalCharge)};">${Math.round(leg.arrivalCharge)} %</span> on arrival</div>
+    `;
+    evPanelDiv!.appendChild(row);
+  });
 }
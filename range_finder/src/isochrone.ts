@@ -0,0 +1,51 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Landmark, Route, RoutePreferences, RoutingService, GemError } from '@magiclane/maps-sdk';
+import { calculateRouteAsync } from '../../shared';
+import { LatLng, RangeRing } from './range';
+
+// A ring needs at least this many points to be drawn
+const MIN_RING_POINTS = 3;
+
+function getRouteLength(route: Route): number {
+  const timeDistance = route.getTimeDistance();
+  return timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
+}
+
+// A range is returned as a route whose shape is the outline of the reachable area
+function getRangeOutline(route: Route): LatLng[] {
+  const path = route.getPath(0, Math.ceil(getRouteLength(route)));
+  return (path?.coordinates ?? []).map(({ latitude, longitude }: LatLng) => ({
+    latitude,
+    longitude,
+  }));
+}
+
+/**
+ * Calculate the area reachable from the center within each budget. The preferences carry
+ * the budgets as `routeRanges`, in seconds, meters or Wh depending on their route type,
+ * and the routing engine returns one range for each of them.
+ */
+export async function calculateReachableRings(
+  center: LatLng,
+  budgets: number[],
+  preferences: RoutePreferences,
+  signal: AbortSignal
+): Promise<RangeRing[]> {
+  const routes: Route[] = await calculateRouteAsync(
+    { RoutingService, GemError },
+    [Landmark.withLatLng(center)],
+    preferences,
+    { signal }
+  );
+
+  // One range per budget, in the order of the budgets
+  return routes
+    .slice(0, budgets.length)
+    .map((route, index) => ({ budget: budgets[index], coordinates: getRangeOutline(route) }))
+    .filter((ring) => ring.coordinates.length >= MIN_RING_POINTS)
+    .reverse();
+}
@@ -3,12 +3,119 @@
 //
 // Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
 
-import { Route, RouteTransportMode } from '@magiclane/maps-sdk';
+import { RouteTransportMode, RouteType } from '@magiclane/maps-sdk';
+import { convertDistance, convertDuration, convertEnergy } from '../../shared';
 
-export interface Range {
-  route: Route;
-  color: string; // Use CSS color string (e.g., rgba or hex)
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export type RangeBudgetType = 'time' | 'distance' | 'energy';
+
+export interface RangeMode {
+  label: string;
   transportMode: RouteTransportMode;
-  value: string;
-  isEnabled: boolean;
+  color: [number, number, number];
+  energyBudgets?: boolean; // whether energy ranges can be calculated for the mode
+}
+
+export const RANGE_MODES: RangeMode[] = [
+  {
+    label: 'Car',
+    transportMode: RouteTransportMode.car,
+    color: [33, 150, 243],
+    energyBudgets: true,
+  },
+  {
+    label: 'Lorry',
+    transportMode: RouteTransportMode.lorry,
+    color: [255, 152, 0],
+    energyBudgets: true,
+  },
+  {
+    label: 'Pedestrian',
+    transportMode: RouteTransportMode.pedestrian,
+    color: [76, 175, 80],
+  },
+  {
+    label: 'Bicycle',
+    transportMode: RouteTransportMode.bicycle,
+    color: [156, 39, 176],
+  },
+];
+
+// Budgets are entered in these units and stored in s, m and Wh, the units of the
+// route ranges calculated with the matching route type
+export const BUDGET_UNITS: Record<
+  RangeBudgetType,
+  { label: string; unit: string; factor: number; routeType: RouteType }
+> = {
+  time: { label: 'Time', unit: 'min', factor: 60, routeType: RouteType.fastest },
+  distance: { label: 'Distance', unit: 'km', factor: 1000, routeType: RouteType.shortest },
+  energy: { label: 'Energy', unit: 'kWh', factor: 1000, routeType: RouteType.economic },
+};
+
+// Outline of the area reachable within one budget
+export interface RangeRing {
+  budget: number; // s, m or Wh depending on the budget type
+  coordinates: LatLng[];
+}
+
+// Reachable areas around one center for one transport mode
+export interface Range {
+  id: number;
+  name: string;
+  center: LatLng;
+  mode: RangeMode;
+  budgetType: RangeBudgetType;
+  rings: RangeRing[]; // largest budget first, so the smaller rings are drawn on top
+}
+
+export function formatBudget(budgetType: RangeBudgetType, budget: number): string {
+  switch (budgetType) {
+    case 'time':
+      return convertDuration(budget);
+    case 'distance':
+      return convertDistance(budget);
+    case 'energy':
+      return convertEnergy(budget);
+  }
+}
+
+// Budgets from a comma separated list in the input units, smallest first
+export function parseBudgets(text: string, budgetType: RangeBudgetType): number[] {
+  const values = text
+    .split(/[,;\s]+/)
+    .filter(Boolean)
+    .map((value) => Number(value) * BUDGET_UNITS[budgetType].factor);
+  if (values.some((value) => !(value > 0))) throw new Error('Budgets must be positive numbers.');
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+function toPosition(point: LatLng): [number, number] {
+  return [point.longitude, point.latitude];
+}
+
+// One polygon feature per ring; GeoJSON rings are closed, the first position is repeated
+export function rangesToGeoJson(ranges: Range[]): string {
+  const features = ranges.flatMap((range) =>
+    range.rings.map((ring) => {
+      const positions = ring.coordinates.map(toPosition);
+      positions.push(positions[0]);
+      return {
+        type: 'Feature',
+        properties: {
+          name: range.name,
+          transportMode: range.mode.label,
+          budgetType: range.budgetType,
+          budget: ring.budget,
+          value: formatBudget(range.budgetType, ring.budget),
+          center: toPosition(range.center),
+        },
+        geometry: { type: 'Polygon', coordinates: [positions] },
+      };
+    })
+  );
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
 }
@@ -24,7 +24,14 @@ import {
   NavigationInstruction,
   NavigationEventType,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, styleButton } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  styleButton,
+  calculateRouteAsync,
+  RoutingError,
+} from '../../shared';
 
 // Custom warning icon with red fill for hazard indication
 const WARNING_ICON_RED = `<svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width="24" fill="#f44336"><path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z"/></svg>`;
@@ -48,7 +55,7 @@ let areRoutesBuilt = false;
 let isSimulationActive = false;
 
 // Route calculation and navigation handlers
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let navigationHandler: TaskHandler | null = null;
 let alarmService: AlarmService | null = null;
 let alarmListener: AlarmListener | null = null;
@@ -109,7 +116,7 @@ function updateBottomAlarmPanel() {
 }
 
 function updateUI() {
-  buildRouteBtn.style.display = !routingHandler && !areRoutesBuilt ? 'flex' : 'none';
+  buildRouteBtn.style.display = !routingController && !areRoutesBuilt ? 'flex' : 'none';
   playBtn.style.display = !isSimulationActive && areRoutesBuilt ? 'flex' : 'none';
   stopBtn.style.display = isSimulationActive ? 'flex' : 'none';
 
@@ -214,30 +221,30 @@ window.addEventListener('DOMContentLoaded', async () => {
 async function onBuildRouteButtonPressed() {
   showMessage('Calculating route with reports...');
 
+  routingController = new AbortController();
+  updateUI();
+
   try {
-    const route = await getRouteWithReport();
+    const route = await getRouteWithReport(routingController.signal);
 
-    if (route) {
-      showMessage('Route calculated!');
-      const routesMap = map?.preferences.routes;
-      const routeRenderSettings = new RouteRenderSettings({
-        options: new Set([RouteRenderOptions.showTraffic, RouteRenderOptions.showHighlights]),
-      });
+    showMessage('Route calculated!');
+    const routesMap = map?.preferences.routes;
+    const routeRenderSettings = new RouteRenderSettings({
+      options: new Set([RouteRenderOptions.showTraffic, RouteRenderOptions.showHighlights]),
+    });
 
-      routesMap?.add(route, true, {
-        routeRenderSettings: routeRenderSettings,
-      });
-      map?.centerOnRoute(route);
-    } else {
-      showMessage('Route calculation failed.');
-    }
+    routesMap?.add(route, true, {
+      routeRenderSettings: routeRenderSettings,
+    });
+    map?.centerOnRoute(route);
+    areRoutesBuilt = true;
   } catch (error) {
     console.error('Error in onBuildRouteButtonPressed:', error);
-    showMessage('Error computing route.');
+    showMessage(error instanceof RoutingError ? error.message : 'Error computing route.');
+  } finally {
+    routingController = null;
+    updateUI();
   }
-
-  areRoutesBuilt = true;
-  updateUI();
 }
 
 function startSimulation() {
@@ -302,10 +309,7 @@ function startSimulation() {
 
 function cancelRoute() {
   map?.preferences.routes.clear();
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  routingController?.abort();
   areRoutesBuilt = false;
   updateUI();
 }
@@ -355,7 +359,7 @@ async function getReportFromMap(): Promise<Landmark | null> {
 }
 
 // Route Calculation Logic
-async function getRouteWithReport(): Promise<Route | null> {
+async function getRouteWithReport(signal: AbortSignal): Promise<Route> {
   const initialStart = Landmark.withCoordinates(
     Coordinates.fromLatLong(51.48345483353617, 6.851883736746337)
   );
@@ -371,11 +375,10 @@ async function getRouteWithReport(): Promise<Route | null> {
       Coordinates.fromLatLong(51.48345483353617, 6.851883736746337)
     );
     const end = Landmark.withCoordinates(Coordinates.fromLatLong(50.1109221, 8.6821267));
-    return await calculateRoute([start, end]);
+    return await calculateRoute([start, end], signal);
   }
 
-  const initialRoute = await calculateRoute([initialStart, report, initialEnd]);
-  if (!initialRoute) return null;
+  const initialRoute = await calculateRoute([initialStart, report, initialEnd], signal);
 
   const reportDistanceInInitialRoute = initialRoute.getDistanceOnRoute(report.coordinates, true);
   const newStartCoords = initialRoute.getCoordinateOnRoute(reportDistanceInInitialRoute - 600);
@@ -384,27 +387,17 @@ async function getRouteWithReport(): Promise<Route | null> {
   const newStart = Landmark.withCoordinates(newStartCoords);
   const newEnd = Landmark.withCoordinates(newEndCoords);
 
-  return await calculateRoute([newStart, report, newEnd, report, newStart]);
+  return await calculateRoute([newStart, report, newEnd, report, newStart], signal);
 }
 
-async function calculateRoute(waypoints: Landmark[]): Promise<Route | null> {
-  return new Promise((resolve) => {
-    try {
-      RoutingService.calculateRoute(
-        waypoints,
-        new RoutePreferences({}),
-        (err: GemError, routes: Route[]) => {
-          if (err === GemError.success && routes && routes.length > 0) {
-            resolve(routes[0]);
-          } else {
-            resolve(null);
-          }
-        }
-      );
-    } catch (error) {
-      resolve(null);
-    }
-  });
+async function calculateRoute(waypoints: Landmark[], signal: AbortSignal): Promise<Route> {
+  const routes = await calculateRouteAsync(
+    { RoutingService, GemError },
+    waypoints,
+    new RoutePreferences({}),
+    { signal }
+  );
+  return routes[0];
 }
 
 // Modern Floating Recenter Button
@@ -16,7 +16,6 @@ import {
   Coordinates,
   RouteRenderSettings,
   RouteRenderOptions,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
 import {
   GEMKIT_TOKEN,
@@ -36,12 +35,25 @@ import {
   initializeSDK,
   createMapView,
   EventListenerManager,
+  calculateRouteAsync,
+  RoutingError,
+  downloadFile,
 } from '../../shared';
+import {
+  createItinerary,
+  itineraryToJson,
+  itineraryToGpx,
+  itineraryToHtml,
+  printItinerary,
+} from './itinerary';
+
+const ROUTE_NAME = 'Frankfurt to Munich via Karlsruhe';
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let areRoutesBuilt = false;
 let instructions: RouteInstruction[] = [];
+let mainRoute: Route | null = null;
 
 // Event listener manager for proper cleanup
 const events = new EventListenerManager();
@@ -115,45 +127,46 @@ async function onBuildRouteButtonPressed() {
     const routePreferences = new RoutePreferences({});
 
     console.log('Calculating route...');
-    const routes = await calculateRoute(
+    routingController = new AbortController();
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
       [departureLandmark, intermediaryPointLandmark, destinationLandmark],
-      routePreferences
+      routePreferences,
+      { signal: routingController.signal }
     );
 
-    if (routes && routes.length > 0) {
-      console.log('Route calculated successfully');
-      showMessage('Route calculated successfully!');
-
-      // Get the routes collection from map preferences
-      const routesMap = map?.preferences.routes;
-
-      // Display the routes on map
-      for (const route of routes) {
-        const isMainRoute = route === routes[0];
-        const renderSettings = new RouteRenderSettings({
-          options: new Set([RouteRenderOptions.showTraffic, RouteRenderOptions.showHighlights]),
-        });
-        routesMap?.add(route, isMainRoute, {
-          routeRenderSettings: renderSettings,
-        });
-      }
-
-      // Center the camera on routes
-      map?.centerOnRoutes({ routes: routes });
-
-      // Get the segments of the main route
-      instructions = getInstructionsFromSegments(routes[0].segments);
-      areRoutesBuilt = true;
-      updateUI();
-
-      console.log('Route instructions extracted:', instructions.length);
-    } else {
-      console.log('Route calculation failed');
-      showMessage('Route calculation failed.');
+    console.log('Route calculated successfully');
+    showMessage('Route calculated successfully!');
+
+    // Get the routes collection from map preferences
+    const routesMap = map?.preferences.routes;
+
+    // Display the routes on map
+    for (const route of routes) {
+      const isMainRoute = route === routes[0];
+      const renderSettings = new RouteRenderSettings({
+        options: new Set([RouteRenderOptions.showTraffic, RouteRenderOptions.showHighlights]),
+      });
+      routesMap?.add(route, isMainRoute, {
+        routeRenderSettings: renderSettings,
+      });
     }
+
+    // Center the camera on routes
+    map?.centerOnRoutes({ routes: routes });
+
+    // Get the segments of the main route
+    mainRoute = routes[0];
+    instructions = getInstructionsFromSegments(routes[0].segments);
+    areRoutesBuilt = true;
+
+    console.log('Route instructions extracted:', instructions.length);
   } catch (error) {
     console.error('Error in onBuildRouteButtonPressed:', error);
-    showMessage('Route calculation error.');
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation error.');
+  } finally {
+    routingController = null;
+    updateUI();
   }
 }
 
@@ -164,14 +177,12 @@ function onRouteCancelButtonPressed() {
   // Remove the routes from map
   map?.preferences.routes.clear();
 
-  if (routingHandler) {
-    // Cancel the calculation of the route
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  // Cancel the calculation of the route
+  routingController?.abort();
 
   // Remove the instructions
   instructions = [];
+  mainRoute = null;
   areRoutesBuilt = false;
   updateUI();
 
@@ -197,49 +208,26 @@ function getInstructionsFromSegments(segments: RouteSegment[]): RouteInstruction
   return instructionsList;
 }
 
-// Calculate route with promise wrapper
-async function calculateRoute(
-  waypoints: Landmark[],
-  preferences: RoutePreferences
-): Promise<Route[] | null> {
-  return new Promise((resolve) => {
-    try {
-      console.log('Calling RoutingService.calculateRoute...');
-
-      // Add timeout to avoid hanging forever
-      const timeout = setTimeout(() => {
-        console.error('Route calculation timed out after 30 seconds');
-        resolve(null);
-      }, 30000);
-
-      routingHandler = RoutingService.calculateRoute(
-        waypoints,
-        preferences,
-        (err: GemError, routes: Route[]) => {
-          clearTimeout(timeout);
-          routingHandler = null;
-
-          console.log('Route calculation callback called:', {
-            err,
-            routesCount: routes?.length || 0,
-          });
-
-          if (err === GemError.success && routes && routes.length > 0) {
-            console.log('Route calculation successful');
-            resolve(routes);
-          } else {
-            console.error('Route calculation failed:', err);
-            resolve(null);
-          }
-        }
-      );
-
-      console.log('RoutingService.calculateRoute called, waiting for callback...');
-    } catch (error) {
-      console.error('Error calling RoutingService.calculateRoute:', error);
-      resolve(null);
-    }
-  });
+// Export the instructions of the main route in the given format
+function onExportButtonPressed(format: 'json' | 'gpx' | 'html' | 'print') {
+  if (!mainRoute || instructions.length === 0) return;
+  const itinerary = createItinerary(ROUTE_NAME, mainRoute, instructions);
+  const fileName = 'route-instructions';
+
+  switch (format) {
+    case 'json':
+      downloadFile(itineraryToJson(itinerary), `${fileName}.json`, 'application/json');
+      break;
+    case 'gpx':
+      downloadFile(itineraryToGpx(itinerary), `${fileName}.gpx`, 'application/gpx+xml');
+      break;
+    case 'html':
+      downloadFile(itineraryToHtml(itinerary), `${fileName}.html`, 'text/html');
+      break;
+    case 'print':
+      printItinerary(itinerary);
+      break;
+  }
 }
 
 // Get formatted distance for route instruction
@@ -375,6 +363,47 @@ function showInstructionsModal() {
   }
 
   modalContent.appendChild(instructionsList);
+
+  // Create export actions
+  if (instructions.length > 0) {
+    const footer = document.createElement('div');
+    footer.style.cssText = `
+      padding: 16px 24px;
+      display: flex;
+      gap: 8px;
+      border-top: 1px solid rgba(0,0,0,0.05);
+    `;
+    const exportActions: Array<[string, 'json' | 'gpx' | 'html' | 'print']> = [
+      [`${ICONS.download} JSON`, 'json'],
+      [`${ICONS.download} GPX`, 'gpx'],
+      [`${ICONS.download} HTML`, 'html'],
+      ['Print', 'print'],
+    ];
+    exportActions.forEach(([label, format]) => {
+      const btn = document.createElement('button');
+      btn.innerHTML = label;
+      btn.style.cssText = `
+        flex: 1;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        gap: 4px;
+        padding: 10px 8px;
+        background: #fff;
+        color: #2196f3;
+        border: 1px solid #bbdefb;
+        border-radius: 10px;
+        font-size: 13px;
+        font-weight: 600;
+        cursor: pointer;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+      `;
+      btn.onclick = () => onExportButtonPressed(format);
+      footer.appendChild(btn);
+    });
+    modalContent.appendChild(footer);
+  }
+
   instructionsModal.appendChild(modalContent);
 }
 
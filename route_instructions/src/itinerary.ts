@@ -0,0 +1,171 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Route, RouteInstruction } from '@magiclane/maps-sdk';
+import { convertDistance, convertDuration, escapeXml } from '../../shared';
+
+// Plain copy of a RouteInstruction that can be exported
+export interface ItineraryStep {
+  step: number;
+  turnInstruction: string;
+  followRoadInstruction: string;
+  latitude: number;
+  longitude: number;
+  distance: number; // m, from the previous step
+  cumulativeDistance: number; // m, from the departure
+  cumulativeTime: number; // s, from the departure
+}
+
+export interface Itinerary {
+  name: string;
+  createdAt: number;
+  totalDistance: number; // m
+  totalTime: number; // s
+  steps: ItineraryStep[];
+}
+
+export function createItinerary(
+  name: string,
+  route: Route,
+  instructions: RouteInstruction[]
+): Itinerary {
+  const timeDistance = route.getTimeDistance();
+  let previousDistance = 0;
+
+  const steps = instructions.map((instruction, index) => {
+    // Traveled time and distance are counted from the departure
+    const traveled = instruction.traveledTimeDistance;
+    const cumulativeDistance = traveled.unrestrictedDistanceM + traveled.restrictedDistanceM;
+    const step: ItineraryStep = {
+      step: index + 1,
+      turnInstruction: instruction.turnInstruction || 'Continue',
+      followRoadInstruction: instruction.followRoadInstruction || '',
+      latitude: instruction.coordinates.latitude,
+      longitude: instruction.coordinates.longitude,
+      distance: Math.max(0, cumulativeDistance - previousDistance),
+      cumulativeDistance,
+      cumulativeTime: traveled.unrestrictedTimeS + traveled.restrictedTimeS,
+    };
+    previousDistance = cumulativeDistance;
+    return step;
+  });
+
+  return {
+    name,
+    createdAt: Date.now(),
+    totalDistance: timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM,
+    totalTime: timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS,
+    steps,
+  };
+}
+
+export function itineraryToJson(itinerary: Itinerary): string {
+  return JSON.stringify(
+    { ...itinerary, createdAt: new Date(itinerary.createdAt).toISOString() },
+    null,
+    2
+  );
+}
+
+// Turn points as waypoints, and the same points in order as a route
+export function itineraryToGpx(itinerary: Itinerary): string {
+  const point = (tag: string, step: ItineraryStep, indent: string) =>
+    `${indent}<${tag} lat="${step.latitude}" lon="${step.longitude}">
+${indent}  <name>${step.step}. ${escapeXml(step.turnInstruction)}</name>
+${indent}  <desc>${escapeXml(step.followRoadInstruction)}</desc>
+${indent}  <cmt>${convertDistance(step.cumulativeDistance)}, ${convertDuration(step.cumulativeTime)}</cmt>
+${indent}  <type>turn</type>
+${indent}</${tag}>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Maps SDK TypeScript examples" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(itinerary.name)}</name>
+    <time>${new Date(itinerary.createdAt).toISOString()}</time>
+  </metadata>
+${itinerary.steps.map((step) => point('wpt', step, '  ')).join('\n')}
+  <rte>
+    <name>${escapeXml(itinerary.name)}</name>
+${itinerary.steps.map((step) => point('rtept', step, '    ')).join('\n')}
+  </rte>
+</gpx>
+`;
+}
+
+// Standalone page meant to be printed or saved as PDF from the browser
+export function itineraryToHtml(itinerary: Itinerary): string {
+  const rows = itinerary.steps
+    .map(
+      (step) => `      <tr>
+        <td class="num">${step.step}</td>
+        <td>
+          <div class="turn">${escapeXml(step.turnInstruction)}</div>
+          <div class="road">${escapeXml(step.followRoadInstruction)}</div>
+        </td>
+        <td class="num">${convertDistance(step.distance)}</td>
+        <td class="num">${convertDistance(step.cumulativeDistance)}</td>
+        <td class="num">${convertDuration(step.cumulativeTime)}</td>
+      </tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeXml(itinerary.name)}</title>
+  <style>
+    @page { size: A4; margin: 15mm; }
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1a1a1a; font-size: 12pt; }
+    h1 { font-size: 18pt; margin: 0 0 4px; }
+    .summary { color: #555; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; font-size: 10pt; color: #555; border-bottom: 2px solid #333; padding: 6px 8px; }
+    td { border-bottom: 1px solid #ddd; padding: 6px 8px; vertical-align: top; }
+    tr { page-break-inside: avoid; }
+    .num { text-align: right; white-space: nowrap; }
+    .turn { font-weight: 600; }
+    .road { color: #666; font-size: 10pt; }
+  </style>
+</head>
+<body>
+  <h1>${escapeXml(itinerary.name)}</h1>
+  <div class="summary">
+    ${convertDistance(itinerary.totalDistance)} &middot; ${convertDuration(itinerary.totalTime)} &middot;
+    ${itinerary.steps.length} instructions &middot; ${new Date(itinerary.createdAt).toLocaleString()}
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th class="num">#</th>
+        <th>Instruction</th>
+        <th class="num">Distance</th>
+        <th class="num">Total</th>
+        <th class="num">Time</th>
+      </tr>
+    </thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+// Print the itinerary page from a hidden frame, without leaving the map
+export function printItinerary(itinerary: Itinerary) {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0;';
+  document.body.appendChild(frame);
+
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // The print dialog blocks until it is closed
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = itineraryToHtml(itinerary);
+}
@@ -0,0 +1,105 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Route } from '@magiclane/maps-sdk';
+import { escapeXml } from '../../shared';
+
+// Type for elevation sample
+export interface ElevationSample {
+  distance: number;
+  elevation: number;
+}
+
+export interface ElevationStats {
+  distance: number; // m
+  ascent: number; // m
+  descent: number; // m
+  maxGradient: number; // percent, steepest climb or descent
+  effort: number; // effort km
+}
+
+// Every 100 m of ascent takes about as much effort as 1 km on the flat
+const ASCENT_PER_EFFORT_KM = 100;
+
+// Gradients are measured over at least this distance, so single samples don't spike
+const MIN_GRADIENT_DISTANCE = 100;
+
+export function getElevationSamples(route: Route): ElevationSample[] {
+  const totalDistance =
+    route.getTimeDistance().unrestrictedDistanceM + route.getTimeDistance().restrictedDistanceM;
+  let count = Math.min(Math.ceil(totalDistance / 50), 200);
+  count = Math.max(count, 2);
+
+  try {
+    const raw = route.terrainProfile!.getElevationSamples(count, 0, totalDistance);
+    const result: ElevationSample[] = [];
+    let d = 0;
+    for (let i = 0; i < raw.first.length; i++) {
+      result.push({ distance: d, elevation: raw.first[i] });
+      d += raw.second;
+    }
+    return result;
+  } catch (e) {
+    return [];
+  }
+}
+
+export function getElevationStats(samples: ElevationSample[]): ElevationStats {
+  let ascent = 0;
+  let descent = 0;
+  let maxGradient = 0;
+
+  for (let i = 1; i < samples.length; i++) {
+    const delta = samples[i].elevation - samples[i - 1].elevation;
+    if (delta > 0) ascent += delta;
+    else descent -= delta;
+
+    // Look back far enough to cover the minimum gradient distance
+    let j = i - 1;
+    while (j > 0 && samples[i].distance - samples[j].distance < MIN_GRADIENT_DISTANCE) j--;
+    const run = samples[i].distance - samples[j].distance;
+    if (run > 0) {
+      const gradient = ((samples[i].elevation - samples[j].elevation) / run) * 100;
+      if (Math.abs(gradient) > Math.abs(maxGradient)) maxGradient = gradient;
+    }
+  }
+
+  const distance = samples.length > 0 ? samples[samples.length - 1].distance : 0;
+  return {
+    distance,
+    ascent,
+    descent,
+    maxGradient,
+    effort: distance / 1000 + ascent / ASCENT_PER_EFFORT_KM,
+  };
+}
+
+export function elevationToCsv(samples: ElevationSample[]): string {
+  const rows = samples.map((s) => `${Math.round(s.distance)},${s.elevation.toFixed(1)}`);
+  return ['distance_m,elevation_m', ...rows].join('\n') + '\n';
+}
+
+// Track of the sampled points along the route, each with its elevation
+export function elevationToGpx(route: Route, samples: ElevationSample[], name: string): string {
+  const points = samples
+    .map((s) => {
+      const coordinates = route.getCoordinateOnRoute(Math.floor(s.distance));
+      return `      <trkpt lat="${coordinates.latitude}" lon="${coordinates.longitude}">
+        <ele>${s.elevation.toFixed(1)}</ele>
+      </trkpt>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Maps SDK TypeScript examples" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <name>${escapeXml(name)}</name>
+    <trkseg>
+${points}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
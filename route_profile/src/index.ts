@@ -21,16 +21,8 @@ import {
   HighlightRenderSettings,
   HighlightOptions,
   RouteRenderSettings,
-  TaskHandler,
   Color, // Import Color for path styling
-  Path,
 } from '@magiclane/maps-sdk';
-
-// Type for elevation sample
-interface ElevationSample {
-  distance: number;
-  elevation: number;
-}
 import {
   GEMKIT_TOKEN,
   showMessage,
@@ -38,7 +30,26 @@ import {
   styleButton,
   convertDistance,
   convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+  downloadFile,
 } from '../../shared';
+import {
+  ElevationSample,
+  getElevationSamples,
+  getElevationStats,
+  elevationToCsv,
+  elevationToGpx,
+} from './elevation';
+import {
+  ProfileSection,
+  getSurfaceSections,
+  getRoadTypeSections,
+  getSteepnessSections,
+  getClimbSections,
+  getCategories,
+  findSectionAtDistance,
+} from './sections';
 
 // Custom chart icon for route profile header
 const CHART_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 0 24 24" width="20" fill="currentColor"><path d="M3.5 18.49l6-6.01 4 4L22 6.92l-1.41-1.41-7.09 7.97-4-4L2 16.99z"/></svg>`;
@@ -52,8 +63,12 @@ function hexToColor(hex: string): Color {
 }
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let focusedRoute: Route | null = null;
+let routeAlternatives: Route[] = [];
+
+// Colors of the alternatives in the elevation comparison, in route order
+const ALTERNATIVE_COLORS = ['#673AB7', '#FF9800', '#009688', '#E91E63', '#3F51B5'];
 
 // UI Elements
 let buildRouteBtn: HTMLButtonElement;
@@ -66,9 +81,9 @@ function updateUI() {
   cancelRouteBtn.style.display = 'none';
   clearRoutesBtn.style.display = 'none';
 
-  if (!routingHandler && !focusedRoute) {
+  if (!routingController && !focusedRoute) {
     buildRouteBtn.style.display = 'flex';
-  } else if (routingHandler) {
+  } else if (routingController) {
     cancelRouteBtn.style.display = 'flex';
   } else if (focusedRoute) {
     clearRoutesBtn.style.display = 'flex';
@@ -104,37 +119,44 @@ async function onBuildRouteButtonPressed() {
       transportMode: RouteTransportMode.pedestrian,
     });
 
-    const routes = await calculateRoute([departureLandmark, destinationLandmark], routePreferences);
+    routingController = new AbortController();
+    updateUI();
 
-    if (routes && routes.length > 0) {
-      showMessage('Route calculated successfully!');
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
 
-      const routesMap = map?.preferences.routes;
+    showMessage('Route calculated successfully!');
 
-      for (const route of routes) {
-        const routeRenderSettings = new RouteRenderSettings({
-          options: new Set([RouteRenderOptions.showTraffic, RouteRenderOptions.showHighlights]),
-        });
-        const isMainRoute = route === routes[0];
-        routesMap?.add(route, isMainRoute, {
-          routeRenderSettings: routeRenderSettings,
-        });
-      }
+    const routesMap = map?.preferences.routes;
 
-      if (routesMap) {
-        routesMap.mainRoute = routes[0];
-      }
+    for (const route of routes) {
+      const routeRenderSettings = new RouteRenderSettings({
+        options: new Set([RouteRenderOptions.showTraffic, RouteRenderOptions.showHighlights]),
+      });
+      const isMainRoute = route === routes[0];
+      routesMap?.add(route, isMainRoute, {
+        routeRenderSettings: routeRenderSettings,
+      });
+    }
 
-      focusedRoute = routes[0];
-      centerOnRoute([focusedRoute]);
-      createRouteProfilePanel(focusedRoute);
-      updateUI();
-    } else {
-      showMessage('Route calculation failed.');
+    if (routesMap) {
+      routesMap.mainRoute = routes[0];
     }
+
+    routeAlternatives = routes;
+    focusedRoute = routes[0];
+    centerOnRoute([focusedRoute]);
+    createRouteProfilePanel(focusedRoute);
   } catch (error) {
     console.error('Error in onBuildRouteButtonPressed:', error);
-    showMessage('Route calculation error.');
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation error.');
+  } finally {
+    routingController = null;
+    updateUI();
   }
 }
 
@@ -145,49 +167,13 @@ function onClearRoutesButtonPressed() {
   map?.deactivateHighlight();
 
   focusedRoute = null;
+  routeAlternatives = [];
   updateUI();
 }
 
 // Method for canceling route calculation
 function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    updateUI();
-    showMessage('Route calculation cancelled.');
-  }
-}
-
-// Calculate route with promise wrapper
-async function calculateRoute(
-  waypoints: Landmark[],
-  preferences: RoutePreferences
-): Promise<Route[] | null> {
-  return new Promise((resolve) => {
-    try {
-      const timeout = setTimeout(() => {
-        console.error('Route calculation timed out');
-        resolve(null);
-      }, 30000);
-
-      routingHandler = RoutingService.calculateRoute(
-        waypoints,
-        preferences,
-        (err: GemError, routes: Route[]) => {
-          clearTimeout(timeout);
-          routingHandler = null;
-
-          if (err === GemError.success && routes && routes.length > 0) {
-            resolve(routes);
-          } else {
-            resolve(null);
-          }
-        }
-      );
-    } catch (error) {
-      resolve(null);
-    }
-  });
+  routingController?.abort();
 }
 
 // Center camera on route
@@ -223,15 +209,7 @@ async function registerRouteTapCallback() {
       const routes = map.cursorSelectionRoutes();
 
       if (routes.length > 0) {
-        const routesMap = map.preferences.routes;
-        if (routesMap) {
-          routesMap.mainRoute = routes[0];
-        }
-
-        focusedRoute = routes[0];
-        createRouteProfilePanel(focusedRoute);
-        updateUI();
-        centerOnRoute([focusedRoute]);
+        focusRoute(routes[0]);
       }
     } catch (error) {
       console.error('Error in route tap callback:', error);
@@ -239,6 +217,19 @@ async function registerRouteTapCallback() {
   });
 }
 
+// Make a route the main one and show its profile
+function focusRoute(route: Route) {
+  const routesMap = map?.preferences.routes;
+  if (routesMap) {
+    routesMap.mainRoute = route;
+  }
+
+  focusedRoute = route;
+  createRouteProfilePanel(focusedRoute);
+  updateUI();
+  centerOnRoute([focusedRoute]);
+}
+
 // Create route profile panel
 function createRouteProfilePanel(route: Route) {
   routeProfilePanel.innerHTML = '';
@@ -290,10 +281,24 @@ function createRouteProfilePanel(route: Route) {
     // Elevation Chart
     content.appendChild(createElevationSection(route));
 
+    // Elevation comparison of all alternatives
+    if (routeAlternatives.length > 0) {
+      content.appendChild(createAlternativesSection(route));
+    }
+
     // Interactive Sections
-    content.appendChild(createInteractiveSliderSection('Surface Analysis', 'Surface', route));
-    content.appendChild(createInteractiveSliderSection('Road Type Analysis', 'Road Type', route));
-    content.appendChild(createInteractiveSliderSection('Steepness Analysis', 'Steepness', route));
+    content.appendChild(
+      createInteractiveSliderSection('Surface Analysis', getSurfaceSections(route), route)
+    );
+    content.appendChild(
+      createInteractiveSliderSection('Road Type Analysis', getRoadTypeSections(route), route)
+    );
+    content.appendChild(
+      createInteractiveSliderSection('Steepness Analysis', getSteepnessSections(route), route)
+    );
+
+    // Climbs
+    content.appendChild(createClimbSection(route));
 
     // Landmarks
     content.appendChild(createElevationLandmarkButtons(route));
@@ -308,7 +313,11 @@ function createRouteProfilePanel(route: Route) {
 }
 
 // Create interactive slider section
-function createInteractiveSliderSection(title: string, type: string, route: Route): HTMLElement {
+function createInteractiveSliderSection(
+  title: string,
+  sections: ProfileSection[],
+  route: Route
+): HTMLElement {
   const section = document.createElement('div');
   section.style.cssText = `
     background: white; padding: 20px; border-radius: 12px; margin-bottom: 20px;
@@ -320,7 +329,13 @@ function createInteractiveSliderSection(title: string, type: string, route: Rout
   titleEl.style.cssText = 'margin: 0 0 16px 0; color: #333; font-size: 15px; font-weight:600;';
   section.appendChild(titleEl);
 
-  const mockSections = createMockSections(type);
+  if (sections.length === 0) {
+    section.innerHTML += '<div style="color:#999;font-style:italic;">No data</div>';
+    return section;
+  }
+
+  const totalDistance =
+    route.getTimeDistance().unrestrictedDistanceM + route.getTimeDistance().restrictedDistanceM;
 
   const barContainer = document.createElement('div');
   barContainer.style.cssText = `
@@ -328,11 +343,12 @@ function createInteractiveSliderSection(title: string, type: string, route: Rout
     margin-bottom: 16px; background: #f5f5f5; display: flex;
   `;
 
-  mockSections.forEach((sec) => {
+  // One bar segment per section, in route order and proportional to its length
+  sections.forEach((sec) => {
     const seg = document.createElement('div');
-    seg.style.width = `${sec.percent * 100}%`;
+    seg.style.width = `${((sec.endDistance - sec.startDistance) / totalDistance) * 100}%`;
     seg.style.backgroundColor = sec.color;
-    seg.title = `${sec.name}`;
+    seg.title = `${sec.name}: ${convertDistance(sec.startDistance)} - ${convertDistance(sec.endDistance)}`;
     barContainer.appendChild(seg);
   });
 
@@ -343,8 +359,6 @@ function createInteractiveSliderSection(title: string, type: string, route: Rout
   const slider = document.createElement('input');
   slider.type = 'range';
   slider.min = '0';
-  const totalDistance =
-    route.getTimeDistance().unrestrictedDistanceM + route.getTimeDistance().restrictedDistanceM;
   slider.max = totalDistance.toString();
   slider.value = '0';
   slider.style.cssText = `
@@ -353,7 +367,7 @@ function createInteractiveSliderSection(title: string, type: string, route: Rout
   `;
 
   // Inject style for slider thumb
-  const styleId = `slider-${type.replace(/\s/g, '')}-${Date.now()}`;
+  const styleId = `slider-${title.replace(/\s/g, '')}-${Date.now()}`;
   const style = document.createElement('style');
   style.textContent = `
     #${styleId}::-webkit-slider-thumb {
@@ -371,6 +385,22 @@ function createInteractiveSliderSection(title: string, type: string, route: Rout
   section.appendChild(barContainer);
   section.appendChild(sliderContainer);
 
+  // Legend with the share of each category
+  const legend = document.createElement('div');
+  legend.style.cssText = 'display:flex; flex-wrap:wrap; gap:6px 14px; font-size:12px; color:#666;';
+  getCategories(sections).forEach((category) => {
+    const item = document.createElement('span');
+    item.style.cssText = 'display:flex; align-items:center; gap:4px; cursor:pointer;';
+    item.innerHTML = `<span style="width:10px; height:10px; border-radius:2px; background:${category.color};"></span>${category.name} ${Math.round((category.distance / totalDistance) * 100)}%`;
+    item.title = convertDistance(category.distance);
+    item.onclick = () => {
+      const first = sections.find((s) => s.name === category.name);
+      if (first) updateAnalysis(first.startDistance);
+    };
+    legend.appendChild(item);
+  });
+  section.appendChild(legend);
+
   const info = document.createElement('div');
   info.style.cssText =
     'font-size: 13px; color: #666; margin-top:8px; display:flex; justify-content:space-between;';
@@ -381,10 +411,16 @@ function createInteractiveSliderSection(title: string, type: string, route: Rout
 
   // Logic
   const updateAnalysis = (val: number) => {
-    const sec = findSectionAtDistance(val, totalDistance, mockSections);
-    infoText.innerHTML = `<strong>${sec.name}</strong> at ${convertDistance(val)}`;
-    // IMPORTANT: Pass the full section object to highlightRouteSection
-    highlightRouteSection(route, sec, val);
+    const sec = findSectionAtDistance(sections, val);
+    if (!sec) return;
+    slider.value = val.toString();
+    infoText.innerHTML = `<strong>${sec.name}</strong> at ${convertDistance(val)} (${convertDistance(sec.startDistance)} - ${convertDistance(sec.endDistance)})`;
+    // Highlight every stretch of the route in the same category
+    highlightRouteSection(
+      route,
+      val,
+      sections.filter((s) => s.name === sec.name)
+    );
   };
 
   slider.addEventListener('input', (e) =>
@@ -394,54 +430,57 @@ function createInteractiveSliderSection(title: string, type: string, route: Rout
   return section;
 }
 
-// Mock Data Generation
-function createMockSections(type: string): Array<{ name: string; percent: number; color: string }> {
-  switch (type) {
-    case 'Surface':
-      return [
-        { name: 'Asphalt', percent: 0.6, color: '#90A4AE' },
-        { name: 'Paved', percent: 0.25, color: '#CFD8DC' },
-        { name: 'Unpaved', percent: 0.15, color: '#8D6E63' },
-      ];
-    case 'Road Type':
-      return [
-        { name: 'Road', percent: 0.4, color: '#B0BEC5' },
-        { name: 'Path', percent: 0.35, color: '#E0E0E0' },
-        { name: 'Street', percent: 0.25, color: '#78909C' },
-      ];
-    case 'Steepness':
-      return [
-        { name: 'Descent High', percent: 0.1, color: '#43A047' },
-        { name: 'Descent Low', percent: 0.15, color: '#81C784' },
-        { name: 'Neutral', percent: 0.5, color: '#FFEB3B' },
-        { name: 'Ascent Low', percent: 0.15, color: '#FFB74D' },
-        { name: 'Ascent High', percent: 0.1, color: '#F4511E' },
-      ];
-    default:
-      return [{ name: 'Unknown', percent: 1.0, color: '#cccccc' }];
-  }
-}
+// Climb details
+function createClimbSection(route: Route): HTMLElement {
+  const section = document.createElement('div');
+  section.style.cssText = `
+    background: white; padding: 20px; border-radius: 12px; margin-bottom: 20px;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.05); border: 1px solid #f0f0f0;
+  `;
+
+  const title = document.createElement('h3');
+  title.textContent = 'Climb Details';
+  title.style.cssText = 'margin: 0 0 16px 0; color: #333; font-size: 15px; font-weight:600;';
+  section.appendChild(title);
 
-function findSectionAtDistance(
-  distance: number,
-  totalDistance: number,
-  sections: Array<{ name: string; percent: number; color: string }>
-) {
-  const progress = distance / totalDistance;
-  let acc = 0;
-  for (const s of sections) {
-    acc += s.percent;
-    if (progress <= acc) return s;
+  const climbs = getClimbSections(route);
+  if (climbs.length === 0) {
+    section.innerHTML += '<div style="color:#999;font-style:italic;">No categorized climbs</div>';
+    return section;
   }
-  return sections[sections.length - 1];
+
+  climbs.forEach((climb) => {
+    const row = document.createElement('button');
+    row.style.cssText = `
+      display:flex; width:100%; justify-content:space-between; align-items:center; gap:12px;
+      background:#f9f9f9; border:1px solid #eee; border-radius:8px; padding:10px 12px;
+      margin-bottom:8px; cursor:pointer; font-size:13px; color:#333; text-align:left;
+    `;
+    row.innerHTML = `
+      <span style="font-weight:600; color:#F4511E; min-width:48px;">${climb.grade}</span>
+      <span style="flex:1;">${convertDistance(climb.startDistance)} - ${convertDistance(climb.endDistance)}</span>
+      <span style="color:#666;">${convertDistance(climb.endDistance - climb.startDistance)}</span>
+      <span style="font-weight:600; min-width:48px; text-align:right;">${climb.slope.toFixed(1)}%</span>
+    `;
+    row.onclick = () =>
+      highlightRouteSection(route, climb.startDistance, [
+        {
+          name: `Climb ${climb.grade}`,
+          color: '#F4511E',
+          startDistance: climb.startDistance,
+          endDistance: climb.endDistance,
+        },
+      ]);
+    row.onmouseenter = () => (row.style.background = '#f0f0f0');
+    row.onmouseleave = () => (row.style.background = '#f9f9f9');
+    section.appendChild(row);
+  });
+
+  return section;
 }
 
-// RESTORED: Core logic for highlighting path segments
-function highlightRouteSection(
-  route: Route,
-  section: { name: string; percent: number; color: string } | null,
-  distance: number
-) {
+// Core logic for highlighting a position and, optionally, route sections
+function highlightRouteSection(route: Route, distance: number, sections: ProfileSection[] = []) {
   try {
     const coords = route.getCoordinateOnRoute(Math.floor(distance));
     if (coords && map) {
@@ -465,91 +504,39 @@ function highlightRouteSection(
         map.activateHighlight([landmark]);
       }
 
-      // RESTORED: Only call _presentPaths if we have a valid section
-      if (section && section.name) {
-        // showMessage(`${section.name} at ${convertDistance(distance)}`, 1000); // Optional: reduced duration
-        _presentPaths(route, section);
-      }
+      // Keep the drawn paths when only the position is highlighted
+      if (sections.length > 0) _presentPaths(route, sections);
     }
   } catch (error) {
     console.error('Error in highlightRouteSection:', error);
   }
 }
 
-// RESTORED: Function to draw path segments on the map
-function _presentPaths(route: Route, section: { name: string; percent: number; color: string }) {
+// Function to draw path segments on the map
+function _presentPaths(route: Route, sections: ProfileSection[]) {
   try {
     if (!map) return;
     map.preferences.paths.clear();
 
-    // Get the calculated path segments from our mock data + route logic
-    const paths = getRouteSegmentsForSection(route, section);
-
-    paths.forEach((pathSegment) => {
-      if (pathSegment && map) {
-        // Add path to map with color
-        // We convert the hex string from mock data to a Gem Color object
-        map.preferences.paths.add(pathSegment, { colorInner: hexToColor(section.color) });
-      }
-    });
-  } catch (error) {
-    console.log('Could not present paths:', error);
-  }
-}
-
-// RESTORED: Helper to extract relevant path segments based on section logic
-function getRouteSegmentsForSection(
-  route: Route,
-  section: { name: string; percent: number; color: string }
-): Path[] {
-  try {
-    const totalDistance =
-      route.getTimeDistance().unrestrictedDistanceM + route.getTimeDistance().restrictedDistanceM;
-    const paths: Path[] = [];
-
-    // Determine the type of section (Surface, Road Type, etc.)
-    const type = getSectionTypeFromName(section.name);
-    const mockSections = createMockSections(type);
-
-    let currentDistance = 0;
-    mockSections.forEach((mockSection) => {
-      const segmentLength = mockSection.percent * totalDistance;
-
-      // Only extract the path if it matches the current section name we are looking for
-      if (mockSection.name === section.name) {
-        const startDistance = currentDistance;
-        const endDistance = currentDistance + segmentLength;
-
-        // Extract geometry from route
-        try {
-          // route.getPath returns the geometry between two distances
-          const pathSegment = route.getPath(Math.floor(startDistance), Math.floor(endDistance));
-          if (pathSegment) {
-            paths.push(pathSegment);
-          }
-        } catch (pathError) {
-          console.log('Could not extract path segment:', pathError);
+    sections.forEach((section) => {
+      try {
+        // route.getPath returns the geometry between two distances
+        const pathSegment = route.getPath(
+          Math.floor(section.startDistance),
+          Math.ceil(section.endDistance)
+        );
+        if (pathSegment && map) {
+          map.preferences.paths.add(pathSegment, { colorInner: hexToColor(section.color) });
         }
+      } catch (pathError) {
+        console.log('Could not extract path segment:', pathError);
       }
-      currentDistance += segmentLength;
     });
-
-    return paths;
   } catch (error) {
-    console.log('Error getting route segments:', error);
-    return [];
+    console.log('Could not present paths:', error);
   }
 }
 
-// RESTORED: Helper to map section names back to their parent category
-function getSectionTypeFromName(sectionName: string): string {
-  if (['Asphalt', 'Paved', 'Unpaved'].includes(sectionName)) return 'Surface';
-  if (['Road', 'Path', 'Street'].includes(sectionName)) return 'Road Type';
-  if (['Descent High', 'Descent Low', 'Neutral', 'Ascent Low', 'Ascent High'].includes(sectionName))
-    return 'Steepness';
-  return 'Unknown';
-}
-
 // Elevation Buttons
 function createElevationLandmarkButtons(route: Route): HTMLElement {
   const container = document.createElement('div');
@@ -609,8 +596,7 @@ function createElevationLandmarkButtons(route: Route): HTMLElement {
       <div style="font-size:11px; color:#666;">${Math.round(l.val)}m</div>
     `;
     btn.onclick = () => {
-      // Pass complete section object structure to satisfy signature
-      highlightRouteSection(route, { name: l.name, percent: 0, color: l.color }, l.dist);
+      highlightRouteSection(route, l.dist);
     };
     btn.onmouseenter = () => (btn.style.background = '#f0f0f0');
     btn.onmouseleave = () => (btn.style.background = '#f9f9f9');
@@ -643,26 +629,6 @@ function createElevationSection(route: Route): HTMLElement {
   return section;
 }
 
-function getElevationSamples(route: Route) {
-  const totalDistance =
-    route.getTimeDistance().unrestrictedDistanceM + route.getTimeDistance().restrictedDistanceM;
-  let count = Math.min(Math.ceil(totalDistance / 50), 200);
-  count = Math.max(count, 2);
-
-  try {
-    const raw = route.terrainProfile!.getElevationSamples(count, 0, totalDistance);
-    const result = [];
-    let d = 0;
-    for (let i = 0; i < raw.first.length; i++) {
-      result.push({ distance: d, elevation: raw.first[i] });
-      d += raw.second;
-    }
-    return result;
-  } catch (e) {
-    return [];
-  }
-}
-
 // Updated Chart with Min/Max Labels and Slider Overlay
 function createSimpleElevationChart(samples: ElevationSample[], route: Route): HTMLElement {
   const container = document.createElement('div');
@@ -769,8 +735,8 @@ function createSimpleElevationChart(samples: ElevationSample[], route: Route): H
     tooltip.innerHTML = `Dist: <strong>${convertDistance(dist)}</strong><br>Elev: <strong>${Math.round(sample.elevation)}m</strong>`;
     tooltip.style.display = 'block';
 
-    // 2. Update Map - Pass null for section to avoid path errors from elevation chart
-    highlightRouteSection(route, null, dist);
+    // 2. Update Map
+    highlightRouteSection(route, dist);
   };
 
   slider.addEventListener('input', (e) => {
@@ -781,6 +747,153 @@ function createSimpleElevationChart(samples: ElevationSample[], route: Route): H
   return container;
 }
 
+// Overlaid elevation profiles and climbing stats of every alternative
+function createAlternativesSection(focused: Route): HTMLElement {
+  const section = document.createElement('div');
+  section.style.cssText = `
+    background: white; padding: 20px; border-radius: 12px; margin-bottom: 20px;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.05); border: 1px solid #f0f0f0;
+  `;
+
+  const title = document.createElement('h3');
+  title.textContent = 'Compare Alternatives';
+  title.style.cssText = 'margin: 0 0 16px 0; color: #333; font-size: 15px; font-weight:600;';
+  section.appendChild(title);
+
+  const profiles = routeAlternatives.map((route, index) => {
+    const samples = getElevationSamples(route);
+    return {
+      route,
+      name: `Route ${index + 1}`,
+      color: ALTERNATIVE_COLORS[index % ALTERNATIVE_COLORS.length],
+      samples,
+      stats: getElevationStats(samples),
+    };
+  });
+  const withData = profiles.filter((p) => p.samples.length > 1);
+  if (withData.length === 0) {
+    section.innerHTML += '<div style="color:#999;font-style:italic;">No data</div>';
+    return section;
+  }
+
+  // All profiles share the same scales so they can be compared
+  const maxDistance = Math.max(...withData.map((p) => p.stats.distance));
+  const elevations = withData.flatMap((p) => p.samples.map((s) => s.elevation));
+  const min = Math.min(...elevations);
+  const max = Math.max(...elevations);
+  const range = max - min + 20;
+  const renderMin = min - 10;
+
+  const chart = document.createElement('div');
+  chart.style.cssText =
+    'position:relative; width:100%; height:160px; background:#fafafa; border-radius:8px; overflow:hidden; border:1px solid #eee; margin-bottom:12px;';
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.setAttribute('width', '100%');
+  svg.setAttribute('height', '100%');
+  svg.setAttribute('viewBox', '0 0 1000 150');
+  svg.setAttribute('preserveAspectRatio', 'none');
+  svg.style.display = 'block';
+
+  // Draw the focused route last so it stays on top
+  [...withData]
+    .sort((a, b) => Number(a.route === focused) - Number(b.route === focused))
+    .forEach((profile) => {
+      const points = profile.samples.map((s: ElevationSample) => {
+        const x = (s.distance / maxDistance) * 1000;
+        const y = 150 - ((s.elevation - renderMin) / range) * 150;
+        return `${x},${y}`;
+      });
+      const line = document.createElementNS('http://www.w3.org/2000/svg', 'polyline');
+      line.setAttribute('points', points.join(' '));
+      line.setAttribute('fill', 'none');
+      line.setAttribute('stroke', profile.color);
+      line.setAttribute('stroke-width', profile.route === focused ? '3' : '1.5');
+      line.setAttribute('stroke-opacity', profile.route === focused ? '1' : '0.6');
+      line.setAttribute('vector-effect', 'non-scaling-stroke');
+      svg.appendChild(line);
+    });
+  chart.appendChild(svg);
+
+  const maxLabel = document.createElement('div');
+  maxLabel.textContent = `${Math.round(max)}m`;
+  maxLabel.style.cssText =
+    'position:absolute; top:4px; right:8px; font-size:11px; color:#666; font-weight:600;';
+  chart.appendChild(maxLabel);
+  const minLabel = document.createElement('div');
+  minLabel.textContent = `${Math.round(min)}m`;
+  minLabel.style.cssText =
+    'position:absolute; bottom:4px; right:8px; font-size:11px; color:#666; font-weight:600;';
+  chart.appendChild(minLabel);
+  section.appendChild(chart);
+
+  // One row of stats per route, least effort first
+  [...withData]
+    .sort((a, b) => a.stats.effort - b.stats.effort)
+    .forEach((profile) => {
+      const isFocused = profile.route === focused;
+      const row = document.createElement('div');
+      row.style.cssText = `
+        display:flex; align-items:center; gap:10px; padding:10px 12px; margin-bottom:8px;
+        border:1px solid ${isFocused ? profile.color : '#eee'}; border-radius:8px;
+        background:${isFocused ? '#faf7ff' : '#f9f9f9'}; font-size:12px; color:#333;
+      `;
+
+      const info = document.createElement('div');
+      info.style.cssText = 'flex:1; cursor:pointer;';
+      info.title = 'Show this route';
+      info.innerHTML = `
+        <div style="display:flex; align-items:center; gap:6px; font-weight:600; font-size:13px; margin-bottom:4px;">
+          <span style="width:10px; height:10px; border-radius:2px; background:${profile.color};"></span>
+          ${profile.name} &middot; ${convertDistance(profile.stats.distance)}
+        </div>
+        <div style="display:flex; flex-wrap:wrap; gap:4px 12px; color:#666;">
+          <span>Ascent <strong>${Math.round(profile.stats.ascent)}m</strong></span>
+          <span>Descent <strong>${Math.round(profile.stats.descent)}m</strong></span>
+          <span>Max gradient <strong>${profile.stats.maxGradient.toFixed(1)}%</strong></span>
+          <span>Effort <strong>${profile.stats.effort.toFixed(1)} km</strong></span>
+        </div>
+      `;
+      info.onclick = () => {
+        if (!isFocused) focusRoute(profile.route);
+      };
+      row.appendChild(info);
+
+      const fileName = `route-${routeAlternatives.indexOf(profile.route) + 1}-elevation`;
+      const exports: Array<[string, () => void]> = [
+        ['CSV', () => downloadFile(elevationToCsv(profile.samples), `${fileName}.csv`, 'text/csv')],
+        [
+          'GPX',
+          () =>
+            downloadFile(
+              elevationToGpx(profile.route, profile.samples, profile.name),
+              `${fileName}.gpx`,
+              'application/gpx+xml'
+            ),
+        ],
+      ];
+      exports.forEach(([label, onClick]) => {
+        const btn = document.createElement('button');
+        btn.innerHTML = `${ICONS.download} ${label}`;
+        btn.title = `Export ${profile.name} elevation as ${label}`;
+        btn.style.cssText = `
+          display:flex; align-items:center; gap:2px; background:#fff; border:1px solid #ddd;
+          border-radius:6px; padding:4px 8px; cursor:pointer; font-size:11px; color:#555;
+        `;
+        btn.onclick = onClick;
+        row.appendChild(btn);
+      });
+
+      section.appendChild(row);
+    });
+
+  const note = document.createElement('div');
+  note.style.cssText = 'font-size:11px; color:#999;';
+  note.textContent = 'Effort adds 1 km for every 100 m of ascent.';
+  section.appendChild(note);
+
+  return section;
+}
+
 window.addEventListener('DOMContentLoaded', async () => {
   let gemKit: GemKit;
   try {
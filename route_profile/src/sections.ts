@@ -0,0 +1,185 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Route, SurfaceType, RoadType, Grade } from '@magiclane/maps-sdk';
+
+// A stretch of the route with a single surface, road type or steepness
+export interface ProfileSection {
+  name: string;
+  color: string;
+  startDistance: number; // m
+  endDistance: number; // m
+}
+
+// Share of the route covered by one surface, road type or steepness
+export interface ProfileCategory {
+  name: string;
+  color: string;
+  distance: number; // m
+}
+
+export interface ClimbSection {
+  startDistance: number; // m
+  endDistance: number; // m
+  slope: number; // average, in percent
+  grade: string;
+}
+
+const SURFACE_COLORS: Record<string, string> = {
+  asphalt: '#90A4AE',
+  paved: '#CFD8DC',
+  unpaved: '#8D6E63',
+};
+
+const ROAD_TYPE_COLORS: Record<string, string> = {
+  motorways: '#E57373',
+  stateRoad: '#FFB74D',
+  road: '#B0BEC5',
+  street: '#78909C',
+  cycleway: '#4DB6AC',
+  path: '#E0E0E0',
+  singleTrack: '#A1887F',
+};
+
+const UNKNOWN_COLOR = '#CCCCCC';
+
+// Slope boundaries in percent; sections fall in the intervals between them
+const STEEPNESS_BOUNDARIES = [-16, -10, -7, -4, -1, 1, 4, 7, 10, 16];
+
+// From steep descent (green) to steep ascent (red), one color per interval
+const STEEPNESS_COLORS = [
+  '#1B5E20',
+  '#2E7D32',
+  '#43A047',
+  '#66BB6A',
+  '#A5D6A7',
+  '#FFEB3B',
+  '#FFCC80',
+  '#FFB74D',
+  '#FF8A65',
+  '#F4511E',
+  '#B71C1C',
+];
+
+function getTotalDistance(route: Route): number {
+  const timeDistance = route.getTimeDistance();
+  return timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
+}
+
+// Turn an enum member name like 'singleTrack' into 'Single track'
+function toLabel(name: string | undefined): string {
+  if (!name) return 'Unknown';
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function getSteepnessLabel(category: number): string {
+  const lower = STEEPNESS_BOUNDARIES[category - 1];
+  const upper = STEEPNESS_BOUNDARIES[category];
+  if (lower === undefined) return `Below ${upper}%`;
+  if (upper === undefined) return `Above ${lower}%`;
+  return `${lower}% to ${upper}%`;
+}
+
+// Each section ends where the next one starts, the last one at the end of the route
+function toSections(
+  starts: Array<{ start: number; name: string; color: string }>,
+  totalDistance: number
+): ProfileSection[] {
+  return starts
+    .map((s, i) => ({
+      name: s.name,
+      color: s.color,
+      startDistance: s.start,
+      endDistance: i + 1 < starts.length ? starts[i + 1].start : totalDistance,
+    }))
+    .filter((s) => s.endDistance > s.startDistance);
+}
+
+export function getSurfaceSections(route: Route): ProfileSection[] {
+  const profile = route.terrainProfile;
+  if (!profile) return [];
+  return toSections(
+    profile.surfaceSections.map((section) => {
+      const key = SurfaceType[section.type];
+      return {
+        start: section.startDistanceM,
+        name: toLabel(key),
+        color: SURFACE_COLORS[key] ?? UNKNOWN_COLOR,
+      };
+    }),
+    getTotalDistance(route)
+  );
+}
+
+export function getRoadTypeSections(route: Route): ProfileSection[] {
+  const profile = route.terrainProfile;
+  if (!profile) return [];
+  return toSections(
+    profile.roadTypeSections.map((section) => {
+      const key = RoadType[section.type];
+      return {
+        start: section.startDistanceM,
+        name: toLabel(key),
+        color: ROAD_TYPE_COLORS[key] ?? UNKNOWN_COLOR,
+      };
+    }),
+    getTotalDistance(route)
+  );
+}
+
+export function getSteepnessSections(route: Route): ProfileSection[] {
+  const profile = route.terrainProfile;
+  if (!profile) return [];
+  return toSections(
+    profile.getSteepSections(STEEPNESS_BOUNDARIES).map((section) => ({
+      start: section.startDistanceM,
+      name: getSteepnessLabel(section.categ),
+      color: STEEPNESS_COLORS[section.categ] ?? UNKNOWN_COLOR,
+    })),
+    getTotalDistance(route)
+  );
+}
+
+export function getClimbSections(route: Route): ClimbSection[] {
+  const profile = route.terrainProfile;
+  if (!profile) return [];
+  return profile.climbSections.map((climb) => {
+    const grade = Grade[climb.grade] ?? '';
+    return {
+      startDistance: climb.startDistanceM,
+      endDistance: climb.endDistanceM,
+      slope: climb.slope,
+      // Climbs are categorized like in cycling races: 4 is the easiest, HC the hardest
+      grade: grade === 'gradeHC' ? 'HC' : grade.replace('grade', 'Cat. '),
+    };
+  });
+}
+
+// Total distance per section name, longest first
+export function getCategories(sections: ProfileSection[]): ProfileCategory[] {
+  const categories = new Map<string, ProfileCategory>();
+  sections.forEach((section) => {
+    const category = categories.get(section.name) ?? {
+      name: section.name,
+      color: section.color,
+      distance: 0,
+    };
+    category.distance += section.endDistance - section.startDistance;
+    categories.set(section.name, category);
+  });
+  return [...categories.values()].sort((a, b) => b.distance - a.distance);
+}
+
+export function findSectionAtDistance(
+  sections: ProfileSection[],
+  distance: number
+): ProfileSection | null {
+  return (
+    sections.find((s) => distance >= s.startDistance && distance < s.endDistance) ??
+    sections[sections.length - 1] ??
+    null
+  );
+}
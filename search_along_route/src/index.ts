@@ -14,22 +14,56 @@ import {
   GemError,
   Route,
   NavigationService,
-  SearchService,
   HighlightRenderSettings,
   HighlightOptions,
   TaskHandler,
   GemIcon,
   AddressField,
+  ImageFileFormat,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+  ResultList,
+} from '../../shared';
+import {
+  StopCategory,
+  StopCandidate,
+  StopDetour,
+  STOP_CATEGORIES,
+  LATERAL_DISTANCES,
+  DEFAULT_LATERAL_DISTANCE,
+  searchStops,
+  getStopCandidates,
+  orderStopsAlongRoute,
+} from './stops';
+
+// Each detour is a route calculation, so only the first results of the list get one
+const MAX_DETOUR_ROUTES = 10;
 
 let map: GemMap | null = null;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let navigationHandler: TaskHandler | null = null;
 let routes: Route[] | null = null;
 let isSimulationActive = false;
 let areRoutesBuilt = false;
 
+// Stops added from the search results, in driving order
+let stops: Landmark[] = [];
+let stopCategories: StopCategory[] = ['fuel', 'food', 'parking', 'evCharging'];
+// Results of the last search, keyed by their landmark
+let candidates = new Map<Landmark, StopCandidate>();
+let searchId = 0;
+// Real cost of adding each result as a stop; null when no route goes through it
+let detours = new Map<Landmark, StopDetour | null>();
+let detourQueue: Landmark[] = [];
+let detourController: AbortController | null = null;
+
 // UI Elements
 let controlsDiv: HTMLDivElement;
 let buildRouteBtn: HTMLButtonElement;
@@ -39,6 +73,9 @@ let searchBtn: HTMLButtonElement;
 let startSimBtn: HTMLButtonElement;
 let stopSimBtn: HTMLButtonElement;
 let searchResultsPanel: HTMLDivElement;
+let searchResultsTitle: HTMLHeadingElement;
+let categoryChips: HTMLDivElement;
+let resultList: ResultList<Landmark, HighlightRenderSettings>;
 
 function updateUI() {
   buildRouteBtn.style.display = 'none';
@@ -48,13 +85,13 @@ function updateUI() {
   startSimBtn.style.display = 'none';
   stopSimBtn.style.display = 'none';
 
-  if (!routingHandler && !areRoutesBuilt) {
+  if (!routingController && !areRoutesBuilt) {
     // State 1: Idle
     buildRouteBtn.style.display = 'flex';
-  } else if (routingHandler && !areRoutesBuilt) {
+  } else if (routingController) {
     // State 2: Calculating
     cancelRouteBtn.style.display = 'flex';
-  } else if (areRoutesBuilt && !routingHandler && !isSimulationActive) {
+  } else if (areRoutesBuilt && !routingController && !isSimulationActive) {
     // State 3: Route Built (Actions available)
     searchBtn.style.display = 'flex';
     startSimBtn.style.display = 'flex';
@@ -154,46 +191,87 @@ window.addEventListener('DOMContentLoaded', async () => {
     display: flex; flex-direction: column;
     font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
   `;
+  createSearchResultsPanel();
   document.body.appendChild(searchResultsPanel);
 
   updateUI();
 });
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
+  showMessage('Calculating route...');
+  if (await calculateRoute()) showMessage('Route calculated successfully!');
+}
+
+// Waypoints from the departure to the destination through the given stops
+function getWaypoints(routeStops: Landmark[]): Landmark[] {
   const departureLandmark = Landmark.withCoordinates(Coordinates.fromLatLong(37.77903, -122.41991));
   const destinationLandmark = Landmark.withCoordinates(
     Coordinates.fromLatLong(37.33619, -121.89058)
   );
+  return [departureLandmark, ...routeStops, destinationLandmark];
+}
+
+// Route from the departure to the destination through the added stops
+async function calculateRoute(): Promise<boolean> {
   const routePreferences = new RoutePreferences({});
 
-  showMessage('Calculating route...');
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && calculatedRoutes.length > 0) {
-        const routesMap = map?.preferences.routes;
-        calculatedRoutes.forEach((route, index) => {
-          routesMap?.add(route, index === 0, { label: getRouteLabel(route) });
-        });
-        map?.centerOnRoutes({ routes: calculatedRoutes });
-        showMessage('Route calculated successfully!');
-        routes = calculatedRoutes;
-        areRoutesBuilt = true;
-      } else {
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const calculatedRoutes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      getWaypoints(stops),
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map?.preferences.routes;
+    routesMap?.clear();
+    calculatedRoutes.forEach((route, index) => {
+      routesMap?.add(route, index === 0, { label: getRouteLabel(route) });
+    });
+    map?.centerOnRoutes({ routes: calculatedRoutes });
+    routes = calculatedRoutes;
+    areRoutesBuilt = true;
+    return true;
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+    return false;
+  } finally {
+    routingController = null;
+    updateUI();
+  }
+}
+
+// Add a search result as an intermediate waypoint and report what it really costs
+async function addStop(landmark: Landmark) {
+  const mainRoute = map?.preferences.routes.mainRoute;
+  if (!mainRoute || routingController || stops.includes(landmark)) return;
+  const before = getTimeDistance(mainRoute);
+
+  // Stops are visited in the order they appear along the current route
+  const previousStops = stops;
+  stops = orderStopsAlongRoute(mainRoute, [...stops, landmark]);
+
+  closeSearchResults();
+  showMessage(`Adding ${landmark.name || 'stop'} to the route...`);
+  if (!(await calculateRoute()) || !routes) {
+    stops = previousStops;
+    return;
+  }
+
+  const after = getTimeDistance(routes[0]);
+  const addedDuration = convertDuration(Math.max(0, after.duration - before.duration));
+  const addedDistance = convertDistance(Math.max(0, after.distance - before.distance));
+  showMessage(`Added ${landmark.name || 'stop'}: +${addedDuration}, +${addedDistance}`, 5000);
 }
 
 function onClearRoutesButtonPressed() {
   map?.preferences.routes.clear();
   map?.deactivateHighlight(); // Clear highlights
   routes = null;
+  stops = [];
   areRoutesBuilt = false;
   isSimulationActive = false;
   closeSearchResults(); // Close sidebar
@@ -201,12 +279,7 @@ function onClearRoutesButtonPressed() {
 }
 
 function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    showMessage('Route calculation cancelled.');
-  }
-  updateUI();
+  routingController?.abort();
 }
 
 function startSimulation() {
@@ -252,35 +325,33 @@ function stopSimulation() {
   showMessage('Simulation stopped.');
 }
 
-function searchAlongRoute() {
+async function searchAlongRoute() {
   if (!areRoutesBuilt || !map) return;
   const routesMap = map.preferences.routes;
-  if (!routesMap.mainRoute) {
+  const mainRoute = routesMap.mainRoute;
+  if (!mainRoute) {
     showMessage('No main route available');
     return;
   }
 
-  showMessage('Searching along route...');
+  const id = ++searchId;
+  resetDetours();
+  searchResultsTitle.textContent = 'Search Results';
+  resultList.showMessage('Searching along route...');
+  searchResultsPanel.style.transform = 'translateX(0)';
 
-  SearchService.searchAlongRoute({
-    route: routesMap.mainRoute,
-    onCompleteCallback: (err: GemError, results: Landmark[]) => {
-      if (err !== GemError.success) {
-        showMessage('No results found.');
-        return;
-      }
-      showMessage(`${results.length} results found.`);
-      showSearchResults(results); // New function to display list
-    },
-  });
+  const results = await searchStops(mainRoute, stopCategories);
+  // A newer search or a cleared route replaced this one
+  if (id !== searchId) return;
+  candidates = new Map(
+    getStopCandidates(mainRoute, results).map((candidate) => [candidate.landmark, candidate])
+  );
+  showSearchResults();
 }
 
 // --- Search Results UI Logic ---
 
-function showSearchResults(results: Landmark[]) {
-  searchResultsPanel.innerHTML = ''; // Clear previous
-  searchResultsPanel.style.transform = 'translateX(0)';
-
+function createSearchResultsPanel() {
   // Header
   const header = document.createElement('div');
   header.style.cssText = `
@@ -289,88 +360,146 @@ function showSearchResults(results: Landmark[]) {
         border-bottom: 1px solid #eee;
         display: flex; justify-content: space-between; align-items: center;
     `;
-  header.innerHTML = `
-        <h3 style="margin:0; font-size:18px; color:#333;">Search Results (${results.length})</h3>
-        <button id="closeSearchBtn" style="background:none; border:none; cursor:pointer; color:#666; padding:5px;">
-            ${ICONS.menuClose}
-        </button>
-    `;
+  searchResultsTitle = document.createElement('h3');
+  searchResultsTitle.style.cssText = `margin:0; font-size:18px; color:#333;`;
+  header.appendChild(searchResultsTitle);
+
+  const closeBtn = document.createElement('button');
+  closeBtn.innerHTML = ICONS.menuClose;
+  closeBtn.style.cssText = `background:none; border:none; cursor:pointer; color:#666; padding:5px;`;
+  closeBtn.onclick = closeSearchResults;
+  header.appendChild(closeBtn);
   searchResultsPanel.appendChild(header);
 
-  // List Container
-  const list = document.createElement('div');
-  list.style.cssText = `overflow-y: auto; flex: 1; padding: 10px;`;
-
-  results.forEach((landmark) => {
-    const item = document.createElement('div');
-    item.style.cssText = `
-            padding: 12px;
-            margin-bottom: 8px;
-            background: #fff;
-            border-radius: 8px;
-            border: 1px solid #eee;
-            cursor: pointer;
-            transition: all 0.2s;
-            display: flex; gap: 12px; align-items: flex-start;
-        `;
-
-    // Icon
-    const iconDiv = document.createElement('div');
-    iconDiv.innerHTML = ICONS.pin;
-    iconDiv.style.flexShrink = '0';
-
-    // Text Info
-    const infoDiv = document.createElement('div');
-    infoDiv.innerHTML = `
-            <div style="font-weight: 600; color: #333; font-size: 14px; margin-bottom: 2px;">${landmark.name || 'Unknown Place'}</div>
-            <div style="color: #666; font-size: 12px;">${landmark.address?.getField(AddressField.streetName) || 'No Address'}</div>
-        `;
-
-    item.appendChild(iconDiv);
-    item.appendChild(infoDiv);
-
-    // Hover Effect
-    item.onmouseenter = () => (item.style.backgroundColor = '#f5f5f5');
-    item.onmouseleave = () => (item.style.backgroundColor = '#fff');
-
-    // Click Action
-    item.onclick = () => {
-      if (!map) return;
-      map.centerOnCoordinates(landmark.coordinates);
-
-      // Highlight logic
-      map.deactivateHighlight();
-      const highlightSettings = new HighlightRenderSettings({
-        options: new Set([HighlightOptions.showLandmark, HighlightOptions.noFading]),
-      });
-
-      // Ensure landmark has an icon if missing
-      try {
-        landmark.setImageFromIcon(GemIcon.searchResultsPin);
-      } catch (e) {}
+  // Kinds of stops searched for
+  categoryChips = document.createElement('div');
+  categoryChips.style.cssText = `padding: 12px 20px 0 20px; display: flex; flex-wrap: wrap; gap: 6px;`;
+  searchResultsPanel.appendChild(categoryChips);
+  renderCategoryChips();
+
+  // List with sorting, filters and clustering on the map; picking a result adds it to the route
+  resultList = new ResultList(
+    { Landmark, AddressField, ImageFileFormat, HighlightRenderSettings, HighlightOptions, GemIcon },
+    {
+      getMap: () => map,
+      // The distance filter limits how far from the route the results may be
+      getDistance: (landmark) => candidates.get(landmark)?.lateralDistance ?? null,
+      distanceFilters: LATERAL_DISTANCES,
+      maxDistance: DEFAULT_LATERAL_DISTANCE,
+      getDetails: getDetourText,
+      onUpdate: queueDetours,
+      onSelect: (landmark) => addStop(landmark),
+    }
+  );
+  searchResultsPanel.appendChild(resultList.element);
+}
 
-      map.activateHighlight([landmark], { renderSettings: highlightSettings });
+function renderCategoryChips() {
+  categoryChips.innerHTML = '';
+  (Object.keys(STOP_CATEGORIES) as StopCategory[]).forEach((category) => {
+    const isActive = stopCategories.includes(category);
+    const chip = document.createElement('button');
+    chip.textContent = STOP_CATEGORIES[category].label;
+    chip.style.cssText = `
+      padding: 6px 12px; border-radius: 16px; font-size: 13px; cursor: pointer;
+      border: 1px solid ${isActive ? '#673ab7' : '#ddd'};
+      background: ${isActive ? '#ede7f6' : '#fff'};
+      color: ${isActive ? '#673ab7' : '#555'};
+    `;
+    chip.onclick = () => {
+      stopCategories = isActive
+        ? stopCategories.filter((c) => c !== category)
+        : [...stopCategories, category];
+      renderCategoryChips();
+      // The categories are part of the search, so it runs again
+      searchAlongRoute();
     };
-
-    list.appendChild(item);
+    categoryChips.appendChild(chip);
   });
+}
+
+function getDetourText(landmark: Landmark): string {
+  if (!detours.has(landmark)) return detourQueue.includes(landmark) ? 'Detour: calculating...' : '';
+  const detour = detours.get(landmark);
+  if (!detour) return 'Detour: no route';
+  return `Detour +${convertDuration(detour.duration)}, +${convertDistance(detour.distance)}`;
+}
+
+// Calculate the detour of the first visible results that do not have one yet
+function queueDetours(visible: Landmark[]) {
+  detourQueue = visible.slice(0, MAX_DETOUR_ROUTES).filter((landmark) => !detours.has(landmark));
+  if (detourQueue.length === 0) return;
+  resultList.refresh(); // show which detours are being calculated
+  if (!detourController) calculateDetours();
+}
 
-  searchResultsPanel.appendChild(list);
+// Route through each queued result in turn and compare with the current route
+async function calculateDetours() {
+  const mainRoute = map?.preferences.routes.mainRoute;
+  if (!mainRoute) return;
+  const current = getTimeDistance(mainRoute);
+  const controller = new AbortController();
+  detourController = controller;
 
-  // Bind Close Button
-  const closeBtn = document.getElementById('closeSearchBtn');
-  if (closeBtn) closeBtn.onclick = closeSearchResults;
+  try {
+    while (detourQueue.length > 0) {
+      const landmark = detourQueue[0];
+      try {
+        const [route] = await calculateRouteAsync(
+          { RoutingService, GemError },
+          getWaypoints(orderStopsAlongRoute(mainRoute, [...stops, landmark])),
+          new RoutePreferences({}),
+          { signal: controller.signal }
+        );
+        if (controller.signal.aborted) return;
+        const withStop = getTimeDistance(route);
+        detours.set(landmark, {
+          distance: Math.max(0, withStop.distance - current.distance),
+          duration: Math.max(0, withStop.duration - current.duration),
+        });
+      } catch (error) {
+        if (error instanceof RoutingError && error.isCancelled) return;
+        detours.set(landmark, null);
+      }
+      detourQueue = detourQueue.filter((queued) => queued !== landmark);
+      resultList.refresh();
+    }
+  } finally {
+    if (detourController === controller) detourController = null;
+  }
+}
+
+// The detours depend on the current route, so they are dropped when it changes
+function resetDetours() {
+  detourController?.abort();
+  detourController = null;
+  detourQueue = [];
+  detours = new Map();
+}
+
+function showSearchResults() {
+  const results = [...candidates.keys()];
+  searchResultsTitle.textContent = `Search Results (${results.length})`;
+  resultList.setResults(results);
 }
 
 function closeSearchResults() {
+  searchId++;
+  resetDetours();
   searchResultsPanel.style.transform = 'translateX(-105%)';
-  map?.deactivateHighlight();
+  resultList.clear();
 }
 
 // Helpers
-function getRouteLabel(route: Route): string {
+function getTimeDistance(route: Route): { distance: number; duration: number } {
   const timeDistance = route.getTimeDistance();
-  const totalDistance = timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
-  const totalDuration = timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
-  return `${convertDistance(totalDistance)}\n${convertDuration(totalDuration)}`;
+  return {
+    distance: timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM,
+    duration: timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS,
+  };
+}
+
+function getRouteLabel(route: Route): string {
+  const { distance, duration } = getTimeDistance(route);
+  return `${convertDistance(distance)}\n${convertDuration(duration)}`;
 }
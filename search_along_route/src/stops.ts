@@ -0,0 +1,132 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import {
+  GemError,
+  GenericCategories,
+  GenericCategory,
+  Landmark,
+  Route,
+  SearchPreferences,
+  SearchService,
+} from '@magiclane/maps-sdk';
+import { getDistanceBetween, LatLngLike } from '../../shared';
+
+export type StopCategory = 'fuel' | 'food' | 'parking' | 'evCharging';
+
+// Generic categories searched for each kind of stop, matched by their names
+export const STOP_CATEGORIES: Record<StopCategory, { label: string; pattern: RegExp }> = {
+  fuel: { label: 'Fuel', pattern: /gas station|fuel|petrol/i },
+  food: { label: 'Food', pattern: /food|restaurant/i },
+  parking: { label: 'Parking', pattern: /^parking/i },
+  evCharging: { label: 'EV charging', pattern: /^(?!.*bike).*charging/i },
+};
+
+// Maximum distances of a stop from the route offered to the user, in meters
+export const LATERAL_DISTANCES = [250, 500, 1000, 2000, 5000];
+export const DEFAULT_LATERAL_DISTANCE = 1000;
+
+// A result found along the route
+export interface StopCandidate {
+  landmark: Landmark;
+  routeDistance: number; // m from the start, along the route
+  lateralDistance: number; // m from the closest point of the route
+}
+
+// What adding a stop costs: the route through it minus the current route
+export interface StopDetour {
+  distance: number; // m
+  duration: number; // s
+}
+
+// Spacing of the points used to measure the distance of the results from the route
+const ROUTE_SAMPLE_STEP_M = 250;
+
+interface RouteSample extends LatLngLike {
+  distance: number; // m from the start
+}
+
+function getRouteDistance(route: Route): number {
+  const timeDistance = route.getTimeDistance();
+  return timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
+}
+
+function sampleRoute(route: Route): RouteSample[] {
+  const totalDistance = getRouteDistance(route);
+  const samples: RouteSample[] = [];
+  for (let distance = 0; distance <= totalDistance; distance += ROUTE_SAMPLE_STEP_M) {
+    const coordinates = route.getCoordinateOnRoute(Math.round(distance));
+    samples.push({ distance, latitude: coordinates.latitude, longitude: coordinates.longitude });
+  }
+  return samples;
+}
+
+function getClosestSample(
+  samples: RouteSample[],
+  position: LatLngLike
+): { sample: RouteSample; distance: number } {
+  return samples
+    .map((sample) => ({ sample, distance: getDistanceBetween(sample, position) }))
+    .reduce((best, candidate) => (candidate.distance < best.distance ? candidate : best));
+}
+
+// Stops in the order they are passed along the route
+export function orderStopsAlongRoute(route: Route, stops: Landmark[]): Landmark[] {
+  const samples = sampleRoute(route);
+  if (samples.length === 0) return stops;
+  return stops
+    .map((stop) => ({
+      stop,
+      position: getClosestSample(samples, stop.coordinates).sample.distance,
+    }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ stop }) => stop);
+}
+
+// Place the results along the route
+export function getStopCandidates(route: Route, landmarks: Landmark[]): StopCandidate[] {
+  const samples = sampleRoute(route);
+  if (samples.length === 0) return [];
+  return landmarks.map((landmark) => {
+    const closest = getClosestSample(samples, landmark.coordinates);
+    return {
+      landmark,
+      routeDistance: closest.sample.distance,
+      lateralDistance: closest.distance,
+    };
+  });
+}
+
+function getCategories(stopCategories: StopCategory[]): GenericCategory[] {
+  const genericCategories: GenericCategory[] = GenericCategories.categories ?? [];
+  return genericCategories.filter((category) =>
+    stopCategories.some((stopCategory) => STOP_CATEGORIES[stopCategory].pattern.test(category.name))
+  );
+}
+
+// Points of interest along the route; without categories every kind of POI is searched
+export function searchStops(route: Route, stopCategories: StopCategory[]): Promise<Landmark[]> {
+  const preferences = SearchPreferences.create({
+    maxMatches: 100,
+    searchMapPOIs: true,
+    searchAddresses: false,
+  });
+  const categories = getCategories(stopCategories);
+  // None of the selected kinds of stops is available in the map data
+  if (stopCategories.length > 0 && categories.length === 0) return Promise.resolve([]);
+  categories.forEach((category) => {
+    preferences.landmarks?.addStoreCategoryId(category.landmarkStoreId, category.id);
+  });
+
+  return new Promise((resolve) => {
+    SearchService.searchAlongRoute({
+      route,
+      preferences,
+      onCompleteCallback: (err: GemError, results: Landmark[]) => {
+        resolve(err === GemError.success ? results : []);
+      },
+    });
+  });
+}
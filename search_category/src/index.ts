@@ -16,18 +16,18 @@ import {
   HighlightOptions,
   AddressField,
   GemIcon,
+  ImageFileFormat,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS } from '../../shared';
+import { GEMKIT_TOKEN, showMessage, ICONS, ResultList } from '../../shared';
 
 let map: GemMap | null = null;
 let selectedCategories: LandmarkCategory[] = [];
-let searchResults: Landmark[] = [];
 let categories: LandmarkCategory[] = [];
 
 // UI References
 let sidebarPanel: HTMLDivElement;
 let searchBtn: HTMLButtonElement;
-let resultsContainer: HTMLDivElement;
+let resultList: ResultList<Landmark, HighlightRenderSettings>;
 let searchInput: HTMLInputElement;
 
 window.addEventListener('DOMContentLoaded', async () => {
@@ -144,11 +144,18 @@ function createSidebar() {
   resultsLabel.style.cssText = `padding: 10px 20px 5px 20px; border-top: 1px solid #eee;`;
   sidebarPanel.appendChild(resultsLabel);
 
-  resultsContainer = document.createElement('div');
-  resultsContainer.style.cssText = `
-    flex: 1; overflow-y: auto; padding: 10px 20px; background: #fff;
-  `;
-  sidebarPanel.appendChild(resultsContainer);
+  resultList = new ResultList(
+    { Landmark, AddressField, ImageFileFormat, HighlightRenderSettings, HighlightOptions, GemIcon },
+    {
+      getMap: () => map,
+      onSelect: (landmark) => {
+        showMessage(`Selected: ${landmark.name}`);
+        // On mobile-ish layouts, maybe close sidebar. For desktop, keep it open.
+        if (window.innerWidth < 600) toggleSidebar(false);
+      },
+    }
+  );
+  sidebarPanel.appendChild(resultList.element);
 
   document.body.appendChild(sidebarPanel);
 }
@@ -188,37 +195,6 @@ function renderCategories() {
   });
 }
 
-function renderResults() {
-  resultsContainer.innerHTML = '';
-
-  if (searchResults.length === 0) {
-    resultsContainer.innerHTML = `<div style="text-align:center; color:#999; margin-top:20px;">No results found.</div>`;
-    return;
-  }
-
-  searchResults.forEach((lmk) => {
-    const item = document.createElement('div');
-    item.style.cssText = `
-            padding: 12px; margin-bottom: 8px; border: 1px solid #eee; border-radius: 8px;
-            cursor: pointer; transition: background 0.2s; display: flex; gap: 12px;
-        `;
-
-    item.innerHTML = `
-            <div style="margin-top:2px;">${ICONS.pin}</div>
-            <div>
-                <div style="font-weight:600; color:#333; font-size:14px;">${lmk.name}</div>
-                <div style="color:#666; font-size:12px; margin-top:2px;">${getFormattedDistance(lmk)} • ${getAddress(lmk)}</div>
-            </div>
-        `;
-
-    item.onmouseenter = () => (item.style.background = '#f5f5f5');
-    item.onmouseleave = () => (item.style.background = '#fff');
-    item.onclick = () => selectSearchResult(lmk);
-
-    resultsContainer.appendChild(item);
-  });
-}
-
 function performSearch(text: string) {
   if (!map) return;
 
@@ -265,62 +241,10 @@ function performSearch(text: string) {
     onCompleteCallback: (err: GemError, results: Landmark[]) => {
       if (err !== GemError.success) {
         showMessage('No results found');
-        searchResults = [];
-        renderResults();
+        resultList.setResults([], coords);
         return;
       }
-      searchResults = results;
-      renderResults();
+      resultList.setResults(results, coords);
     },
   });
 }
-
-function getFormattedDistance(landmark: Landmark): string {
-  try {
-    const dist = landmark.extraInfo?.getByKey?.('gmSearchResultDistance') || 0;
-    const km = (dist / 1000).toFixed(1);
-    return `${km} km`;
-  } catch {
-    return '';
-  }
-}
-
-function getAddress(landmark: Landmark): string {
-  try {
-    const addressInfo = landmark.address || {};
-    const street = addressInfo.getField?.(AddressField.streetName) || '';
-    const city = addressInfo.getField?.(AddressField.city) || '';
-
-    if (!street && !city) return '';
-    return [street, city].filter(Boolean).join(', ');
-  } catch {
-    return '';
-  }
-}
-
-function selectSearchResult(landmark: Landmark) {
-  if (!map) return;
-  // Highlight the landmark
-  try {
-    const renderSettings = new HighlightRenderSettings({
-      options: new Set([HighlightOptions.showLandmark]),
-    });
-    // Ensure icon
-    try {
-      landmark.setImageFromIcon(GemIcon.searchResultsPin);
-    } catch (e) {}
-
-    map.activateHighlight([landmark], { renderSettings });
-  } catch {
-    map.activateHighlight([landmark]);
-  }
-
-  // Center map on landmark
-  if (landmark.coordinates) {
-    map.centerOnCoordinates(landmark.coordinates, { zoomLevel: 70 });
-  }
-  showMessage(`Selected: ${landmark.name}`);
-
-  // On mobile-ish layouts, maybe close sidebar. For desktop, keep it open.
-  if (window.innerWidth < 600) toggleSidebar(false);
-}
@@ -16,19 +16,16 @@ import {
   HighlightOptions,
   AddressField,
   GemIcon,
+  ImageFileFormat,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, styleButton } from '../../shared';
-
-// Pin icon with red fill for search results
-const PIN_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 0 24 24" width="20" fill="#f44336"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/></svg>`;
+import { GEMKIT_TOKEN, showMessage, ICONS, styleButton, ResultList } from '../../shared';
 
 let map: GemMap | null = null;
-let searchResults: Landmark[] = [];
 
 // UI References
 let sidebarPanel: HTMLDivElement;
 let searchBtn: HTMLButtonElement;
-let resultsContainer: HTMLDivElement;
+let resultList: ResultList<Landmark, HighlightRenderSettings>;
 let latInput: HTMLInputElement;
 let lngInput: HTMLInputElement;
 
@@ -127,11 +124,18 @@ function createSidebar() {
   sidebarPanel.appendChild(resultsLabel);
 
   // --- Results List ---
-  resultsContainer = document.createElement('div');
-  resultsContainer.style.cssText = `
-    flex: 1; overflow-y: auto; padding: 10px 20px; background: #fff;
-  `;
-  sidebarPanel.appendChild(resultsContainer);
+  resultList = new ResultList(
+    { Landmark, AddressField, ImageFileFormat, HighlightRenderSettings, HighlightOptions, GemIcon },
+    {
+      getMap: () => map,
+      onSelect: (landmark) => {
+        showMessage(`Selected: ${landmark.name}`);
+        // Close sidebar on mobile
+        if (window.innerWidth < 600) toggleSidebar(false);
+      },
+    }
+  );
+  sidebarPanel.appendChild(resultList.element);
 
   document.body.appendChild(sidebarPanel);
 }
@@ -142,37 +146,6 @@ function toggleSidebar(show: boolean) {
   }
 }
 
-function renderResults() {
-  resultsContainer.innerHTML = '';
-
-  if (searchResults.length === 0) {
-    resultsContainer.innerHTML = `<div style="text-align:center; color:#999; margin-top:20px;">No results found.</div>`;
-    return;
-  }
-
-  searchResults.forEach((lmk) => {
-    const item = document.createElement('div');
-    item.style.cssText = `
-            padding: 12px; margin-bottom: 8px; border: 1px solid #eee; border-radius: 8px;
-            cursor: pointer; transition: background 0.2s; display: flex; gap: 12px;
-        `;
-
-    item.innerHTML = `
-            <div style="margin-top:2px;">${PIN_ICON}</div>
-            <div>
-                <div style="font-weight:600; color:#333; font-size:14px;">${lmk.name || 'Unknown Location'}</div>
-                <div style="color:#666; font-size:12px; margin-top:2px;">${getFormattedDistance(lmk)} • ${getAddress(lmk)}</div>
-            </div>
-        `;
-
-    item.onmouseenter = () => (item.style.background = '#f5f5f5');
-    item.onmouseleave = () => (item.style.background = '#fff');
-    item.onclick = () => selectSearchResult(lmk);
-
-    resultsContainer.appendChild(item);
-  });
-}
-
 function performSearch(lat: string, lng: string) {
   if (!map) return;
   const latitude = parseFloat(lat);
@@ -197,63 +170,10 @@ function performSearch(lat: string, lng: string) {
     onCompleteCallback: (err: GemError, results: Landmark[]) => {
       if (err !== GemError.success) {
         showMessage('No results found');
-        searchResults = [];
-        renderResults();
+        resultList.setResults([], coords);
         return;
       }
-      searchResults = results;
-      renderResults();
+      resultList.setResults(results, coords);
     },
   });
 }
-
-function getFormattedDistance(landmark: Landmark): string {
-  try {
-    const dist = landmark.extraInfo?.getByKey?.('gmSearchResultDistance') || 0;
-    const km = (dist / 1000).toFixed(1);
-    return `${km} km`;
-  } catch {
-    return '';
-  }
-}
-
-function getAddress(landmark: Landmark): string {
-  try {
-    const addressInfo = landmark.address || {};
-    const street = addressInfo.getField(AddressField.streetName) || '';
-    const city = addressInfo.getField(AddressField.city) || '';
-
-    if (!street && !city) return 'Address not available';
-    return [street, city].filter(Boolean).join(', ');
-  } catch {
-    return '';
-  }
-}
-
-function selectSearchResult(landmark: Landmark) {
-  if (!map) return;
-  // Highlight the landmark
-  try {
-    const renderSettings = new HighlightRenderSettings({
-      options: new Set([HighlightOptions.showLandmark]),
-    });
-
-    // Ensure icon
-    try {
-      landmark.setImageFromIcon(GemIcon.searchResultsPin);
-    } catch (e) {}
-
-    map.activateHighlight([landmark], { renderSettings });
-  } catch {
-    map.activateHighlight([landmark]);
-  }
-  // Center map on landmark
-  if (landmark.coordinates) {
-    map.centerOnCoordinates(landmark.coordinates, { zoomLevel: 70 });
-  }
-  // Show message
-  showMessage(`Selected: ${landmark.name}`);
-
-  // Close sidebar on mobile
-  if (window.innerWidth < 600) toggleSidebar(false);
-}
@@ -276,23 +276,29 @@ export function registerCleanupOnUnload(manager: EventListenerManager): void {
  * Create a debounced event listener
  * @param callback - The callback to debounce
  * @param delay - Delay in milliseconds
- * @returns Debounced callback
+ * @returns Debounced callback, with a cancel() method that drops the pending call
  */
 export function debounce<T extends (...args: unknown[]) => void>(
   callback: T,
   delay: number
-): (...args: Parameters<T>) => void {
+): ((...args: Parameters<T>) => void) & { cancel: () => void } {
   let timeoutId: number | undefined;
 
-  return (...args: Parameters<T>) => {
+  const cancel = () => {
     if (timeoutId !== undefined) {
       window.clearTimeout(timeoutId);
+      timeoutId = undefined;
     }
+  };
+
+  const debounced = (...args: Parameters<T>) => {
+    cancel();
     timeoutId = window.setTimeout(() => {
-      callback(...args);
       timeoutId = undefined;
+      callback(...args);
     }, delay);
   };
+  return Object.assign(debounced, { cancel });
 }
 
 /**
@@ -0,0 +1,82 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+/**
+ * File utilities for exporting and importing data in the browser
+ */
+
+/**
+ * Save text content as a file through the browser download mechanism
+ * @param content - File content
+ * @param filename - Suggested file name (e.g., "route.gpx")
+ * @param mimeType - MIME type of the content (default: 'text/plain')
+ */
+export function downloadFile(content: string, filename: string, mimeType = 'text/plain'): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Let the user pick a file and read it as text
+ * @param accept - Accepted file types (e.g., ".gpx,.ndjson")
+ * @returns Promise resolving with the file name and content, or null if nothing was picked
+ */
+export function pickTextFile(accept = ''): Promise<{ name: string; content: string } | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      try {
+        resolve({ name: file.name, content: await file.text() });
+      } catch (error) {
+        reject(error);
+      }
+    };
+    input.addEventListener('cancel', () => resolve(null));
+
+    input.click();
+  });
+}
+
+/**
+ * Escape a value for inclusion in XML text or attributes
+ * @param value - Raw text
+ * @returns Escaped text
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape a value for inclusion in a CSV field, quoting it when it contains separators
+ * @param value - Raw text
+ * @returns Escaped field
+ */
+export function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -43,6 +43,19 @@ export function convertWh(value: number): string {
   return `${value} wh`;
 }
 
+/**
+ * Convert watt-hours to a human-readable energy string
+ * @param value - Energy in watt-hours
+ * @returns Formatted string (e.g., "12.5 kWh" or "150 Wh")
+ */
+export function convertEnergy(value: number): string {
+  if (value >= 1000) {
+    return `${(value / 1000).toFixed(1)} kWh`;
+  } else {
+    return `${Math.round(value)} Wh`;
+  }
+}
+
 /**
  * Convert meters per second to kilometers per hour
  * @param metersPerSecond - Speed in m/s
@@ -62,3 +75,12 @@ export function mpsToKmph(metersPerSecond: number): number {
 export function formatCoordinates(latitude: number, longitude: number, precision = 6): string {
   return `${latitude.toFixed(precision)}, ${longitude.toFixed(precision)}`;
 }
+
+/**
+ * Format the time of day of a date, such as an arrival time
+ * @param date - The date to format
+ * @returns Hours and minutes in the user's locale (e.g., "14:05")
+ */
+export function formatClockTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
@@ -15,6 +15,11 @@
  * - Styles: CSS utilities and style presets
  * - Initialization: SDK initialization with error handling
  * - Events: Event listener management with automatic cleanup
+ * - Routing: Promise-based route calculation with cancellation and typed errors
+ * - Files: Downloading exported data and reading user-picked files
+ * - Tracks: Position track serialization to and from GPX and NDJSON
+ * - Navigation: Navigation and simulation sessions with typed events and progress
+ * - Results: Search result list with sorting, filtering and map clustering
  */
 
 export { GEMKIT_TOKEN } from './token';
@@ -25,3 +30,8 @@ export * from './types';
 export * from './styles';
 export * from './initialization';
 export * from './events';
+export * from './routing';
+export * from './files';
+export * from './tracks';
+export * from './navigation';
+export * from './results';
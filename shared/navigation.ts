@@ -0,0 +1,302 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+/**
+ * Navigation and simulation session with typed events and progress reporting
+ */
+
+/** The time and distance fields shared by the SDK TimeDistance objects */
+export interface TimeDistanceLike {
+  unrestrictedTimeS: number;
+  restrictedTimeS: number;
+  unrestrictedDistanceM: number;
+  restrictedDistanceM: number;
+}
+
+/** The subset of the SDK NavigationInstruction used to compute the progress */
+export interface NavigationInstructionLike {
+  timeDistanceToNextTurn: TimeDistanceLike;
+  remainingTravelTimeDistance: TimeDistanceLike;
+}
+
+/** Progress along the route, as reported by the latest navigation instruction */
+export interface NavigationProgress {
+  /** Distance to the next turn, in meters */
+  distanceToNextTurn: number;
+  /** Time to the next turn, in seconds */
+  durationToNextTurn: number;
+  /** Distance left to the destination, in meters */
+  remainingDistance: number;
+  /** Time left to the destination, in seconds */
+  remainingDuration: number;
+  /** Estimated time of arrival */
+  eta: Date;
+}
+
+/** Callbacks accepted by NavigationService.startSimulation and startNavigation */
+export interface NavigationCallbacks<TRoute, TInstruction, TLandmark> {
+  onNavigationInstruction?: (instruction: TInstruction) => void;
+  onDestinationReached?: (landmark: TLandmark) => void;
+  onError?: (error: number) => void;
+  onBetterRouteDetected?: (
+    route: TRoute,
+    travelTime: number,
+    delay: number,
+    timeGain: number
+  ) => void;
+  onBetterRouteInvalidated?: () => void;
+  onBetterRouteRejected?: (reason: number) => void;
+  onRouteUpdated?: (route: TRoute) => void;
+}
+
+/** The subset of the SDK NavigationService used by the navigation session */
+export interface NavigationServiceLike<TRoute, TInstruction, TLandmark, THandler> {
+  startSimulation(
+    route: TRoute,
+    listener: undefined,
+    callbacks: NavigationCallbacks<TRoute, TInstruction, TLandmark>
+  ): THandler | null;
+  startNavigation(
+    route: TRoute,
+    listener: undefined,
+    callbacks: NavigationCallbacks<TRoute, TInstruction, TLandmark>
+  ): THandler | null;
+  cancelNavigation(handler: THandler): void;
+}
+
+/** SDK classes required by the navigation session */
+export interface NavigationSDK<TRoute, TInstruction, TLandmark, THandler> {
+  NavigationService: NavigationServiceLike<TRoute, TInstruction, TLandmark, THandler>;
+}
+
+/** Events emitted by a navigation session, with their arguments */
+export interface NavigationSessionEvents<TRoute, TInstruction, TLandmark> {
+  /** A new instruction was received */
+  instruction: [instruction: TInstruction, progress: NavigationProgress];
+  /** The destination of the route was reached */
+  destinationReached: [landmark: TLandmark];
+  /** The SDK ended the navigation, with the GemError value it reported */
+  error: [error: number];
+  /** A faster route was found; times are in seconds */
+  betterRoute: [route: TRoute, travelTime: number, delay: number, timeGain: number];
+  /** The better route found earlier is no longer valid */
+  betterRouteInvalidated: [];
+  /** The check for a better route failed, with the GemError value it reported */
+  betterRouteRejected: [reason: number];
+  /** The route being followed was recalculated */
+  routeUpdated: [route: TRoute];
+}
+
+type Listener<TArgs extends unknown[]> = (...args: TArgs) => void;
+
+function getTotalDistance(timeDistance: TimeDistanceLike): number {
+  return timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM;
+}
+
+function getTotalDuration(timeDistance: TimeDistanceLike): number {
+  return timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
+}
+
+/**
+ * Compute the progress along the route from a navigation instruction
+ * @param instruction - The navigation instruction
+ * @param now - Timestamp the ETA is computed from (default: now)
+ * @returns Distances in meters, durations in seconds and the ETA
+ */
+export function getNavigationProgress(
+  instruction: NavigationInstructionLike,
+  now = Date.now()
+): NavigationProgress {
+  const nextTurn = instruction.timeDistanceToNextTurn;
+  const remaining = instruction.remainingTravelTimeDistance;
+  const remainingDuration = getTotalDuration(remaining);
+  return {
+    distanceToNextTurn: getTotalDistance(nextTurn),
+    durationToNextTurn: getTotalDuration(nextTurn),
+    remainingDistance: getTotalDistance(remaining),
+    remainingDuration,
+    eta: new Date(now + remainingDuration * 1000),
+  };
+}
+
+/**
+ * NavigationSession - Runs one navigation or simulation at a time
+ *
+ * Callbacks from a navigation that was stopped or replaced are ignored, so
+ * listeners only hear about the current one.
+ *
+ * Usage:
+ * ```typescript
+ * const navigation = new NavigationSession({ NavigationService });
+ *
+ * navigation.on('instruction', (instruction, progress) => {
+ *   etaLabel.textContent = formatClockTime(progress.eta);
+ * });
+ * navigation.on('error', (error) => showMessage(`Navigation ended: ${GemError[error]}`));
+ *
+ * navigation.startSimulation(route);
+ *
+ * // Cancel the navigation
+ * navigation.stop();
+ * ```
+ */
+export class NavigationSession<
+  TRoute,
+  TInstruction extends NavigationInstructionLike,
+  TLandmark,
+  THandler,
+> {
+  private readonly NavigationService: NavigationServiceLike<
+    TRoute,
+    TInstruction,
+    TLandmark,
+    THandler
+  >;
+  private handler: THandler | null = null;
+  private lastInstruction: TInstruction | null = null;
+  private lastProgress: NavigationProgress | null = null;
+  private listeners: {
+    [K in keyof NavigationSessionEvents<TRoute, TInstruction, TLandmark>]?: Array<
+      Listener<NavigationSessionEvents<TRoute, TInstruction, TLandmark>[K]>
+    >;
+  } = {};
+
+  /**
+   * @param sdk - The NavigationService from the SDK
+   */
+  constructor(sdk: NavigationSDK<TRoute, TInstruction, TLandmark, THandler>) {
+    this.NavigationService = sdk.NavigationService;
+  }
+
+  /** Whether a navigation or simulation is running */
+  get isActive(): boolean {
+    return this.handler !== null;
+  }
+
+  /** The latest instruction of the running navigation */
+  get instruction(): TInstruction | null {
+    return this.lastInstruction;
+  }
+
+  /** The progress reported by the latest instruction */
+  get progress(): NavigationProgress | null {
+    return this.lastProgress;
+  }
+
+  /**
+   * Simulate driving along a route, replacing the running navigation
+   * @param route - The route to follow
+   * @returns Whether the simulation started
+   */
+  startSimulation(route: TRoute): boolean {
+    return this.start(route, true);
+  }
+
+  /**
+   * Navigate along a route using the current position, replacing the running navigation
+   * @param route - The route to follow
+   * @returns Whether the navigation started
+   */
+  startNavigation(route: TRoute): boolean {
+    return this.start(route, false);
+  }
+
+  /** Cancel the running navigation, if any */
+  stop(): void {
+    const handler = this.handler;
+    this.reset();
+    // The SDK reports the cancellation through onError, which is ignored now
+    if (handler !== null) this.NavigationService.cancelNavigation(handler);
+  }
+
+  /**
+   * Listen to a session event
+   * @param event - Event name
+   * @param listener - Called with the event arguments
+   * @returns A function to remove this listener
+   */
+  on<K extends keyof NavigationSessionEvents<TRoute, TInstruction, TLandmark>>(
+    event: K,
+    listener: Listener<NavigationSessionEvents<TRoute, TInstruction, TLandmark>[K]>
+  ): () => void {
+    let listeners = this.listeners[event];
+    if (!listeners) {
+      listeners = [];
+      this.listeners[event] = listeners;
+    }
+    listeners.push(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   * @param event - Event name
+   * @param listener - The listener to remove
+   */
+  off<K extends keyof NavigationSessionEvents<TRoute, TInstruction, TLandmark>>(
+    event: K,
+    listener: Listener<NavigationSessionEvents<TRoute, TInstruction, TLandmark>[K]>
+  ): void {
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+    const index = listeners.indexOf(listener);
+    if (index !== -1) listeners.splice(index, 1);
+  }
+
+  private emit<K extends keyof NavigationSessionEvents<TRoute, TInstruction, TLandmark>>(
+    event: K,
+    ...args: NavigationSessionEvents<TRoute, TInstruction, TLandmark>[K]
+  ): void {
+    // Copy, so listeners can remove themselves while being called
+    [...(this.listeners[event] ?? [])].forEach((listener) => listener(...args));
+  }
+
+  private reset(): void {
+    this.handler = null;
+    this.lastInstruction = null;
+    this.lastProgress = null;
+  }
+
+  private start(route: TRoute, simulation: boolean): boolean {
+    this.stop();
+
+    let handler: THandler | null = null;
+    const isCurrent = () => handler !== null && handler === this.handler;
+    const callbacks: NavigationCallbacks<TRoute, TInstruction, TLandmark> = {
+      onNavigationInstruction: (instruction) => {
+        if (!isCurrent()) return;
+        this.lastInstruction = instruction;
+        this.lastProgress = getNavigationProgress(instruction);
+        this.emit('instruction', instruction, this.lastProgress);
+      },
+      onDestinationReached: (landmark) => {
+        if (isCurrent()) this.emit('destinationReached', landmark);
+      },
+      onError: (error) => {
+        if (!isCurrent()) return;
+        this.reset();
+        this.emit('error', error);
+      },
+      onBetterRouteDetected: (betterRoute, travelTime, delay, timeGain) => {
+        if (isCurrent()) this.emit('betterRoute', betterRoute, travelTime, delay, timeGain);
+      },
+      onBetterRouteInvalidated: () => {
+        if (isCurrent()) this.emit('betterRouteInvalidated');
+      },
+      onBetterRouteRejected: (reason) => {
+        if (isCurrent()) this.emit('betterRouteRejected', reason);
+      },
+      onRouteUpdated: (updatedRoute) => {
+        if (isCurrent()) this.emit('routeUpdated', updatedRoute);
+      },
+    };
+
+    handler = simulation
+      ? this.NavigationService.startSimulation(route, undefined, callbacks)
+      : this.NavigationService.startNavigation(route, undefined, callbacks);
+    this.handler = handler;
+    return handler !== null;
+  }
+}
@@ -0,0 +1,706 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+/**
+ * Search result list with sorting, filtering and map clustering
+ */
+
+import { ICONS } from './icons';
+import { convertDistance } from './formatters';
+import { applyStyles, mergeStyles, styles } from './styles';
+import { createCard } from './ui';
+
+/** A WGS84 position */
+export interface LatLngLike {
+  latitude: number;
+  longitude: number;
+}
+
+/** The subset of an SDK Landmark used by the result list */
+export interface ResultLandmarkLike {
+  name: string;
+  coordinates: LatLngLike;
+  categories?: Array<{ name: string }>;
+  extraInfo?: { getByKey?(key: string): unknown } | null;
+  address?: { getField?(field: number): string } | null;
+  getImage?(size: { width: number; height: number }, format: number): Uint8Array | null | undefined;
+  setImageFromIcon?(icon: number): void;
+}
+
+/** Options accepted by the highlight methods of the map */
+export interface HighlightOptionsLike<TRenderSettings> {
+  renderSettings?: TRenderSettings;
+  highlightId?: number;
+}
+
+/** The subset of the SDK GemMap used by the result list */
+export interface ResultMapLike<TLandmark, TRenderSettings> {
+  activateHighlight(landmarks: TLandmark[], options?: HighlightOptionsLike<TRenderSettings>): void;
+  deactivateHighlight(options?: { highlightId?: number }): void;
+  centerOnCoordinates(coordinates: LatLngLike, options?: { zoomLevel?: number }): void;
+}
+
+/** SDK classes required by the result list */
+export interface ResultListSDK<TLandmark, TRenderSettings> {
+  Landmark: { withLatLng(position: LatLngLike): TLandmark };
+  AddressField: { streetName: number; city: number; country: number };
+  ImageFileFormat: { png: number };
+  HighlightRenderSettings: new (settings: { options: Set<number> }) => TRenderSettings;
+  HighlightOptions: { showLandmark: number; noFading: number };
+  GemIcon: { searchResultsPin: number };
+}
+
+/** Orders the result list can be sorted in */
+export type ResultSort = 'distance' | 'name' | 'category';
+
+/** Filters applied to the result list */
+export interface ResultFilter {
+  /** Category name to keep, null for all categories */
+  category: string | null;
+  /** Maximum distance in meters, null for any distance */
+  maxDistance: number | null;
+}
+
+/** Results grouped around a common center */
+export interface ResultCluster<TLandmark> {
+  center: LatLngLike;
+  landmarks: TLandmark[];
+}
+
+/** Options for the result list */
+export interface ResultListOptions<TLandmark, TRenderSettings> {
+  /** Returns the map the results are shown on, null while it is not ready */
+  getMap: () => ResultMapLike<TLandmark, TRenderSettings> | null;
+  /** Called after a result was picked from the list and centered on the map */
+  onSelect?: (landmark: TLandmark) => void;
+  /** Extra line shown under the address of a result */
+  getDetails?: (landmark: TLandmark) => string;
+  /** Called with the visible results in list order after new results, sorting or filtering */
+  onUpdate?: (visible: TLandmark[]) => void;
+  /** Distance shown, sorted and filtered on; defaults to the distance from the reference */
+  getDistance?: (landmark: TLandmark) => number | null;
+  /** Maximum distances offered by the distance filter, in meters (default: RESULT_DISTANCE_FILTERS) */
+  distanceFilters?: number[];
+  /** Maximum distance selected initially, in meters (default: any distance) */
+  maxDistance?: number;
+  /** Visible results above which nearby ones are grouped on the map (default: 15) */
+  clusterThreshold?: number;
+  /** Distance in meters within which results join a cluster (default: 300) */
+  clusterRadius?: number;
+  /** Zoom level used when centering on a result (default: 70) */
+  zoomLevel?: number;
+}
+
+/** Highlight id of the results shown on the map */
+export const RESULTS_HIGHLIGHT_ID = 1;
+/** Highlight id of the selected result */
+export const SELECTION_HIGHLIGHT_ID = 2;
+
+/** Maximum distances offered by the distance filter, in meters */
+export const RESULT_DISTANCE_FILTERS = [500, 1000, 2000, 5000, 10000, 25000];
+
+const EARTH_RADIUS_M = 6371000;
+const OTHER_CATEGORY = 'Other';
+
+/**
+ * Great-circle distance between two positions
+ * @param from - First position
+ * @param to - Second position
+ * @returns Distance in meters
+ */
+export function getDistanceBetween(from: LatLngLike, to: LatLngLike): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Distance to a search result
+ * @param landmark - The search result
+ * @param reference - Position to measure from; without it the distance reported by the search is used
+ * @returns Distance in meters, or null when it is not known
+ */
+export function getResultDistance(
+  landmark: ResultLandmarkLike,
+  reference?: LatLngLike | null
+): number | null {
+  if (reference) return getDistanceBetween(reference, landmark.coordinates);
+  try {
+    const distance = Number(landmark.extraInfo?.getByKey?.('gmSearchResultDistance'));
+    return distance > 0 ? distance : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Street, city and country of a search result
+ * @param AddressField - The AddressField enum from the SDK
+ * @param landmark - The search result
+ * @returns Comma separated address, empty when not available
+ */
+export function getResultAddress(
+  AddressField: ResultListSDK<unknown, unknown>['AddressField'],
+  landmark: ResultLandmarkLike
+): string {
+  try {
+    const address = landmark.address;
+    return [AddressField.streetName, AddressField.city, AddressField.country]
+      .map((field) => address?.getField?.(field) || '')
+      .filter(Boolean)
+      .join(', ');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Name of the first category of a search result
+ * @param landmark - The search result
+ * @returns Category name, "Other" when the result has none
+ */
+export function getResultCategory(landmark: ResultLandmarkLike): string {
+  return landmark.categories?.[0]?.name || OTHER_CATEGORY;
+}
+
+/**
+ * Sort search results, results without a known distance go last
+ * @param landmarks - Results to sort
+ * @param sort - Sort order
+ * @param getDistance - Distance to a result in meters, null when not known
+ * @returns A sorted copy of the results
+ */
+export function sortResults<TLandmark extends ResultLandmarkLike>(
+  landmarks: TLandmark[],
+  sort: ResultSort,
+  getDistance: (landmark: TLandmark) => number | null = (landmark) => getResultDistance(landmark)
+): TLandmark[] {
+  const distances = new Map(
+    landmarks.map((landmark) => [landmark, getDistance(landmark) ?? Infinity])
+  );
+  const byDistance = (a: TLandmark, b: TLandmark) => distances.get(a)! - distances.get(b)! || 0;
+  const byName = (a: TLandmark, b: TLandmark) => (a.name || '').localeCompare(b.name || '');
+
+  return [...landmarks].sort((a, b) => {
+    switch (sort) {
+      case 'distance':
+        return byDistance(a, b) || byName(a, b);
+      case 'name':
+        return byName(a, b) || byDistance(a, b);
+      case 'category':
+        return getResultCategory(a).localeCompare(getResultCategory(b)) || byDistance(a, b);
+    }
+  });
+}
+
+/**
+ * Keep the search results matching a filter
+ * @param landmarks - Results to filter
+ * @param filter - Category and distance filter
+ * @param getDistance - Distance to a result in meters, null when not known
+ * @returns The matching results, in their original order
+ */
+export function filterResults<TLandmark extends ResultLandmarkLike>(
+  landmarks: TLandmark[],
+  filter: ResultFilter,
+  getDistance: (landmark: TLandmark) => number | null = (landmark) => getResultDistance(landmark)
+): TLandmark[] {
+  return landmarks.filter((landmark) => {
+    if (filter.category !== null && getResultCategory(landmark) !== filter.category) return false;
+    if (filter.maxDistance === null) return true;
+    const distance = getDistance(landmark);
+    return distance !== null && distance <= filter.maxDistance;
+  });
+}
+
+/**
+ * Group results lying close to each other. Each result joins the first cluster whose
+ * center is within the radius, and the center moves to the mean of its results.
+ * @param landmarks - Results to group
+ * @param radius - Distance in meters within which results join a cluster
+ * @returns Clusters, single results form clusters of their own
+ */
+export function clusterResults<TLandmark extends ResultLandmarkLike>(
+  landmarks: TLandmark[],
+  radius: number
+): ResultCluster<TLandmark>[] {
+  const clusters: ResultCluster<TLandmark>[] = [];
+  landmarks.forEach((landmark) => {
+    const cluster = clusters.find(
+      (candidate) => getDistanceBetween(candidate.center, landmark.coordinates) <= radius
+    );
+    if (!cluster) {
+      clusters.push({
+        center: {
+          latitude: landmark.coordinates.latitude,
+          longitude: landmark.coordinates.longitude,
+        },
+        landmarks: [landmark],
+      });
+      return;
+    }
+    const count = cluster.landmarks.push(landmark);
+    cluster.center = {
+      latitude:
+        cluster.center.latitude + (landmark.coordinates.latitude - cluster.center.latitude) / count,
+      longitude:
+        cluster.center.longitude +
+        (landmark.coordinates.longitude - cluster.center.longitude) / count,
+    };
+  });
+  return clusters;
+}
+
+/**
+ * ResultList - Sortable and filterable list of search results kept in sync with the map
+ *
+ * The visible results are highlighted on the map, grouped into clusters when there are
+ * many of them, and the selected result gets a highlight of its own.
+ *
+ * Usage:
+ * ```typescript
+ * const resultList = new ResultList(
+ *   { Landmark, AddressField, ImageFileFormat, HighlightRenderSettings, HighlightOptions, GemIcon },
+ *   { getMap: () => map, onSelect: (landmark) => showMessage(`Selected: ${landmark.name}`) }
+ * );
+ * sidebar.appendChild(resultList.element);
+ *
+ * resultList.setResults(results);
+ * ```
+ */
+export class ResultList<TLandmark extends ResultLandmarkLike, TRenderSettings> {
+  /** Root element holding the toolbar and the list */
+  readonly element: HTMLDivElement;
+
+  private readonly sdk: ResultListSDK<TLandmark, TRenderSettings>;
+  private readonly options: ResultListOptions<TLandmark, TRenderSettings>;
+  private readonly sortSelect: HTMLSelectElement;
+  private readonly categorySelect: HTMLSelectElement;
+  private readonly distanceSelect: HTMLSelectElement;
+  private readonly summary: HTMLDivElement;
+  private readonly list: HTMLDivElement;
+  private results: TLandmark[] = [];
+  private reference: LatLngLike | null = null;
+  private readonly getDistance = (landmark: TLandmark): number | null =>
+    this.options.getDistance
+      ? this.options.getDistance(landmark)
+      : getResultDistance(landmark, this.reference);
+  private sort: ResultSort = 'distance';
+  private filter: ResultFilter = { category: null, maxDistance: null };
+  private selected: TLandmark | null = null;
+  // Rows of the visible results and the one highlighted by the mouse or the arrow keys
+  private items: HTMLDivElement[] = [];
+  private activeIndex = -1;
+  private emptyText = 'No results found.';
+  // Object URLs of the result images, released when the results are replaced
+  private imageUrls = new Map<TLandmark, string | null>();
+
+  /**
+   * @param sdk - The SDK classes used to read and highlight the results
+   * @param options - Map access, selection callback and clustering options
+   */
+  constructor(
+    sdk: ResultListSDK<TLandmark, TRenderSettings>,
+    options: ResultListOptions<TLandmark, TRenderSettings>
+  ) {
+    this.sdk = sdk;
+    this.options = options;
+
+    this.element = document.createElement('div');
+    applyStyles(this.element, {
+      display: 'flex',
+      flexDirection: 'column',
+      flex: '1',
+      minHeight: '0',
+    });
+
+    const toolbar = document.createElement('div');
+    applyStyles(toolbar, {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '6px',
+      padding: '10px 20px 0 20px',
+    });
+    this.sortSelect = this.createSelect(toolbar, 'Sort results');
+    this.sortSelect.innerHTML = `
+      <option value="distance">By distance</option>
+      <option value="name">By name</option>
+      <option value="category">By category</option>
+    `;
+    this.sortSelect.onchange = () => {
+      this.sort = this.sortSelect.value as ResultSort;
+      const visible = this.visibleResults;
+      this.render(visible);
+      this.options.onUpdate?.(visible);
+    };
+    this.categorySelect = this.createSelect(toolbar, 'Filter by category');
+    this.categorySelect.onchange = () => {
+      this.filter.category = this.categorySelect.value || null;
+      this.update();
+    };
+    this.distanceSelect = this.createSelect(toolbar, 'Filter by distance');
+    this.distanceSelect.innerHTML = [
+      `<option value="">Any distance</option>`,
+      ...(options.distanceFilters ?? RESULT_DISTANCE_FILTERS).map(
+        (distance) => `<option value="${distance}">Within ${convertDistance(distance)}</option>`
+      ),
+    ].join('');
+    this.filter.maxDistance = options.maxDistance ?? null;
+    this.distanceSelect.value = options.maxDistance ? String(options.maxDistance) : '';
+    this.distanceSelect.onchange = () => {
+      this.filter.maxDistance = this.distanceSelect.value
+        ? Number(this.distanceSelect.value)
+        : null;
+      this.update();
+    };
+    this.element.appendChild(toolbar);
+
+    this.summary = document.createElement('div');
+    applyStyles(this.summary, mergeStyles(styles.textSmall, { padding: '6px 20px 0 20px' }));
+    this.element.appendChild(this.summary);
+
+    this.list = document.createElement('div');
+    applyStyles(this.list, { flex: '1', overflowY: 'auto', padding: '10px 20px' });
+    this.element.appendChild(this.list);
+
+    this.render();
+  }
+
+  /** The results passing the filters, in list order */
+  get visibleResults(): TLandmark[] {
+    return sortResults(
+      filterResults(this.results, this.filter, this.getDistance),
+      this.sort,
+      this.getDistance
+    );
+  }
+
+  /** The result highlighted by the mouse or the arrow keys */
+  get activeResult(): TLandmark | null {
+    return this.activeIndex === -1 ? null : (this.visibleResults[this.activeIndex] ?? null);
+  }
+
+  /**
+   * Move the highlighted row through the visible results, wrapping around at the ends
+   * @param step - 1 for the next row, -1 for the previous one
+   */
+  moveActive(step: number): void {
+    if (this.items.length === 0) return;
+    this.setActive((this.activeIndex + step + this.items.length) % this.items.length);
+  }
+
+  /**
+   * Show new results, keeping the sort order and the distance filter
+   * @param results - The search results
+   * @param reference - Position distances are measured from; without it the distance
+   *   reported by the search is used
+   */
+  setResults(results: TLandmark[], reference: LatLngLike | null = null): void {
+    this.releaseImages();
+    this.results = results;
+    this.reference = reference;
+    this.selected = null;
+    this.filter.category = null;
+    this.emptyText = 'No results found.';
+    this.options.getMap()?.deactivateHighlight({ highlightId: SELECTION_HIGHLIGHT_ID });
+    this.updateCategories();
+    this.update();
+  }
+
+  /**
+   * Replace the list with a message, for example while searching
+   * @param text - Message shown instead of the results
+   */
+  showMessage(text: string): void {
+    this.clear();
+    this.emptyText = text;
+    this.render();
+  }
+
+  /** Remove the results from the list and the map */
+  clear(): void {
+    this.releaseImages();
+    this.results = [];
+    this.selected = null;
+    this.filter.category = null;
+    this.updateCategories();
+    const map = this.options.getMap();
+    map?.deactivateHighlight({ highlightId: RESULTS_HIGHLIGHT_ID });
+    map?.deactivateHighlight({ highlightId: SELECTION_HIGHLIGHT_ID });
+    this.render();
+  }
+
+  /**
+   * Select a result: highlight it, center the map on it and mark it in the list
+   * @param landmark - The result to select
+   */
+  select(landmark: TLandmark): void {
+    this.selected = landmark;
+    const map = this.options.getMap();
+    if (map) {
+      map.activateHighlight([this.getMapLandmark(landmark)], {
+        renderSettings: this.createRenderSettings(true),
+        highlightId: SELECTION_HIGHLIGHT_ID,
+      });
+      map.centerOnCoordinates(landmark.coordinates, { zoomLevel: this.options.zoomLevel ?? 70 });
+    }
+    this.render();
+    this.options.onSelect?.(landmark);
+  }
+
+  /** Render the rows again, for example after the details of some results changed */
+  refresh(): void {
+    const activeIndex = this.activeIndex;
+    this.render();
+    if (activeIndex !== -1) this.setActive(activeIndex);
+  }
+
+  private createSelect(parent: HTMLElement, title: string): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.title = title;
+    applyStyles(select, {
+      minWidth: '0',
+      padding: '6px',
+      border: '1px solid #ddd',
+      borderRadius: '6px',
+      fontSize: '12px',
+      background: '#fff',
+    });
+    parent.appendChild(select);
+    return select;
+  }
+
+  private createRenderSettings(selected: boolean): TRenderSettings {
+    const { HighlightRenderSettings, HighlightOptions } = this.sdk;
+    return new HighlightRenderSettings({
+      options: new Set(
+        selected
+          ? [HighlightOptions.showLandmark, HighlightOptions.noFading]
+          : [HighlightOptions.showLandmark]
+      ),
+    });
+  }
+
+  // Results without an image are shown on the map as a pin copy, the result itself is not changed
+  private getMapLandmark(landmark: TLandmark): TLandmark {
+    if (this.getImageUrl(landmark)) return landmark;
+    return this.createPinLandmark(landmark.coordinates, landmark.name);
+  }
+
+  private createPinLandmark(position: LatLngLike, name: string): TLandmark {
+    const landmark = this.sdk.Landmark.withLatLng(position);
+    landmark.name = name;
+    try {
+      landmark.setImageFromIcon?.(this.sdk.GemIcon.searchResultsPin);
+    } catch {
+      // The landmark keeps the default image
+    }
+    return landmark;
+  }
+
+  private updateCategories(): void {
+    const counts = new Map<string, number>();
+    this.results.forEach((landmark) => {
+      const category = getResultCategory(landmark);
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    });
+    this.categorySelect.innerHTML = '';
+    this.categorySelect.appendChild(new Option('All categories', ''));
+    [...counts.keys()]
+      .sort((a, b) => a.localeCompare(b))
+      .forEach((category) => {
+        this.categorySelect.appendChild(
+          new Option(`${category} (${counts.get(category)})`, category)
+        );
+      });
+    this.categorySelect.value = this.filter.category ?? '';
+  }
+
+  // Filters changed: the map shows the visible results and drops a selection that is hidden now
+  private update(): void {
+    const visible = this.visibleResults;
+    if (this.selected && !visible.includes(this.selected)) {
+      this.selected = null;
+      this.options.getMap()?.deactivateHighlight({ highlightId: SELECTION_HIGHLIGHT_ID });
+    }
+    this.render(visible);
+    this.updateMap(visible);
+    this.options.onUpdate?.(visible);
+  }
+
+  private updateMap(visible: TLandmark[]): void {
+    const map = this.options.getMap();
+    if (!map) return;
+    map.deactivateHighlight({ highlightId: RESULTS_HIGHLIGHT_ID });
+    if (visible.length === 0) return;
+
+    const landmarks = this.isClustered(visible)
+      ? this.getClusters(visible).map((cluster) =>
+          cluster.landmarks.length === 1
+            ? this.getMapLandmark(cluster.landmarks[0])
+            : this.createClusterLandmark(cluster)
+        )
+      : visible.map((landmark) => this.getMapLandmark(landmark));
+    map.activateHighlight(landmarks, {
+      renderSettings: this.createRenderSettings(false),
+      highlightId: RESULTS_HIGHLIGHT_ID,
+    });
+  }
+
+  private isClustered(visible: TLandmark[]): boolean {
+    return visible.length > (this.options.clusterThreshold ?? 15);
+  }
+
+  private getClusters(visible: TLandmark[]): ResultCluster<TLandmark>[] {
+    return clusterResults(visible, this.options.clusterRadius ?? 300);
+  }
+
+  private createClusterLandmark(cluster: ResultCluster<TLandmark>): TLandmark {
+    return this.createPinLandmark(cluster.center, `${cluster.landmarks.length} results`);
+  }
+
+  private setActive(index: number): void {
+    this.activeIndex = index;
+    this.items.forEach((item, itemIndex) => {
+      item.style.background = itemIndex === index ? '#ede7f6' : '#fff';
+    });
+    this.items[index]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  private render(visible = this.visibleResults): void {
+    this.list.innerHTML = '';
+    this.items = [];
+    this.activeIndex = -1;
+
+    if (this.results.length === 0) {
+      this.summary.textContent = '';
+      this.showEmpty(this.emptyText);
+      return;
+    }
+
+    const clusters = this.isClustered(visible) ? this.getClusters(visible).length : 0;
+    this.summary.textContent = [
+      visible.length === this.results.length
+        ? `${this.results.length} results`
+        : `Showing ${visible.length} of ${this.results.length} results`,
+      clusters > 0 ? `${clusters} groups on the map` : '',
+    ]
+      .filter(Boolean)
+      .join(' • ');
+
+    if (visible.length === 0) {
+      this.showEmpty('No results match the filters.');
+      return;
+    }
+    this.items = visible.map((landmark, index) => {
+      const item = this.createItem(landmark);
+      item.onmouseenter = () => this.setActive(index);
+      item.onmouseleave = () => this.setActive(-1);
+      this.list.appendChild(item);
+      return item;
+    });
+  }
+
+  private showEmpty(text: string): void {
+    const emptyState = document.createElement('div');
+    applyStyles(
+      emptyState,
+      mergeStyles(styles.textMuted, { padding: '20px', textAlign: 'center' })
+    );
+    emptyState.textContent = text;
+    this.list.appendChild(emptyState);
+  }
+
+  private createItem(landmark: TLandmark): HTMLDivElement {
+    const item = createCard(() => this.select(landmark));
+    if (landmark === this.selected) item.style.borderColor = '#673ab7';
+
+    const iconDiv = document.createElement('div');
+    applyStyles(iconDiv, mergeStyles(styles.iconContainer, { width: '40px', height: '40px' }));
+    const imageUrl = this.getImageUrl(landmark);
+    if (imageUrl) {
+      const img = document.createElement('img');
+      img.src = imageUrl;
+      applyStyles(img, { width: '100%', height: '100%', objectFit: 'contain' });
+      iconDiv.appendChild(img);
+    } else {
+      iconDiv.innerHTML = ICONS.pin;
+    }
+
+    const contentDiv = document.createElement('div');
+    applyStyles(contentDiv, { flex: '1', minWidth: '0' });
+
+    const nameEl = document.createElement('div');
+    applyStyles(nameEl, {
+      fontWeight: '600',
+      color: '#333',
+      fontSize: '14px',
+      whiteSpace: 'nowrap',
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+    });
+    nameEl.textContent = landmark.name || getResultCategory(landmark);
+    contentDiv.appendChild(nameEl);
+
+    const distance = this.getDistance(landmark);
+    const details = [
+      distance !== null ? convertDistance(distance) : '',
+      getResultCategory(landmark),
+      getResultAddress(this.sdk.AddressField, landmark),
+      this.options.getDetails?.(landmark) ?? '',
+    ].filter(Boolean);
+    const detailsEl = document.createElement('div');
+    applyStyles(
+      detailsEl,
+      mergeStyles(styles.textMuted, {
+        fontSize: '12px',
+        marginTop: '2px',
+        whiteSpace: 'nowrap',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+      })
+    );
+    detailsEl.textContent = details.join(' • ');
+    contentDiv.appendChild(detailsEl);
+
+    item.appendChild(iconDiv);
+    item.appendChild(contentDiv);
+    return item;
+  }
+
+  private getImageUrl(landmark: TLandmark): string | null {
+    if (!this.imageUrls.has(landmark)) {
+      this.imageUrls.set(landmark, this.createImageUrl(landmark));
+    }
+    return this.imageUrls.get(landmark) ?? null;
+  }
+
+  private createImageUrl(landmark: TLandmark): string | null {
+    try {
+      const imageData = landmark.getImage?.(
+        { width: 40, height: 40 },
+        this.sdk.ImageFileFormat.png
+      );
+      if (!imageData || imageData.byteLength === 0) return null;
+      const blob = new Blob([new Uint8Array(imageData.buffer as ArrayBuffer)], {
+        type: 'image/png',
+      });
+      return URL.createObjectURL(blob);
+    } catch {
+      return null;
+    }
+  }
+
+  private releaseImages(): void {
+    this.imageUrls.forEach((url) => {
+      if (url) URL.revokeObjectURL(url);
+    });
+    this.imageUrls.clear();
+  }
+}
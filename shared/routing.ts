@@ -0,0 +1,227 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+/**
+ * Promise-based routing client with cancellation, timeout and typed errors
+ */
+
+/** Error types that can occur during route calculation */
+export enum RoutingErrorType {
+  Cancelled = 'CANCELLED',
+  Timeout = 'TIMEOUT',
+  NoRoute = 'NO_ROUTE',
+  InvalidInput = 'INVALID_INPUT',
+  RouteTooLong = 'ROUTE_TOO_LONG',
+  NetworkError = 'NETWORK_ERROR',
+  RoutingFailed = 'ROUTING_FAILED',
+}
+
+/** Routing error with typed error information */
+export class RoutingError extends Error {
+  constructor(
+    public readonly type: RoutingErrorType,
+    message: string,
+    /** The GemError value reported by the SDK, if any */
+    public readonly code?: number,
+    public readonly originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'RoutingError';
+  }
+
+  /** Whether the calculation was cancelled by the caller */
+  get isCancelled(): boolean {
+    return this.type === RoutingErrorType.Cancelled;
+  }
+}
+
+/** The subset of the SDK RoutingService used by the routing client */
+export interface RoutingServiceLike<TWaypoint, TPreferences, TRoute, THandler> {
+  calculateRoute(
+    waypoints: TWaypoint[],
+    preferences: TPreferences,
+    onComplete: (err: number, routes: TRoute[]) => void
+  ): THandler | null;
+  cancelRoute(handler: THandler): void;
+}
+
+/** The SDK GemError enum, used to resolve error codes to their names */
+export interface GemErrorLookup {
+  readonly success: number;
+  readonly [code: number]: string;
+}
+
+/** SDK classes required by the routing client */
+export interface RoutingSDK<TWaypoint, TPreferences, TRoute, THandler> {
+  RoutingService: RoutingServiceLike<TWaypoint, TPreferences, TRoute, THandler>;
+  GemError: GemErrorLookup;
+}
+
+/** Options for route calculation */
+export interface CalculateRouteOptions {
+  /** Signal used to cancel the calculation */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds, 0 disables it (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Map a GemError value to a routing error
+ * @param GemError - The GemError enum from the SDK
+ * @param code - The error code reported by the SDK
+ * @returns Routing error describing the failure
+ */
+export function toRoutingError(GemError: GemErrorLookup, code: number): RoutingError {
+  const name = (GemError[code] ?? '').toLowerCase();
+
+  if (name === 'cancel') {
+    return new RoutingError(RoutingErrorType.Cancelled, 'Route calculation cancelled.', code);
+  }
+  if (name === 'noroute' || name === 'notfound') {
+    return new RoutingError(
+      RoutingErrorType.NoRoute,
+      'No route found between the selected waypoints.',
+      code
+    );
+  }
+  if (name === 'invalidinput' || name === 'waypointaccess') {
+    return new RoutingError(
+      RoutingErrorType.InvalidInput,
+      'One or more waypoints cannot be reached.',
+      code
+    );
+  }
+  if (name === 'routetoolong') {
+    return new RoutingError(
+      RoutingErrorType.RouteTooLong,
+      'The route is too long to be calculated.',
+      code
+    );
+  }
+  if (name.includes('network') || name.includes('connection')) {
+    return new RoutingError(
+      RoutingErrorType.NetworkError,
+      'Network error occurred. Please check your internet connection.',
+      code
+    );
+  }
+  return new RoutingError(
+    RoutingErrorType.RoutingFailed,
+    `Route calculation failed${name ? ` (${GemError[code]})` : ''}.`,
+    code
+  );
+}
+
+/**
+ * Calculate routes between waypoints
+ *
+ * Usage:
+ * ```typescript
+ * const controller = new AbortController();
+ * try {
+ *   const routes = await calculateRouteAsync(
+ *     { RoutingService, GemError },
+ *     [departure, destination],
+ *     new RoutePreferences({}),
+ *     { signal: controller.signal }
+ *   );
+ * } catch (error) {
+ *   if (error instanceof RoutingError && !error.isCancelled) showMessage(error.message);
+ * }
+ *
+ * // Cancel the calculation
+ * controller.abort();
+ * ```
+ *
+ * @param sdk - The RoutingService and GemError from the SDK
+ * @param waypoints - Departure, intermediate and destination landmarks
+ * @param preferences - Route preferences
+ * @param options - Cancellation and timeout options
+ * @returns Promise resolving with the calculated routes, rejecting with a RoutingError
+ */
+export function calculateRouteAsync<TWaypoint, TPreferences, TRoute, THandler>(
+  sdk: RoutingSDK<TWaypoint, TPreferences, TRoute, THandler>,
+  waypoints: TWaypoint[],
+  preferences: TPreferences,
+  options: CalculateRouteOptions = {}
+): Promise<TRoute[]> {
+  const { RoutingService, GemError } = sdk;
+  const { signal, timeout = 30000 } = options;
+
+  return new Promise<TRoute[]>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RoutingError(RoutingErrorType.Cancelled, 'Route calculation cancelled.'));
+      return;
+    }
+
+    let handler: THandler | null = null;
+    let settled = false;
+    let timeoutId: number | undefined;
+
+    const settle = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      callback();
+    };
+
+    const cancel = (error: RoutingError) => {
+      settle(() => reject(error));
+      // The SDK reports the cancellation through the completion callback, which is ignored now
+      if (handler) RoutingService.cancelRoute(handler);
+    };
+
+    const onAbort = () => {
+      cancel(new RoutingError(RoutingErrorType.Cancelled, 'Route calculation cancelled.'));
+    };
+
+    try {
+      handler = RoutingService.calculateRoute(waypoints, preferences, (err, routes) => {
+        settle(() => {
+          if (err !== GemError.success) {
+            reject(toRoutingError(GemError, err));
+          } else if (!routes || routes.length === 0) {
+            reject(
+              new RoutingError(
+                RoutingErrorType.NoRoute,
+                'No route found between the selected waypoints.',
+                err
+              )
+            );
+          } else {
+            resolve(routes);
+          }
+        });
+      });
+    } catch (error) {
+      settle(() =>
+        reject(
+          new RoutingError(
+            RoutingErrorType.RoutingFailed,
+            'Route calculation could not be started.',
+            undefined,
+            error
+          )
+        )
+      );
+      return;
+    }
+
+    if (settled) return;
+
+    signal?.addEventListener('abort', onAbort);
+    if (timeout > 0) {
+      timeoutId = window.setTimeout(() => {
+        cancel(
+          new RoutingError(
+            RoutingErrorType.Timeout,
+            `Route calculation timed out after ${timeout}ms.`
+          )
+        );
+      }, timeout);
+    }
+  });
+}
@@ -0,0 +1,175 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+/**
+ * Position track serialization to and from GPX and NDJSON
+ */
+
+import { escapeXml } from './files';
+
+/** A single recorded position sample */
+export interface RecordedPosition {
+  /** Milliseconds since epoch */
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  /** Altitude in meters */
+  altitude: number;
+  /** Speed in m/s */
+  speed: number;
+  /** Course in degrees */
+  course: number;
+  /** Horizontal accuracy in meters */
+  accuracy: number;
+}
+
+/** Supported track file formats */
+export type TrackFormat = 'gpx' | 'ndjson';
+
+/**
+ * Serialize positions as a GPX track, keeping speed, course and accuracy as extensions
+ * @param positions - Recorded positions
+ * @param name - Track name
+ * @returns GPX document
+ */
+export function toGpx(positions: RecordedPosition[], name = 'Recorded positions'): string {
+  const points = positions
+    .map(
+      (p) => `      <trkpt lat="${p.latitude}" lon="${p.longitude}">
+        <ele>${p.altitude}</ele>
+        <time>${new Date(p.timestamp).toISOString()}</time>
+        <extensions>
+          <speed>${p.speed}</speed>
+          <course>${p.course}</course>
+          <accuracy>${p.accuracy}</accuracy>
+        </extensions>
+      </trkpt>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Maps SDK TypeScript examples" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <name>${escapeXml(name)}</name>
+    <trkseg>
+${points}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+/**
+ * Serialize positions as newline delimited JSON, one position per line
+ * @param positions - Recorded positions
+ * @returns NDJSON document
+ */
+export function toNdjson(positions: RecordedPosition[]): string {
+  return positions.map((p) => JSON.stringify(p)).join('\n') + '\n';
+}
+
+function readNumber(parent: Element, tagName: string, fallback = 0): number {
+  const value = parseFloat(parent.getElementsByTagName(tagName)[0]?.textContent ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Parse the track points of a GPX document; points without a time are spaced one second apart
+ * @param content - GPX document
+ * @returns Parsed positions
+ */
+export function parseGpx(content: string): RecordedPosition[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GPX file.');
+  }
+
+  const points = Array.from(doc.getElementsByTagName('trkpt'));
+  let previousTimestamp = Date.now();
+
+  return points.map((point) => {
+    const time = Date.parse(point.getElementsByTagName('time')[0]?.textContent ?? '');
+    const timestamp = Number.isFinite(time) ? time : previousTimestamp + 1000;
+    previousTimestamp = timestamp;
+
+    return {
+      timestamp,
+      latitude: parseFloat(point.getAttribute('lat') ?? '0'),
+      longitude: parseFloat(point.getAttribute('lon') ?? '0'),
+      altitude: readNumber(point, 'ele'),
+      speed: readNumber(point, 'speed'),
+      course: readNumber(point, 'course'),
+      accuracy: readNumber(point, 'accuracy'),
+    };
+  });
+}
+
+/**
+ * Parse a newline delimited JSON document with one position per line
+ * @param content - NDJSON document
+ * @returns Parsed positions
+ */
+export function parseNdjson(content: string): RecordedPosition[] {
+  return content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line, index) => {
+      const sample = JSON.parse(line) as Partial<RecordedPosition>;
+      if (typeof sample.latitude !== 'number' || typeof sample.longitude !== 'number') {
+        throw new Error(`Invalid position on line ${index + 1}.`);
+      }
+      return {
+        timestamp: sample.timestamp ?? index * 1000,
+        latitude: sample.latitude,
+        longitude: sample.longitude,
+        altitude: sample.altitude ?? 0,
+        speed: sample.speed ?? 0,
+        course: sample.course ?? 0,
+        accuracy: sample.accuracy ?? 0,
+      };
+    });
+}
+
+/**
+ * Parse a GPX or NDJSON track, picking the format from the file name
+ * @param fileName - Name of the file, used to detect the format
+ * @param content - File content
+ * @returns Positions sorted by timestamp
+ */
+export function parseTrack(fileName: string, content: string): RecordedPosition[] {
+  const positions = fileName.toLowerCase().endsWith('.gpx')
+    ? parseGpx(content)
+    : parseNdjson(content);
+  return positions.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Timestamps for pushing recorded positions into an external data source, which expects
+ * current times like a live source. Recorded times are shifted to start at the moment the
+ * replay starts, so samples keep their recorded spacing even when pushed faster than real time.
+ */
+export class ReplayClock {
+  private offset: number | null = null;
+  private last = 0;
+
+  /** Start over from the current time, e.g. after a seek or when a replay loops */
+  restart() {
+    this.offset = null;
+  }
+
+  /**
+   * Timestamp to push a recorded position with
+   * @param position - Recorded position
+   * @returns Shifted timestamp, never earlier than one already returned
+   */
+  timeOf(position: RecordedPosition): Date {
+    if (this.offset === null) {
+      this.offset = Math.max(Date.now(), this.last + 1) - position.timestamp;
+    }
+    this.last = position.timestamp + this.offset;
+    return new Date(this.last);
+  }
+}
@@ -17,7 +17,6 @@ import {
   NavigationInstruction,
   HighlightRenderSettings,
   HighlightOptions,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
 import {
   GEMKIT_TOKEN,
@@ -26,6 +25,11 @@ import {
   styleButton,
   convertDistance,
   convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+  NavigationSession,
+  NavigationProgress,
+  formatClockTime,
 } from '../../shared';
 
 // Type for screen position coordinates
@@ -36,11 +40,16 @@ interface ScreenPosition {
 
 let map: GemMap | null = null;
 let routes: Route[] | null = null;
-let routingHandler: TaskHandler | null = null;
-let navigationHandler: TaskHandler | null = null;
-let currentInstruction: NavigationInstruction | null = null;
+let routingController: AbortController | null = null;
 let areRoutesBuilt = false;
-let isSimulationActive = false;
+
+// The running simulation, with its latest instruction and progress
+const navigation = new NavigationSession({ NavigationService });
+navigation.on('instruction', () => updateUI());
+navigation.on('error', (error) => {
+  cancelRoute();
+  if (error !== GemError.cancel) showMessage('Simulation stopped');
+});
 
 // UI Elements
 let buildRouteBtn: HTMLButtonElement;
@@ -98,17 +107,17 @@ window.addEventListener('DOMContentLoaded', async () => {
 });
 
 function updateUI() {
-  buildRouteBtn.style.display = !routingHandler && !areRoutesBuilt ? 'flex' : 'none';
+  buildRouteBtn.style.display = !routingController && !areRoutesBuilt ? 'flex' : 'none';
 
   // Show Start button if routes are built but sim is not active
-  startSimBtn.style.display = !isSimulationActive && areRoutesBuilt ? 'flex' : 'none';
+  startSimBtn.style.display = !navigation.isActive && areRoutesBuilt ? 'flex' : 'none';
 
   // Show Stop button if sim is active
-  stopSimBtn.style.display = isSimulationActive ? 'flex' : 'none';
+  stopSimBtn.style.display = navigation.isActive ? 'flex' : 'none';
 
-  if (isSimulationActive && currentInstruction) {
-    showInstructionPanel(currentInstruction);
-    showBottomPanel(currentInstruction);
+  if (navigation.instruction && navigation.progress) {
+    showInstructionPanel(navigation.instruction, navigation.progress);
+    showBottomPanel(navigation.progress);
     showFollowButton();
   } else {
     hidePanels();
@@ -129,8 +138,8 @@ function registerRouteTapCallback() {
   if (!map) return;
   map.registerTouchCallback(async (pos: ScreenPosition) => {
     // If simulation is running, we usually don't want route switching,
-    // but for this demo, we allow it or check !isSimulationActive
-    if (isSimulationActive) return;
+    // but for this demo, we allow it or check !navigation.isActive
+    if (navigation.isActive) return;
 
     await map!.setCursorScreenPosition(pos);
     const selectedRoutes = map!.cursorSelectionRoutes();
@@ -142,7 +151,7 @@ function registerRouteTapCallback() {
   });
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   if (!map) return;
 
   // Paris area
@@ -156,27 +165,31 @@ function onBuildRouteButtonPressed() {
   const routePreferences = new RoutePreferences({});
   showMessage('Calculating route...');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && calculatedRoutes.length > 0) {
-        const routesMap = map?.preferences.routes;
-        calculatedRoutes.forEach((route, index) => {
-          routesMap?.add(route, index === 0, { label: getRouteLabel(route) });
-        });
-        map?.centerOnRoutes({ routes: calculatedRoutes });
-        routes = calculatedRoutes;
-        areRoutesBuilt = true;
-        showMessage('Routes calculated! Tap to select.');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const calculatedRoutes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map?.preferences.routes;
+    calculatedRoutes.forEach((route, index) => {
+      routesMap?.add(route, index === 0, { label: getRouteLabel(route) });
+    });
+    map?.centerOnRoutes({ routes: calculatedRoutes });
+    routes = calculatedRoutes;
+    areRoutesBuilt = true;
+    showMessage('Routes calculated! Tap to select.');
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 function startSimulation() {
@@ -187,33 +200,18 @@ function startSimulation() {
     showMessage('No main route available');
     return;
   }
-  navigationHandler = NavigationService.startSimulation(routesMap.mainRoute, undefined, {
-    onNavigationInstruction: (instruction: NavigationInstruction) => {
-      isSimulationActive = true;
-      currentInstruction = instruction;
-      updateUI();
-    },
-    onError: (error: GemError) => {
-      isSimulationActive = false;
-      cancelRoute();
-      if (error !== GemError.cancel) {
-        stopSimulation();
-      }
-    },
-  });
+  if (!navigation.startSimulation(routesMap.mainRoute)) {
+    showMessage('Simulation could not be started');
+    return;
+  }
   map.startFollowingPosition?.();
-  isSimulationActive = true;
   updateUI();
   showMessage('Simulation started');
 }
 
 function stopSimulation() {
-  if (navigationHandler) {
-    NavigationService.cancelNavigation(navigationHandler);
-    navigationHandler = null;
-  }
+  navigation.stop();
   cancelRoute();
-  isSimulationActive = false;
   areRoutesBuilt = false;
   updateUI();
   showMessage('Simulation stopped');
@@ -228,7 +226,7 @@ function cancelRoute() {
 }
 
 // Modern Top Instruction Card
-function showInstructionPanel(instruction: NavigationInstruction) {
+function showInstructionPanel(instruction: NavigationInstruction, progress: NavigationProgress) {
   if (!instructionPanel) {
     instructionPanel = document.createElement('div');
     instructionPanel.style.cssText = `
@@ -278,14 +276,14 @@ function showInstructionPanel(instruction: NavigationInstruction) {
   // Info
   const infoDiv = document.createElement('div');
   infoDiv.innerHTML = `
-    <div style="font-size:24px; font-weight:700; margin-bottom: 4px;">${getFormattedDistanceToNextTurn(instruction)}</div>
+    <div style="font-size:24px; font-weight:700; margin-bottom: 4px;">${convertDistance(progress.distanceToNextTurn)}</div>
     <div style="font-size:16px; font-weight:400; opacity: 0.9; line-height: 1.3;">${instruction.nextStreetName || 'Follow route'}</div>
   `;
   instructionPanel.appendChild(infoDiv);
 }
 
 // Modern Bottom Status Bar
-function showBottomPanel(instruction: NavigationInstruction) {
+function showBottomPanel(progress: NavigationProgress) {
   if (!bottomPanel) {
     bottomPanel = document.createElement('div');
     bottomPanel.style.cssText = `
@@ -312,17 +310,17 @@ function showBottomPanel(instruction: NavigationInstruction) {
   bottomPanel.innerHTML = `
     <div style="text-align:center;">
         <div style="font-size:12px; color:#888; text-transform:uppercase; font-weight:600;">Time</div>
-        <div style="font-size:18px; font-weight:700; color:#4caf50;">${getFormattedRemainingDuration(instruction)}</div>
+        <div style="font-size:18px; font-weight:700; color:#4caf50;">${convertDuration(progress.remainingDuration)}</div>
     </div>
     <div style="width:1px; height:30px; background:#eee;"></div>
     <div style="text-align:center;">
         <div style="font-size:12px; color:#888; text-transform:uppercase; font-weight:600;">Arrival</div>
-        <div style="font-size:18px; font-weight:700;">${getFormattedETA(instruction)}</div>
+        <div style="font-size:18px; font-weight:700;">${formatClockTime(progress.eta)}</div>
     </div>
     <div style="width:1px; height:30px; background:#eee;"></div>
     <div style="text-align:center;">
         <div style="font-size:12px; color:#888; text-transform:uppercase; font-weight:600;">Distance</div>
-        <div style="font-size:18px; font-weight:700;">${getFormattedRemainingDistance(instruction)}</div>
+        <div style="font-size:18px; font-weight:700;">${convertDistance(progress.remainingDistance)}</div>
     </div>
   `;
 }
@@ -367,35 +365,3 @@ function getRouteLabel(route: Route): string {
   const totalDuration = timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS;
   return `${convertDistance(totalDistance)}\n${convertDuration(totalDuration)}`;
 }
-
-function getFormattedDistanceToNextTurn(instruction: NavigationInstruction): string {
-  const td = instruction.timeDistanceToNextTurn;
-  const totalDistance = td.unrestrictedDistanceM + td.restrictedDistanceM;
-  return convertDistance(totalDistance);
-}
-function getFormattedRemainingDistance(instruction: NavigationInstruction): string {
-  const td = instruction.remainingTravelTimeDistance;
-  const totalDistance = td.unrestrictedDistanceM + td.restrictedDistanceM;
-  return convertDistance(totalDistance);
-}
-function getFormattedRemainingDuration(instruction: NavigationInstruction): string {
-  const td = instruction.remainingTravelTimeDistance;
-  const totalDuration = td.unrestrictedTimeS + td.restrictedTimeS;
-  return convertDuration(totalDuration);
-}
-function getFormattedETA(instruction: NavigationInstruction): string {
-  const td = instruction.remainingTravelTimeDistance;
-  const totalDuration = td.unrestrictedTimeS + td.restrictedTimeS;
-  return getCurrentTime({ additionalSeconds: totalDuration });
-}
-function getCurrentTime({
-  additionalHours = 0,
-  additionalMinutes = 0,
-  additionalSeconds = 0,
-} = {}): string {
-  const now = new Date();
-  const updatedTime = new Date(
-    now.getTime() + additionalHours * 3600000 + additionalMinutes * 60000 + additionalSeconds * 1000
-  );
-  return updatedTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
@@ -14,13 +14,20 @@ import {
   NavigationInstruction,
   TaskHandler,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+} from '../../shared';
 
 let route: Route | null = null;
 let currentInstruction: NavigationInstruction | null = null;
 let areRoutesBuilt = false;
 let isSimulationActive = false;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let navigationHandler: TaskHandler | null = null;
 
 window.addEventListener('DOMContentLoaded', async () => {
@@ -145,7 +152,7 @@ function updateUI() {
   const { buildRouteBtn, startSimBtn, stopSimBtn, statusMsg, panelsContainer } =
     (window as any)._uiRefs || {};
   if (!buildRouteBtn || !startSimBtn || !stopSimBtn || !statusMsg) return;
-  buildRouteBtn.style.display = !routingHandler && !areRoutesBuilt ? 'inline-block' : 'none';
+  buildRouteBtn.style.display = !routingController && !areRoutesBuilt ? 'inline-block' : 'none';
   startSimBtn.style.display = !isSimulationActive && areRoutesBuilt ? 'inline-block' : 'none';
   stopSimBtn.style.display = isSimulationActive ? 'inline-block' : 'none';
   statusMsg.textContent = isSimulationActive
@@ -160,7 +167,7 @@ function updateUI() {
   }
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   const { statusMsg } = (window as any)._uiRefs || {};
   // Departure: Düsseldorf
   const departureLandmark = Landmark.withLatLng({
@@ -174,22 +181,26 @@ function onBuildRouteButtonPressed() {
   });
   const routePreferences = new RoutePreferences({});
   statusMsg.textContent = 'The route is calculating.';
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && routes.length > 0) {
-        route = routes[0];
-        areRoutesBuilt = true;
-        statusMsg.textContent = 'Successfully calculated the route.';
-      } else {
-        statusMsg.textContent = 'Route calculation failed.';
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+    route = routes[0];
+    areRoutesBuilt = true;
+    statusMsg.textContent = 'Successfully calculated the route.';
+  } catch (error) {
+    statusMsg.textContent =
+      error instanceof RoutingError ? error.message : 'Route calculation failed.';
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 function setupUI() {
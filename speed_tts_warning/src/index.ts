@@ -12,22 +12,32 @@ import {
   GemError,
   Route,
   NavigationService,
-  NavigationInstruction,
   PositionService,
   AlarmService,
   AlarmListener,
   Coordinates,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  calculateRouteAsync,
+  RoutingError,
+  NavigationSession,
+} from '../../shared';
 
 // Application State
 let map: GemMap | null = null;
 let ttsEngine: TTSEngine;
 let areRoutesBuilt = false;
-let isSimulationActive = false;
-let routingHandler: TaskHandler | null = null;
-let navigationHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
+const navigation = new NavigationSession({ NavigationService });
+navigation.on('instruction', () => updateUI());
+navigation.on('destinationReached', () => {
+  stopSimulation();
+  showMessage('Destination reached!');
+});
+navigation.on('error', () => stopSimulation());
 let alarmService: AlarmService | null = null;
 let alarmListener: AlarmListener | null = null;
 let currentSpeedLimit: number | null = null;
@@ -59,7 +69,7 @@ window.addEventListener('DOMContentLoaded', async () => {
   const viewId = 2;
   const wrapper = gemKit.createView(viewId, (gemMap: GemMap) => {
     map = gemMap;
-    routingHandler = null;
+    routingController = null;
     areRoutesBuilt = false;
     updateUI();
   });
@@ -155,23 +165,23 @@ function updateSpeedPanel(limit: number) {
 }
 
 function updateUI() {
-  buildRouteBtn.style.display = !routingHandler && !areRoutesBuilt ? 'flex' : 'none';
-  startSimBtn.style.display = !isSimulationActive && areRoutesBuilt ? 'flex' : 'none';
-  stopSimBtn.style.display = isSimulationActive ? 'flex' : 'none';
+  buildRouteBtn.style.display = !routingController && !areRoutesBuilt ? 'flex' : 'none';
+  startSimBtn.style.display = !navigation.isActive && areRoutesBuilt ? 'flex' : 'none';
+  stopSimBtn.style.display = navigation.isActive ? 'flex' : 'none';
 
   if (speedLimitPanel) {
-    if (isSimulationActive && currentSpeedLimit !== null) {
+    if (navigation.isActive && currentSpeedLimit !== null) {
       updateSpeedPanel(currentSpeedLimit);
     } else {
       speedLimitPanel.style.display = 'none';
     }
   }
 
-  if (isSimulationActive) showFollowButton();
+  if (navigation.isActive) showFollowButton();
   else if (followBtn) (followBtn.remove(), (followBtn = null));
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   // Departure: Kassel
   const departureLandmark = Landmark.withCoordinates(
     Coordinates.fromLatLong(51.35416637819253, 9.378580176120199)
@@ -184,26 +194,30 @@ function onBuildRouteButtonPressed() {
   const routePreferences = new RoutePreferences({});
   showMessage('Calculating route...');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map!.preferences.routes;
-        routes.forEach((route: Route, idx: number) => {
-          routesMap.add(route, idx === 0);
-        });
-        map!.centerOnRoutes({ routes });
-        areRoutesBuilt = true;
-        showMessage('Route built successfully.');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map!.preferences.routes;
+    routes.forEach((route: Route, idx: number) => {
+      routesMap.add(route, idx === 0);
+    });
+    map!.centerOnRoutes({ routes });
+    areRoutesBuilt = true;
+    showMessage('Route built successfully.');
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 function startSimulation() {
@@ -233,36 +247,15 @@ function startSimulation() {
 
   alarmService = AlarmService.create(alarmListener);
 
-  navigationHandler = NavigationService.startSimulation(routes.mainRoute, undefined, {
-    onNavigationInstruction: (instruction: NavigationInstruction) => {
-      isSimulationActive = true;
-      updateUI();
-    },
-    onDestinationReached: (landmark: Landmark) => {
-      stopSimulation();
-      cancelRoute();
-      showMessage('Destination reached!');
-    },
-    onError: (error: GemError) => {
-      isSimulationActive = false;
-      cancelRoute();
-      if (error !== GemError.cancel) {
-        stopSimulation();
-      }
-    },
-  });
+  navigation.startSimulation(routes.mainRoute);
 
   map!.startFollowingPosition?.();
-  isSimulationActive = true;
   updateUI();
   showMessage('Simulation started');
 }
 
 function stopSimulation() {
-  if (navigationHandler) {
-    NavigationService.cancelNavigation(navigationHandler);
-    navigationHandler = null;
-  }
+  navigation.stop();
 
   if (alarmService) {
     // Clean up alarm service if SDK supports explicit disposal,
@@ -271,7 +264,6 @@ function stopSimulation() {
   }
 
   cancelRoute();
-  isSimulationActive = false;
   currentSpeedLimit = null;
   updateUI();
   showMessage('Simulation stopped');
@@ -279,10 +271,7 @@ function stopSimulation() {
 
 function cancelRoute() {
   map!.preferences.routes.clear?.();
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  routingController?.abort();
   areRoutesBuilt = false;
   updateUI();
 }
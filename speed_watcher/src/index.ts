@@ -37,6 +37,8 @@ import {
   initializeSDK,
   createMapView,
   EventListenerManager,
+  calculateRouteAsync,
+  RoutingError,
 } from '../../shared';
 
 // Extension for Route for calculating the route label which will be displayed on map
@@ -152,7 +154,7 @@ class FollowPositionButton {
 let map: GemMap | null = null;
 let areRoutesBuilt = false;
 let isSimulationActive = false;
-let routingHandler: TaskHandler | null = null;
+let routingController: AbortController | null = null;
 let navigationHandler: TaskHandler | null = null;
 let currentInstruction: NavigationInstruction | null = null;
 let speedIndicator: SpeedIndicator | null = null;
@@ -171,33 +173,37 @@ function onMapCreated(gemMap: GemMap) {
   map = gemMap;
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   const departureLandmark = Landmark.withCoordinates(Coordinates.fromLatLong(41.898499, 12.526655));
   const destinationLandmark = Landmark.withCoordinates(
     Coordinates.fromLatLong(41.891037, 12.492692)
   );
   const routePreferences = new RoutePreferences({});
   showMessage('Calculating route...');
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, routes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && routes.length > 0) {
-        const routesMap = map!.preferences.routes;
-        routes.forEach((route: Route, idx: number) => {
-          routesMap.add(route, idx === 0, { label: getMapLabel(route) });
-        });
-        map!.centerOnRoutes({ routes });
-        areRoutesBuilt = true;
-        showMessage('Route built successfully!');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const routes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map!.preferences.routes;
+    routes.forEach((route: Route, idx: number) => {
+      routesMap.add(route, idx === 0, { label: getMapLabel(route) });
+    });
+    map!.centerOnRoutes({ routes });
+    areRoutesBuilt = true;
+    showMessage('Route built successfully!');
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 function startSimulation() {
@@ -245,10 +251,7 @@ function stopSimulation() {
 
 function cancelRoute() {
   map!.preferences.routes.clear?.();
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-  }
+  routingController?.abort();
   areRoutesBuilt = false;
   updateUI();
 }
@@ -256,7 +259,7 @@ function cancelRoute() {
 function updateUI() {
   // Button visibility
   if (buildRouteBtn)
-    buildRouteBtn.style.display = !routingHandler && !areRoutesBuilt ? 'flex' : 'none';
+    buildRouteBtn.style.display = !routingController && !areRoutesBuilt ? 'flex' : 'none';
   if (startSimBtn)
     startSimBtn.style.display = !isSimulationActive && areRoutesBuilt ? 'flex' : 'none';
   if (stopSimBtn) stopSimBtn.style.display = isSimulationActive ? 'flex' : 'none';
@@ -335,7 +338,7 @@ window.addEventListener('DOMContentLoaded', async () => {
   const viewId = 1;
   const wrapper = createMapView(gemKit, container, viewId, (gemMap: GemMap) => {
     onMapCreated(gemMap);
-    routingHandler = null;
+    routingController = null;
     areRoutesBuilt = false;
     updateUI();
   });
@@ -16,41 +16,38 @@ import {
   ImageFileFormat,
   HighlightOptions,
   GemIcon,
+  TaskHandler,
 } from '@magiclane/maps-sdk';
 
-import { GEMKIT_TOKEN, showMessage, ICONS } from '../../shared';
+import { GEMKIT_TOKEN, showMessage, ICONS, debounce, ResultList } from '../../shared';
+import { SearchCache, getSearchKey } from './searchCache';
+import { loadRecentSearches, addRecentSearch, clearRecentSearches } from './recentSearches';
+
+const SEARCH_DELAY_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+const CACHE_CAPACITY = 30;
 
 let map: GemMap | null = null;
-let searchResults: Landmark[] = [];
+const searchCache = new SearchCache(CACHE_CAPACITY);
+
+// Handle of the search in flight; the id lets late callbacks of superseded searches be ignored
+let searchHandle: TaskHandler | null = null;
+let searchId = 0;
+
+// Rows of the recent searches list
+let recentItems: HTMLElement[] = [];
+let activeIndex = -1;
+let isShowingRecent = true;
 
 // UI References
 let sidebarPanel: HTMLDivElement;
 let searchBtn: HTMLButtonElement;
-let resultsContainer: HTMLDivElement;
+let recentContainer: HTMLDivElement;
+let resultList: ResultList<Landmark, HighlightRenderSettings>;
+let resultsLabel: HTMLDivElement;
 let searchInput: HTMLInputElement;
 
-// Extension methods for Landmark
-function getAddress(landmark: Landmark): string {
-  try {
-    const addressInfo = landmark.address;
-    const street = addressInfo.getField(AddressField.streetName) || '';
-    const city = addressInfo.getField(AddressField.city) || '';
-    const country = addressInfo.getField(AddressField.country) || '';
-    return [street, city, country].filter(Boolean).join(', ');
-  } catch {
-    return '';
-  }
-}
-
-function getFormattedDistance(landmark: Landmark): string {
-  try {
-    const distance = landmark.extraInfo?.getByKey?.('gmSearchResultDistance') || 0;
-    const km = distance / 1000;
-    return `${km.toFixed(1)} km`;
-  } catch {
-    return '';
-  }
-}
+const runSearch = debounce(() => performSearch(searchInput.value), SEARCH_DELAY_MS);
 
 // UI layout and initialization
 window.addEventListener('DOMContentLoaded', async () => {
@@ -123,35 +120,164 @@ function createSidebar() {
   `;
   searchInput.onfocus = () => (searchInput.style.borderColor = '#673ab7');
   searchInput.onblur = () => (searchInput.style.borderColor = '#ddd');
-  searchInput.onkeydown = (e) => {
-    if (e.key === 'Enter') performSearch(searchInput.value);
+  searchInput.oninput = () => {
+    if (searchInput.value.trim().length < MIN_QUERY_LENGTH) {
+      runSearch.cancel();
+      cancelSearch();
+      renderRecentSearches();
+      return;
+    }
+    runSearch();
   };
-
-  const searchActionBtn = document.createElement('button');
-  searchActionBtn.textContent = 'Go';
-  searchActionBtn.style.cssText = `
-    width: 100%; margin-top: 12px; padding: 10px; background: #673ab7; color: white;
-    border: none; border-radius: 8px; font-weight: 600; cursor: pointer;
-  `;
-  searchActionBtn.onclick = () => performSearch(searchInput.value);
+  searchInput.onkeydown = onSearchKeyDown;
 
   inputContainer.appendChild(searchInput);
-  inputContainer.appendChild(searchActionBtn);
   sidebarPanel.appendChild(inputContainer);
 
   // --- Results List ---
-  const resultsLabel = document.createElement('div');
-  resultsLabel.innerHTML = `<span style="font-weight:600; font-size:13px; text-transform:uppercase; color:#888;">Results</span>`;
-  resultsLabel.style.cssText = `padding: 15px 20px 5px 20px;`;
+  resultsLabel = document.createElement('div');
+  resultsLabel.style.cssText = `
+    padding: 15px 20px 5px 20px; display: flex; justify-content: space-between; align-items: center;
+  `;
   sidebarPanel.appendChild(resultsLabel);
 
-  resultsContainer = document.createElement('div');
-  resultsContainer.style.cssText = `
+  recentContainer = document.createElement('div');
+  recentContainer.style.cssText = `
     flex: 1; overflow-y: auto; padding: 10px 20px; background: #fff;
   `;
-  sidebarPanel.appendChild(resultsContainer);
+  sidebarPanel.appendChild(recentContainer);
+
+  resultList = new ResultList(
+    { Landmark, AddressField, ImageFileFormat, HighlightRenderSettings, HighlightOptions, GemIcon },
+    {
+      getMap: () => map,
+      onSelect: (landmark) => {
+        showMessage(`Selected: ${landmark.name}`);
+        addRecentSearch(searchInput.value);
+        // Always close sidebar on selection
+        toggleSidebar(false);
+      },
+    }
+  );
+  sidebarPanel.appendChild(resultList.element);
 
   document.body.appendChild(sidebarPanel);
+  renderRecentSearches();
+}
+
+function setListLabel(text: string, action?: { label: string; onClick: () => void }) {
+  resultsLabel.innerHTML = `<span style="font-weight:600; font-size:13px; text-transform:uppercase; color:#888;">${text}</span>`;
+  if (action) {
+    const actionBtn = document.createElement('button');
+    actionBtn.textContent = action.label;
+    actionBtn.style.cssText = `
+      background: none; border: none; color: #673ab7; font-size: 12px; font-weight: 600; cursor: pointer;
+    `;
+    actionBtn.onclick = action.onClick;
+    resultsLabel.appendChild(actionBtn);
+  }
+}
+
+// The sidebar shows either the recent searches or the result list
+function showRecentList(show: boolean) {
+  isShowingRecent = show;
+  recentContainer.style.display = show ? 'block' : 'none';
+  resultList.element.style.display = show ? 'none' : 'flex';
+}
+
+function setRecentItems(items: HTMLElement[]) {
+  recentContainer.innerHTML = '';
+  recentItems = items;
+  activeIndex = -1;
+  items.forEach((item, index) => {
+    item.addEventListener('mouseenter', () => setActiveItem(index));
+    recentContainer.appendChild(item);
+  });
+}
+
+function setActiveItem(index: number) {
+  activeIndex = index;
+  recentItems.forEach((item, itemIndex) => {
+    item.style.backgroundColor = itemIndex === activeIndex ? '#ede7f6' : 'transparent';
+  });
+  recentItems[activeIndex]?.scrollIntoView({ block: 'nearest' });
+}
+
+// Arrow keys move through the list, Enter picks the active row or searches right away
+function onSearchKeyDown(e: KeyboardEvent) {
+  switch (e.key) {
+    case 'ArrowDown':
+    case 'ArrowUp': {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      if (!isShowingRecent) {
+        resultList.moveActive(step);
+      } else if (recentItems.length > 0) {
+        setActiveItem((activeIndex + step + recentItems.length) % recentItems.length);
+      }
+      break;
+    }
+    case 'Enter': {
+      e.preventDefault();
+      const activeResult = isShowingRecent ? null : resultList.activeResult;
+      if (activeResult) {
+        resultList.select(activeResult);
+      } else if (isShowingRecent && activeIndex !== -1) {
+        recentItems[activeIndex].click();
+      } else {
+        runSearch.cancel();
+        performSearch(searchInput.value);
+      }
+      break;
+    }
+    case 'Escape':
+      toggleSidebar(false);
+      break;
+  }
+}
+
+function renderRecentSearches() {
+  const recentSearches = loadRecentSearches();
+  resultList.clear();
+  showRecentList(true);
+  setListLabel(
+    'Recent searches',
+    recentSearches.length > 0
+      ? {
+          label: 'Clear',
+          onClick: () => {
+            clearRecentSearches();
+            renderRecentSearches();
+          },
+        }
+      : undefined
+  );
+  if (recentSearches.length === 0) {
+    setRecentItems([]);
+    recentContainer.innerHTML = `<div style="padding: 20px; text-align: center; color: #888;">Start typing to search places</div>`;
+    return;
+  }
+
+  setRecentItems(
+    recentSearches.map((text) => {
+      const item = document.createElement('div');
+      item.style.cssText = `
+        padding: 10px 12px; border-radius: 8px; cursor: pointer; display: flex;
+        align-items: center; gap: 12px; color: #333; font-size: 14px;
+      `;
+      item.innerHTML = `<span style="color:#888; display:flex;">${ICONS.search}</span>`;
+      const label = document.createElement('span');
+      label.textContent = text;
+      item.appendChild(label);
+      item.onclick = () => {
+        searchInput.value = text;
+        runSearch.cancel();
+        performSearch(text);
+        searchInput.focus();
+      };
+      return item;
+    })
+  );
 }
 
 function toggleSidebar(show: boolean) {
@@ -161,8 +287,16 @@ function toggleSidebar(show: boolean) {
   }
 }
 
+function cancelSearch() {
+  searchId++;
+  if (searchHandle !== null) {
+    SearchService.cancelSearch(searchHandle);
+    searchHandle = null;
+  }
+}
+
 async function performSearch(text: string) {
-  if (!text.trim() || !map) return;
+  if (text.trim().length < MIN_QUERY_LENGTH || !map) return;
 
   // Calculate center of current view
   const container = document.getElementById('map-container');
@@ -179,8 +313,18 @@ async function performSearch(text: string) {
     return;
   }
 
-  resultsContainer.innerHTML =
-    '<div style="padding: 20px; text-align: center; color: #888;">Searching...</div>';
+  // A newer search always replaces the one in flight
+  cancelSearch();
+  const id = searchId;
+  const key = getSearchKey(text, coordinates.latitude, coordinates.longitude);
+  const cached = searchCache.get(key);
+  setListLabel('Results');
+  showRecentList(false);
+  if (cached) {
+    resultList.setResults(cached, coordinates);
+    return;
+  }
+  resultList.showMessage('Searching...');
 
   const preferences = SearchPreferences.create({
     maxMatches: 40,
@@ -189,137 +333,27 @@ async function performSearch(text: string) {
   });
 
   return new Promise<void>((resolve) => {
-    SearchService.search({
+    searchHandle = SearchService.search({
       textFilter: text,
       referenceCoordinates: coordinates,
       preferences: preferences,
       onCompleteCallback: (err: GemError, results: Landmark[]) => {
+        if (id !== searchId) {
+          resolve();
+          return;
+        }
+        searchHandle = null;
+
         if (err !== GemError.success) {
-          resultsContainer.innerHTML =
-            '<div style="padding: 20px; text-align: center; color: #888;">No results found</div>';
-          searchResults = [];
+          resultList.setResults([]);
           resolve();
           return;
         }
 
-        searchResults = results;
-        renderSearchResults(resultsContainer);
+        searchCache.set(key, results);
+        resultList.setResults(results, coordinates);
         resolve();
       },
     });
   });
 }
-
-function renderSearchResults(container: HTMLElement) {
-  container.innerHTML = '';
-
-  if (searchResults.length === 0) {
-    container.innerHTML =
-      '<div style="padding: 20px; text-align: center; color: #888;">No results found</div>';
-    return;
-  }
-
-  searchResults.forEach((landmark) => {
-    const resultItem = createSearchResultItem(landmark);
-    container.appendChild(resultItem);
-  });
-}
-
-function createSearchResultItem(landmark: Landmark): HTMLElement {
-  const item = document.createElement('div');
-  item.style.cssText = `
-    padding: 12px; border: 1px solid #eee; border-radius: 8px; cursor: pointer;
-    display: flex; align-items: center; gap: 12px; transition: background-color 0.2s;
-    margin-bottom: 8px;
-  `;
-
-  item.addEventListener('mouseenter', () => (item.style.backgroundColor = '#f5f5f5'));
-  item.addEventListener('mouseleave', () => (item.style.backgroundColor = 'transparent'));
-
-  // Icon container
-  const iconContainer = document.createElement('div');
-  iconContainer.style.cssText = `
-    width: 40px; height: 40px; flex-shrink: 0; display: flex;
-    align-items: center; justify-content: center; background: #f3e5f5; border-radius: 8px; color: #673ab7;
-  `;
-
-  // Try to get actual image, fallback to SVG
-  let hasImage = false;
-  try {
-    const imageData = landmark.getImage({ width: 40, height: 40 }, ImageFileFormat.png);
-    if (imageData && imageData.byteLength > 0) {
-      const img = document.createElement('img');
-      const blob = new Blob([new Uint8Array(imageData.buffer as ArrayBuffer)], {
-        type: 'image/png',
-      });
-      img.src = URL.createObjectURL(blob);
-      img.style.cssText = 'width: 100%; height: 100%; object-fit: contain; border-radius: 6px;';
-      iconContainer.innerHTML = '';
-      iconContainer.style.background = 'transparent';
-      iconContainer.appendChild(img);
-      hasImage = true;
-    }
-  } catch (error) {
-    // Ignore error, use default
-  }
-
-  if (!hasImage) {
-    iconContainer.innerHTML = ICONS.pin;
-  }
-
-  // Text content
-  const textContainer = document.createElement('div');
-  textContainer.style.cssText = 'flex-grow: 1; overflow: hidden;';
-
-  const name = document.createElement('div');
-  name.textContent = landmark.name || 'Unnamed location';
-  name.style.cssText = `
-    font-weight: 600; color: #333; white-space: nowrap; font-size: 14px;
-    overflow: hidden; text-overflow: ellipsis; margin-bottom: 2px;
-  `;
-
-  const details = document.createElement('div');
-  details.innerHTML = `<span style="color:#673ab7; font-weight:500;">${getFormattedDistance(landmark)}</span> • ${getAddress(landmark)}`;
-  details.style.cssText = `
-    font-size: 12px; color: #666; white-space: nowrap;
-    overflow: hidden; text-overflow: ellipsis;
-  `;
-
-  textContainer.appendChild(name);
-  textContainer.appendChild(details);
-  item.appendChild(iconContainer);
-  item.appendChild(textContainer);
-
-  item.onclick = () => selectSearchResult(landmark);
-
-  return item;
-}
-
-async function selectSearchResult(landmark: Landmark) {
-  if (!map) return;
-
-  // Activating the highlight
-  try {
-    const renderSettings = new HighlightRenderSettings({
-      options: new Set([HighlightOptions.showLandmark]),
-    });
-    // Try to ensure icon is set for the map pin if it wasn't fetched earlier
-    try {
-      landmark.setImageFromIcon(GemIcon.searchResultsPin);
-    } catch (e) {}
-
-    map.activateHighlight([landmark], { renderSettings });
-  } catch {
-    map.activateHighlight([landmark]);
-  }
-
-  // Centering the map on the desired coordinates
-  if (landmark.coordinates) {
-    map.centerOnCoordinates(landmark.coordinates, { zoomLevel: 70 });
-  }
-
-  showMessage(`Selected: ${landmark.name}`);
-
-  // Always close sidebar on selection
-  toggleSidebar(false);
-}
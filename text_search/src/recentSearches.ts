@@ -0,0 +1,41 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+const STORAGE_KEY = 'text_search.recent';
+const MAX_RECENT_SEARCHES = 8;
+
+export function loadRecentSearches(): string[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.error('Failed to read the recent searches:', error);
+    return [];
+  }
+}
+
+function saveRecentSearches(searches: string[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
+  } catch (error) {
+    console.error('Failed to save the recent searches:', error);
+  }
+}
+
+// Moves the text to the top of the history, newest first
+export function addRecentSearch(text: string): string[] {
+  const trimmed = text.trim();
+  const searches = loadRecentSearches().filter(
+    (search) => search.toLowerCase() !== trimmed.toLowerCase()
+  );
+  if (trimmed) searches.unshift(trimmed);
+  const updated = searches.slice(0, MAX_RECENT_SEARCHES);
+  saveRecentSearches(updated);
+  return updated;
+}
+
+export function clearRecentSearches() {
+  saveRecentSearches([]);
+}
@@ -0,0 +1,45 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { Landmark } from '@magiclane/maps-sdk';
+
+// Reference points are rounded to about a kilometer, so small pans reuse the results
+const AREA_PRECISION = 2;
+
+export function getSearchKey(text: string, latitude: number, longitude: number): string {
+  return [
+    text.trim().toLowerCase(),
+    latitude.toFixed(AREA_PRECISION),
+    longitude.toFixed(AREA_PRECISION),
+  ].join('|');
+}
+
+/**
+ * Least recently used cache of search results. A Map keeps its keys in insertion
+ * order, so the first key is always the one used longest ago.
+ */
+export class SearchCache {
+  private readonly entries = new Map<string, Landmark[]>();
+
+  constructor(private readonly capacity: number) {}
+
+  get(key: string): Landmark[] | undefined {
+    const results = this.entries.get(key);
+    if (results) {
+      this.entries.delete(key);
+      this.entries.set(key, results);
+    }
+    return results;
+  }
+
+  set(key: string, results: Landmark[]) {
+    this.entries.delete(key);
+    this.entries.set(key, results);
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
@@ -13,22 +13,65 @@ import {
   GemError,
   Route,
   Coordinates,
-  TaskHandler,
 } from '@magiclane/maps-sdk';
-import { GEMKIT_TOKEN, showMessage, ICONS, convertDistance, convertDuration } from '../../shared';
+import {
+  GEMKIT_TOKEN,
+  showMessage,
+  ICONS,
+  convertDistance,
+  convertDuration,
+  calculateRouteAsync,
+  RoutingError,
+  downloadFile,
+  pickTextFile,
+  escapeXml,
+} from '../../shared';
+import {
+  TruckSettings,
+  NamedTruckSettings,
+  TruckField,
+  HazmatClass,
+  TRUCK_FIELDS,
+  TRUCK_PRESETS,
+  HAZMAT_CLASSES,
+  CustomTruckProfiles,
+  readTruckSettings,
+  createTruckProfile,
+  validateTruckSettings,
+  formatHazmat,
+  parseTruckProfilesJson,
+  truckProfilesToJson,
+} from './profiles';
 
 let map: GemMap | null = null;
 let truckProfile: TruckProfile = new TruckProfile();
-let routingHandler: TaskHandler | null = null;
+let truckProfileName = 'Default';
+// The applied settings, including the hazmat classes the TruckProfile cannot hold
+let truckSettings: TruckSettings = readTruckSettings(truckProfile);
+const customProfiles = new CustomTruckProfiles();
+let routingController: AbortController | null = null;
 let routes: Route[] | null = null;
 let settingsSidebar: HTMLDivElement;
 
+// Profile editor state: edits are kept in a draft until applied
+let draftSettings: TruckSettings = { ...truckSettings };
+let draftName = truckProfileName;
+
 // UI References
 let controlsDiv: HTMLDivElement;
 let buildRouteBtn: HTMLButtonElement;
 let cancelRouteBtn: HTMLButtonElement;
 let clearRoutesBtn: HTMLButtonElement;
 let settingsBtn: HTMLButtonElement;
+let profileSelect: HTMLSelectElement;
+let compareSelect: HTMLSelectElement;
+let slidersContainer: HTMLDivElement;
+let hazmatContainer: HTMLDivElement;
+let validationBox: HTMLDivElement;
+let deleteProfileBtn: HTMLButtonElement;
+let applyBtn: HTMLButtonElement;
+let compareBtn: HTMLButtonElement;
+let comparisonPanel: HTMLDivElement | null = null;
 
 // Extension methods for Route
 function getMapLabel(route: Route): string {
@@ -123,60 +166,63 @@ window.addEventListener('DOMContentLoaded', async () => {
 });
 
 function updateUI() {
-  buildRouteBtn.style.display = !routingHandler && !routes ? 'flex' : 'none';
-  cancelRouteBtn.style.display = routingHandler ? 'flex' : 'none';
+  buildRouteBtn.style.display = !routingController && !routes ? 'flex' : 'none';
+  cancelRouteBtn.style.display = routingController ? 'flex' : 'none';
   clearRoutesBtn.style.display = routes ? 'flex' : 'none';
 }
 
-function onBuildRouteButtonPressed() {
-  if (!map) return;
-
+function getWaypoints(): Landmark[] {
   const departureLandmark = Landmark.withCoordinates(Coordinates.fromLatLong(48.87126, 2.33787)); // Paris
   const destinationLandmark = Landmark.withCoordinates(Coordinates.fromLatLong(51.4739, -0.0302)); // London
+  return [departureLandmark, destinationLandmark];
+}
+
+async function onBuildRouteButtonPressed() {
+  if (!map) return;
 
   const routePreferences = new RoutePreferences({ truckProfile });
 
   showMessage('Calculating truck route...');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      routingHandler = null;
-      updateUI();
-
-      if (err === GemError.success && map) {
-        const routesMap = map.preferences.routes;
-        calculatedRoutes.forEach((route, index) => {
-          routesMap.add(route, index === 0, { label: getMapLabel(route) });
-        });
-        map.centerOnRoutes({ routes: calculatedRoutes });
-        routes = calculatedRoutes;
-        updateUI();
-        showMessage('Routes calculated successfully!');
-      } else {
-        showMessage('Failed to calculate route');
-      }
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const calculatedRoutes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      getWaypoints(),
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    if (map) {
+      const routesMap = map.preferences.routes;
+      calculatedRoutes.forEach((route, index) => {
+        routesMap.add(route, index === 0, { label: getMapLabel(route) });
+      });
+      map.centerOnRoutes({ routes: calculatedRoutes });
+      routes = calculatedRoutes;
+      showMessage('Routes calculated successfully!');
+    }
+  } catch (error) {
+    showMessage(error instanceof RoutingError ? error.message : 'Failed to calculate route');
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 function onClearRoutesButtonPressed() {
   if (!map) return;
   map.preferences.routes.clear();
   routes = null;
+  hideComparisonPanel();
   updateUI();
   showMessage('Routes cleared');
 }
 
 function onCancelRouteButtonPressed() {
-  if (routingHandler) {
-    RoutingService.cancelRoute(routingHandler);
-    routingHandler = null;
-    updateUI();
-    showMessage('Route calculation cancelled');
-  }
+  routingController?.abort();
 }
 
 async function registerRouteTapCallback() {
@@ -191,6 +237,281 @@ async function registerRouteTapCallback() {
   });
 }
 
+// --- Side by side comparison of two profiles ---
+
+async function onCompareRoutesButtonPressed() {
+  if (!map || !applyDraftSettings()) return;
+
+  const other = findProfile(compareSelect.value);
+  if (!other) {
+    showMessage('Select a profile to compare with');
+    return;
+  }
+  toggleSettingsSidebar(false);
+
+  map.preferences.routes.clear();
+  routes = null;
+  hideComparisonPanel();
+  showMessage(`Comparing ${truckProfileName} with ${other.name}...`);
+
+  const current: NamedTruckSettings = {
+    name: truckProfileName,
+    settings: truckSettings,
+  };
+  routingController = new AbortController();
+  const { signal } = routingController;
+  updateUI();
+
+  try {
+    const [routesA, routesB] = await Promise.all(
+      [current, other].map((profile) =>
+        calculateRouteAsync(
+          { RoutingService, GemError },
+          getWaypoints(),
+          new RoutePreferences({ truckProfile: createTruckProfile(profile.settings) }),
+          { signal }
+        )
+      )
+    );
+
+    if (map) {
+      const routeA = routesA[0];
+      const routeB = routesB[0];
+      const routesMap = map.preferences.routes;
+      routesMap.add(routeA, true, { label: `A: ${getMapLabel(routeA)}` });
+      routesMap.add(routeB, false, { label: `B: ${getMapLabel(routeB)}` });
+      map.centerOnRoutes({ routes: [routeA, routeB] });
+      routes = [routeA, routeB];
+      showComparisonPanel([
+        { ...current, route: routeA },
+        { ...other, route: routeB },
+      ]);
+    }
+  } catch (error) {
+    // Stop the other calculation when one of them fails
+    routingController?.abort();
+    if (!(error instanceof RoutingError && error.isCancelled)) {
+      showMessage(error instanceof RoutingError ? error.message : 'Failed to calculate route');
+    }
+  } finally {
+    routingController = null;
+    updateUI();
+  }
+}
+
+function showComparisonPanel(entries: Array<NamedTruckSettings & { route: Route }>) {
+  hideComparisonPanel();
+
+  comparisonPanel = document.createElement('div');
+  comparisonPanel.style.cssText = `
+    position: fixed; bottom: 30px; left: 50%; transform: translateX(-50%);
+    background: #fff; border-radius: 12px; padding: 16px 20px; z-index: 2000;
+    box-shadow: 0 4px 20px rgba(0,0,0,0.15); width: min(560px, 90vw);
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+    font-size: 13px; color: #333;
+  `;
+
+  const totals = entries.map((entry) => {
+    const timeDistance = entry.route.getTimeDistance();
+    return {
+      distance: timeDistance.unrestrictedDistanceM + timeDistance.restrictedDistanceM,
+      duration: timeDistance.unrestrictedTimeS + timeDistance.restrictedTimeS,
+    };
+  });
+
+  const cell = (content: string, highlight = false) =>
+    `<td style="padding:4px 8px; ${highlight ? 'color:#e53935; font-weight:600;' : ''}">${content}</td>`;
+
+  let rows = `
+    <tr style="border-bottom:1px solid #eee;">
+      <th style="text-align:left; padding:4px 8px;"></th>
+      <th style="text-align:left; padding:4px 8px;">A: ${escapeXml(entries[0].name)}</th>
+      <th style="text-align:left; padding:4px 8px;">B: ${escapeXml(entries[1].name)}</th>
+    </tr>
+    <tr>${cell('<b>Distance</b>')}${cell(convertDistance(totals[0].distance))}${cell(convertDistance(totals[1].distance))}</tr>
+    <tr>${cell('<b>Duration</b>')}${cell(convertDuration(totals[0].duration))}${cell(convertDuration(totals[1].duration))}</tr>
+  `;
+  // Highlight the settings that differ, they explain why the routes differ
+  TRUCK_FIELDS.forEach((field) => {
+    const a = entries[0].settings[field.property];
+    const b = entries[1].settings[field.property];
+    rows += `<tr>${cell(field.label)}${cell(`${a} ${field.unit}`, a !== b)}${cell(`${b} ${field.unit}`, a !== b)}</tr>`;
+  });
+  const hazmatA = formatHazmat(entries[0].settings.hazmat);
+  const hazmatB = formatHazmat(entries[1].settings.hazmat);
+  rows += `<tr>${cell('Hazmat')}${cell(hazmatA, hazmatA !== hazmatB)}${cell(hazmatB, hazmatA !== hazmatB)}</tr>`;
+
+  const distanceDiff = totals[1].distance - totals[0].distance;
+  const durationDiff = totals[1].duration - totals[0].duration;
+  const summary =
+    Math.abs(distanceDiff) < 1 && Math.abs(durationDiff) < 60
+      ? 'Both profiles get the same route.'
+      : `B is ${convertDistance(Math.abs(distanceDiff))} ${distanceDiff >= 0 ? 'longer' : 'shorter'} and ${convertDuration(Math.abs(durationDiff))} ${durationDiff >= 0 ? 'slower' : 'faster'} than A.`;
+
+  comparisonPanel.innerHTML = `
+    <table style="width:100%; border-collapse:collapse;">${rows}</table>
+    <div style="margin-top:8px; color:#666;">${summary}</div>
+  `;
+  document.body.appendChild(comparisonPanel);
+}
+
+function hideComparisonPanel() {
+  comparisonPanel?.remove();
+  comparisonPanel = null;
+}
+
+// --- Profile editor ---
+
+function findProfile(name: string): NamedTruckSettings | undefined {
+  return TRUCK_PRESETS.find((p) => p.name === name) ?? customProfiles.get(name);
+}
+
+function fillProfileOptions(select: HTMLSelectElement, placeholder: string) {
+  const selected = select.value;
+  select.innerHTML = `<option value="">${placeholder}</option>`;
+
+  const groups: Array<[string, NamedTruckSettings[]]> = [
+    ['Presets', TRUCK_PRESETS],
+    ['Saved profiles', customProfiles.list()],
+  ];
+  groups.forEach(([label, profiles]) => {
+    if (profiles.length === 0) return;
+    const group = document.createElement('optgroup');
+    group.label = label;
+    profiles.forEach((profile) => {
+      const option = document.createElement('option');
+      option.value = profile.name;
+      option.textContent = profile.name;
+      group.appendChild(option);
+    });
+    select.appendChild(group);
+  });
+  select.value = findProfile(selected) ? selected : '';
+}
+
+function refreshProfileSelects() {
+  fillProfileOptions(profileSelect, 'Custom settings');
+  fillProfileOptions(compareSelect, 'Select a profile');
+}
+
+function loadDraft(profile: NamedTruckSettings) {
+  draftSettings = { ...profile.settings };
+  draftName = profile.name;
+  refreshProfileSelects();
+  profileSelect.value = profile.name;
+  renderDraft();
+}
+
+function onDraftChanged() {
+  const errors = validateTruckSettings(draftSettings);
+  validationBox.style.display = errors.length > 0 ? 'block' : 'none';
+  validationBox.innerHTML = errors.map((e) => `<div>${e}</div>`).join('');
+
+  const isValid = errors.length === 0;
+  [applyBtn, compareBtn].forEach((btn) => {
+    btn.disabled = !isValid;
+    btn.style.opacity = isValid ? '1' : '0.5';
+    btn.style.cursor = isValid ? 'pointer' : 'not-allowed';
+  });
+  deleteProfileBtn.style.display = customProfiles.get(profileSelect.value) ? 'flex' : 'none';
+}
+
+// Apply the draft to the profile used for routing; returns false if it is invalid
+function applyDraftSettings(): boolean {
+  if (validateTruckSettings(draftSettings).length > 0) {
+    showMessage('Fix the truck profile errors first');
+    return false;
+  }
+  truckProfile = createTruckProfile(draftSettings);
+  truckSettings = { ...draftSettings };
+  truckProfileName = draftName;
+  return true;
+}
+
+function onSaveProfileButtonPressed() {
+  const name = prompt('Profile name', profileSelect.value || '')?.trim();
+  if (!name) return;
+  if (TRUCK_PRESETS.some((p) => p.name === name)) {
+    showMessage('A preset already uses this name');
+    return;
+  }
+  customProfiles.save({ name, settings: draftSettings });
+  loadDraft({ name, settings: draftSettings });
+  showMessage(`Profile "${name}" saved`);
+}
+
+function onDeleteProfileButtonPressed() {
+  const name = profileSelect.value;
+  if (!customProfiles.get(name) || !confirm(`Delete profile "${name}"?`)) return;
+  customProfiles.remove(name);
+  draftName = 'Custom';
+  refreshProfileSelects();
+  onDraftChanged();
+  showMessage(`Profile "${name}" deleted`);
+}
+
+function onExportProfileButtonPressed() {
+  const name = profileSelect.value || 'Custom';
+  const fileName = name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  downloadFile(
+    truckProfilesToJson([{ name, settings: draftSettings }]),
+    `${fileName}.json`,
+    'application/json'
+  );
+}
+
+async function onImportProfileButtonPressed() {
+  try {
+    const file = await pickTextFile('.json,application/json');
+    if (!file) return;
+    const profiles = parseTruckProfilesJson(file.content);
+    if (profiles.length === 0) return;
+
+    profiles.forEach((profile) => {
+      // Keep presets intact, imported copies are stored next to them
+      const name = TRUCK_PRESETS.some((p) => p.name === profile.name)
+        ? `${profile.name} (imported)`
+        : profile.name;
+      customProfiles.save({ name, settings: profile.settings });
+      profile.name = name;
+    });
+    loadDraft(profiles[0]);
+    showMessage(`Imported ${profiles.length} profile${profiles.length > 1 ? 's' : ''}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid file';
+    showMessage(`Import failed: ${message}`, 5000);
+  }
+}
+
+function createSectionTitle(text: string): HTMLDivElement {
+  const title = document.createElement('div');
+  title.textContent = text;
+  title.style.cssText =
+    'font-size: 12px; font-weight: 700; color: #888; text-transform: uppercase; letter-spacing: 0.5px;';
+  return title;
+}
+
+function createSmallButton(html: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement('button');
+  btn.innerHTML = html;
+  btn.style.cssText = `
+    display: flex; align-items: center; justify-content: center; gap: 4px; flex: 1;
+    padding: 8px; background: #fff; color: #673ab7; border: 1px solid #d1c4e9;
+    border-radius: 8px; font-size: 13px; font-weight: 600; cursor: pointer;
+  `;
+  btn.onclick = onClick;
+  return btn;
+}
+
+function createSelect(): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.style.cssText = `
+    width: 100%; padding: 10px; border: 1px solid #ddd; border-radius: 8px;
+    font-size: 14px; background: #fff; color: #333;
+  `;
+  return select;
+}
+
 function createSettingsSidebar() {
   settingsSidebar = document.createElement('div');
   settingsSidebar.style.cssText = `
@@ -217,44 +538,95 @@ function createSettingsSidebar() {
   header.appendChild(closeBtn);
   settingsSidebar.appendChild(header);
 
-  // Sliders Content
   const content = document.createElement('div');
   content.style.cssText = `flex: 1; overflow-y: auto; padding: 20px; display: flex; flex-direction: column; gap: 24px;`;
 
-  const sliders = [
-    { label: 'Height', property: 'height', min: 180, max: 400, unit: 'cm', step: 1 },
-    { label: 'Length', property: 'length', min: 500, max: 2000, unit: 'cm', step: 10 },
-    { label: 'Width', property: 'width', min: 200, max: 400, unit: 'cm', step: 1 },
-    { label: 'Axle Load', property: 'axleLoad', min: 1500, max: 10000, unit: 'kg', step: 50 },
-    { label: 'Max Speed', property: 'maxSpeed', min: 60, max: 250, unit: 'km/h', step: 5 },
-    { label: 'Total Weight', property: 'mass', min: 3000, max: 50000, unit: 'kg', step: 100 },
-  ];
-
-  sliders.forEach((s) => {
-    content.appendChild(
-      buildSlider(s.label, s.property as keyof TruckProfile, s.min, s.max, s.unit, s.step)
-    );
-  });
+  // Profile selection
+  const profileSection = document.createElement('div');
+  profileSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  profileSection.appendChild(createSectionTitle('Profile'));
+  profileSelect = createSelect();
+  profileSelect.onchange = () => {
+    const profile = findProfile(profileSelect.value);
+    if (profile) loadDraft(profile);
+  };
+  profileSection.appendChild(profileSelect);
+
+  const profileActions = document.createElement('div');
+  profileActions.style.cssText = 'display: flex; gap: 8px;';
+  profileActions.appendChild(createSmallButton('Save', onSaveProfileButtonPressed));
+  deleteProfileBtn = createSmallButton(ICONS.trash, onDeleteProfileButtonPressed);
+  deleteProfileBtn.style.flex = '0 0 40px';
+  profileActions.appendChild(deleteProfileBtn);
+  profileActions.appendChild(
+    createSmallButton(`${ICONS.download} JSON`, onExportProfileButtonPressed)
+  );
+  profileActions.appendChild(
+    createSmallButton(`${ICONS.upload} JSON`, onImportProfileButtonPressed)
+  );
+  profileSection.appendChild(profileActions);
+  content.appendChild(profileSection);
+
+  // Sliders
+  slidersContainer = document.createElement('div');
+  slidersContainer.style.cssText = 'display: flex; flex-direction: column; gap: 24px;';
+  content.appendChild(slidersContainer);
+
+  // Hazardous goods
+  const hazmatSection = document.createElement('div');
+  hazmatSection.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+  hazmatSection.appendChild(createSectionTitle('Hazardous goods'));
+  hazmatContainer = document.createElement('div');
+  hazmatContainer.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; gap: 8px;';
+  hazmatSection.appendChild(hazmatContainer);
+  const hazmatNote = document.createElement('div');
+  hazmatNote.textContent =
+    'Saved with the profile. The SDK truck profile has no hazmat setting, so routes do not change.';
+  hazmatNote.style.cssText = 'font-size: 12px; color: #888;';
+  hazmatSection.appendChild(hazmatNote);
+  content.appendChild(hazmatSection);
+
+  validationBox = document.createElement('div');
+  validationBox.style.cssText = `
+    display: none; padding: 12px; border-radius: 8px; background: #ffebee;
+    color: #c62828; font-size: 13px; line-height: 1.5;
+  `;
+  content.appendChild(validationBox);
+
+  // Comparison
+  const compareSection = document.createElement('div');
+  compareSection.style.cssText =
+    'display: flex; flex-direction: column; gap: 10px; padding-top: 16px; border-top: 1px solid #eee;';
+  compareSection.appendChild(createSectionTitle('Compare routes with'));
+  compareSelect = createSelect();
+  compareSection.appendChild(compareSelect);
+  compareBtn = createSmallButton(`${ICONS.route} Compare Routes`, onCompareRoutesButtonPressed);
+  compareSection.appendChild(compareBtn);
+  content.appendChild(compareSection);
 
   settingsSidebar.appendChild(content);
 
   // Footer Actions
   const footer = document.createElement('div');
   footer.style.cssText = `padding: 20px; border-top: 1px solid #eee; background: #f9f9f9;`;
-  const doneBtn = document.createElement('button');
-  doneBtn.textContent = 'Apply Settings';
-  doneBtn.style.cssText = `
+  applyBtn = document.createElement('button');
+  applyBtn.textContent = 'Apply Settings';
+  applyBtn.style.cssText = `
     width: 100%; padding: 12px; background: #673ab7; color: white;
     border: none; border-radius: 8px; font-weight: 600; cursor: pointer;
   `;
-  doneBtn.onclick = () => {
+  applyBtn.onclick = () => {
+    if (!applyDraftSettings()) return;
     toggleSettingsSidebar(false);
-    showMessage('Truck profile updated');
+    showMessage(`Truck profile updated: ${truckProfileName}`);
   };
-  footer.appendChild(doneBtn);
+  footer.appendChild(applyBtn);
   settingsSidebar.appendChild(footer);
 
   document.body.appendChild(settingsSidebar);
+
+  refreshProfileSelects();
+  renderDraft();
 }
 
 function toggleSettingsSidebar(show: boolean) {
@@ -263,9 +635,50 @@ function toggleSettingsSidebar(show: boolean) {
   }
 }
 
+function renderDraft() {
+  slidersContainer.innerHTML = '';
+  TRUCK_FIELDS.forEach((field) => {
+    slidersContainer.appendChild(
+      buildSlider(field.label, field.property, field.min, field.max, field.unit, field.step)
+    );
+  });
+  hazmatContainer.innerHTML = '';
+  HAZMAT_CLASSES.forEach((hazmatClass) => {
+    hazmatContainer.appendChild(buildHazmatCheckbox(hazmatClass.value, hazmatClass.label));
+  });
+  onDraftChanged();
+}
+
+// The draft no longer matches the selected profile
+function onDraftEdited() {
+  draftName = 'Custom';
+  profileSelect.value = '';
+  onDraftChanged();
+}
+
+function buildHazmatCheckbox(value: HazmatClass, label: string): HTMLElement {
+  const container = document.createElement('label');
+  container.style.cssText =
+    'display: flex; align-items: center; gap: 6px; font-size: 14px; color: #333; cursor: pointer;';
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.checked = draftSettings.hazmat.includes(value);
+  checkbox.style.cssText = 'accent-color: #673ab7; cursor: pointer;';
+  checkbox.onchange = () => {
+    draftSettings.hazmat = checkbox.checked
+      ? [...draftSettings.hazmat, value]
+      : draftSettings.hazmat.filter((v) => v !== value);
+    onDraftEdited();
+  };
+
+  container.append(checkbox, label);
+  return container;
+}
+
 function buildSlider(
   label: string,
-  property: keyof TruckProfile,
+  property: TruckField['property'],
   min: number,
   max: number,
   unit: string,
@@ -273,7 +686,7 @@ function buildSlider(
 ): HTMLElement {
   const container = document.createElement('div');
 
-  const currentValue = Math.max(min, (truckProfile as any)[property] || min);
+  const currentValue = Math.min(max, Math.max(min, draftSettings[property] || min));
 
   // Label Row
   const topRow = document.createElement('div');
@@ -305,8 +718,9 @@ function buildSlider(
 
   slider.oninput = () => {
     const val = parseInt(slider.value);
-    (truckProfile as any)[property] = val;
+    draftSettings[property] = val;
     valueEl.textContent = `${val} ${unit}`;
+    onDraftEdited();
   };
 
   container.appendChild(slider);
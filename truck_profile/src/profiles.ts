@@ -0,0 +1,248 @@
+// SPDX-FileCopyrightText: 2025-2026 Magic Lane International B.V. <info@magiclane.com>
+// SPDX-License-Identifier: Apache-2.0
+//
+// Contact Magic Lane at <info@magiclane.com> for SDK licensing options.
+
+import { TruckProfile } from '@magiclane/maps-sdk';
+
+// Classes of hazardous goods a truck can carry
+export type HazmatClass =
+  'explosive' | 'gas' | 'flammable' | 'toxic' | 'radioactive' | 'corrosive' | 'other';
+
+export const HAZMAT_CLASSES: Array<{ value: HazmatClass; label: string }> = [
+  { value: 'explosive', label: 'Explosives' },
+  { value: 'gas', label: 'Gases' },
+  { value: 'flammable', label: 'Flammable' },
+  { value: 'toxic', label: 'Toxic' },
+  { value: 'radioactive', label: 'Radioactive' },
+  { value: 'corrosive', label: 'Corrosive' },
+  { value: 'other', label: 'Other' },
+];
+
+// Editable TruckProfile values, in the units used by the SDK
+export interface TruckSettings {
+  height: number; // cm
+  length: number; // cm
+  width: number; // cm
+  axleLoad: number; // kg
+  maxSpeed: number; // km/h
+  mass: number; // kg
+  // Hazardous goods on board. TruckProfile has no hazmat field, so they are kept with
+  // the profile but do not change the calculated routes.
+  hazmat: HazmatClass[];
+}
+
+export interface NamedTruckSettings {
+  name: string;
+  settings: TruckSettings;
+}
+
+// TruckProfile properties holding a number
+type NumericTruckProperty = {
+  [K in keyof TruckProfile]: TruckProfile[K] extends number ? K : never;
+}[keyof TruckProfile];
+
+export interface TruckField {
+  label: string;
+  property: keyof TruckSettings & NumericTruckProperty;
+  min: number;
+  max: number;
+  unit: string;
+  step: number;
+}
+
+export const TRUCK_FIELDS: TruckField[] = [
+  { label: 'Height', property: 'height', min: 180, max: 400, unit: 'cm', step: 1 },
+  { label: 'Length', property: 'length', min: 500, max: 2000, unit: 'cm', step: 10 },
+  { label: 'Width', property: 'width', min: 200, max: 400, unit: 'cm', step: 1 },
+  { label: 'Axle Load', property: 'axleLoad', min: 1500, max: 10000, unit: 'kg', step: 50 },
+  { label: 'Max Speed', property: 'maxSpeed', min: 60, max: 250, unit: 'km/h', step: 5 },
+  { label: 'Total Weight', property: 'mass', min: 3000, max: 50000, unit: 'kg', step: 100 },
+];
+
+export const TRUCK_PRESETS: NamedTruckSettings[] = [
+  {
+    name: 'Van',
+    settings: {
+      height: 270,
+      length: 600,
+      width: 210,
+      axleLoad: 2000,
+      maxSpeed: 130,
+      mass: 3500,
+      hazmat: [],
+    },
+  },
+  {
+    name: '7.5 t box truck',
+    settings: {
+      height: 350,
+      length: 850,
+      width: 250,
+      axleLoad: 5000,
+      maxSpeed: 90,
+      mass: 7500,
+      hazmat: [],
+    },
+  },
+  {
+    name: '40 t semi',
+    settings: {
+      height: 400,
+      length: 1650,
+      width: 255,
+      axleLoad: 10000,
+      maxSpeed: 80,
+      mass: 40000,
+      hazmat: [],
+    },
+  },
+  {
+    name: 'Fuel tanker',
+    settings: {
+      height: 400,
+      length: 1650,
+      width: 255,
+      axleLoad: 10000,
+      maxSpeed: 80,
+      mass: 40000,
+      hazmat: ['flammable'],
+    },
+  },
+];
+
+// Most road vehicles have at most this many axles sharing the total mass
+const MAX_AXLES = 5;
+
+const STORAGE_KEY = 'truck_profile.customProfiles';
+
+export function readTruckSettings(profile: TruckProfile): TruckSettings {
+  const settings = { hazmat: [] as HazmatClass[] } as TruckSettings;
+  TRUCK_FIELDS.forEach((field) => {
+    const value = profile[field.property];
+    settings[field.property] = typeof value === 'number' && value > 0 ? value : field.min;
+  });
+  return settings;
+}
+
+export function createTruckProfile(settings: TruckSettings): TruckProfile {
+  const profile = new TruckProfile();
+  TRUCK_FIELDS.forEach((field) => {
+    profile[field.property] = settings[field.property];
+  });
+  return profile;
+}
+
+// Returns the problems found in the settings, empty if they are valid
+export function validateTruckSettings(settings: TruckSettings): string[] {
+  const errors: string[] = [];
+
+  TRUCK_FIELDS.forEach((field) => {
+    const value = settings[field.property];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${field.label} is missing.`);
+    } else if (value < field.min || value > field.max) {
+      errors.push(`${field.label} must be between ${field.min} and ${field.max} ${field.unit}.`);
+    }
+  });
+  if (
+    !Array.isArray(settings.hazmat) ||
+    settings.hazmat.some((value) => !HAZMAT_CLASSES.some((c) => c.value === value))
+  ) {
+    errors.push('Hazardous goods must be known hazmat classes.');
+  }
+  if (errors.length > 0) return errors;
+
+  if (settings.axleLoad > settings.mass) {
+    errors.push('Axle load cannot be higher than the total weight.');
+  }
+  if (settings.mass > settings.axleLoad * MAX_AXLES) {
+    errors.push(
+      `Total weight needs more than ${MAX_AXLES} axles at this axle load; increase the axle load.`
+    );
+  }
+  if (settings.length < settings.width * 2) {
+    errors.push('Length must be at least twice the width.');
+  }
+  return errors;
+}
+
+export function formatHazmat(hazmat: HazmatClass[]): string {
+  const labels = HAZMAT_CLASSES.filter((c) => hazmat.includes(c.value)).map((c) => c.label);
+  return labels.length > 0 ? labels.join(', ') : 'None';
+}
+
+// Profiles saved before hazmat was added carry none
+function withHazmat(settings: TruckSettings): TruckSettings {
+  return { ...settings, hazmat: settings.hazmat ?? [] };
+}
+
+// Parse shared JSON, accepting a single profile or a list of profiles
+export function parseTruckProfilesJson(json: string): NamedTruckSettings[] {
+  const data = JSON.parse(json) as unknown;
+  const items = Array.isArray(data) ? data : [data];
+
+  return items.map((item, index) => {
+    const { name, settings } = (item ?? {}) as Partial<NamedTruckSettings>;
+    if (typeof name !== 'string' || !name.trim() || typeof settings !== 'object') {
+      throw new Error(`Profile ${index + 1} needs a name and settings.`);
+    }
+    const values = withHazmat(settings as TruckSettings);
+    const errors = validateTruckSettings(values);
+    if (errors.length > 0) {
+      throw new Error(`${name}: ${errors[0]}`);
+    }
+    return { name: name.trim(), settings: values };
+  });
+}
+
+export function truckProfilesToJson(profiles: NamedTruckSettings[]): string {
+  return JSON.stringify(profiles.length === 1 ? profiles[0] : profiles, null, 2);
+}
+
+/**
+ * Custom truck profiles saved in localStorage, identified by name.
+ */
+export class CustomTruckProfiles {
+  private profiles: NamedTruckSettings[] = [];
+
+  constructor() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const profiles = stored ? (JSON.parse(stored) as NamedTruckSettings[]) : [];
+      this.profiles = profiles.map((p) => ({ name: p.name, settings: withHazmat(p.settings) }));
+    } catch (error) {
+      console.error('Failed to read the custom truck profiles:', error);
+      this.profiles = [];
+    }
+  }
+
+  list(): NamedTruckSettings[] {
+    return this.profiles;
+  }
+
+  get(name: string): NamedTruckSettings | undefined {
+    return this.profiles.find((p) => p.name === name);
+  }
+
+  // Add a profile, replacing any profile with the same name
+  save(profile: NamedTruckSettings) {
+    this.profiles = this.profiles.filter((p) => p.name !== profile.name);
+    this.profiles.push({ name: profile.name, settings: withHazmat(profile.settings) });
+    this.profiles.sort((a, b) => a.name.localeCompare(b.name));
+    this.persist();
+  }
+
+  remove(name: string) {
+    this.profiles = this.profiles.filter((p) => p.name !== name);
+    this.persist();
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.profiles));
+    } catch (error) {
+      console.error('Failed to save the custom truck profiles:', error);
+    }
+  }
+}
@@ -15,11 +15,14 @@ import {
   Route,
   NavigationService,
   NavigationInstruction,
-  TaskHandler,
   MapSceneObject,
   SceneObjectFileFormat,
 } from '@magiclane/maps-sdk';
 import { GEMKIT_TOKEN } from './token';
+// Imported by module, so the app keeps its own token instead of the shared one
+import { NavigationSession, NavigationProgress } from '../../shared/navigation';
+import { formatClockTime } from '../../shared/formatters';
+import { calculateRouteAsync, RoutingError } from '../../shared/routing';
 
 declare global {
   interface Window {
@@ -38,11 +41,16 @@ const ICONS = {
 
 let map: GemMap | null = null;
 let routes: Route[] | null = null;
-let routingHandler: TaskHandler | null = null;
-let navigationHandler: TaskHandler | null = null;
-let currentInstruction: NavigationInstruction | null = null;
+let routingController: AbortController | null = null;
 let areRoutesBuilt = false;
-let isSimulationActive = false;
+
+// The running simulation, with its latest instruction and progress
+const navigation = new NavigationSession({ NavigationService });
+navigation.on('instruction', () => updateUI());
+navigation.on('error', (error) => {
+  cancelRoute();
+  if (error !== GemError.cancel) showMessage('Simulation stopped');
+});
 
 // UI Elements
 let buildRouteBtn: HTMLButtonElement;
@@ -250,9 +258,9 @@ window.addEventListener('DOMContentLoaded', async () => {
 });
 
 function updateUI() {
-  const showBuild = !routingHandler && !areRoutesBuilt;
-  const showStart = !isSimulationActive && areRoutesBuilt;
-  const showStop = isSimulationActive;
+  const showBuild = !routingController && !areRoutesBuilt;
+  const showStart = !navigation.isActive && areRoutesBuilt;
+  const showStop = navigation.isActive;
 
   buildRouteBtn.style.display = showBuild ? 'flex' : 'none';
   startSimBtn.style.display = showStart ? 'flex' : 'none';
@@ -264,9 +272,9 @@ function updateUI() {
   else if (showStart) setTimeout(() => startSimBtn.focus(), 100);
   else if (showStop) setTimeout(() => stopSimBtn.focus(), 100);
 
-  if (isSimulationActive && currentInstruction) {
-    showInstructionPanel(currentInstruction);
-    showBottomPanel(currentInstruction);
+  if (navigation.instruction && navigation.progress) {
+    showInstructionPanel(navigation.instruction, navigation.progress);
+    showBottomPanel(navigation.progress);
     showFollowButton();
   } else {
     hidePanels();
@@ -285,7 +293,7 @@ function hidePanels() {
 function registerRouteTapCallback() {
   if (!map) return;
   map.registerTouchCallback(async (pos: any) => {
-    if (isSimulationActive) return;
+    if (navigation.isActive) return;
 
     await map!.setCursorScreenPosition(pos);
     const selectedRoutes = map!.cursorSelectionRoutes();
@@ -296,7 +304,7 @@ function registerRouteTapCallback() {
   });
 }
 
-function onBuildRouteButtonPressed() {
+async function onBuildRouteButtonPressed() {
   if (!map) return;
 
   // Paris area: Versailles → Disneyland Paris
@@ -310,27 +318,33 @@ function onBuildRouteButtonPressed() {
   const routePreferences = new RoutePreferences({});
   showMessage('Calculating route...');
 
-  routingHandler = RoutingService.calculateRoute(
-    [departureLandmark, destinationLandmark],
-    routePreferences,
-    (err: GemError, calculatedRoutes: Route[]) => {
-      routingHandler = null;
-      if (err === GemError.success && calculatedRoutes.length > 0) {
-        const routesMap = map?.preferences.routes;
-        calculatedRoutes.forEach((route, index) => {
-          routesMap?.add(route, index === 0, { label: getRouteLabel(route) });
-        });
-        map?.centerOnRoutes({ routes: calculatedRoutes });
-        routes = calculatedRoutes;
-        areRoutesBuilt = true;
-        showMessage('Routes calculated!');
-      } else {
-        showMessage('Route calculation failed.');
-      }
-      updateUI();
-    }
-  );
+  routingController = new AbortController();
   updateUI();
+
+  try {
+    const calculatedRoutes = await calculateRouteAsync(
+      { RoutingService, GemError },
+      [departureLandmark, destinationLandmark],
+      routePreferences,
+      { signal: routingController.signal }
+    );
+
+    const routesMap = map?.preferences.routes;
+    calculatedRoutes.forEach((route: Route, index: number) => {
+      routesMap?.add(route, index === 0, { label: getRouteLabel(route) });
+    });
+    map?.centerOnRoutes({ routes: calculatedRoutes });
+    routes = calculatedRoutes;
+    areRoutesBuilt = true;
+    showMessage('Routes calculated!');
+  } catch (error) {
+    if (!(error instanceof RoutingError && error.isCancelled)) {
+      showMessage(error instanceof RoutingError ? error.message : 'Route calculation failed.');
+    }
+  } finally {
+    routingController = null;
+    updateUI();
+  }
 }
 
 function startSimulation() {
@@ -342,33 +356,18 @@ function startSimulation() {
     return;
   }
 
-  navigationHandler = NavigationService.startSimulation(routesMap.mainRoute, undefined, {
-    onNavigationInstruction: (instruction: NavigationInstruction) => {
-      isSimulationActive = true;
-      currentInstruction = instruction;
-      updateUI();
-    },
-    onError: (error: GemError) => {
-      isSimulationActive = false;
-      cancelRoute();
-      if (error !== GemError.cancel) {
-        stopSimulation();
-      }
-    },
-  });
+  if (!navigation.startSimulation(routesMap.mainRoute)) {
+    showMessage('Simulation could not be started');
+    return;
+  }
   map.startFollowingPosition?.();
-  isSimulationActive = true;
   updateUI();
   showMessage('Simulation started');
 }
 
 function stopSimulation() {
-  if (navigationHandler) {
-    NavigationService.cancelNavigation(navigationHandler);
-    navigationHandler = null;
-  }
+  navigation.stop();
   cancelRoute();
-  isSimulationActive = false;
   areRoutesBuilt = false;
   updateUI();
   showMessage('Simulation stopped');
@@ -377,13 +376,14 @@ function stopSimulation() {
 function cancelRoute() {
   if (!map) return;
   map.preferences.routes.clear();
+  routingController?.abort();
   routes = null;
   areRoutesBuilt = false;
   updateUI();
 }
 
 // Modern Top Instruction Card
-function showInstructionPanel(instruction: NavigationInstruction) {
+function showInstructionPanel(instruction: NavigationInstruction, progress: NavigationProgress) {
   if (!instructionPanel) {
     instructionPanel = document.createElement('div');
     instructionPanel.style.cssText = `
@@ -431,14 +431,14 @@ function showInstructionPanel(instruction: NavigationInstruction) {
 
   const infoDiv = document.createElement('div');
   infoDiv.innerHTML = `
-    <div style="font-size:32px; font-weight:700; margin-bottom: 6px;">${getFormattedDistanceToNextTurn(instruction)}</div>
+    <div style="font-size:32px; font-weight:700; margin-bottom: 6px;">${convertDistance(progress.distanceToNextTurn)}</div>
     <div style="font-size:20px; font-weight:400; opacity: 0.9; line-height: 1.3;">${instruction.nextStreetName || 'Follow route'}</div>
   `;
   instructionPanel.appendChild(infoDiv);
 }
 
 // Modern Bottom Status Bar
-function showBottomPanel(instruction: NavigationInstruction) {
+function showBottomPanel(progress: NavigationProgress) {
   if (!bottomPanel) {
     bottomPanel = document.createElement('div');
     bottomPanel.style.cssText = `
@@ -465,17 +465,17 @@ function showBottomPanel(instruction: NavigationInstruction) {
   bottomPanel.innerHTML = `
     <div style="text-align:center;">
         <div style="font-size:14px; color:#888; text-transform:uppercase; font-weight:600;">Time</div>
-        <div style="font-size:22px; font-weight:700; color:#4caf50;">${getFormattedRemainingDuration(instruction)}</div>
+        <div style="font-size:22px; font-weight:700; color:#4caf50;">${convertDuration(progress.remainingDuration)}</div>
     </div>
     <div style="width:1px; height:40px; background:#eee;"></div>
     <div style="text-align:center;">
         <div style="font-size:14px; color:#888; text-transform:uppercase; font-weight:600;">Arrival</div>
-        <div style="font-size:22px; font-weight:700;">${getFormattedETA(instruction)}</div>
+        <div style="font-size:22px; font-weight:700;">${formatClockTime(progress.eta)}</div>
     </div>
     <div style="width:1px; height:40px; background:#eee;"></div>
     <div style="text-align:center;">
         <div style="font-size:14px; color:#888; text-transform:uppercase; font-weight:600;">Distance</div>
-        <div style="font-size:22px; font-weight:700;">${getFormattedRemainingDistance(instruction)}</div>
+        <div style="font-size:22px; font-weight:700;">${convertDistance(progress.remainingDistance)}</div>
     </div>
   `;
 }
@@ -528,26 +528,6 @@ function getRouteLabel(route: Route): string {
   return `${convertDistance(totalDistance)}\n${convertDuration(totalDuration)}`;
 }
 
-function getFormattedDistanceToNextTurn(instruction: NavigationInstruction): string {
-  const td = instruction.timeDistanceToNextTurn;
-  const totalDistance = td.unrestrictedDistanceM + td.restrictedDistanceM;
-  return convertDistance(totalDistance);
-}
-function getFormattedRemainingDistance(instruction: NavigationInstruction): string {
-  const td = instruction.remainingTravelTimeDistance;
-  const totalDistance = td.unrestrictedDistanceM + td.restrictedDistanceM;
-  return convertDistance(totalDistance);
-}
-function getFormattedRemainingDuration(instruction: NavigationInstruction): string {
-  const td = instruction.remainingTravelTimeDistance;
-  const totalDuration = td.unrestrictedTimeS + td.restrictedTimeS;
-  return convertDuration(totalDuration);
-}
-function getFormattedETA(instruction: NavigationInstruction): string {
-  const td = instruction.remainingTravelTimeDistance;
-  const totalDuration = td.unrestrictedTimeS + td.restrictedTimeS;
-  return getCurrentTime({ additionalSeconds: totalDuration });
-}
 function convertDistance(meters: number): string {
   if (meters >= 1000) {
     const kilometers = meters / 1000;
@@ -562,14 +542,3 @@ function convertDuration(seconds: number): string {
   if (hours > 0) return `${hours}h ${minutes}m`;
   return `${minutes} min`;
 }
-function getCurrentTime({
-  additionalHours = 0,
-  additionalMinutes = 0,
-  additionalSeconds = 0,
-} = {}): string {
-  const now = new Date();
-  const updatedTime = new Date(
-    now.getTime() + additionalHours * 3600000 + additionalMinutes * 60000 + additionalSeconds * 1000
-  );
-  return updatedTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
@@ -20,25 +20,24 @@ import {
   ImageFileFormat,
   GemIcon,
   GenericCategory,
+  AddressField,
 } from '@magiclane/maps-sdk';
 import {
   GEMKIT_TOKEN,
   ICONS,
   showMessage,
   styleButton,
-  convertDistance,
   BUTTON_COLORS,
   styles,
   applyStyles,
   mergeStyles,
   createSidebar,
   createSidebarHeader,
-  createCard,
-  createSpinner,
   createCloseButton,
   initializeSDK,
   createMapView,
   EventListenerManager,
+  ResultList,
 } from '../../shared';
 
 let map: GemMap | null = null;
@@ -57,7 +56,7 @@ const defaultPosition = new Coordinates({
 
 // UI Elements
 let sidebarPanel: HTMLDivElement;
-let resultsContainer: HTMLDivElement;
+let resultList: ResultList<Landmark, HighlightRenderSettings>;
 let whatIsNearbyBtn: HTMLButtonElement;
 let followBtn: HTMLButtonElement | null = null;
 
@@ -135,15 +134,17 @@ function initSidebar() {
   const header = createSidebarHeader("What's Nearby", () => toggleSidebar(false));
   sidebarPanel.appendChild(header);
 
-  // Results Container
-  resultsContainer = document.createElement('div');
-  applyStyles(resultsContainer, {
-    flex: '1',
-    overflowY: 'auto',
-    padding: '10px 20px',
-    background: '#fff',
-  });
-  sidebarPanel.appendChild(resultsContainer);
+  // Results list using shared component
+  resultList = new ResultList(
+    { Landmark, AddressField, ImageFileFormat, HighlightRenderSettings, HighlightOptions, GemIcon },
+    {
+      getMap: () => map,
+      onSelect: () => {
+        if (window.innerWidth < 600) toggleSidebar(false);
+      },
+    }
+  );
+  sidebarPanel.appendChild(resultList.element);
 
   document.body.appendChild(sidebarPanel);
 }
@@ -157,11 +158,7 @@ function toggleSidebar(show: boolean) {
 async function performSearch() {
   toggleSidebar(true);
 
-  // Use shared spinner component
-  resultsContainer.innerHTML = '';
-  const spinnerContainer = createSpinner();
-  spinnerContainer.appendChild(document.createTextNode('Scanning area...'));
-  resultsContainer.appendChild(spinnerContainer);
+  resultList.showMessage('Scanning area...');
 
   const searchPosition = currentPosition || defaultPosition;
   const normalizedPosition = new Coordinates({
@@ -172,115 +169,12 @@ async function performSearch() {
 
   try {
     const nearbyLandmarks = await getNearbyLocations(normalizedPosition);
-    renderResults(nearbyLandmarks, normalizedPosition);
+    resultList.setResults(nearbyLandmarks, normalizedPosition);
   } catch (e) {
-    resultsContainer.innerHTML = `<div style="padding: 20px; text-align: center; color: #e74c3c;">Error loading locations</div>`;
+    resultList.showMessage('Error loading locations');
   }
 }
 
-function renderResults(landmarks: Landmark[], currentPos: Coordinates) {
-  resultsContainer.innerHTML = '';
-
-  if (landmarks.length === 0) {
-    const emptyState = document.createElement('div');
-    applyStyles(
-      emptyState,
-      mergeStyles(styles.textMuted, {
-        padding: '20px',
-        textAlign: 'center',
-      })
-    );
-    emptyState.textContent = 'No locations found nearby.';
-    resultsContainer.appendChild(emptyState);
-    return;
-  }
-
-  landmarks.forEach((landmark) => {
-    // Use shared card component
-    const item = createCard(() => {
-      if (map && landmark.coordinates) {
-        map.centerOnCoordinates(landmark.coordinates, { zoomLevel: 70 });
-        try {
-          const renderSettings = new HighlightRenderSettings({
-            options: new Set([HighlightOptions.showLandmark]),
-          });
-          try {
-            landmark.setImageFromIcon(GemIcon.searchResultsPin);
-          } catch (e) {}
-          map.activateHighlight([landmark], { renderSettings });
-        } catch (e) {
-          map.activateHighlight([landmark]);
-        }
-        if (window.innerWidth < 600) toggleSidebar(false);
-      }
-    });
-
-    // Icon / Image
-    const iconDiv = document.createElement('div');
-    applyStyles(iconDiv, styles.iconContainer);
-
-    let hasImage = false;
-    try {
-      const imageData = landmark.getImage({ width: 48, height: 48 }, ImageFileFormat.png);
-      if (imageData && imageData.byteLength > 0) {
-        const img = document.createElement('img');
-        const blob = new Blob([new Uint8Array(imageData.buffer as ArrayBuffer)], {
-          type: 'image/png',
-        });
-        img.src = URL.createObjectURL(blob);
-        applyStyles(img, { width: '100%', height: '100%', objectFit: 'cover' });
-        iconDiv.appendChild(img);
-        hasImage = true;
-      }
-    } catch (e) {}
-
-    if (!hasImage) {
-      iconDiv.innerHTML = ICONS.pin;
-    }
-
-    // Text
-    const contentDiv = document.createElement('div');
-    applyStyles(contentDiv, { flex: '1', minWidth: '0' });
-
-    const name =
-      landmark.name ||
-      (landmark.categories && landmark.categories.length > 0
-        ? landmark.categories[0].name
-        : 'Unknown');
-    const dist = landmark.coordinates
-      ? convertDistance(landmark.coordinates.distance(currentPos))
-      : '';
-
-    const nameEl = document.createElement('div');
-    applyStyles(nameEl, {
-      fontWeight: '600',
-      color: '#333',
-      fontSize: '14px',
-      whiteSpace: 'nowrap',
-      overflow: 'hidden',
-      textOverflow: 'ellipsis',
-    });
-    nameEl.textContent = name;
-
-    const distEl = document.createElement('div');
-    applyStyles(distEl, {
-      color: '#673ab7',
-      fontSize: '12px',
-      fontWeight: '500',
-      marginTop: '2px',
-    });
-    distEl.textContent = `${dist} away`;
-
-    contentDiv.appendChild(nameEl);
-    contentDiv.appendChild(distEl);
-
-    item.appendChild(iconDiv);
-    item.appendChild(contentDiv);
-
-    resultsContainer.appendChild(item);
-  });
-}
-
 function showFollowButton() {
   if (followBtn) return;
 